@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { CategoryValidationError } from '../app/core/models/category.schema';
+import { ExchangeRatesValidationError } from '../app/core/models/exchange-rates.schema';
+import { ProductValidationError } from '../app/core/models/product.schema';
+import { WarehouseValidationError } from '../app/core/models/warehouse.schema';
+import { handle } from './async-handler';
+import { isFixtureName, listFixtures, loadFixture } from './fixtures';
+import { ProductRepository } from './product-repository';
+
+/**
+ * Creates the `/admin` routes used to manage demo data.
+ *
+ * - `GET /fixtures` lists the fixture sets that can be loaded.
+ * - `POST /reset` with `{ "fixture": "<name>" }` replaces the whole
+ *   catalog, its categories, warehouses and exchange rates with a
+ *   fixture in a single atomic write.
+ *
+ * @param repository - Storage for the product catalog
+ * @param fixturesDir - Directory with one JSON file per fixture
+ */
+export function createAdminRouter(repository: ProductRepository, fixturesDir: string): Router {
+  const router = Router();
+
+  router.get('/fixtures', handle(async (req, res) => {
+    res.json(await listFixtures(fixturesDir));
+  }));
+
+  router.post('/reset', handle(async (req, res) => {
+    const name = req.body?.fixture ?? 'default';
+    if (!isFixtureName(name)) {
+      res.status(400).json({ error: 'The fixture name may only contain lowercase letters, digits and dashes' });
+      return;
+    }
+
+    let fixture: Awaited<ReturnType<typeof loadFixture>>;
+    try {
+      fixture = await loadFixture(fixturesDir, name);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        res.status(404).json({ error: `Fixture ${name} not found` });
+        return;
+      }
+      if (
+        error instanceof ProductValidationError ||
+        error instanceof CategoryValidationError ||
+        error instanceof WarehouseValidationError ||
+        error instanceof ExchangeRatesValidationError
+      ) {
+        res.status(500).json({ error: `Fixture ${name} is invalid: ${error.message}` });
+        return;
+      }
+      throw error;
+    }
+
+    res.json(await repository.replaceAll(fixture.products, fixture.categories, fixture.warehouses, fixture.exchangeRates));
+  }));
+
+  return router;
+}
@@ -0,0 +1,11 @@
+import { Request, RequestHandler, Response } from 'express';
+
+/**
+ * Wraps an async route handler so rejected promises reach
+ * Express' error handling instead of being left unhandled.
+ */
+export function handle(fn: (req: Request, res: Response) => Promise<void>): RequestHandler {
+  return (req, res, next) => {
+    fn(req, res).catch(next);
+  };
+}
@@ -0,0 +1,92 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import { CategoryValidationError, decodeCategory } from '../app/core/models/category.schema';
+import { handle } from './async-handler';
+import { CategoryConflictError, CategoryInput, CategoryRepository } from './category-repository';
+
+/**
+ * Creates the `/categories` REST routes.
+ *
+ * Categories are few, so `GET /` always returns the whole tree as a
+ * flat list; clients nest them through `parentId`.
+ *
+ * A repeated name at the same level is rejected with 409. So is
+ * deleting a category that still has subcategories or products; in
+ * the latter case the response includes the `productCount`.
+ *
+ * @param repository - Storage for the categories
+ */
+export function createCategoriesRouter(repository: CategoryRepository): Router {
+  const router = Router();
+
+  router.get('/', (req, res) => {
+    res.json(repository.list());
+  });
+
+  router.get('/:id', (req, res) => {
+    const category = repository.get(req.params['id']);
+    if (!category) {
+      sendNotFound(res, req.params['id']);
+      return;
+    }
+    res.json(category);
+  });
+
+  router.post('/', handle(async (req, res) => {
+    const category = await repository.create(readCategoryInput(req.body));
+    res.status(201).location(`${req.baseUrl}/${category.id}`).json(category);
+  }));
+
+  router.put('/:id', handle(async (req, res) => {
+    const id = req.params['id'];
+    if (req.body?.id !== undefined && String(req.body.id) !== id) {
+      res.status(400).json({ error: 'The category id in the body does not match the URL' });
+      return;
+    }
+
+    const category = await repository.update(id, readCategoryInput(req.body));
+    if (!category) {
+      sendNotFound(res, id);
+      return;
+    }
+    res.json(category);
+  }));
+
+  router.delete('/:id', handle(async (req, res) => {
+    if (!(await repository.delete(req.params['id']))) {
+      sendNotFound(res, req.params['id']);
+      return;
+    }
+    res.status(204).end();
+  }));
+
+  router.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
+    if (error instanceof CategoryValidationError) {
+      res.status(400).json({ error: error.message, issues: error.issues });
+      return;
+    }
+    if (error instanceof CategoryConflictError) {
+      res.status(409).json({ error: error.message, productCount: error.productCount });
+      return;
+    }
+    next(error);
+  });
+
+  return router;
+}
+
+/**
+ * Validates a request body and keeps only the editable fields,
+ * with the name trimmed.
+ *
+ * @throws CategoryValidationError if the body is malformed
+ */
+function readCategoryInput(body: unknown): CategoryInput {
+  const { id, ...fields } = decodeCategory(
+    typeof body === 'object' && body !== null ? { ...body, id: undefined } : body
+  );
+  return { ...fields, name: fields.name.trim() };
+}
+
+function sendNotFound(res: Response, id: string): void {
+  res.status(404).json({ error: `Category ${id} not found` });
+}
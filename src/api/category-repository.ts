@@ -0,0 +1,181 @@
+import { randomBytes } from 'node:crypto';
+import { Category, CategoryId } from '../app/core/models/category.interface';
+import { CategoryValidationError } from '../app/core/models/category.schema';
+import { DataStore } from './data-store';
+
+/**
+ * Editable fields of a category.
+ */
+export type CategoryInput = Omit<Category, 'id'>;
+
+/**
+ * Error raised when a write or a deletion would break the category
+ * tree: a repeated name among siblings, or a category that still has
+ * subcategories or products.
+ */
+export class CategoryConflictError extends Error {
+  constructor(
+    message: string,
+    /** Products that still use the category, when that is the reason */
+    readonly productCount?: number
+  ) {
+    super(message);
+    this.name = 'CategoryConflictError';
+  }
+}
+
+/**
+ * Category storage backed by the JSON data file.
+ *
+ * Names are unique among siblings, ignoring case, so "Notebooks" may
+ * exist under two different parents but not twice under the same one.
+ * A category cannot be moved under itself or one of its descendants,
+ * and it cannot be deleted while it has subcategories or while any
+ * product, including those in the trash, is assigned to it.
+ */
+export class CategoryRepository {
+  constructor(private readonly store: DataStore) {}
+
+  private get categories(): readonly Category[] {
+    return this.store.data.categories;
+  }
+
+  /**
+   * Lists every category, in creation order.
+   */
+  list(): Category[] {
+    return this.categories.map(category => ({ ...category }));
+  }
+
+  /**
+   * Finds a category by ID.
+   */
+  get(id: CategoryId): Category | undefined {
+    const category = this.find(id);
+    return category && { ...category };
+  }
+
+  /**
+   * Creates a category with a new ID.
+   *
+   * @throws CategoryValidationError if the parent does not exist
+   * @throws CategoryConflictError if a sibling has the same name
+   */
+  async create(input: CategoryInput): Promise<Category> {
+    this.assertParent(input.parentId);
+    this.assertUnique(input);
+
+    const category: Category = { id: this.generateId(), ...input };
+    await this.commit([...this.categories, category]);
+    return { ...category };
+  }
+
+  /**
+   * Renames or moves a category.
+   *
+   * @returns The stored category, or undefined if it does not exist
+   * @throws CategoryValidationError if the parent does not exist or is the category itself or a descendant
+   * @throws CategoryConflictError if a sibling has the same name
+   */
+  async update(id: CategoryId, input: CategoryInput): Promise<Category | undefined> {
+    if (!this.find(id)) {
+      return undefined;
+    }
+    this.assertParent(input.parentId, id);
+    this.assertUnique(input, id);
+
+    const category: Category = { id, ...input };
+    await this.commit(this.categories.map(item => (item.id === id ? category : item)));
+    return { ...category };
+  }
+
+  /**
+   * Deletes a category that is no longer used.
+   *
+   * @returns Whether the category existed
+   * @throws CategoryConflictError if it has subcategories or products
+   */
+  async delete(id: CategoryId): Promise<boolean> {
+    const category = this.find(id);
+    if (!category) {
+      return false;
+    }
+
+    const children = this.categories.filter(item => item.parentId === id).length;
+    if (children > 0) {
+      throw new CategoryConflictError(`Category "${category.name}" has ${plural(children, 'subcategory', 'subcategories')}`);
+    }
+    const products = this.store.data.products.filter(product => product.categoryId === id).length;
+    if (products > 0) {
+      throw new CategoryConflictError(`Category "${category.name}" is used by ${plural(products, 'product', 'products')}`, products);
+    }
+
+    await this.commit(this.categories.filter(item => item.id !== id));
+    return true;
+  }
+
+  /**
+   * Applies a new category list and persists it.
+   */
+  private commit(next: Category[]): Promise<void> {
+    return this.store.commit({ categories: next });
+  }
+
+  private find(id: CategoryId): Category | undefined {
+    return this.categories.find(item => item.id === id);
+  }
+
+  /**
+   * Checks that a parent exists and is not the category being
+   * updated or one of its descendants, which would create a cycle.
+   */
+  private assertParent(parentId: CategoryId | undefined, id?: CategoryId): void {
+    if (parentId === undefined) {
+      return;
+    }
+    if (!this.find(parentId)) {
+      throw new CategoryValidationError([{ field: 'parentId', message: `${parentId} does not exist` }]);
+    }
+    let ancestor: CategoryId | undefined = parentId;
+    while (ancestor !== undefined) {
+      if (ancestor === id) {
+        throw new CategoryValidationError([
+          { id, field: 'parentId', message: 'must not be the category itself or a subcategory of it' }
+        ]);
+      }
+      ancestor = this.find(ancestor)?.parentId;
+    }
+  }
+
+  /**
+   * Checks that no sibling has the same name, ignoring case.
+   */
+  private assertUnique(input: CategoryInput, exceptId?: CategoryId): void {
+    const name = normalize(input.name);
+    const same = this.categories.find(
+      item => item.id !== exceptId && item.parentId === input.parentId && normalize(item.name) === name
+    );
+    if (same) {
+      throw new CategoryConflictError(`A category named "${same.name}" already exists at this level`);
+    }
+  }
+
+  /**
+   * Generates a short random ID in the same format as products.
+   */
+  private generateId(): CategoryId {
+    let id: CategoryId;
+    do {
+      id = randomBytes(2).toString('hex');
+    } while (this.categories.some(item => item.id === id));
+    return id;
+  }
+}
+
+function plural(count: number, one: string, many: string): string {
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+function normalize(text: string): string {
+  return text.trim().toLocaleLowerCase('es-CL');
+}
@@ -0,0 +1,122 @@
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import { Category } from '../app/core/models/category.interface';
+import { CurrencyCode, DEFAULT_CURRENCY, DEFAULT_EXCHANGE_RATES, ExchangeRates, Money } from '../app/core/models/money';
+import { Product } from '../app/core/models/product.interface';
+import { StockMovement } from '../app/core/models/stock-movement.interface';
+import { Warehouse } from '../app/core/models/warehouse.interface';
+import { openingMovements, withLedgerStock } from './stock-ledger';
+
+/** Warehouse created for data files written before warehouses existed */
+export const DEFAULT_WAREHOUSE: Warehouse = { id: 'principal', name: 'Bodega principal' };
+
+/**
+ * Product as saved before prices carried their currency: a number
+ * price with the currency next to it, CLP when omitted.
+ */
+type StoredProduct = Omit<Product, 'price'> & { price: Money | number; currency?: CurrencyCode };
+
+/**
+ * Shape of the JSON data file, compatible with json-server's db.json.
+ */
+export interface DataFile {
+  products: Product[];
+  categories: Category[];
+  /** Locations where stock is kept, the main one first */
+  warehouses: Warehouse[];
+  /** Stock ledger of every product, oldest first */
+  movements: StockMovement[];
+  /** Rates used to compare and convert prices in different currencies */
+  exchangeRates: ExchangeRates;
+}
+
+/**
+ * JSON data file shared by the repositories.
+ *
+ * Keeps the whole file in memory and writes it again on every
+ * change. Writes go to a temporary file that is then renamed over
+ * the original, so a crash never leaves a half-written file, and
+ * they are queued so concurrent requests never interleave. If a
+ * write fails, the in-memory data is rolled back.
+ *
+ * Records from older data files are normalized when the file is
+ * opened: products without a version start at version 1, those
+ * without a status are active, number prices become Money values in
+ * their `currency` or CLP, missing category and movement lists
+ * are empty, and products whose stock does not match their movements
+ * get an opening adjustment for the difference. Files without
+ * warehouses get DEFAULT_WAREHOUSE, and movements without a warehouse
+ * are assigned to the main one, and files without exchange rates
+ * get DEFAULT_EXCHANGE_RATES. The stock of every product is then
+ * taken from the ledger.
+ */
+export class DataStore {
+  private current: DataFile;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor(private readonly file: string, data: DataFile) {
+    this.current = data;
+  }
+
+  /**
+   * Loads a data file.
+   *
+   * @param file - Path of the JSON file with `products`, `categories`, `warehouses` and `movements` arrays and an `exchangeRates` table
+   */
+  static async open(file: string): Promise<DataStore> {
+    const data = JSON.parse(await readFile(file, 'utf8')) as Partial<Omit<DataFile, 'products'> & { products: StoredProduct[] }>;
+    const warehouses = data.warehouses?.length ? data.warehouses : [DEFAULT_WAREHOUSE];
+    const mainWarehouseId = warehouses[0].id!;
+    const products = (data.products ?? []).map(({ currency, ...product }) => ({
+      ...product,
+      price: typeof product.price === 'number' ? { amount: product.price, currency: currency ?? DEFAULT_CURRENCY } : product.price,
+      status: product.status ?? 'active',
+      version: product.version ?? 1
+    }));
+    const recorded = (data.movements ?? []).map(movement => ({ ...movement, warehouseId: movement.warehouseId ?? mainWarehouseId }));
+    const movements = [...recorded, ...openingMovements(products, recorded, mainWarehouseId)];
+    return new DataStore(file, {
+      products: products.map(product => withLedgerStock(product, movements)),
+      categories: data.categories ?? [],
+      warehouses,
+      movements,
+      exchangeRates: data.exchangeRates ?? DEFAULT_EXCHANGE_RATES
+    });
+  }
+
+  /**
+   * Current contents of the file. Must not be mutated; use commit().
+   */
+  get data(): Readonly<DataFile> {
+    return this.current;
+  }
+
+  /**
+   * Applies new collections and persists them, in write order.
+   *
+   * @param changes - Collections to replace; the rest are kept
+   */
+  commit(changes: Partial<DataFile>): Promise<void> {
+    const previous = this.current;
+    const next = { ...previous, ...changes };
+    this.current = next;
+
+    const write = this.writeQueue.then(() => this.persist(next));
+    this.writeQueue = write.catch(() => undefined);
+
+    return write.catch(error => {
+      if (this.current === next) {
+        this.current = previous;
+      }
+      throw error;
+    });
+  }
+
+  /**
+   * Writes the data file atomically through a temporary file.
+   */
+  private async persist(data: DataFile): Promise<void> {
+    const tempFile = `${this.file}.${process.pid}.tmp`;
+    await writeFile(tempFile, JSON.stringify(data, null, 2), 'utf8');
+    await rename(tempFile, this.file);
+  }
+}
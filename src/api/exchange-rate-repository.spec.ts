@@ -0,0 +1,67 @@
+import { ExchangeRates } from '../app/core/models/money';
+import { Product } from '../app/core/models/product.interface';
+import { DataFile, DataStore } from './data-store';
+import { ExchangeRateConflictError, ExchangeRateRepository } from './exchange-rate-repository';
+
+/**
+ * Pruebas unitarias para ExchangeRateRepository.
+ *
+ * Verifica que no se puedan quitar los tipos de cambio de las
+ * monedas en que hay productos.
+ */
+describe('ExchangeRateRepository', () => {
+  let data: Pick<DataFile, 'products' | 'exchangeRates'>;
+  let repository: ExchangeRateRepository;
+
+  const products: Product[] = [
+    { id: '1', sku: 'APL-IPH15', name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10, version: 1 },
+    { id: '2', sku: 'APL-WATCH', name: 'Apple Watch', price: { amount: 399.99, currency: 'USD' }, stock: 4, version: 1 }
+  ];
+
+  beforeEach(() => {
+    data = { products, exchangeRates: { base: 'CLP', rates: { CLP: 1, USD: 950, PEN: 253 } } };
+    const store = {
+      get data() {
+        return data;
+      },
+      commit: (changes: Partial<DataFile>) => {
+        data = { ...data, ...changes };
+        return Promise.resolve();
+      }
+    };
+    repository = new ExchangeRateRepository(store as unknown as DataStore);
+  });
+
+  /**
+   * Prueba que se guarden las tasas que cubren todas las monedas en uso.
+   */
+  it('should replace the rates when every currency in use keeps one', async () => {
+    const stored = await repository.replace({ base: 'CLP', rates: { CLP: 1, USD: 960 } });
+
+    expect(stored.rates).toEqual({ CLP: 1, USD: 960 });
+    expect(stored.updatedAt).toBeDefined();
+    expect(repository.get()).toEqual(stored);
+  });
+
+  /**
+   * Prueba que cambiar la moneda base no deje sin tasa a los productos en CLP.
+   */
+  it('should reject a new base that leaves out the previous one', async () => {
+    const rates: ExchangeRates = { base: 'USD', rates: { USD: 1, PEN: 0.27 } };
+
+    await expectAsync(repository.replace(rates)).toBeRejectedWith(
+      new ExchangeRateConflictError('Products are still priced in CLP', ['CLP'])
+    );
+    expect(data.exchangeRates.base).toBe('CLP');
+  });
+
+  /**
+   * Prueba que se informen todas las monedas en uso que quedarían sin tasa.
+   */
+  it('should list every currency in use that the rates leave out', async () => {
+    const error = await repository.replace({ base: 'PEN', rates: { PEN: 1 } }).catch(error => error);
+
+    expect(error).toBeInstanceOf(ExchangeRateConflictError);
+    expect(error.currencies).toEqual(['CLP', 'USD']);
+  });
+});
@@ -0,0 +1,55 @@
+import { CurrencyCode, ExchangeRates } from '../app/core/models/money';
+import { DataStore } from './data-store';
+
+/**
+ * Error raised when new exchange rates leave out a currency that
+ * products are still priced in.
+ */
+export class ExchangeRateConflictError extends Error {
+  constructor(
+    message: string,
+    /** Currencies still in use that the new rates leave out */
+    readonly currencies: CurrencyCode[]
+  ) {
+    super(message);
+    this.name = 'ExchangeRateConflictError';
+  }
+}
+
+/**
+ * Exchange rate storage backed by the JSON data file.
+ *
+ * Holds a single table. Every currency a product is priced in,
+ * including products in the trash, must keep a rate so prices can
+ * always be compared.
+ */
+export class ExchangeRateRepository {
+  constructor(private readonly store: DataStore) {}
+
+  /**
+   * Current exchange rates.
+   */
+  get(): ExchangeRates {
+    const { exchangeRates } = this.store.data;
+    return { ...exchangeRates, rates: { ...exchangeRates.rates } };
+  }
+
+  /**
+   * Replaces the exchange rates, stamping them with the current date.
+   *
+   * @returns The stored rates
+   * @throws ExchangeRateConflictError if a product is priced in a currency the new rates leave out
+   */
+  async replace(input: ExchangeRates): Promise<ExchangeRates> {
+    const missing = [...new Set(this.store.data.products.map(product => product.price.currency))]
+      .filter(currency => currency !== input.base && !(currency in input.rates))
+      .sort();
+    if (missing.length > 0) {
+      throw new ExchangeRateConflictError(`Products are still priced in ${missing.join(', ')}`, missing);
+    }
+
+    const exchangeRates: ExchangeRates = { base: input.base, rates: { ...input.rates }, updatedAt: new Date().toISOString() };
+    await this.store.commit({ exchangeRates });
+    return this.get();
+  }
+}
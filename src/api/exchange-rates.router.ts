@@ -0,0 +1,40 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import { decodeExchangeRates, ExchangeRatesValidationError } from '../app/core/models/exchange-rates.schema';
+import { handle } from './async-handler';
+import { ExchangeRateConflictError, ExchangeRateRepository } from './exchange-rate-repository';
+
+/**
+ * Creates the `/exchange-rates` REST routes.
+ *
+ * `GET /` returns the rate table and `PUT /` replaces it. Rates give
+ * the value of one unit of each currency in the `base` currency.
+ * Leaving out a currency that products are priced in is rejected
+ * with 409 and the `currencies` still in use.
+ *
+ * @param repository - Storage for the exchange rates
+ */
+export function createExchangeRatesRouter(repository: ExchangeRateRepository): Router {
+  const router = Router();
+
+  router.get('/', (req, res) => {
+    res.json(repository.get());
+  });
+
+  router.put('/', handle(async (req, res) => {
+    res.json(await repository.replace(decodeExchangeRates(req.body)));
+  }));
+
+  router.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
+    if (error instanceof ExchangeRatesValidationError) {
+      res.status(400).json({ error: error.message, issues: error.issues });
+      return;
+    }
+    if (error instanceof ExchangeRateConflictError) {
+      res.status(409).json({ error: error.message, currencies: error.currencies });
+      return;
+    }
+    next(error);
+  });
+
+  return router;
+}
@@ -0,0 +1,116 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { Category } from '../app/core/models/category.interface';
+import { decodeCategories } from '../app/core/models/category.schema';
+import { decodeExchangeRates } from '../app/core/models/exchange-rates.schema';
+import { DatabaseFixture } from '../app/core/models/fixture.interface';
+import { DEFAULT_EXCHANGE_RATES, ExchangeRates } from '../app/core/models/money';
+import { Product } from '../app/core/models/product.interface';
+import { decodeProducts, ProductIssue, ProductValidationError } from '../app/core/models/product.schema';
+import { Warehouse } from '../app/core/models/warehouse.interface';
+import { decodeWarehouses } from '../app/core/models/warehouse.schema';
+
+/** Fixture names are file names without extension; nothing else is accepted */
+const FIXTURE_NAME = /^[a-z0-9][a-z0-9-]*$/;
+
+/**
+ * Contents of a fixture file.
+ */
+interface FixtureFile {
+  label?: string;
+  description?: string;
+  products: unknown;
+  categories?: unknown;
+  warehouses?: unknown;
+  exchangeRates?: unknown;
+}
+
+/**
+ * Whether a string is a well-formed fixture name.
+ *
+ * Rejecting anything else keeps requests from reading files
+ * outside the fixtures directory.
+ */
+export function isFixtureName(name: unknown): name is string {
+  return typeof name === 'string' && FIXTURE_NAME.test(name);
+}
+
+/**
+ * Lists the fixtures available in a directory, sorted by name.
+ *
+ * @param dir - Directory with one `<name>.json` file per fixture
+ */
+export async function listFixtures(dir: string): Promise<DatabaseFixture[]> {
+  const files = (await readdir(dir)).filter(file => file.endsWith('.json')).sort();
+  const fixtures: DatabaseFixture[] = [];
+
+  for (const file of files) {
+    const name = file.slice(0, -'.json'.length);
+    if (!isFixtureName(name)) {
+      continue;
+    }
+    const { label, description, products } = await loadFixture(dir, name);
+    fixtures.push({ name, label, description, productCount: products.length });
+  }
+  return fixtures;
+}
+
+/**
+ * Reads and validates a fixture.
+ *
+ * Products may split their stock among the warehouses of the file
+ * with `warehouseStock`; the rest keep it in the first warehouse.
+ * Files without `exchangeRates` get DEFAULT_EXCHANGE_RATES, and every
+ * product must be priced in a currency with a rate.
+ *
+ * @param dir - Directory with the fixture files
+ * @param name - Fixture name, already checked with isFixtureName()
+ * @throws ProductValidationError if a product in the file is malformed, uses an unknown
+ * category, warehouse or currency, or its `warehouseStock` does not add up to its stock
+ * @throws CategoryValidationError if a category in the file is malformed
+ * @throws WarehouseValidationError if a warehouse in the file is malformed
+ * @throws ExchangeRatesValidationError if the exchange rates of the file are malformed
+ */
+export async function loadFixture(
+  dir: string,
+  name: string
+): Promise<{
+  label: string;
+  description?: string;
+  products: Product[];
+  categories: Category[];
+  warehouses: Warehouse[];
+  exchangeRates: ExchangeRates;
+}> {
+  const data = JSON.parse(await readFile(join(dir, `${name}.json`), 'utf8')) as FixtureFile;
+  const products = decodeProducts(data.products);
+  const categories = decodeCategories(data.categories ?? []);
+  const warehouses = decodeWarehouses(data.warehouses ?? []);
+  const exchangeRates = data.exchangeRates === undefined ? DEFAULT_EXCHANGE_RATES : decodeExchangeRates(data.exchangeRates);
+
+  const issues = products.flatMap((product, index): ProductIssue[] => {
+    const problems: ProductIssue[] = [];
+    if (product.categoryId !== undefined && !categories.some(category => category.id === product.categoryId)) {
+      problems.push({ index, id: product.id, field: 'categoryId', message: `${product.categoryId} does not exist` });
+    }
+    const { currency } = product.price;
+    if (currency !== exchangeRates.base && !(currency in exchangeRates.rates)) {
+      problems.push({ index, id: product.id, field: 'price.currency', message: `${currency} has no exchange rate` });
+    }
+    if (product.warehouseStock) {
+      const unknown = Object.keys(product.warehouseStock).filter(id => !warehouses.some(warehouse => warehouse.id === id));
+      const units = Object.values(product.warehouseStock).reduce((total, count) => total + count, 0);
+      if (unknown.length > 0) {
+        problems.push({ index, id: product.id, field: 'warehouseStock', message: `${unknown.join(', ')} does not exist` });
+      } else if (units !== product.stock) {
+        problems.push({ index, id: product.id, field: 'warehouseStock', message: `adds up to ${units} instead of ${product.stock}` });
+      }
+    }
+    return problems;
+  });
+  if (issues.length > 0) {
+    throw new ProductValidationError(issues);
+  }
+
+  return { label: data.label ?? name, description: data.description, products, categories, warehouses, exchangeRates };
+}
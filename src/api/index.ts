@@ -0,0 +1,81 @@
+import express, { NextFunction, Request, Response, Router } from 'express';
+import { createAdminRouter } from './admin.router';
+import { createCategoriesRouter } from './categories.router';
+import { CategoryRepository } from './category-repository';
+import { DataStore } from './data-store';
+import { ExchangeRateRepository } from './exchange-rate-repository';
+import { createExchangeRatesRouter } from './exchange-rates.router';
+import { ProductRepository } from './product-repository';
+import { createProductsRouter } from './products.router';
+import { StockMovementRepository } from './stock-movement-repository';
+import { createStockMovementsRouter, createStockTransfersRouter } from './stock-movements.router';
+import { WarehouseRepository } from './warehouse-repository';
+import { createWarehousesRouter } from './warehouses.router';
+
+/**
+ * Options of the REST API.
+ */
+export interface ApiOptions {
+  /** Path of the JSON data file (same format as json-server's db.json) */
+  dataFile: string;
+  /** Directory with the fixture sets the database can be reset to */
+  fixturesDir: string;
+}
+
+/**
+ * Creates the REST API served under `/api`.
+ *
+ * The data file is opened on the first request, so importing the
+ * server (e.g. during the build) does not touch the file system.
+ *
+ * @param options - Location of the data file
+ */
+export function createApiRouter(options: ApiOptions): Router {
+  const api = Router();
+  let routes: Promise<Router> | null = null;
+
+  api.use(express.json());
+
+  api.use((req, res, next) => {
+    routes ??= DataStore.open(options.dataFile).then(store => createRoutes(store, options));
+    routes.then(
+      router => router(req, res, next),
+      error => {
+        routes = null;
+        next(error);
+      }
+    );
+  });
+
+  api.use((req, res) => {
+    res.status(404).json({ error: `Cannot ${req.method} ${req.baseUrl}${req.path}` });
+  });
+
+  api.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
+    if ((error as { type?: string }).type === 'entity.parse.failed') {
+      res.status(400).json({ error: 'The request body is not valid JSON' });
+      return;
+    }
+    console.error('API error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  });
+
+  return api;
+}
+
+/**
+ * Mounts the resource routers once the storage is ready.
+ */
+function createRoutes(store: DataStore, options: ApiOptions): Router {
+  const products = new ProductRepository(store);
+  const movements = new StockMovementRepository(store);
+  const router = Router();
+  router.use('/products/:id/movements', createStockMovementsRouter(movements));
+  router.use('/products/:id/transfers', createStockTransfersRouter(movements));
+  router.use('/products', createProductsRouter(products));
+  router.use('/categories', createCategoriesRouter(new CategoryRepository(store)));
+  router.use('/warehouses', createWarehousesRouter(new WarehouseRepository(store)));
+  router.use('/exchange-rates', createExchangeRatesRouter(new ExchangeRateRepository(store)));
+  router.use('/admin', createAdminRouter(products, options.fixturesDir));
+  return router;
+}
@@ -0,0 +1,421 @@
+import { randomBytes } from 'node:crypto';
+import { Category, CategoryId } from '../app/core/models/category.interface';
+import { CurrencyCode, DEFAULT_EXCHANGE_RATES, ExchangeRates, convertMoney } from '../app/core/models/money';
+import { Product, ProductId } from '../app/core/models/product.interface';
+import { ProductSortField, SortDirection } from '../app/core/models/product-query.interface';
+import { ProductValidationError } from '../app/core/models/product.schema';
+import { StockMovement } from '../app/core/models/stock-movement.interface';
+import { Warehouse, WarehouseId } from '../app/core/models/warehouse.interface';
+import { DataStore, DEFAULT_WAREHOUSE } from './data-store';
+import { adjustmentMovements, createMovement, openingMovements, SYSTEM_USER, withLedgerStock } from './stock-ledger';
+
+/**
+ * Criteria accepted by ProductRepository.list().
+ */
+export interface ProductListOptions {
+  search?: string;
+  /** Lowest price, in the base currency of the exchange rates */
+  minPrice?: number;
+  /** Highest price, in the base currency of the exchange rates */
+  maxPrice?: number;
+  minStock?: number;
+  maxStock?: number;
+  sortField?: ProductSortField;
+  sortDirection?: SortDirection;
+  /** Page number, starting at 1. Without it every match is returned */
+  page?: number;
+  limit?: number;
+}
+
+/**
+ * Editable fields of a product.
+ */
+export type ProductInput = Omit<Product, 'id' | 'warehouseStock' | 'version' | 'createdAt' | 'updatedAt' | 'deletedAt'>;
+
+/**
+ * Error raised when a write would break a uniqueness rule.
+ */
+export class ProductConflictError extends Error {
+  constructor(
+    message: string,
+    /** Field whose value is already taken */
+    readonly field: 'name' | 'sku'
+  ) {
+    super(message);
+    this.name = 'ProductConflictError';
+  }
+}
+
+/**
+ * Error raised when an update is based on an outdated version.
+ *
+ * Carries the stored product, so the client can show what changed.
+ */
+export class ProductVersionConflictError extends Error {
+  constructor(readonly current: Product) {
+    super(`Product ${current.id} was modified by someone else (current version ${current.version})`);
+    this.name = 'ProductVersionConflictError';
+  }
+}
+
+/**
+ * Product storage backed by the JSON data file.
+ *
+ * Every product carries a `version` that increases on each write.
+ * A product can only be assigned to a category that exists.
+ *
+ * The stock of a product always matches its stock ledger: creating a
+ * product records the initial units as a receipt in the main
+ * warehouse, and an update that changes the stock records the
+ * difference as adjustments (see adjustmentMovements()).
+ *
+ * Deleting a product only stamps it with `deletedAt`, moving it to
+ * the trash: it disappears from the catalog but can be restored
+ * until it is purged.
+ */
+export class ProductRepository {
+  constructor(private readonly store: DataStore) {}
+
+  private get products(): readonly Product[] {
+    return this.store.data.products;
+  }
+
+  /**
+   * Lists products matching the given criteria.
+   *
+   * @returns The requested page and the total number of matches
+   * @throws Error if a product is priced in a currency without an exchange rate
+   */
+  list(options: ProductListOptions = {}): { items: Product[]; total: number } {
+    const search = options.search?.trim().toLocaleLowerCase('es-CL');
+    let matches = this.products.filter(product =>
+      !product.deletedAt &&
+      (!search || matchesSearch(product, search)) &&
+      inRange(this.baseAmount(product), options.minPrice, options.maxPrice) &&
+      inRange(product.stock, options.minStock, options.maxStock)
+    );
+
+    if (options.sortField) {
+      const field = options.sortField;
+      const direction = options.sortDirection === 'desc' ? -1 : 1;
+      matches = [...matches].sort((a, b) => {
+        const result = field === 'price'
+          ? this.baseAmount(a) - this.baseAmount(b)
+          : field === 'stock'
+            ? a.stock - b.stock
+            : (a[field] ?? '').localeCompare(b[field] ?? '', 'es-CL');
+        return result * direction;
+      });
+    }
+
+    const total = matches.length;
+    if (options.page) {
+      const limit = options.limit ?? 10;
+      const start = (options.page - 1) * limit;
+      matches = matches.slice(start, start + limit);
+    }
+
+    return { items: matches.map(product => ({ ...product })), total };
+  }
+
+  /**
+   * Finds a product of the catalog by ID.
+   *
+   * Products in the trash are not returned.
+   */
+  get(id: ProductId): Product | undefined {
+    const product = this.find(id);
+    return product ? { ...product } : undefined;
+  }
+
+  /**
+   * Lists the products in the trash, most recently deleted first.
+   */
+  listDeleted(): Product[] {
+    return this.products
+      .filter(product => product.deletedAt)
+      .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!))
+      .map(product => ({ ...product }));
+  }
+
+  /**
+   * Creates a product with a newly generated ID.
+   *
+   * @throws ProductConflictError if another product has the same name or SKU
+   * @throws ProductValidationError if the category does not exist or the currency has no exchange rate
+   */
+  async create(input: ProductInput): Promise<Product> {
+    this.assertCategoryExists(input.categoryId);
+    this.assertCurrencyHasRate(input.price.currency);
+    this.assertUnique(input);
+    const now = new Date().toISOString();
+    const id = this.generateId();
+    const movements = input.stock > 0
+      ? [...this.store.data.movements, this.receipt(id, input.stock)]
+      : this.store.data.movements;
+    const product = withLedgerStock({ id, ...input, version: 1, createdAt: now, updatedAt: now }, movements);
+    await this.store.commit({ products: [...this.products, product], movements });
+    return { ...product };
+  }
+
+  /**
+   * Replaces the editable fields of a product.
+   *
+   * @param id - Unique ID of the product
+   * @param input - New values of the editable fields
+   * @param expectedVersion - Version the change was based on
+   * @returns The updated product, or undefined if the ID does not exist
+   * @throws ProductVersionConflictError if the product has a different version
+   * @throws ProductConflictError if another product has the same name or SKU
+   * @throws ProductValidationError if the category does not exist or the currency has no exchange rate
+   */
+  async update(id: ProductId, input: ProductInput, expectedVersion: number): Promise<Product | undefined> {
+    const current = this.find(id);
+    if (!current) {
+      return undefined;
+    }
+    if (current.version !== expectedVersion) {
+      throw new ProductVersionConflictError({ ...current });
+    }
+
+    this.assertCategoryExists(input.categoryId);
+    this.assertCurrencyHasRate(input.price.currency);
+    this.assertUnique(input, id);
+    const movements = [
+      ...this.store.data.movements,
+      ...adjustmentMovements(id, input.stock - current.stock, this.warehouseIds, this.store.data.movements, 'Ajuste al editar el producto')
+    ];
+    const product = withLedgerStock({
+      id,
+      ...input,
+      version: expectedVersion + 1,
+      ...(current.createdAt && { createdAt: current.createdAt }),
+      updatedAt: new Date().toISOString()
+    }, movements);
+    await this.store.commit({
+      products: this.products.map(item => (item.id === id ? product : item)),
+      movements
+    });
+    return { ...product };
+  }
+
+  /**
+   * Moves a product to the trash.
+   *
+   * @returns Whether a product with that ID was in the catalog
+   */
+  async delete(id: ProductId): Promise<boolean> {
+    const current = this.find(id);
+    if (!current) {
+      return false;
+    }
+
+    const now = new Date().toISOString();
+    const product: Product = { ...current, version: current.version! + 1, updatedAt: now, deletedAt: now };
+    await this.commit(this.products.map(item => (item.id === id ? product : item)));
+    return true;
+  }
+
+  /**
+   * Moves a product from the trash back to the catalog.
+   *
+   * Categories cannot be deleted while a product in the trash uses
+   * them, so the restored product keeps a valid category.
+   *
+   * @returns The restored product, or undefined if it is not in the trash
+   * @throws ProductConflictError if a product with the same name or SKU was created meanwhile
+   */
+  async restore(id: ProductId): Promise<Product | undefined> {
+    const current = this.products.find(item => item.id === id && item.deletedAt);
+    if (!current) {
+      return undefined;
+    }
+
+    this.assertUnique(current, id);
+    const { deletedAt, ...fields } = current;
+    const product: Product = { ...fields, version: current.version! + 1, updatedAt: new Date().toISOString() };
+    await this.commit(this.products.map(item => (item.id === id ? product : item)));
+    return { ...product };
+  }
+
+  /**
+   * Permanently deletes a product from the trash, along with its
+   * stock ledger.
+   *
+   * @returns Whether the product was in the trash
+   */
+  async purge(id: ProductId): Promise<boolean> {
+    const remaining = this.products.filter(item => item.id !== id || !item.deletedAt);
+    if (remaining.length === this.products.length) {
+      return false;
+    }
+
+    await this.store.commit({
+      products: remaining,
+      movements: this.store.data.movements.filter(movement => movement.productId !== id)
+    });
+    return true;
+  }
+
+  /**
+   * Replaces the whole catalog, its categories, warehouses and
+   * exchange rates in a single write.
+   *
+   * Either everything is stored or, if the write fails, the
+   * previous catalog is kept untouched. Products without an ID
+   * get a new one, every product starts again at version 1 and
+   * the trash is emptied. Creation dates given in the list are kept,
+   * and the stock ledger starts over with an opening adjustment for
+   * each product and warehouse in stock.
+   *
+   * @param products - New catalog
+   * @param categories - Categories the products are assigned to
+   * @param warehouses - Warehouses the stock is kept in; DEFAULT_WAREHOUSE if empty
+   * @param exchangeRates - Rates of the currencies the products are priced in
+   * @returns The stored catalog
+   */
+  async replaceAll(
+    products: Product[],
+    categories: Category[] = [],
+    warehouses: Warehouse[] = [],
+    exchangeRates: ExchangeRates = DEFAULT_EXCHANGE_RATES
+  ): Promise<Product[]> {
+    const now = new Date().toISOString();
+    const next: Product[] = [];
+    for (const { id, version, createdAt, updatedAt, deletedAt, ...fields } of products) {
+      next.push({
+        id: id ?? this.generateId(next),
+        ...fields,
+        status: fields.status ?? 'active',
+        version: 1,
+        createdAt: createdAt ?? now,
+        updatedAt: now
+      });
+    }
+
+    const locations = warehouses.length > 0 ? warehouses.map(warehouse => ({ ...warehouse })) : [DEFAULT_WAREHOUSE];
+    const movements = openingMovements(next, [], locations[0].id!);
+    const stored = next.map(product => withLedgerStock(product, movements));
+    await this.store.commit({
+      products: stored,
+      categories: categories.map(category => ({ ...category })),
+      warehouses: locations,
+      movements,
+      exchangeRates: { ...exchangeRates, rates: { ...exchangeRates.rates } }
+    });
+    return stored.map(product => ({ ...product }));
+  }
+
+  /**
+   * Applies a new product list and persists it.
+   */
+  private commit(next: Product[]): Promise<void> {
+    return this.store.commit({ products: next });
+  }
+
+  /**
+   * IDs of every warehouse, the main one first.
+   */
+  private get warehouseIds(): WarehouseId[] {
+    return this.store.data.warehouses.map(warehouse => warehouse.id!);
+  }
+
+  /**
+   * Receipt of the initial stock of a new product, in the main warehouse.
+   */
+  private receipt(productId: ProductId, quantity: number): StockMovement {
+    return createMovement(
+      { productId, warehouseId: this.warehouseIds[0], type: 'receipt', quantity, reason: 'Stock inicial', user: SYSTEM_USER },
+      this.store.data.movements
+    );
+  }
+
+  /**
+   * Finds a product of the catalog, skipping the trash.
+   */
+  private find(id: ProductId): Product | undefined {
+    return this.products.find(item => item.id === id && !item.deletedAt);
+  }
+
+  /**
+   * Checks that a product is assigned to an existing category, if any.
+   */
+  private assertCategoryExists(categoryId: CategoryId | undefined): void {
+    if (categoryId !== undefined && !this.store.data.categories.some(category => category.id === categoryId)) {
+      throw new ProductValidationError([{ field: 'categoryId', message: `${categoryId} does not exist` }]);
+    }
+  }
+
+  /**
+   * Checks that a product is priced in a currency with an exchange rate.
+   */
+  private assertCurrencyHasRate(currency: CurrencyCode): void {
+    const { base, rates } = this.store.data.exchangeRates;
+    if (currency !== base && !(currency in rates)) {
+      throw new ProductValidationError([{ field: 'price.currency', message: `${currency} has no exchange rate` }]);
+    }
+  }
+
+  /**
+   * Price of a product in the base currency of the exchange rates,
+   * so prices in different currencies can be compared.
+   *
+   * @throws Error if the currency of the price has no exchange rate
+   */
+  private baseAmount(product: Product): number {
+    const { exchangeRates } = this.store.data;
+    const converted = convertMoney(product.price, exchangeRates.base, exchangeRates);
+    if (!converted) {
+      throw new Error(`${product.price.currency} has no exchange rate`);
+    }
+    return converted.amount;
+  }
+
+  /**
+   * Checks that no other product of the catalog has the same name
+   * or SKU, ignoring case. Products in the trash do not count.
+   */
+  private assertUnique(input: Pick<Product, 'name' | 'sku'>, exceptId?: ProductId): void {
+    const others = this.products.filter(item => item.id !== exceptId && !item.deletedAt);
+
+    const name = normalize(input.name);
+    const sameName = others.find(item => normalize(item.name) === name);
+    if (sameName) {
+      throw new ProductConflictError(`A product named "${sameName.name}" already exists`, 'name');
+    }
+
+    const sku = input.sku && normalize(input.sku);
+    const sameSku = sku && others.find(item => item.sku && normalize(item.sku) === sku);
+    if (sameSku) {
+      throw new ProductConflictError(`SKU ${sameSku.sku} is already used by "${sameSku.name}"`, 'sku');
+    }
+  }
+
+  /**
+   * Generates a short random ID in the same format as json-server.
+   */
+  private generateId(taken: readonly Product[] = this.products): ProductId {
+    let id: ProductId;
+    do {
+      id = randomBytes(2).toString('hex');
+    } while (taken.some(item => item.id === id));
+    return id;
+  }
+}
+
+/**
+ * Whether a product's name or SKU contains the search term.
+ *
+ * @param search - Term already in lowercase
+ */
+function matchesSearch(product: Product, search: string): boolean {
+  return normalize(product.name).includes(search) || (product.sku ?? '').toLocaleLowerCase('es-CL').includes(search);
+}
+
+function normalize(text: string): string {
+  return text.trim().toLocaleLowerCase('es-CL');
+}
+
+function inRange(value: number, min?: number, max?: number): boolean {
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
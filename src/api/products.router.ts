@@ -0,0 +1,243 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import { ProductSortField } from '../app/core/models/product-query.interface';
+import { decodeProduct, ProductValidationError } from '../app/core/models/product.schema';
+import { handle } from './async-handler';
+import {
+  ProductConflictError,
+  ProductInput,
+  ProductListOptions,
+  ProductRepository,
+  ProductVersionConflictError
+} from './product-repository';
+
+const SORT_FIELDS: ProductSortField[] = ['sku', 'name', 'price', 'stock'];
+
+/**
+ * Creates the `/products` REST routes.
+ *
+ * Supports the same query string as json-server (`q`, `_sort`,
+ * `_page`, `_per_page` and `_gte`/`_lte` ranges). Paginated lists
+ * report the total number of matches in the `X-Total-Count` header.
+ *
+ * Prices are compared in the base currency of the exchange rates,
+ * so price ranges and sorting work across currencies.
+ *
+ * Every write must include a SKU. A name or SKU already used by
+ * another product is rejected with 409 and the offending `field`,
+ * and a `categoryId` that does not exist or a price in a currency
+ * without an exchange rate with 400.
+ *
+ * Updates must include the `version` they were based on. A stale
+ * version is rejected with 409 and the stored product in `current`.
+ * An update that changes the stock is recorded in the product's
+ * stock ledger as an adjustment; see createStockMovementsRouter().
+ * The per-warehouse `warehouseStock` is kept by the server and
+ * ignored on writes.
+ *
+ * DELETE moves a product to the trash, listed by `GET /trash`. From
+ * there it can be restored with `POST /trash/:id/restore` or deleted
+ * for good with `DELETE /trash/:id`.
+ *
+ * @param repository - Storage for the product catalog
+ */
+export function createProductsRouter(repository: ProductRepository): Router {
+  const router = Router();
+
+  router.get('/', (req, res) => {
+    const options = readListOptions(req);
+    if (typeof options === 'string') {
+      res.status(400).json({ error: options });
+      return;
+    }
+
+    const { items, total } = repository.list(options);
+    res.setHeader('X-Total-Count', String(total));
+    res.json(items);
+  });
+
+  router.get('/trash', (req, res) => {
+    res.json(repository.listDeleted());
+  });
+
+  router.post('/trash/:id/restore', handle(async (req, res) => {
+    const product = await repository.restore(req.params['id']);
+    if (!product) {
+      sendNotFound(res, req.params['id']);
+      return;
+    }
+    res.json(product);
+  }));
+
+  router.delete('/trash/:id', handle(async (req, res) => {
+    if (!(await repository.purge(req.params['id']))) {
+      sendNotFound(res, req.params['id']);
+      return;
+    }
+    res.status(204).end();
+  }));
+
+  router.get('/:id', (req, res) => {
+    const product = repository.get(req.params['id']);
+    if (!product) {
+      sendNotFound(res, req.params['id']);
+      return;
+    }
+    res.json(product);
+  });
+
+  router.post('/', handle(async (req, res) => {
+    const input = readProductInput(req.body);
+    if (input instanceof ProductValidationError) {
+      sendValidationError(res, input);
+      return;
+    }
+
+    const product = await repository.create(input.fields);
+    res.status(201).location(`${req.baseUrl}/${product.id}`).json(product);
+  }));
+
+  router.put('/:id', handle(async (req, res) => {
+    const id = req.params['id'];
+    if (req.body?.id !== undefined && String(req.body.id) !== id) {
+      res.status(400).json({ error: 'The product id in the body does not match the URL' });
+      return;
+    }
+
+    const input = readProductInput(req.body);
+    if (input instanceof ProductValidationError) {
+      sendValidationError(res, input);
+      return;
+    }
+    if (input.version === undefined) {
+      res.status(428).json({ error: 'The product version is required to update it' });
+      return;
+    }
+
+    const product = await repository.update(id, input.fields, input.version);
+    if (!product) {
+      sendNotFound(res, id);
+      return;
+    }
+    res.json(product);
+  }));
+
+  router.delete('/:id', handle(async (req, res) => {
+    if (!(await repository.delete(req.params['id']))) {
+      sendNotFound(res, req.params['id']);
+      return;
+    }
+    res.status(204).end();
+  }));
+
+  router.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
+    if (error instanceof ProductVersionConflictError) {
+      res.status(409).json({ error: error.message, current: error.current });
+      return;
+    }
+    if (error instanceof ProductConflictError) {
+      res.status(409).json({ error: error.message, field: error.field });
+      return;
+    }
+    if (error instanceof ProductValidationError) {
+      sendValidationError(res, error);
+      return;
+    }
+    next(error);
+  });
+
+  return router;
+}
+
+/**
+ * Validates a request body and keeps only the editable fields.
+ *
+ * Text is trimmed, the SKU is stored in uppercase, empty optional
+ * texts are dropped and a missing status means active.
+ *
+ * @returns The editable fields and the version the client based them
+ * on, or the validation error to report
+ */
+function readProductInput(body: unknown): { fields: ProductInput; version?: number } | ProductValidationError {
+  try {
+    const { id, warehouseStock, version, createdAt, updatedAt, deletedAt, ...fields } = decodeProduct(
+      typeof body === 'object' && body !== null ? { ...body, id: undefined } : body
+    );
+    if (!fields.sku) {
+      return new ProductValidationError([{ field: 'sku', message: 'is required' }]);
+    }
+
+    const brand = fields.brand?.trim();
+    const description = fields.description?.trim();
+    return {
+      fields: {
+        ...fields,
+        sku: fields.sku.trim().toUpperCase(),
+        name: fields.name.trim(),
+        brand: brand || undefined,
+        description: description || undefined,
+        imageUrls: fields.imageUrls ?? [],
+        status: fields.status ?? 'active'
+      },
+      version
+    };
+  } catch (error) {
+    if (error instanceof ProductValidationError) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads the list criteria from the query string.
+ *
+ * @returns The criteria, or an error message for malformed values
+ */
+function readListOptions(req: Request): ProductListOptions | string {
+  const query = req.query;
+  const text = (key: string) => (typeof query[key] === 'string' ? (query[key] as string) : undefined);
+  const options: ProductListOptions = { search: text('q') };
+
+  const numbers: [string, keyof ProductListOptions][] = [
+    ['price_gte', 'minPrice'],
+    ['price_lte', 'maxPrice'],
+    ['stock_gte', 'minStock'],
+    ['stock_lte', 'maxStock'],
+    ['_page', 'page'],
+    ['_per_page', 'limit']
+  ];
+  for (const [key, option] of numbers) {
+    const raw = text(key);
+    if (raw === undefined) {
+      continue;
+    }
+    const value = Number(raw);
+    if (raw.trim() === '' || isNaN(value)) {
+      return `Query parameter "${key}" must be a number`;
+    }
+    (options[option] as number) = value;
+  }
+  if ((options.page !== undefined && options.page < 1) || (options.limit !== undefined && options.limit < 1)) {
+    return 'Query parameters "_page" and "_per_page" must be at least 1';
+  }
+
+  const sort = text('_sort');
+  if (sort) {
+    const field = sort.replace(/^-/, '') as ProductSortField;
+    if (!SORT_FIELDS.includes(field)) {
+      return `Cannot sort by "${field}"`;
+    }
+    options.sortField = field;
+    options.sortDirection = sort.startsWith('-') ? 'desc' : 'asc';
+  }
+
+  return options;
+}
+
+function sendValidationError(res: Response, error: ProductValidationError): void {
+  res.status(400).json({ error: error.message, issues: error.issues });
+}
+
+function sendNotFound(res: Response, id: string): void {
+  res.status(404).json({ error: `Product ${id} not found` });
+}
@@ -0,0 +1,134 @@
+import { randomBytes } from 'node:crypto';
+import { Product, ProductId } from '../app/core/models/product.interface';
+import { StockMovement } from '../app/core/models/stock-movement.interface';
+import { WarehouseId } from '../app/core/models/warehouse.interface';
+
+/** User recorded on the movements the server creates by itself */
+export const SYSTEM_USER = 'sistema';
+
+/**
+ * Units in stock of a product according to its movements.
+ */
+export function stockOf(productId: ProductId, movements: readonly StockMovement[]): number {
+  return movements.reduce((stock, movement) => (movement.productId === productId ? stock + movement.quantity : stock), 0);
+}
+
+/**
+ * Units in stock of a product at each warehouse according to its
+ * movements. Warehouses without units are left out.
+ */
+export function warehouseStockOf(productId: ProductId, movements: readonly StockMovement[]): Record<WarehouseId, number> {
+  const stock: Record<WarehouseId, number> = {};
+  for (const movement of movements) {
+    if (movement.productId === productId && movement.warehouseId !== undefined) {
+      stock[movement.warehouseId] = (stock[movement.warehouseId] ?? 0) + movement.quantity;
+    }
+  }
+  for (const [warehouseId, units] of Object.entries(stock)) {
+    if (units === 0) {
+      delete stock[warehouseId];
+    }
+  }
+  return stock;
+}
+
+/**
+ * Copy of a product with its total and per-warehouse stock taken
+ * from the ledger.
+ */
+export function withLedgerStock(product: Product, movements: readonly StockMovement[]): Product {
+  return { ...product, stock: stockOf(product.id!, movements), warehouseStock: warehouseStockOf(product.id!, movements) };
+}
+
+/**
+ * Creates a movement with a new ID, stamped with the current time.
+ *
+ * @param fields - Product, warehouse, type, quantity, reason and user of the movement
+ * @param taken - Movements whose IDs must not be reused
+ */
+export function createMovement(fields: Omit<StockMovement, 'id' | 'createdAt'>, taken: readonly StockMovement[]): StockMovement {
+  let id: string;
+  do {
+    id = randomBytes(4).toString('hex');
+  } while (taken.some(movement => movement.id === id));
+  return { id, ...fields, createdAt: new Date().toISOString() };
+}
+
+/**
+ * Creates the adjustments that make the ledger match the stock of
+ * each product, for products whose stock was set without movements
+ * (data files written before the ledger existed, or fixtures).
+ *
+ * Products that list their `warehouseStock` are matched warehouse by
+ * warehouse; the stock of the others is placed in the main warehouse.
+ *
+ * @param products - Products with the stock to reach
+ * @param movements - Movements already in the ledger
+ * @param mainWarehouseId - Warehouse that holds stock not assigned to any
+ * @returns The movements to append, one per product and warehouse that needs it
+ */
+export function openingMovements(
+  products: readonly Product[],
+  movements: readonly StockMovement[],
+  mainWarehouseId: WarehouseId
+): StockMovement[] {
+  const opening: StockMovement[] = [];
+  for (const product of products) {
+    const target = product.warehouseStock ?? { [mainWarehouseId]: product.stock };
+    const current = warehouseStockOf(product.id!, movements);
+    for (const warehouseId of new Set([...Object.keys(current), ...Object.keys(target)])) {
+      const difference = (target[warehouseId] ?? 0) - (current[warehouseId] ?? 0);
+      if (difference !== 0) {
+        opening.push(createMovement(
+          { productId: product.id!, warehouseId, type: 'adjustment', quantity: difference, reason: 'Saldo inicial', user: SYSTEM_USER },
+          [...movements, ...opening]
+        ));
+      }
+    }
+  }
+  return opening;
+}
+
+/**
+ * Creates the adjustments that change the total stock of a product
+ * by a given difference.
+ *
+ * Units added go to the main warehouse. Units removed are taken from
+ * the warehouses in order, starting with the main one, so the stock
+ * of no warehouse goes below zero.
+ *
+ * @param productId - Product whose stock changes
+ * @param difference - Units to add (positive) or remove (negative)
+ * @param warehouseIds - Every warehouse, the main one first
+ * @param movements - Movements already in the ledger
+ * @param reason - Reason recorded on the adjustments
+ */
+export function adjustmentMovements(
+  productId: ProductId,
+  difference: number,
+  warehouseIds: readonly WarehouseId[],
+  movements: readonly StockMovement[],
+  reason: string
+): StockMovement[] {
+  const adjustments: StockMovement[] = [];
+  const add = (warehouseId: WarehouseId, quantity: number) => adjustments.push(createMovement(
+    { productId, warehouseId, type: 'adjustment', quantity, reason, user: SYSTEM_USER },
+    [...movements, ...adjustments]
+  ));
+
+  if (difference > 0) {
+    add(warehouseIds[0], difference);
+    return adjustments;
+  }
+
+  const stock = warehouseStockOf(productId, movements);
+  let missing = -difference;
+  for (const warehouseId of warehouseIds) {
+    const taken = Math.min(missing, stock[warehouseId] ?? 0);
+    if (taken > 0) {
+      add(warehouseId, -taken);
+      missing -= taken;
+    }
+  }
+  return adjustments;
+}
@@ -0,0 +1,142 @@
+import { Product, ProductId } from '../app/core/models/product.interface';
+import { StockMovement, StockTransfer } from '../app/core/models/stock-movement.interface';
+import { StockMovementValidationError } from '../app/core/models/stock-movement.schema';
+import { WarehouseId } from '../app/core/models/warehouse.interface';
+import { DataStore } from './data-store';
+import { createMovement, withLedgerStock } from './stock-ledger';
+
+/**
+ * Fields of a movement given by the client.
+ */
+export type StockMovementInput = Omit<StockMovement, 'id' | 'productId' | 'createdAt'>;
+
+/**
+ * Fields of a transfer given by the client.
+ */
+export type StockTransferInput = Omit<StockTransfer, 'productId'>;
+
+/**
+ * Stock ledger backed by the JSON data file.
+ *
+ * Movements are append-only. Recording one updates the stock of the
+ * product in the same write and increases its version, so an editor
+ * opened before the movement cannot overwrite the new stock. The
+ * stock of each warehouse can never go below zero.
+ */
+export class StockMovementRepository {
+  constructor(private readonly store: DataStore) {}
+
+  /**
+   * Lists the movements of a product of the catalog, oldest first.
+   *
+   * @returns The movements, or undefined if the product is not in the catalog
+   */
+  list(productId: ProductId): StockMovement[] | undefined {
+    if (!this.findProduct(productId)) {
+      return undefined;
+    }
+    return this.store.data.movements
+      .filter(movement => movement.productId === productId)
+      .map(movement => ({ ...movement }));
+  }
+
+  /**
+   * Records a movement and applies it to the stock of the product.
+   *
+   * A movement without a warehouse is recorded in the main one.
+   *
+   * @returns The movement and the updated product, or undefined if the product is not in the catalog
+   * @throws StockMovementValidationError if the warehouse does not exist or its stock would go below zero
+   */
+  async record(productId: ProductId, input: StockMovementInput): Promise<{ movement: StockMovement; product: Product } | undefined> {
+    const current = this.findProduct(productId);
+    if (!current) {
+      return undefined;
+    }
+
+    const warehouseId = input.warehouseId ?? this.store.data.warehouses[0].id!;
+    this.assertWarehouseExists('warehouseId', warehouseId);
+    this.assertAvailable(current, warehouseId, -input.quantity);
+
+    const movement = createMovement({ productId, ...input, warehouseId }, this.store.data.movements);
+    const { product } = await this.apply(current, [movement]);
+    return { movement: { ...movement }, product };
+  }
+
+  /**
+   * Moves units of a product from one warehouse to another.
+   *
+   * Both movements are stored in a single write, so a failure never
+   * leaves the units taken from one warehouse without reaching the
+   * other.
+   *
+   * @returns The movement out of the source, the movement into the
+   * destination and the updated product, or undefined if the product is not in the catalog
+   * @throws StockMovementValidationError if a warehouse does not exist or the source lacks the units
+   */
+  async transfer(productId: ProductId, input: StockTransferInput): Promise<{ movements: StockMovement[]; product: Product } | undefined> {
+    const current = this.findProduct(productId);
+    if (!current) {
+      return undefined;
+    }
+
+    this.assertWarehouseExists('fromWarehouseId', input.fromWarehouseId);
+    this.assertWarehouseExists('toWarehouseId', input.toWarehouseId);
+    this.assertAvailable(current, input.fromWarehouseId, input.quantity);
+
+    const { quantity, reason, user } = input;
+    const taken = this.store.data.movements;
+    const out = createMovement({ productId, warehouseId: input.fromWarehouseId, type: 'transfer', quantity: -quantity, reason, user }, taken);
+    const into = createMovement({ productId, warehouseId: input.toWarehouseId, type: 'transfer', quantity, reason, user }, [...taken, out]);
+    return this.apply(current, [out, into]);
+  }
+
+  /**
+   * Appends movements to the ledger and stores the product with its
+   * new stock and version, in the same write.
+   */
+  private async apply(current: Product, movements: StockMovement[]): Promise<{ movements: StockMovement[]; product: Product }> {
+    const ledger = [...this.store.data.movements, ...movements];
+    const product = withLedgerStock(
+      { ...current, version: current.version! + 1, updatedAt: movements[movements.length - 1].createdAt },
+      ledger
+    );
+    await this.store.commit({
+      products: this.store.data.products.map(item => (item.id === current.id ? product : item)),
+      movements: ledger
+    });
+    return { movements: movements.map(movement => ({ ...movement })), product: { ...product } };
+  }
+
+  /**
+   * Checks that a warehouse exists.
+   *
+   * @param field - Field of the request that names the warehouse
+   */
+  private assertWarehouseExists(field: string, id: WarehouseId): void {
+    if (!this.store.data.warehouses.some(warehouse => warehouse.id === id)) {
+      throw new StockMovementValidationError([{ field, message: `${id} does not exist` }]);
+    }
+  }
+
+  /**
+   * Checks that a warehouse holds the units about to be taken from it.
+   *
+   * @param units - Units to take; nothing is checked when it is not positive
+   */
+  private assertAvailable(product: Product, warehouseId: WarehouseId, units: number): void {
+    const stock = product.warehouseStock?.[warehouseId] ?? 0;
+    if (units > stock) {
+      throw new StockMovementValidationError([
+        { field: 'quantity', message: `would leave the stock below zero (${stock} in stock at ${warehouseId})` }
+      ]);
+    }
+  }
+
+  /**
+   * Finds a product of the catalog, skipping the trash.
+   */
+  private findProduct(id: ProductId): Product | undefined {
+    return this.store.data.products.find(item => item.id === id && !item.deletedAt);
+  }
+}
@@ -0,0 +1,125 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import { decodeStockMovement, decodeStockTransfer, StockMovementValidationError } from '../app/core/models/stock-movement.schema';
+import { handle } from './async-handler';
+import { StockMovementInput, StockMovementRepository, StockTransferInput } from './stock-movement-repository';
+
+/**
+ * Creates the `/products/:id/movements` REST routes.
+ *
+ * `GET /` returns the stock ledger of the product, oldest first.
+ * `POST /` records a movement and answers with 201, the `movement`
+ * and the updated `product`. A movement whose quantity has the wrong
+ * sign for its type, with an unknown `warehouseId`, or that would
+ * leave the stock of its warehouse below zero, is rejected with 400.
+ * Transfers cannot be recorded here; see createStockTransfersRouter().
+ *
+ * @param repository - Storage for the stock ledger
+ */
+export function createStockMovementsRouter(repository: StockMovementRepository): Router {
+  const router = Router({ mergeParams: true });
+
+  router.get('/', (req, res) => {
+    const movements = repository.list(productIdOf(req));
+    if (!movements) {
+      sendNotFound(res, productIdOf(req));
+      return;
+    }
+    res.json(movements);
+  });
+
+  router.post('/', handle(async (req, res) => {
+    const id = productIdOf(req);
+    const result = await repository.record(id, readMovementInput(req.body, id));
+    if (!result) {
+      sendNotFound(res, id);
+      return;
+    }
+    res.status(201).json(result);
+  }));
+
+  router.use(sendMovementError);
+
+  return router;
+}
+
+/**
+ * Creates the `/products/:id/transfers` REST routes.
+ *
+ * `POST /` moves units between two warehouses and answers with 201,
+ * the two `movements` (out of the source, into the destination) and
+ * the updated `product`. A transfer to the same warehouse, with an
+ * unknown warehouse, or of more units than the source holds, is
+ * rejected with 400.
+ *
+ * @param repository - Storage for the stock ledger
+ */
+export function createStockTransfersRouter(repository: StockMovementRepository): Router {
+  const router = Router({ mergeParams: true });
+
+  router.post('/', handle(async (req, res) => {
+    const id = productIdOf(req);
+    const result = await repository.transfer(id, readTransferInput(req.body, id));
+    if (!result) {
+      sendNotFound(res, id);
+      return;
+    }
+    res.status(201).json(result);
+  }));
+
+  router.use(sendMovementError);
+
+  return router;
+}
+
+/**
+ * Validates a request body and keeps only the fields given by the
+ * client, with the reason and user trimmed. An empty reason is dropped.
+ *
+ * @throws StockMovementValidationError if the body is malformed
+ */
+function readMovementInput(body: unknown, productId: string): StockMovementInput {
+  const { id, productId: owner, createdAt, ...fields } = decodeStockMovement(
+    typeof body === 'object' && body !== null ? { ...body, id: undefined, productId, createdAt: undefined } : body
+  );
+  if (fields.type === 'transfer') {
+    throw new StockMovementValidationError([{ field: 'type', message: 'must not be transfer; use POST /transfers' }]);
+  }
+  const reason = fields.reason?.trim();
+  return { ...fields, reason: reason || undefined, user: fields.user.trim() };
+}
+
+/**
+ * Validates a transfer request body, with the reason and user
+ * trimmed. An empty reason is dropped.
+ *
+ * @throws StockMovementValidationError if the body is malformed
+ */
+function readTransferInput(body: unknown, productId: string): StockTransferInput {
+  const { productId: owner, ...fields } = decodeStockTransfer(
+    typeof body === 'object' && body !== null ? { ...body, productId } : body
+  );
+  const reason = fields.reason?.trim();
+  return { ...fields, reason: reason || undefined, user: fields.user.trim() };
+}
+
+/**
+ * Answers 400 for malformed or rejected movements.
+ */
+function sendMovementError(error: unknown, req: Request, res: Response, next: NextFunction): void {
+  if (error instanceof StockMovementValidationError) {
+    res.status(400).json({ error: error.message, issues: error.issues });
+    return;
+  }
+  next(error);
+}
+
+/**
+ * ID of the product, taken from the path the router is mounted on.
+ */
+function productIdOf(req: Request): string {
+  return (req.params as Record<string, string>)['id'];
+}
+
+function sendNotFound(res: Response, id: string): void {
+  res.status(404).json({ error: `Product ${id} not found` });
+}
@@ -0,0 +1,146 @@
+import { randomBytes } from 'node:crypto';
+import { Warehouse, WarehouseId } from '../app/core/models/warehouse.interface';
+import { DataStore } from './data-store';
+
+/**
+ * Editable fields of a warehouse.
+ */
+export type WarehouseInput = Omit<Warehouse, 'id'>;
+
+/**
+ * Error raised when a write or a deletion would break a warehouse
+ * rule: a repeated name, a warehouse that still holds stock, or the
+ * last warehouse.
+ */
+export class WarehouseConflictError extends Error {
+  constructor(
+    message: string,
+    /** Units still stored in the warehouse, when that is the reason */
+    readonly units?: number
+  ) {
+    super(message);
+    this.name = 'WarehouseConflictError';
+  }
+}
+
+/**
+ * Warehouse storage backed by the JSON data file.
+ *
+ * Names are unique, ignoring case. The first warehouse is the main
+ * one. A warehouse cannot be deleted while any product, including
+ * those in the trash, has units in it, and the last warehouse cannot
+ * be deleted at all. Its movements stay in the stock ledger.
+ */
+export class WarehouseRepository {
+  constructor(private readonly store: DataStore) {}
+
+  private get warehouses(): readonly Warehouse[] {
+    return this.store.data.warehouses;
+  }
+
+  /**
+   * Lists every warehouse, the main one first.
+   */
+  list(): Warehouse[] {
+    return this.warehouses.map(warehouse => ({ ...warehouse }));
+  }
+
+  /**
+   * Finds a warehouse by ID.
+   */
+  get(id: WarehouseId): Warehouse | undefined {
+    const warehouse = this.find(id);
+    return warehouse && { ...warehouse };
+  }
+
+  /**
+   * Creates a warehouse with a new ID, after the existing ones.
+   *
+   * @throws WarehouseConflictError if another warehouse has the same name
+   */
+  async create(input: WarehouseInput): Promise<Warehouse> {
+    this.assertUnique(input);
+
+    const warehouse: Warehouse = { id: this.generateId(), ...input };
+    await this.commit([...this.warehouses, warehouse]);
+    return { ...warehouse };
+  }
+
+  /**
+   * Renames a warehouse or changes its city.
+   *
+   * @returns The stored warehouse, or undefined if it does not exist
+   * @throws WarehouseConflictError if another warehouse has the same name
+   */
+  async update(id: WarehouseId, input: WarehouseInput): Promise<Warehouse | undefined> {
+    if (!this.find(id)) {
+      return undefined;
+    }
+    this.assertUnique(input, id);
+
+    const warehouse: Warehouse = { id, ...input };
+    await this.commit(this.warehouses.map(item => (item.id === id ? warehouse : item)));
+    return { ...warehouse };
+  }
+
+  /**
+   * Deletes an empty warehouse.
+   *
+   * @returns Whether the warehouse existed
+   * @throws WarehouseConflictError if it still holds stock or is the last one
+   */
+  async delete(id: WarehouseId): Promise<boolean> {
+    const warehouse = this.find(id);
+    if (!warehouse) {
+      return false;
+    }
+
+    if (this.warehouses.length === 1) {
+      throw new WarehouseConflictError(`Warehouse "${warehouse.name}" is the only warehouse`);
+    }
+    const units = this.store.data.products.reduce((total, product) => total + (product.warehouseStock?.[id] ?? 0), 0);
+    if (units > 0) {
+      throw new WarehouseConflictError(`Warehouse "${warehouse.name}" still holds ${units} ${units === 1 ? 'unit' : 'units'}`, units);
+    }
+
+    await this.commit(this.warehouses.filter(item => item.id !== id));
+    return true;
+  }
+
+  /**
+   * Applies a new warehouse list and persists it.
+   */
+  private commit(next: Warehouse[]): Promise<void> {
+    return this.store.commit({ warehouses: next });
+  }
+
+  private find(id: WarehouseId): Warehouse | undefined {
+    return this.warehouses.find(item => item.id === id);
+  }
+
+  /**
+   * Checks that no other warehouse has the same name, ignoring case.
+   */
+  private assertUnique(input: WarehouseInput, exceptId?: WarehouseId): void {
+    const name = normalize(input.name);
+    const same = this.warehouses.find(item => item.id !== exceptId && normalize(item.name) === name);
+    if (same) {
+      throw new WarehouseConflictError(`A warehouse named "${same.name}" already exists`);
+    }
+  }
+
+  /**
+   * Generates a short random ID in the same format as products.
+   */
+  private generateId(): WarehouseId {
+    let id: WarehouseId;
+    do {
+      id = randomBytes(2).toString('hex');
+    } while (this.warehouses.some(item => item.id === id));
+    return id;
+  }
+}
+
+function normalize(text: string): string {
+  return text.trim().toLocaleLowerCase('es-CL');
+}
@@ -0,0 +1,91 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import { decodeWarehouse, WarehouseValidationError } from '../app/core/models/warehouse.schema';
+import { handle } from './async-handler';
+import { WarehouseConflictError, WarehouseInput, WarehouseRepository } from './warehouse-repository';
+
+/**
+ * Creates the `/warehouses` REST routes.
+ *
+ * `GET /` returns every warehouse, the main one first. A repeated
+ * name is rejected with 409. So is deleting the last warehouse or one
+ * that still holds stock; in the latter case the response includes
+ * the `units` left.
+ *
+ * @param repository - Storage for the warehouses
+ */
+export function createWarehousesRouter(repository: WarehouseRepository): Router {
+  const router = Router();
+
+  router.get('/', (req, res) => {
+    res.json(repository.list());
+  });
+
+  router.get('/:id', (req, res) => {
+    const warehouse = repository.get(req.params['id']);
+    if (!warehouse) {
+      sendNotFound(res, req.params['id']);
+      return;
+    }
+    res.json(warehouse);
+  });
+
+  router.post('/', handle(async (req, res) => {
+    const warehouse = await repository.create(readWarehouseInput(req.body));
+    res.status(201).location(`${req.baseUrl}/${warehouse.id}`).json(warehouse);
+  }));
+
+  router.put('/:id', handle(async (req, res) => {
+    const id = req.params['id'];
+    if (req.body?.id !== undefined && String(req.body.id) !== id) {
+      res.status(400).json({ error: 'The warehouse id in the body does not match the URL' });
+      return;
+    }
+
+    const warehouse = await repository.update(id, readWarehouseInput(req.body));
+    if (!warehouse) {
+      sendNotFound(res, id);
+      return;
+    }
+    res.json(warehouse);
+  }));
+
+  router.delete('/:id', handle(async (req, res) => {
+    if (!(await repository.delete(req.params['id']))) {
+      sendNotFound(res, req.params['id']);
+      return;
+    }
+    res.status(204).end();
+  }));
+
+  router.use((error: unknown, req: Request, res: Response, next: NextFunction) => {
+    if (error instanceof WarehouseValidationError) {
+      res.status(400).json({ error: error.message, issues: error.issues });
+      return;
+    }
+    if (error instanceof WarehouseConflictError) {
+      res.status(409).json({ error: error.message, units: error.units });
+      return;
+    }
+    next(error);
+  });
+
+  return router;
+}
+
+/**
+ * Validates a request body and keeps only the editable fields,
+ * with the name and city trimmed. An empty city is dropped.
+ *
+ * @throws WarehouseValidationError if the body is malformed
+ */
+function readWarehouseInput(body: unknown): WarehouseInput {
+  const { id, ...fields } = decodeWarehouse(
+    typeof body === 'object' && body !== null ? { ...body, id: undefined } : body
+  );
+  const city = fields.city?.trim();
+  return { name: fields.name.trim(), ...(city && { city }) };
+}
+
+function sendNotFound(res: Response, id: string): void {
+  res.status(404).json({ error: `Warehouse ${id} not found` });
+}
@@ -1,8 +1,8 @@
 import { TestBed } from '@angular/core/testing';
 import { provideHttpClient } from '@angular/common/http';
 import { provideHttpClientTesting } from '@angular/common/http/testing';
+import { provideRouter } from '@angular/router';
 import { AppComponent } from './app.component';
-import { ProductDashboardComponent } from '@features/product-dashboard';
 
 /**
  * Pruebas unitarias para AppComponent.
@@ -14,11 +14,9 @@ import { ProductDashboardComponent } from '@features/product-dashboard';
 describe('AppComponent', () => {
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [
-        AppComponent,
-        ProductDashboardComponent
-      ],
+      imports: [AppComponent],
       providers: [
+        provideRouter([]),
         provideHttpClient(),
         provideHttpClientTesting()
       ]
@@ -57,15 +55,25 @@ describe('AppComponent', () => {
   });
 
   /**
-   * Prueba que el componente ProductDashboard esté presente.
+   * Prueba que las páginas se rendericen dentro del contenido principal.
    */
-  it('should contain product dashboard component', () => {
+  it('should render the routed pages inside the main content', () => {
     const fixture = TestBed.createComponent(AppComponent);
     fixture.detectChanges();
     const compiled = fixture.nativeElement as HTMLElement;
-    const dashboardElement = compiled.querySelector('app-product-dashboard');
     
-    expect(dashboardElement).toBeTruthy();
+    expect(compiled.querySelector('main router-outlet')).toBeTruthy();
+  });
+
+  /**
+   * Prueba que la cabecera enlace a las secciones de la aplicación.
+   */
+  it('should link to each section from the header', () => {
+    const fixture = TestBed.createComponent(AppComponent);
+    fixture.detectChanges();
+    const links = Array.from((fixture.nativeElement as HTMLElement).querySelectorAll('.app-nav a'));
+
+    expect(links.map(link => link.getAttribute('href'))).toEqual(['/productos', '/categorias']);
   });
 
   /**
@@ -1,10 +1,10 @@
 import { Component } from '@angular/core';
-import { RouterOutlet } from '@angular/router';
-import { ProductDashboardComponent } from '@features/product-dashboard';
+import { RouterLink, RouterLinkActive, RouterOutlet } from '@angular/router';
+import { OfflineBannerComponent, ToastContainerComponent } from '@shared/components';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet, ProductDashboardComponent],
+  imports: [RouterOutlet, RouterLink, RouterLinkActive, OfflineBannerComponent, ToastContainerComponent],
   templateUrl: './app.component.html',
   styleUrl: './app.component.scss'
 })
@@ -4,6 +4,9 @@ import { provideServerRouting } from '@angular/ssr';
 import { appConfig } from './app.config';
 import { serverRoutes } from './app.routes.server';
 
+// A relative API base URL is kept as is: the server platform resolves it
+// against the incoming request only after the HTTP transfer cache has keyed
+// the request, so the browser finds the response under the same URL.
 const serverConfig: ApplicationConfig = {
   providers: [
     provideServerRendering(),
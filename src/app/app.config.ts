@@ -1,11 +1,15 @@
 import { ApplicationConfig, provideZoneChangeDetection, LOCALE_ID } from '@angular/core';
-import { provideRouter } from '@angular/router';
-import { provideHttpClient, withFetch } from '@angular/common/http';
+import { provideRouter, withComponentInputBinding } from '@angular/router';
+import { provideHttpClient, withFetch, withInterceptors } from '@angular/common/http';
 import { registerLocaleData } from '@angular/common';
 import localeEs from '@angular/common/locales/es-CL';
 
 import { routes } from './app.routes';
-import { provideClientHydration, withEventReplay } from '@angular/platform-browser';
+import { provideAppConfig } from '@core/config/app-config';
+import { httpErrorInterceptor } from '@core/interceptors/http-error.interceptor';
+import { retryInterceptor } from '@core/interceptors/retry.interceptor';
+import { timeoutInterceptor } from '@core/interceptors/timeout.interceptor';
+import { provideClientHydration, withEventReplay, withHttpTransferCacheOptions } from '@angular/platform-browser';
 
 // Registrar el locale chileno
 registerLocaleData(localeEs);
@@ -13,10 +17,18 @@ registerLocaleData(localeEs);
 export const appConfig: ApplicationConfig = {
   providers: [
     provideZoneChangeDetection({ eventCoalescing: true }), 
-    provideRouter(routes), 
-    // Temporalmente deshabilitado para ng-bootstrap
-    // provideClientHydration(withEventReplay()),
-    provideHttpClient(withFetch()),
+    // Route data and params are bound to component inputs, e.g. the resolved product
+    provideRouter(routes, withComponentInputBinding()), 
+    // GET responses fetched during SSR are embedded in the page and reused by the
+    // browser. Dialogs are only opened from user events, after hydration, and
+    // ng-bootstrap attaches them to <body>, outside the hydrated app tree.
+    provideClientHydration(
+      withEventReplay(),
+      withHttpTransferCacheOptions({ includeHeaders: ['X-Total-Count'] })
+    ),
+    // Order matters: errors are mapped after every retry, and each attempt has its own timeout
+    provideHttpClient(withFetch(), withInterceptors([httpErrorInterceptor, retryInterceptor, timeoutInterceptor])),
+    provideAppConfig(),
     { provide: LOCALE_ID, useValue: 'es-CL' }
   ]
 };
@@ -1,8 +1,31 @@
 import { RenderMode, ServerRoute } from '@angular/ssr';
 
 export const serverRoutes: ServerRoute[] = [
+  // Admin forms are only useful once the app is running in the browser
+  {
+    path: 'productos/nuevo',
+    renderMode: RenderMode.Client
+  },
+  {
+    path: 'productos/:id/editar',
+    renderMode: RenderMode.Client
+  },
+  {
+    path: 'categorias',
+    renderMode: RenderMode.Client
+  },
+  // The catalog and product pages are rendered on each request with
+  // fresh data, which the browser reuses through the transfer cache
+  {
+    path: 'productos',
+    renderMode: RenderMode.Server
+  },
+  {
+    path: 'productos/:id',
+    renderMode: RenderMode.Server
+  },
   {
     path: '**',
-    renderMode: RenderMode.Prerender
+    renderMode: RenderMode.Server
   }
 ];
@@ -1,3 +1,19 @@
 import { Routes } from '@angular/router';
 
-export const routes: Routes = [];
+export const routes: Routes = [
+  { path: '', pathMatch: 'full', redirectTo: 'productos' },
+  {
+    path: 'productos',
+    loadChildren: () => import('@features/product-dashboard/product.routes').then(m => m.PRODUCT_ROUTES)
+  },
+  {
+    path: 'categorias',
+    loadComponent: () => import('@features/category-admin').then(m => m.CategoryAdminComponent),
+    title: 'Categorías'
+  },
+  {
+    path: '**',
+    loadComponent: () => import('@features/not-found').then(m => m.NotFoundComponent),
+    title: 'Página no encontrada'
+  }
+];
@@ -0,0 +1,83 @@
+import {
+  EnvironmentProviders,
+  InjectionToken,
+  inject,
+  makeEnvironmentProviders,
+  provideAppInitializer
+} from '@angular/core';
+import { ReorderPolicy } from '../models/stock-level';
+import { AppConfigService } from '../services/app-config.service';
+
+/**
+ * Settings that can change between deployments of the same build.
+ */
+export interface AppConfig {
+  /** Base URL of the REST API, relative to the app origin or absolute */
+  apiBaseUrl: string;
+  /** Milliseconds before an API request is aborted */
+  requestTimeoutMs: number;
+  /** Times a failed GET is retried before giving up */
+  retryAttempts: number;
+  /** Delay before the first retry; it doubles on each further attempt */
+  retryDelayMs: number;
+  /** Units at or below which a product without its own reorder point is low on stock */
+  defaultReorderPoint: number;
+  /** Units to order for a product without its own reorder quantity */
+  defaultReorderQuantity: number;
+  /** IVA rate included in the price of taxed products, as a fraction (0.19 for 19%) */
+  taxRate: number;
+}
+
+/**
+ * Base URL of the REST API, without a trailing slash.
+ *
+ * Resolved from the runtime configuration, so it must not be
+ * injected before the app initializers have finished.
+ *
+ * @example
+ * ```typescript
+ * private readonly apiUrl = `${inject(API_BASE_URL)}/products`;
+ * ```
+ */
+export const API_BASE_URL = new InjectionToken<string>('API_BASE_URL', {
+  providedIn: 'root',
+  factory: () => stripTrailingSlash(inject(AppConfigService).config.apiBaseUrl)
+});
+
+/**
+ * Reorder point and quantity used for products that do not set
+ * their own, resolved from the runtime configuration.
+ */
+export const REORDER_DEFAULTS = new InjectionToken<ReorderPolicy>('REORDER_DEFAULTS', {
+  providedIn: 'root',
+  factory: () => {
+    const { defaultReorderPoint, defaultReorderQuantity } = inject(AppConfigService).config;
+    return { reorderPoint: defaultReorderPoint, reorderQuantity: defaultReorderQuantity };
+  }
+});
+
+/**
+ * IVA rate included in the price of taxed products, resolved from
+ * the runtime configuration.
+ */
+export const TAX_RATE = new InjectionToken<number>('TAX_RATE', {
+  providedIn: 'root',
+  factory: () => inject(AppConfigService).config.taxRate
+});
+
+/**
+ * Loads `/config.json` during app initialization and provides
+ * the API base URL from it.
+ */
+export function provideAppConfig(): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    provideAppInitializer(() => inject(AppConfigService).load())
+  ]);
+}
+
+/**
+ * Removes trailing slashes so paths can be appended with `/`.
+ */
+export function stripTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
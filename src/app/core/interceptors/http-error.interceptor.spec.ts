@@ -0,0 +1,95 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { provideHttpClientTesting, HttpTestingController } from '@angular/common/http/testing';
+import { httpErrorInterceptor } from './http-error.interceptor';
+import { AppError } from '../models/app-error';
+
+/**
+ * Pruebas unitarias para httpErrorInterceptor.
+ * 
+ * Verifica que los errores HTTP se conviertan en AppError
+ * con el tipo y el mensaje correctos según el código de estado.
+ */
+describe('httpErrorInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([httpErrorInterceptor])),
+        provideHttpClientTesting()
+      ]
+    });
+
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  /**
+   * Ejecuta una petición que falla con el estado indicado y retorna el error recibido.
+   */
+  function failWith(status: number, body: object | null = null): AppError {
+    let received: unknown;
+    http.get('/api/products').subscribe({
+      next: () => fail('Expected an error'),
+      error: (error) => received = error
+    });
+
+    const req = httpMock.expectOne('/api/products');
+    if (status === 0) {
+      req.error(new ProgressEvent('error'));
+    } else {
+      req.flush(body, { status, statusText: 'Error' });
+    }
+
+    expect(received).toEqual(jasmine.any(AppError));
+    return received as AppError;
+  }
+
+  /**
+   * Prueba que las fallas de red se mapeen como 'network'.
+   */
+  it('should map network failures', () => {
+    const error = failWith(0);
+    expect(error.kind).toBe('network');
+    expect(error.status).toBeUndefined();
+    expect(error.message).toContain('No se pudo conectar con el servidor');
+  });
+
+  /**
+   * Prueba el mapeo de los códigos de estado más comunes.
+   */
+  it('should map status codes to error kinds', () => {
+    expect(failWith(400).kind).toBe('validation');
+    expect(failWith(403).kind).toBe('unauthorized');
+    expect(failWith(404).kind).toBe('not-found');
+    expect(failWith(409).kind).toBe('conflict');
+    expect(failWith(503).kind).toBe('server');
+    expect(failWith(418).kind).toBe('unknown');
+  });
+
+  /**
+   * Prueba que se conserve el cuerpo de la respuesta en los detalles.
+   */
+  it('should keep the response body and status', () => {
+    const error = failWith(409, { error: 'A product named "iPhone 15" already exists' });
+    expect(error.status).toBe(409);
+    expect(error.details).toEqual({ error: 'A product named "iPhone 15" already exists' });
+  });
+
+  /**
+   * Prueba que las respuestas exitosas no se modifiquen.
+   */
+  it('should pass successful responses through', () => {
+    http.get('/api/products').subscribe(body => {
+      expect(body).toEqual([]);
+    });
+
+    httpMock.expectOne('/api/products').flush([]);
+  });
+});
@@ -0,0 +1,20 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { catchError, throwError } from 'rxjs';
+import { toAppError } from '../models/app-error';
+
+/**
+ * Maps failed HTTP requests into typed AppErrors.
+ *
+ * Status codes and network failures are translated once here, so
+ * components only deal with `AppError.kind` and a ready-to-show
+ * message. The original response is kept in `AppError.details`.
+ *
+ * @example
+ * ```typescript
+ * provideHttpClient(withInterceptors([httpErrorInterceptor]))
+ * ```
+ */
+export const httpErrorInterceptor: HttpInterceptorFn = (req, next) =>
+  next(req).pipe(
+    catchError((error: unknown) => throwError(() => toAppError(error)))
+  );
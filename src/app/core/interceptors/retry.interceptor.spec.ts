@@ -0,0 +1,95 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { HttpClient, HttpErrorResponse, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { provideHttpClientTesting, HttpTestingController } from '@angular/common/http/testing';
+import { retryInterceptor } from './retry.interceptor';
+import { AppConfigService } from '../services/app-config.service';
+
+/**
+ * Pruebas unitarias para retryInterceptor.
+ * 
+ * Verifica que solo se reintenten las peticiones idempotentes
+ * con fallas transitorias, esperando cada vez el doble.
+ */
+describe('retryInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([retryInterceptor])),
+        provideHttpClientTesting(),
+        {
+          provide: AppConfigService,
+          useValue: { config: { apiBaseUrl: '/api', requestTimeoutMs: 0, retryAttempts: 2, retryDelayMs: 100 } }
+        }
+      ]
+    });
+
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  /**
+   * Prueba que un GET se reintente con espera exponencial hasta tener éxito.
+   */
+  it('should retry GET requests with exponential backoff', fakeAsync(() => {
+    let body: unknown;
+    http.get('/api/products').subscribe(response => body = response);
+
+    httpMock.expectOne('/api/products').error(new ProgressEvent('error'));
+    tick(99);
+    httpMock.expectNone('/api/products');
+    tick(1);
+    httpMock.expectOne('/api/products').flush(null, { status: 503, statusText: 'Service Unavailable' });
+    tick(199);
+    httpMock.expectNone('/api/products');
+    tick(1);
+    httpMock.expectOne('/api/products').flush([]);
+
+    expect(body).toEqual([]);
+  }));
+
+  /**
+   * Prueba que se propague el último error al agotar los intentos.
+   */
+  it('should give up after the configured attempts', fakeAsync(() => {
+    let received: unknown;
+    http.get('/api/products').subscribe({ error: error => received = error });
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      httpMock.expectOne('/api/products').flush(null, { status: 503, statusText: 'Service Unavailable' });
+      tick(400);
+    }
+
+    expect((received as HttpErrorResponse).status).toBe(503);
+  }));
+
+  /**
+   * Prueba que los errores que no son transitorios no se reintenten.
+   */
+  it('should not retry client errors', () => {
+    let received: unknown;
+    http.get('/api/products/1').subscribe({ error: error => received = error });
+
+    httpMock.expectOne('/api/products/1').flush(null, { status: 404, statusText: 'Not Found' });
+
+    expect((received as HttpErrorResponse).status).toBe(404);
+  });
+
+  /**
+   * Prueba que las peticiones que modifican datos no se reintenten.
+   */
+  it('should not retry POST requests', () => {
+    let received: unknown;
+    http.post('/api/products', {}).subscribe({ error: error => received = error });
+
+    httpMock.expectOne('/api/products').error(new ProgressEvent('error'));
+
+    expect((received as HttpErrorResponse).status).toBe(0);
+  });
+});
@@ -0,0 +1,48 @@
+import { HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { retry, throwError, timer, TimeoutError } from 'rxjs';
+import { AppConfigService } from '../services/app-config.service';
+
+/** Methods that are safe to repeat without side effects */
+const RETRYABLE_METHODS = ['GET', 'HEAD'];
+
+/** Statuses that usually mean the server is briefly unavailable */
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+/**
+ * Retries failed idempotent requests with exponential backoff.
+ *
+ * Only GET and HEAD requests are retried, and only for failures
+ * that may go away on their own: network errors, timeouts and
+ * "try again later" statuses. The first retry waits `retryDelayMs`
+ * and each further one waits twice as long.
+ *
+ * Must be registered before the timeout interceptor, so each
+ * attempt gets its own timeout.
+ */
+export const retryInterceptor: HttpInterceptorFn = (req, next) => {
+  const { retryAttempts, retryDelayMs } = inject(AppConfigService).config;
+
+  if (!RETRYABLE_METHODS.includes(req.method) || retryAttempts <= 0) {
+    return next(req);
+  }
+
+  return next(req).pipe(
+    retry({
+      count: retryAttempts,
+      delay: (error: unknown, attempt: number) =>
+        isTransient(error) ? timer(retryDelayMs * 2 ** (attempt - 1)) : throwError(() => error)
+    })
+  );
+};
+
+/**
+ * Whether a failure is worth retrying.
+ */
+function isTransient(error: unknown): boolean {
+  if (error instanceof TimeoutError) {
+    return true;
+  }
+  return error instanceof HttpErrorResponse &&
+    (error.status === 0 || RETRYABLE_STATUSES.includes(error.status));
+}
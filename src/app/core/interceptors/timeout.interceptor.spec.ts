@@ -0,0 +1,61 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { HttpClient, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { provideHttpClientTesting, HttpTestingController } from '@angular/common/http/testing';
+import { TimeoutError } from 'rxjs';
+import { timeoutInterceptor } from './timeout.interceptor';
+import { AppConfigService } from '../services/app-config.service';
+
+/**
+ * Pruebas unitarias para timeoutInterceptor.
+ * 
+ * Verifica que las peticiones lentas se cancelen
+ * al superar el tiempo configurado.
+ */
+describe('timeoutInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(withInterceptors([timeoutInterceptor])),
+        provideHttpClientTesting(),
+        {
+          provide: AppConfigService,
+          useValue: { config: { apiBaseUrl: '/api', requestTimeoutMs: 1000, retryAttempts: 0, retryDelayMs: 0 } }
+        }
+      ]
+    });
+
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  /**
+   * Prueba que una petición lenta falle con TimeoutError y se cancele.
+   */
+  it('should fail slow requests with a TimeoutError', fakeAsync(() => {
+    let received: unknown;
+    http.get('/api/products').subscribe({ error: error => received = error });
+
+    const req = httpMock.expectOne('/api/products');
+    tick(1000);
+
+    expect(received).toEqual(jasmine.any(TimeoutError));
+    expect(req.cancelled).toBeTrue();
+  }));
+
+  /**
+   * Prueba que las respuestas a tiempo no se vean afectadas.
+   */
+  it('should pass responses received in time', fakeAsync(() => {
+    let body: unknown;
+    http.get('/api/products').subscribe(response => body = response);
+
+    tick(999);
+    httpMock.expectOne('/api/products').flush([]);
+
+    expect(body).toEqual([]);
+    httpMock.verify();
+  }));
+});
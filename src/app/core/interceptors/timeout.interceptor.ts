@@ -0,0 +1,16 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { inject } from '@angular/core';
+import { timeout } from 'rxjs';
+import { AppConfigService } from '../services/app-config.service';
+
+/**
+ * Aborts requests that take longer than `requestTimeoutMs`.
+ *
+ * The request fails with an rxjs `TimeoutError`, which the error
+ * interceptor maps to an AppError of kind `timeout`. A timeout of
+ * 0 disables the limit.
+ */
+export const timeoutInterceptor: HttpInterceptorFn = (req, next) => {
+  const { requestTimeoutMs } = inject(AppConfigService).config;
+  return requestTimeoutMs > 0 ? next(req).pipe(timeout(requestTimeoutMs)) : next(req);
+};
@@ -0,0 +1,105 @@
+import { HttpErrorResponse } from '@angular/common/http';
+import { TimeoutError } from 'rxjs';
+import { CategoryValidationError } from './category.schema';
+import { ExchangeRatesValidationError } from './exchange-rates.schema';
+import { ProductValidationError } from './product.schema';
+import { StockMovementValidationError } from './stock-movement.schema';
+import { WarehouseValidationError } from './warehouse.schema';
+
+/**
+ * Category of an application error, independent of the transport.
+ */
+export type AppErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'validation'
+  | 'unauthorized'
+  | 'not-found'
+  | 'conflict'
+  | 'server'
+  | 'invalid-data'
+  | 'unknown';
+
+/**
+ * Error shown to the user, with a message that is already translated.
+ *
+ * HTTP failures are mapped into this type by the error interceptor,
+ * so subscribers never have to inspect status codes themselves.
+ */
+export class AppError extends Error {
+  constructor(
+    readonly kind: AppErrorKind,
+    message: string,
+    /** HTTP status code, when the error comes from a response */
+    readonly status?: number,
+    /** Original error or response body, for logging and advanced handling */
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'AppError';
+  }
+}
+
+/** User-facing message for each kind of error */
+const MESSAGES: Record<AppErrorKind, string> = {
+  network: 'No se pudo conectar con el servidor. Verifica tu conexión e inténtalo de nuevo.',
+  timeout: 'El servidor tardó demasiado en responder. Inténtalo de nuevo.',
+  validation: 'El servidor rechazó los datos enviados. Revisa los campos e inténtalo de nuevo.',
+  unauthorized: 'No tienes permiso para realizar esta acción.',
+  'not-found': 'El recurso solicitado no existe o fue eliminado.',
+  conflict: 'La operación entra en conflicto con los datos actuales del servidor.',
+  server: 'El servidor tuvo un problema al procesar la solicitud. Inténtalo más tarde.',
+  'invalid-data': 'El servidor envió datos inválidos.',
+  unknown: 'Ocurrió un error inesperado.'
+};
+
+/**
+ * Converts any error into an AppError.
+ *
+ * @param error - Error thrown by HttpClient, a decoder or any other source
+ * @returns The same error if it already is an AppError, or a mapped one
+ */
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+  if (error instanceof HttpErrorResponse) {
+    const kind = kindFromStatus(error.status);
+    return new AppError(kind, MESSAGES[kind], error.status || undefined, error.error ?? error);
+  }
+  if (error instanceof TimeoutError) {
+    return new AppError('timeout', MESSAGES.timeout, undefined, error);
+  }
+  if (
+    error instanceof ProductValidationError ||
+    error instanceof CategoryValidationError ||
+    error instanceof StockMovementValidationError ||
+    error instanceof WarehouseValidationError ||
+    error instanceof ExchangeRatesValidationError
+  ) {
+    return new AppError('invalid-data', MESSAGES['invalid-data'], undefined, error);
+  }
+  return new AppError('unknown', MESSAGES.unknown, undefined, error);
+}
+
+function kindFromStatus(status: number): AppErrorKind {
+  if (status === 0) {
+    return 'network';
+  }
+  if (status === 400 || status === 422) {
+    return 'validation';
+  }
+  if (status === 401 || status === 403) {
+    return 'unauthorized';
+  }
+  if (status === 404) {
+    return 'not-found';
+  }
+  if (status === 409) {
+    return 'conflict';
+  }
+  if (status >= 500) {
+    return 'server';
+  }
+  return 'unknown';
+}
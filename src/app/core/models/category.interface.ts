@@ -0,0 +1,20 @@
+/**
+ * Unique identifier of a category.
+ *
+ * Generated by the backend in the same short format as product ids.
+ */
+export type CategoryId = string;
+
+/**
+ * Category that groups products in the catalog.
+ *
+ * Categories form a tree: a category with a `parentId` is nested
+ * under that category, e.g. "Notebooks" under "Computadores".
+ * Categories without one are at the top level.
+ */
+export interface Category {
+  id?: CategoryId;
+  name: string;
+  /** Category this one is nested under; undefined for a top-level category */
+  parentId?: CategoryId;
+}
@@ -0,0 +1,49 @@
+import { CategoryValidationError, decodeCategories, decodeCategory } from './category.schema';
+
+/**
+ * Pruebas unitarias para el esquema de categorías.
+ * 
+ * Verifica que las categorías recibidas desde la API se validen
+ * en tiempo de ejecución y que una categoría sin padre quede en
+ * el primer nivel.
+ */
+describe('Category schema', () => {
+  /**
+   * Prueba que una categoría anidada se decodifique sin cambios.
+   */
+  it('should decode a nested category', () => {
+    expect(decodeCategory({ id: 'c2', name: 'Notebooks', parentId: 'c1' }))
+      .toEqual({ id: 'c2', name: 'Notebooks', parentId: 'c1' });
+  });
+
+  /**
+   * Prueba que un padre nulo deje la categoría en el primer nivel.
+   */
+  it('should treat a null parent as a top-level category', () => {
+    expect(decodeCategory({ id: 1, name: 'Computadores', parentId: null, extra: true }))
+      .toEqual({ id: '1', name: 'Computadores' });
+  });
+
+  /**
+   * Prueba que se reporten los campos inválidos de cada registro.
+   */
+  it('should report every malformed field', () => {
+    try {
+      decodeCategories([{ id: 'c1', name: 'Audio' }, { name: ' ', parentId: 7.5 }, { name: 'x'.repeat(61) }]);
+      fail('Expected a CategoryValidationError');
+    } catch (error) {
+      expect(error).toEqual(jasmine.any(CategoryValidationError));
+      expect((error as CategoryValidationError).issues).toEqual([
+        { index: 1, id: undefined, field: 'name', message: 'is required' },
+        { index: 2, id: undefined, field: 'name', message: 'must have at most 60 characters' }
+      ]);
+    }
+  });
+
+  /**
+   * Prueba que se rechace un payload que no es un arreglo.
+   */
+  it('should reject a payload that is not an array', () => {
+    expect(() => decodeCategories({ data: [] })).toThrowError(CategoryValidationError, /must be an array/);
+  });
+});
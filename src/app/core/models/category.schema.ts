@@ -0,0 +1,127 @@
+import { Category, CategoryId } from './category.interface';
+
+/** Longest category name accepted, in characters */
+export const MAX_CATEGORY_NAME_LENGTH = 60;
+
+/**
+ * A single problem found while decoding a category record.
+ */
+export interface CategoryIssue {
+  /** Position of the record in the payload, when decoding a list */
+  index?: number;
+  /** ID of the record, when it could be read */
+  id?: CategoryId;
+  /** Name of the offending field */
+  field: string;
+  message: string;
+}
+
+/**
+ * Error raised when a payload does not match the category schema,
+ * or when a category points to a parent that cannot hold it.
+ */
+export class CategoryValidationError extends Error {
+  constructor(readonly issues: CategoryIssue[]) {
+    super(
+      `Invalid category data: ${issues
+        .map(issue => `${issue.index !== undefined ? `#${issue.index} ` : ''}${issue.field} ${issue.message}`)
+        .join('; ')}`
+    );
+    this.name = 'CategoryValidationError';
+  }
+}
+
+/**
+ * Decodes a single category record received from the API.
+ *
+ * Numeric ids are accepted and normalized to strings, a null
+ * `parentId` means a top-level category and unknown properties
+ * are dropped.
+ *
+ * @param value - Raw value parsed from the response body
+ * @returns The validated category
+ * @throws CategoryValidationError if the record is malformed
+ */
+export function decodeCategory(value: unknown): Category {
+  const issues: CategoryIssue[] = [];
+  const category = readCategory(value, issues);
+
+  if (!category) {
+    throw new CategoryValidationError(issues);
+  }
+  return category;
+}
+
+/**
+ * Decodes a list of category records received from the API.
+ *
+ * @param value - Raw value parsed from the response body
+ * @returns The validated categories, in the same order
+ * @throws CategoryValidationError listing every malformed record
+ */
+export function decodeCategories(value: unknown): Category[] {
+  if (!Array.isArray(value)) {
+    throw new CategoryValidationError([{ field: 'categories', message: 'must be an array' }]);
+  }
+
+  const issues: CategoryIssue[] = [];
+  const categories = value.map((item, index) => {
+    const recordIssues: CategoryIssue[] = [];
+    const category = readCategory(item, recordIssues);
+    issues.push(...recordIssues.map(issue => ({ ...issue, index })));
+    return category;
+  });
+
+  if (issues.length > 0) {
+    throw new CategoryValidationError(issues);
+  }
+  return categories as Category[];
+}
+
+/**
+ * Validates a record, collecting issues instead of throwing.
+ *
+ * @returns The category, or null if any issue was found
+ */
+function readCategory(value: unknown, issues: CategoryIssue[]): Category | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push({ field: 'category', message: 'must be an object' });
+    return null;
+  }
+
+  const { id, name, parentId } = value as Record<string, unknown>;
+  const start = issues.length;
+  const categoryId = readId(id);
+  const parent = readId(parentId);
+
+  if (id !== undefined && categoryId === undefined) {
+    issues.push({ field: 'id', message: 'must be a non-empty string' });
+  }
+  if (typeof name !== 'string' || name.trim() === '') {
+    issues.push({ id: categoryId, field: 'name', message: 'is required' });
+  } else if (name.trim().length > MAX_CATEGORY_NAME_LENGTH) {
+    issues.push({ id: categoryId, field: 'name', message: `must have at most ${MAX_CATEGORY_NAME_LENGTH} characters` });
+  }
+  if (parentId !== undefined && parentId !== null && parent === undefined) {
+    issues.push({ id: categoryId, field: 'parentId', message: 'must be a non-empty string or null' });
+  }
+
+  if (issues.length > start) {
+    return null;
+  }
+  return {
+    ...(categoryId !== undefined && { id: categoryId }),
+    name: name as string,
+    ...(parent !== undefined && { parentId: parent })
+  };
+}
+
+function readId(value: unknown): CategoryId | undefined {
+  if (typeof value === 'string' && value.trim() !== '') {
+    return value;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  return undefined;
+}
@@ -0,0 +1,38 @@
+import { ExchangeRatesValidationError, decodeExchangeRates } from './exchange-rates.schema';
+
+/**
+ * Pruebas unitarias para el esquema de tasas de cambio.
+ *
+ * Verifica que la tabla recibida desde la API se valide en tiempo
+ * de ejecución y siempre incluya la moneda base.
+ */
+describe('Exchange rates schema', () => {
+  /**
+   * Prueba que se agregue la moneda base y se descarten las propiedades desconocidas.
+   */
+  it('should decode the rates and list the base currency', () => {
+    expect(decodeExchangeRates({ base: 'CLP', rates: { USD: 950 }, updatedAt: '2024-05-01T12:00:00.000Z', extra: true }))
+      .toEqual({ base: 'CLP', rates: { USD: 950, CLP: 1 }, updatedAt: '2024-05-01T12:00:00.000Z' });
+  });
+
+  /**
+   * Prueba que se reporten los códigos y tasas inválidos.
+   */
+  it('should report every malformed rate', () => {
+    try {
+      decodeExchangeRates({ base: 'clp', rates: { USD: 0, pen: 250 } });
+      fail('Expected an ExchangeRatesValidationError');
+    } catch (error) {
+      expect(error).toEqual(jasmine.any(ExchangeRatesValidationError));
+      expect((error as ExchangeRatesValidationError).issues.map(issue => issue.field)).toEqual(['base', 'rates.USD', 'rates.pen']);
+    }
+  });
+
+  /**
+   * Prueba que la moneda base valga 1.
+   */
+  it('should reject a base currency with a rate other than 1', () => {
+    expect(() => decodeExchangeRates({ base: 'CLP', rates: { CLP: 2 } }))
+      .toThrowError(ExchangeRatesValidationError, /must be 1 for the base currency/);
+  });
+});
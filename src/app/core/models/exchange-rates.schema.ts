@@ -0,0 +1,75 @@
+import { CURRENCY_CODE_PATTERN, CurrencyCode, ExchangeRates } from './money';
+
+/**
+ * A single problem found while decoding an exchange rate table.
+ */
+export interface ExchangeRatesIssue {
+  /** Name of the offending field, e.g. `rates.USD` */
+  field: string;
+  message: string;
+}
+
+/**
+ * Error raised when a payload does not match the exchange rate schema.
+ */
+export class ExchangeRatesValidationError extends Error {
+  constructor(readonly issues: ExchangeRatesIssue[]) {
+    super(`Invalid exchange rates: ${issues.map(issue => `${issue.field} ${issue.message}`).join('; ')}`);
+    this.name = 'ExchangeRatesValidationError';
+  }
+}
+
+/**
+ * Decodes an exchange rate table received from the API.
+ *
+ * The base currency is always listed with a rate of 1, and unknown
+ * properties are dropped.
+ *
+ * @param value - Raw value parsed from the response body
+ * @returns The validated rates
+ * @throws ExchangeRatesValidationError if the table is malformed
+ */
+export function decodeExchangeRates(value: unknown): ExchangeRates {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ExchangeRatesValidationError([{ field: 'exchangeRates', message: 'must be an object' }]);
+  }
+
+  const { base, rates, updatedAt } = value as Record<string, unknown>;
+  const issues: ExchangeRatesIssue[] = [];
+
+  if (!isCurrencyCode(base)) {
+    issues.push({ field: 'base', message: 'must be a currency code of three uppercase letters' });
+  }
+  if (typeof rates !== 'object' || rates === null || Array.isArray(rates)) {
+    issues.push({ field: 'rates', message: 'must map currency codes to rates' });
+  } else {
+    for (const [currency, rate] of Object.entries(rates)) {
+      if (!isCurrencyCode(currency)) {
+        issues.push({ field: `rates.${currency}`, message: 'must be a currency code of three uppercase letters' });
+      } else if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+        issues.push({ field: `rates.${currency}`, message: 'must be a positive number' });
+      } else if (currency === base && rate !== 1) {
+        issues.push({ field: `rates.${currency}`, message: 'must be 1 for the base currency' });
+      }
+    }
+  }
+  if (updatedAt !== undefined && (typeof updatedAt !== 'string' || isNaN(Date.parse(updatedAt)))) {
+    issues.push({ field: 'updatedAt', message: 'must be a date' });
+  }
+
+  if (issues.length > 0) {
+    throw new ExchangeRatesValidationError(issues);
+  }
+  return {
+    base: base as CurrencyCode,
+    rates: { ...(rates as Record<CurrencyCode, number>), [base as CurrencyCode]: 1 },
+    ...(updatedAt !== undefined && { updatedAt: updatedAt as string })
+  };
+}
+
+/**
+ * Whether a value is a currency code of three uppercase letters.
+ */
+export function isCurrencyCode(value: unknown): value is CurrencyCode {
+  return typeof value === 'string' && CURRENCY_CODE_PATTERN.test(value);
+}
@@ -0,0 +1,10 @@
+/**
+ * Named data set that the database can be reset to.
+ */
+export interface DatabaseFixture {
+  /** Identifier used to request the reset (e.g. `"default"`) */
+  name: string;
+  label: string;
+  description?: string;
+  productCount: number;
+}
@@ -0,0 +1,42 @@
+import { ExchangeRates, convertMoney, localeOf, roundMoney } from './money';
+
+/**
+ * Pruebas unitarias para los montos y la conversión entre monedas.
+ *
+ * Verifica que la conversión pase por la moneda base de las tasas.
+ */
+describe('Money', () => {
+  const rates: ExchangeRates = { base: 'CLP', rates: { CLP: 1, USD: 950, PEN: 250 } };
+
+  /**
+   * Prueba que la conversión use la moneda base entre dos monedas cualquiera.
+   */
+  it('should convert through the base currency', () => {
+    expect(convertMoney({ amount: 9500, currency: 'CLP' }, 'USD', rates)).toEqual({ amount: 10, currency: 'USD' });
+    expect(convertMoney({ amount: 10, currency: 'USD' }, 'PEN', rates)).toEqual({ amount: 38, currency: 'PEN' });
+    expect(convertMoney({ amount: 10, currency: 'USD' }, 'USD', rates)).toEqual({ amount: 10, currency: 'USD' });
+  });
+
+  /**
+   * Prueba que no se convierta a una moneda sin tasa.
+   */
+  it('should not convert currencies without a rate', () => {
+    expect(convertMoney({ amount: 10, currency: 'USD' }, 'ARS', rates)).toBeNull();
+  });
+
+  /**
+   * Prueba que los montos se redondeen a la unidad mínima de su moneda.
+   */
+  it('should round to the smallest unit of the currency', () => {
+    expect(roundMoney({ amount: 714277.31, currency: 'CLP' })).toEqual({ amount: 714277, currency: 'CLP' });
+    expect(roundMoney({ amount: 756.2941, currency: 'USD' })).toEqual({ amount: 756.29, currency: 'USD' });
+  });
+
+  /**
+   * Prueba que cada moneda se formatee en el idioma de su país.
+   */
+  it('should pick the locale of each currency', () => {
+    expect(localeOf('PEN')).toBe('es-PE');
+    expect(localeOf('EUR')).toBe('es-CL');
+  });
+});
@@ -0,0 +1,97 @@
+/** ISO 4217 code of a currency, e.g. `"CLP"` or `"USD"` */
+export type CurrencyCode = string;
+
+/** Currency of the prices that do not state one */
+export const DEFAULT_CURRENCY: CurrencyCode = 'CLP';
+
+/** Format of a currency code: three uppercase letters */
+export const CURRENCY_CODE_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * Locale each currency is formatted in by default, so amounts read
+ * the way customers of that country expect. Other currencies use the
+ * Chilean locale.
+ */
+export const CURRENCY_LOCALES: Readonly<Record<CurrencyCode, string>> = {
+  CLP: 'es-CL',
+  PEN: 'es-PE',
+  ARS: 'es-AR',
+  USD: 'en-US'
+};
+
+/**
+ * An amount in a given currency.
+ */
+export interface Money {
+  amount: number;
+  currency: CurrencyCode;
+}
+
+/**
+ * Table used to convert amounts between currencies.
+ */
+export interface ExchangeRates {
+  /** Currency the rates are quoted in */
+  base: CurrencyCode;
+  /** Value of one unit of each currency in the base currency; the base itself is 1 */
+  rates: Record<CurrencyCode, number>;
+  /** ISO 8601 timestamp of the last change to the rates */
+  updatedAt?: string;
+}
+
+/** Rates of a catalog priced only in the default currency */
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = { base: DEFAULT_CURRENCY, rates: { [DEFAULT_CURRENCY]: 1 } };
+
+/**
+ * Default locale to format a currency in.
+ *
+ * @param currency - Currency to format
+ */
+export function localeOf(currency: CurrencyCode): string {
+  return CURRENCY_LOCALES[currency] ?? CURRENCY_LOCALES[DEFAULT_CURRENCY];
+}
+
+/**
+ * Converts an amount to another currency.
+ *
+ * @param money - Amount to convert
+ * @param currency - Currency to convert to
+ * @param rates - Exchange rates to use
+ * @returns The converted amount, or null if either currency has no rate
+ */
+export function convertMoney(money: Money, currency: CurrencyCode, rates: ExchangeRates): Money | null {
+  if (money.currency === currency) {
+    return { ...money };
+  }
+  const from = rateOf(money.currency, rates);
+  const to = rateOf(currency, rates);
+  if (from === undefined || to === undefined) {
+    return null;
+  }
+  return { amount: (money.amount * from) / to, currency };
+}
+
+/**
+ * Rounds an amount to the smallest unit of its currency, e.g. whole
+ * pesos for CLP or cents for USD.
+ *
+ * @param money - Amount to round
+ */
+export function roundMoney(money: Money): Money {
+  const factor = 10 ** minorDigitsOf(money.currency);
+  return { amount: Math.round(money.amount * factor) / factor, currency: money.currency };
+}
+
+/**
+ * Decimal places of the smallest unit of a currency.
+ */
+function minorDigitsOf(currency: CurrencyCode): number {
+  return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+/**
+ * Value of one unit of a currency in the base currency of the rates.
+ */
+function rateOf(currency: CurrencyCode, rates: ExchangeRates): number | undefined {
+  return currency === rates.base ? 1 : rates.rates[currency];
+}
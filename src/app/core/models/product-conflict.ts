@@ -0,0 +1,43 @@
+import { toAppError } from './app-error';
+import { Product } from './product.interface';
+import { decodeProduct } from './product.schema';
+
+/**
+ * Reads the server's copy of a product from a failed update.
+ *
+ * The API rejects an update based on an outdated version with 409
+ * and the stored product in `current`; the error interceptor keeps
+ * that body in `AppError.details`.
+ *
+ * @param error - Error of the update request
+ * @returns The product as currently stored, or null if the error is
+ * not a version conflict
+ */
+export function readVersionConflict(error: unknown): Product | null {
+  const appError = toAppError(error);
+  const current = (appError.details as { current?: unknown } | null | undefined)?.current;
+  if (appError.kind !== 'conflict' || current === undefined) {
+    return null;
+  }
+
+  try {
+    return decodeProduct(current);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Reads which unique field a failed write collided on.
+ *
+ * The API rejects a name or SKU already used by another product with
+ * 409 and the offending field in `field`.
+ *
+ * @param error - Error of the create or update request
+ * @returns The taken field, or null if the error is not a uniqueness conflict
+ */
+export function readUniqueConflict(error: unknown): 'name' | 'sku' | null {
+  const appError = toAppError(error);
+  const field = (appError.details as { field?: unknown } | null | undefined)?.field;
+  return appError.kind === 'conflict' && (field === 'name' || field === 'sku') ? field : null;
+}
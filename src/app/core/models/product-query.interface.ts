@@ -0,0 +1,40 @@
+/**
+ * Product fields that the catalog can be sorted by.
+ */
+export type ProductSortField = 'sku' | 'name' | 'price' | 'stock';
+
+/**
+ * Direction of a sort.
+ */
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Criteria to filter, sort and paginate the product catalog on the server.
+ *
+ * Every field is optional; omitted filters are not applied.
+ */
+export interface ProductQuery {
+  /** Text to search for in the product name or SKU */
+  search?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  minStock?: number;
+  maxStock?: number;
+  sortField?: ProductSortField;
+  sortDirection?: SortDirection;
+  /** Page number, starting at 1 */
+  page?: number;
+  /** Maximum number of items per page */
+  limit?: number;
+}
+
+/**
+ * One page of results together with the total number of matches.
+ */
+export interface PagedResult<T> {
+  items: T[];
+  /** Total number of items matching the query, across all pages */
+  total: number;
+  page: number;
+  pageSize: number;
+}
@@ -1,9 +1,95 @@
+import { CategoryId } from './category.interface';
+import { Money } from './money';
+import { WarehouseId } from './warehouse.interface';
+
+/**
+ * Unique identifier of a product.
+ *
+ * The backend generates short string ids (e.g. `"a7c6"`), so ids are
+ * never numeric and must not be compared or converted as numbers.
+ */
+export type ProductId = string;
+
+/**
+ * Publication state of a product.
+ *
+ * - `active`: listed and on sale.
+ * - `draft`: still being prepared, not on sale yet.
+ * - `archived`: no longer sold, kept for its history.
+ */
+export type ProductStatus = 'active' | 'draft' | 'archived';
+
+/** Every product status, in the order they are offered to the user */
+export const PRODUCT_STATUSES: ProductStatus[] = ['active', 'draft', 'archived'];
+
+/**
+ * How IVA applies to a product.
+ *
+ * - `standard`: taxed at the IVA rate of the app configuration.
+ * - `exempt`: not subject to IVA.
+ */
+export type TaxCategory = 'standard' | 'exempt';
+
+/** Every tax category, in the order they are offered to the user */
+export const TAX_CATEGORIES: TaxCategory[] = ['standard', 'exempt'];
+
 /**
  * Interface that defines the structure of a product in the e-commerce system.
  */
 export interface Product {
-  id?: number;
+  id?: ProductId;
+  /**
+   * Stock keeping unit: the code that identifies the product in the
+   * warehouse and on invoices. Unique across the catalog, stored in
+   * uppercase. Records from older data files may lack it, but the API
+   * requires it on every write.
+   */
+  sku?: string;
   name: string;
-  price: number;
+  /** Category the product is listed under; undefined for an uncategorized product */
+  categoryId?: CategoryId;
+  brand?: string;
+  /** Long description shown on the product page */
+  description?: string;
+  /** Absolute URLs of the product pictures, the first one being the main picture */
+  imageUrls?: string[];
+  /** Publication state; records without one are active */
+  status?: ProductStatus;
+  /**
+   * List price, IVA included. The API only accepts currencies listed
+   * in its exchange rate table.
+   */
+  price: Money;
+  /** How IVA applies to the price; records without one are `standard` */
+  taxCategory?: TaxCategory;
+  /** Units in stock across every warehouse */
   stock: number;
+  /**
+   * Units in stock at each warehouse, kept by the server from the
+   * stock ledger; they add up to `stock`. Warehouses without units
+   * are left out. Ignored on writes.
+   */
+  warehouseStock?: Record<WarehouseId, number>;
+  /**
+   * Units at or below which the product is low on stock and should
+   * be reordered. Undefined to use the default of the app configuration.
+   */
+  reorderPoint?: number;
+  /** Units to order when restocking; undefined to use the default of the app configuration */
+  reorderQuantity?: number;
+  /**
+   * Revision number, increased by the server on every write.
+   * Updates must send the version they were based on, so a stale
+   * write is rejected instead of overwriting someone else's change.
+   */
+  version?: number;
+  /** ISO 8601 timestamp of when the product was created */
+  createdAt?: string;
+  /** ISO 8601 timestamp of the last write */
+  updatedAt?: string;
+  /**
+   * ISO 8601 timestamp of when the product was moved to the trash.
+   * Only set on products listed by the trash endpoints.
+   */
+  deletedAt?: string;
 }
@@ -0,0 +1,210 @@
+import { decodeProduct, decodeProducts, ProductValidationError } from './product.schema';
+
+/**
+ * Pruebas unitarias para el esquema de productos.
+ * 
+ * Verifica que los registros recibidos desde la API se validen
+ * en tiempo de ejecución y que los errores indiquen claramente
+ * qué registro y qué campo son inválidos.
+ */
+describe('Product schema', () => {
+  /**
+   * Grupo de pruebas para decodeProduct().
+   */
+  describe('decodeProduct', () => {
+    /**
+     * Prueba que un registro válido se decodifique sin cambios.
+     */
+    it('should decode a valid product', () => {
+      expect(decodeProduct({ id: 'a7c6', name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10 }))
+        .toEqual({ id: 'a7c6', name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10 });
+    });
+
+    /**
+     * Prueba que los IDs numéricos se normalicen a string.
+     */
+    it('should normalize numeric ids to strings', () => {
+      expect(decodeProduct({ id: 7, name: 'iPad Air', price: { amount: 649990, currency: 'CLP' }, stock: 15 }).id).toBe('7');
+    });
+
+    /**
+     * Prueba que se descarten propiedades desconocidas.
+     */
+    it('should drop unknown properties', () => {
+      const product = decodeProduct({ id: 'a01f', name: 'MacBook Pro', price: { amount: 2499990, currency: 'CLP' }, stock: 5, extra: true });
+      expect(product).toEqual({ id: 'a01f', name: 'MacBook Pro', price: { amount: 2499990, currency: 'CLP' }, stock: 5 });
+    });
+
+    /**
+     * Prueba que se conserven la versión y la fecha de modificación.
+     */
+    it('should keep the version and update time', () => {
+      const product = decodeProduct({
+        id: 'a7c6', name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10, version: 3, updatedAt: '2024-05-01T12:00:00.000Z'
+      });
+      expect(product.version).toBe(3);
+      expect(product.updatedAt).toBe('2024-05-01T12:00:00.000Z');
+    });
+
+    /**
+     * Prueba que se rechacen versiones y fechas inválidas.
+     */
+    it('should reject malformed versions and dates', () => {
+      expect(() => decodeProduct({ name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10, version: 0 }))
+        .toThrowError(ProductValidationError, /version must be a positive integer/);
+      expect(() => decodeProduct({ name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10, updatedAt: 'ayer' }))
+        .toThrowError(ProductValidationError, /updatedAt must be a date/);
+      expect(() => decodeProduct({ name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10, deletedAt: 'ayer' }))
+        .toThrowError(ProductValidationError, /deletedAt must be a date/);
+    });
+
+    /**
+     * Prueba que se conserve la fecha de eliminación de los productos en la papelera.
+     */
+    it('should keep the deletion time', () => {
+      const product = decodeProduct({
+        id: 'a7c6', name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10, deletedAt: '2024-05-02T09:30:00.000Z'
+      });
+      expect(product.deletedAt).toBe('2024-05-02T09:30:00.000Z');
+    });
+
+    /**
+     * Prueba que se conserven los datos de catálogo del producto.
+     */
+    it('should keep the catalog fields', () => {
+      const catalog = {
+        sku: 'APL-IPH15-128',
+        categoryId: 'c3',
+        brand: 'Apple',
+        description: 'Pantalla de 6,1 pulgadas',
+        imageUrls: ['https://example.com/iphone-15.jpg'],
+        status: 'draft' as const,
+        createdAt: '2024-01-15T12:00:00.000Z'
+      };
+      const product = decodeProduct({ id: 'a7c6', name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10, ...catalog });
+      expect(product).toEqual({ id: 'a7c6', name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10, ...catalog });
+    });
+
+    /**
+     * Prueba que se conserve el stock de cada bodega y se rechacen cantidades inválidas.
+     */
+    it('should keep the stock of each warehouse', () => {
+      const product = decodeProduct({ name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10, warehouseStock: { scl: 6, vap: 4 } });
+      expect(product.warehouseStock).toEqual({ scl: 6, vap: 4 });
+
+      expect(() => decodeProduct({ name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10, warehouseStock: { scl: -1 } }))
+        .toThrowError(ProductValidationError, /warehouseStock/);
+    });
+
+    /**
+     * Prueba que se conserve la moneda del precio y se rechace un código inválido.
+     */
+    it('should keep the currency of the price', () => {
+      expect(decodeProduct({ name: 'iPhone 15', price: { amount: 999, currency: 'USD' }, stock: 10 }).price)
+        .toEqual({ amount: 999, currency: 'USD' });
+
+      expect(() => decodeProduct({ name: 'iPhone 15', price: { amount: 999, currency: 'usd' }, stock: 10 }))
+        .toThrowError(ProductValidationError, /price\.currency/);
+      expect(() => decodeProduct({ name: 'iPhone 15', price: { amount: 999 }, stock: 10 }))
+        .toThrowError(ProductValidationError, /price\.currency/);
+    });
+
+    /**
+     * Prueba que un precio numérico de registros antiguos se lea en su moneda o en pesos.
+     */
+    it('should migrate a number price to an amount with its currency', () => {
+      expect(decodeProduct({ name: 'iPhone 15', price: 849990, stock: 10 }))
+        .toEqual({ name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10 });
+      expect(decodeProduct({ name: 'iPhone 15', price: 999, currency: 'USD', stock: 10 }))
+        .toEqual({ name: 'iPhone 15', price: { amount: 999, currency: 'USD' }, stock: 10 });
+
+      expect(() => decodeProduct({ name: 'iPhone 15', price: 999, currency: 'usd', stock: 10 }))
+        .toThrowError(ProductValidationError, /currency/);
+    });
+
+    /**
+     * Prueba que se conserve la categoría tributaria y se rechace una desconocida.
+     */
+    it('should keep the tax category', () => {
+      expect(decodeProduct({ name: 'Libro', price: { amount: 19990, currency: 'CLP' }, taxCategory: 'exempt', stock: 3 }).taxCategory).toBe('exempt');
+
+      expect(() => decodeProduct({ name: 'Libro', price: { amount: 19990, currency: 'CLP' }, taxCategory: 'reduced', stock: 3 }))
+        .toThrowError(ProductValidationError, /taxCategory/);
+    });
+
+    /**
+     * Prueba que se rechacen SKU, estados e imágenes con formato inválido.
+     */
+    it('should reject malformed SKUs, statuses and image URLs', () => {
+      try {
+        decodeProduct({
+          name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10,
+          sku: 'A 1', status: 'hidden', imageUrls: ['javascript:alert(1)']
+        });
+        fail('Expected a ProductValidationError');
+      } catch (error) {
+        expect((error as ProductValidationError).issues.map(issue => issue.field))
+          .toEqual(['sku', 'imageUrls', 'status']);
+      }
+    });
+
+    /**
+     * Prueba que se reporten todos los campos inválidos.
+     */
+    it('should report every malformed field', () => {
+      try {
+        decodeProduct({ id: 'x1', name: '', price: { amount: '849990', currency: 'CLP' }, stock: -1 });
+        fail('Expected a ProductValidationError');
+      } catch (error) {
+        expect(error).toEqual(jasmine.any(ProductValidationError));
+        const issues = (error as ProductValidationError).issues;
+        expect(issues.map(issue => issue.field)).toEqual(['name', 'price.amount', 'stock']);
+        expect((error as ProductValidationError).message).toContain('(id x1) price.amount must be a number');
+      }
+    });
+
+    /**
+     * Prueba que se rechacen valores que no son objetos.
+     */
+    it('should reject non-object values', () => {
+      expect(() => decodeProduct(null)).toThrowError(ProductValidationError);
+      expect(() => decodeProduct('iPhone')).toThrowError(ProductValidationError);
+    });
+  });
+
+  /**
+   * Grupo de pruebas para decodeProducts().
+   */
+  describe('decodeProducts', () => {
+    /**
+     * Prueba que una lista válida se decodifique completa.
+     */
+    it('should decode a valid list', () => {
+      expect(decodeProducts([{ id: 'a7c6', name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10 }]).length).toBe(1);
+    });
+
+    /**
+     * Prueba que los problemas indiquen la posición del registro.
+     */
+    it('should include the record index in each issue', () => {
+      try {
+        decodeProducts([
+          { id: 'a7c6', name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10 },
+          { id: 'f452', name: 'AirPods Pro', price: null, stock: 25 }
+        ]);
+        fail('Expected a ProductValidationError');
+      } catch (error) {
+        expect((error as ProductValidationError).issues).toEqual([
+          { id: 'f452', field: 'price', message: 'must be an amount with its currency', index: 1 }
+        ]);
+      }
+    });
+
+    /**
+     * Prueba que se rechace un payload que no es un arreglo.
+     */
+    it('should reject a payload that is not an array', () => {
+      expect(() => decodeProducts({ data: [] })).toThrowError(ProductValidationError, /must be an array/);
+    });
+  });
+});
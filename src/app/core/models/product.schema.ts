@@ -0,0 +1,281 @@
+import { isCurrencyCode } from './exchange-rates.schema';
+import { DEFAULT_CURRENCY, Money } from './money';
+import { PRODUCT_STATUSES, Product, ProductId, ProductStatus, TAX_CATEGORIES, TaxCategory } from './product.interface';
+
+/**
+ * Format of a SKU: 3 to 32 letters, digits or dashes, starting with a
+ * letter or digit. Case is not significant; the API stores SKUs in
+ * uppercase.
+ */
+export const SKU_PATTERN = /^[A-Z0-9][A-Z0-9-]{2,31}$/i;
+
+/** Longest description accepted, in characters */
+export const MAX_DESCRIPTION_LENGTH = 2000;
+
+/**
+ * A single problem found while decoding a product record.
+ */
+export interface ProductIssue {
+  /** Position of the record in the payload, when decoding a list */
+  index?: number;
+  /** ID of the record, when it could be read */
+  id?: ProductId;
+  /** Name of the offending field */
+  field: string;
+  message: string;
+}
+
+/**
+ * Error raised when an API payload does not match the product schema.
+ *
+ * Carries every issue found, so callers can report all malformed
+ * records at once instead of failing on the first one.
+ */
+export class ProductValidationError extends Error {
+  constructor(readonly issues: ProductIssue[]) {
+    super(
+      `Invalid product data: ${issues
+        .map(issue => `${describeRecord(issue)}${issue.field} ${issue.message}`)
+        .join('; ')}`
+    );
+    this.name = 'ProductValidationError';
+  }
+}
+
+/**
+ * Decodes a single product record received from the API.
+ *
+ * Numeric ids are accepted and normalized to strings, and a null
+ * `categoryId` means an uncategorized product. A plain number price,
+ * as saved before prices carried their currency, is read as an amount
+ * in the `currency` next to it, or in CLP without one. Unknown
+ * properties are dropped.
+ *
+ * @param value - Raw value parsed from the response body
+ * @returns The validated product
+ * @throws ProductValidationError if the record is malformed
+ */
+export function decodeProduct(value: unknown): Product {
+  const issues: ProductIssue[] = [];
+  const product = readProduct(value, issues);
+
+  if (!product) {
+    throw new ProductValidationError(issues);
+  }
+  return product;
+}
+
+/**
+ * Decodes a list of product records received from the API.
+ *
+ * @param value - Raw value parsed from the response body
+ * @returns The validated products, in the same order
+ * @throws ProductValidationError listing every malformed record
+ */
+export function decodeProducts(value: unknown): Product[] {
+  if (!Array.isArray(value)) {
+    throw new ProductValidationError([{ field: 'products', message: 'must be an array' }]);
+  }
+
+  const issues: ProductIssue[] = [];
+  const products = value.map((item, index) => {
+    const recordIssues: ProductIssue[] = [];
+    const product = readProduct(item, recordIssues);
+    issues.push(...recordIssues.map(issue => ({ ...issue, index })));
+    return product;
+  });
+
+  if (issues.length > 0) {
+    throw new ProductValidationError(issues);
+  }
+  return products as Product[];
+}
+
+/**
+ * Validates a record, collecting issues instead of throwing.
+ *
+ * @returns The product, or null if any issue was found
+ */
+function readProduct(value: unknown, issues: ProductIssue[]): Product | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push({ field: 'product', message: 'must be an object' });
+    return null;
+  }
+
+  const record = value as Record<string, unknown>;
+  const {
+    id, sku, name, categoryId, brand, description, imageUrls, status, price, currency, taxCategory, stock, warehouseStock,
+    reorderPoint, reorderQuantity, version, createdAt, updatedAt, deletedAt
+  } = record;
+  const start = issues.length;
+  let productId: ProductId | undefined;
+
+  if (typeof id === 'string' && id.trim() !== '') {
+    productId = id;
+  } else if (typeof id === 'number' && Number.isFinite(id)) {
+    productId = String(id);
+  } else if (id !== undefined) {
+    issues.push({ field: 'id', message: 'must be a non-empty string' });
+  }
+
+  if (typeof name !== 'string' || name.trim() === '') {
+    issues.push({ id: productId, field: 'name', message: 'is required' });
+  }
+  if (sku !== undefined && (typeof sku !== 'string' || !SKU_PATTERN.test(sku.trim()))) {
+    issues.push({ id: productId, field: 'sku', message: 'must be 3 to 32 letters, digits or dashes' });
+  }
+  if (categoryId !== undefined && categoryId !== null && (typeof categoryId !== 'string' || categoryId.trim() === '')) {
+    issues.push({ id: productId, field: 'categoryId', message: 'must be a non-empty string or null' });
+  }
+  if (brand !== undefined && typeof brand !== 'string') {
+    issues.push({ id: productId, field: 'brand', message: 'must be a string' });
+  }
+  if (description !== undefined && (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+    issues.push({ id: productId, field: 'description', message: `must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters` });
+  }
+  if (imageUrls !== undefined && (!Array.isArray(imageUrls) || !imageUrls.every(isImageUrl))) {
+    issues.push({ id: productId, field: 'imageUrls', message: 'must be a list of http(s) URLs' });
+  }
+  if (status !== undefined && !PRODUCT_STATUSES.includes(status as ProductStatus)) {
+    issues.push({ id: productId, field: 'status', message: `must be one of ${PRODUCT_STATUSES.join(', ')}` });
+  }
+  const money = readPrice(price, currency, productId, issues);
+  if (taxCategory !== undefined && !TAX_CATEGORIES.includes(taxCategory as TaxCategory)) {
+    issues.push({ id: productId, field: 'taxCategory', message: `must be one of ${TAX_CATEGORIES.join(', ')}` });
+  }
+  if (typeof stock !== 'number' || !Number.isInteger(stock)) {
+    issues.push({ id: productId, field: 'stock', message: 'must be an integer' });
+  } else if (stock < 0) {
+    issues.push({ id: productId, field: 'stock', message: 'must not be negative' });
+  }
+  if (warehouseStock !== undefined && !isWarehouseStock(warehouseStock)) {
+    issues.push({ id: productId, field: 'warehouseStock', message: 'must map warehouse ids to non-negative integers' });
+  }
+  if (reorderPoint !== undefined && (typeof reorderPoint !== 'number' || !Number.isInteger(reorderPoint) || reorderPoint < 0)) {
+    issues.push({ id: productId, field: 'reorderPoint', message: 'must be a non-negative integer' });
+  }
+  if (reorderQuantity !== undefined && (typeof reorderQuantity !== 'number' || !Number.isInteger(reorderQuantity) || reorderQuantity < 1)) {
+    issues.push({ id: productId, field: 'reorderQuantity', message: 'must be a positive integer' });
+  }
+  if (version !== undefined && (typeof version !== 'number' || !Number.isInteger(version) || version < 1)) {
+    issues.push({ id: productId, field: 'version', message: 'must be a positive integer' });
+  }
+  if (createdAt !== undefined && (typeof createdAt !== 'string' || isNaN(Date.parse(createdAt)))) {
+    issues.push({ id: productId, field: 'createdAt', message: 'must be a date' });
+  }
+  if (updatedAt !== undefined && (typeof updatedAt !== 'string' || isNaN(Date.parse(updatedAt)))) {
+    issues.push({ id: productId, field: 'updatedAt', message: 'must be a date' });
+  }
+  if (deletedAt !== undefined && (typeof deletedAt !== 'string' || isNaN(Date.parse(deletedAt)))) {
+    issues.push({ id: productId, field: 'deletedAt', message: 'must be a date' });
+  }
+
+  if (issues.length > start) {
+    return null;
+  }
+
+  const product: Product = {
+    ...(productId !== undefined && { id: productId }),
+    ...(sku !== undefined && { sku: sku as string }),
+    name: name as string,
+    ...(typeof categoryId === 'string' && { categoryId }),
+    ...(brand !== undefined && { brand: brand as string }),
+    ...(description !== undefined && { description: description as string }),
+    ...(imageUrls !== undefined && { imageUrls: [...(imageUrls as string[])] }),
+    ...(status !== undefined && { status: status as ProductStatus }),
+    price: money as Money,
+    ...(taxCategory !== undefined && { taxCategory: taxCategory as TaxCategory }),
+    stock: stock as number,
+    ...(warehouseStock !== undefined && { warehouseStock: { ...(warehouseStock as Record<string, number>) } }),
+    ...(reorderPoint !== undefined && { reorderPoint: reorderPoint as number }),
+    ...(reorderQuantity !== undefined && { reorderQuantity: reorderQuantity as number })
+  };
+  if (version !== undefined) {
+    product.version = version as number;
+  }
+  if (createdAt !== undefined) {
+    product.createdAt = createdAt as string;
+  }
+  if (updatedAt !== undefined) {
+    product.updatedAt = updatedAt as string;
+  }
+  if (deletedAt !== undefined) {
+    product.deletedAt = deletedAt as string;
+  }
+  return product;
+}
+
+/**
+ * Validates the price of a record, migrating a plain number price.
+ *
+ * @param price - `price` property of the record
+ * @param currency - `currency` property that accompanied a number price
+ * @returns The price, or undefined if any issue was found
+ */
+function readPrice(price: unknown, currency: unknown, id: ProductId | undefined, issues: ProductIssue[]): Money | undefined {
+  if (typeof price === 'number') {
+    const start = issues.length;
+    if (!Number.isFinite(price)) {
+      issues.push({ id, field: 'price', message: 'must be a number' });
+    } else if (price < 0) {
+      issues.push({ id, field: 'price', message: 'must not be negative' });
+    }
+    if (currency !== undefined && !isCurrencyCode(currency)) {
+      issues.push({ id, field: 'currency', message: 'must be a currency code of three uppercase letters' });
+    }
+    return issues.length > start ? undefined : { amount: price, currency: (currency as string | undefined) ?? DEFAULT_CURRENCY };
+  }
+
+  if (typeof price !== 'object' || price === null || Array.isArray(price)) {
+    issues.push({ id, field: 'price', message: 'must be an amount with its currency' });
+    return undefined;
+  }
+  const { amount, currency: code } = price as Record<string, unknown>;
+  const start = issues.length;
+  if (typeof amount !== 'number' || !Number.isFinite(amount)) {
+    issues.push({ id, field: 'price.amount', message: 'must be a number' });
+  } else if (amount < 0) {
+    issues.push({ id, field: 'price.amount', message: 'must not be negative' });
+  }
+  if (!isCurrencyCode(code)) {
+    issues.push({ id, field: 'price.currency', message: 'must be a currency code of three uppercase letters' });
+  }
+  return issues.length > start ? undefined : { amount: amount as number, currency: code as string };
+}
+
+/**
+ * Whether a value is an absolute http or https URL.
+ */
+export function isImageUrl(value: unknown): value is string {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Whether a value maps warehouse ids to units in stock.
+ */
+function isWarehouseStock(value: unknown): value is Record<string, number> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(units => typeof units === 'number' && Number.isInteger(units) && units >= 0);
+}
+
+/**
+ * Prefix that locates an issue within the payload.
+ */
+function describeRecord(issue: ProductIssue): string {
+  const parts: string[] = [];
+  if (issue.index !== undefined) {
+    parts.push(`#${issue.index}`);
+  }
+  if (issue.id !== undefined) {
+    parts.push(`(id ${issue.id})`);
+  }
+  return parts.length > 0 ? `${parts.join(' ')} ` : '';
+}
@@ -0,0 +1,52 @@
+import { Product } from './product.interface';
+import { reorderSuggestions, stockLevelOf } from './stock-level';
+
+/**
+ * Pruebas unitarias para los niveles de stock y las sugerencias de reposición.
+ *
+ * Verifica que cada producto use su propio punto de reorden o el
+ * valor por defecto, y cuántas unidades se sugiere pedir.
+ */
+describe('Stock level', () => {
+  const defaults = { reorderPoint: 10, reorderQuantity: 20 };
+  const product = (id: string, stock: number, fields: Partial<Product> = {}): Product =>
+    ({ id, name: `Producto ${id}`, price: { amount: 1000, currency: 'CLP' }, stock, ...fields });
+
+  /**
+   * Prueba que un producto sin unidades quede agotado.
+   */
+  it('should report products without units as out of stock', () => {
+    expect(stockLevelOf(product('1', 0), defaults)).toBe('out');
+  });
+
+  /**
+   * Prueba que el stock bajo incluya el punto de reorden.
+   */
+  it('should report stock at or below the reorder point as low', () => {
+    expect(stockLevelOf(product('1', 10), defaults)).toBe('low');
+    expect(stockLevelOf(product('1', 11), defaults)).toBe('ok');
+  });
+
+  /**
+   * Prueba que el punto de reorden del producto reemplace al valor por defecto.
+   */
+  it('should prefer the reorder point of the product', () => {
+    expect(stockLevelOf(product('1', 4, { reorderPoint: 3 }), defaults)).toBe('ok');
+    expect(stockLevelOf(product('1', 15, { reorderPoint: 20 }), defaults)).toBe('low');
+  });
+
+  /**
+   * Prueba que las sugerencias excluyan productos archivados y ordenen por stock.
+   */
+  it('should suggest restocking active products, lowest stock first', () => {
+    const suggestions = reorderSuggestions([
+      product('1', 8),
+      product('2', 0, { reorderQuantity: 5 }),
+      product('3', 50),
+      product('4', 1, { status: 'archived' })
+    ], defaults);
+
+    expect(suggestions.map(suggestion => suggestion.product.id)).toEqual(['2', '1']);
+    expect(suggestions.map(suggestion => suggestion.quantity)).toEqual([11, 20]);
+  });
+});
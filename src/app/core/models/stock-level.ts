@@ -0,0 +1,78 @@
+import { Product } from './product.interface';
+
+/**
+ * When and how much to restock a product.
+ */
+export interface ReorderPolicy {
+  /** Units at or below which the product is low on stock */
+  reorderPoint: number;
+  /** Units to order when restocking */
+  reorderQuantity: number;
+}
+
+/**
+ * How much stock a product has left.
+ *
+ * - `out`: no units left ("Agotado").
+ * - `low`: at or below its reorder point ("Stock bajo").
+ * - `ok`: above its reorder point.
+ */
+export type StockLevel = 'out' | 'low' | 'ok';
+
+/**
+ * A product to restock and how many units to order.
+ */
+export interface ReorderSuggestion {
+  product: Product;
+  reorderPoint: number;
+  /** Units to order */
+  quantity: number;
+}
+
+/**
+ * Reorder point and quantity of a product, falling back to the
+ * defaults for the values it does not set.
+ *
+ * @param product - Product to restock
+ * @param defaults - Policy of the app configuration
+ */
+export function reorderPolicyOf(product: Product, defaults: ReorderPolicy): ReorderPolicy {
+  return {
+    reorderPoint: product.reorderPoint ?? defaults.reorderPoint,
+    reorderQuantity: product.reorderQuantity ?? defaults.reorderQuantity
+  };
+}
+
+/**
+ * Stock level of a product according to its reorder point.
+ *
+ * @param product - Product to check
+ * @param defaults - Policy of the app configuration
+ */
+export function stockLevelOf(product: Product, defaults: ReorderPolicy): StockLevel {
+  if (product.stock <= 0) {
+    return 'out';
+  }
+  return product.stock <= reorderPolicyOf(product, defaults).reorderPoint ? 'low' : 'ok';
+}
+
+/**
+ * Lists the products that need restocking and how much to order.
+ *
+ * Archived products are no longer sold, so they are never suggested.
+ * Each product is ordered its reorder quantity, or more if that would
+ * still leave it at or below its reorder point.
+ *
+ * @param products - Products to check
+ * @param defaults - Policy of the app configuration
+ * @returns The suggestions, lowest stock first
+ */
+export function reorderSuggestions(products: Product[], defaults: ReorderPolicy): ReorderSuggestion[] {
+  return products
+    .filter(product => product.status !== 'archived' && stockLevelOf(product, defaults) !== 'ok')
+    .sort((a, b) => a.stock - b.stock)
+    .map(product => {
+      const { reorderPoint, reorderQuantity } = reorderPolicyOf(product, defaults);
+      return { product, reorderPoint, quantity: Math.max(reorderQuantity, reorderPoint - product.stock + 1) };
+    });
+}
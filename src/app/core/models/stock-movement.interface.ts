@@ -0,0 +1,89 @@
+import { ProductId } from './product.interface';
+import { WarehouseId } from './warehouse.interface';
+
+/**
+ * Unique identifier of a stock movement.
+ *
+ * Generated by the backend in the same short format as product ids.
+ */
+export type StockMovementId = string;
+
+/**
+ * Why the stock of a product changed.
+ *
+ * - `receipt`: units received from a supplier.
+ * - `sale`: units sold to a customer.
+ * - `adjustment`: correction after a count, or a change made by editing the product.
+ * - `return`: units a customer sent back.
+ * - `damage`: units lost, broken or stolen.
+ * - `transfer`: units moved to or from another warehouse.
+ */
+export type StockMovementType = 'receipt' | 'sale' | 'adjustment' | 'return' | 'damage' | 'transfer';
+
+/** Every type of movement, in the order they are listed to the user */
+export const STOCK_MOVEMENT_TYPES: StockMovementType[] = ['receipt', 'sale', 'adjustment', 'return', 'damage', 'transfer'];
+
+/**
+ * Types of movement that can be recorded one by one. Transfers come
+ * in pairs and are recorded as a StockTransfer instead.
+ */
+export const RECORDABLE_MOVEMENT_TYPES: StockMovementType[] = STOCK_MOVEMENT_TYPES.filter(type => type !== 'transfer');
+
+/**
+ * Sign the quantity of each type of movement must have: receipts and
+ * returns add units, sales and damages remove them, and adjustments
+ * and transfers may go either way.
+ */
+export const STOCK_MOVEMENT_SIGNS: Record<StockMovementType, 1 | -1 | null> = {
+  receipt: 1,
+  sale: -1,
+  adjustment: null,
+  return: 1,
+  damage: -1,
+  transfer: null
+};
+
+/**
+ * A single change to the stock of a product.
+ *
+ * Movements are never edited or deleted: the stock of a product is
+ * the sum of the quantities of its movements, so the ledger explains
+ * every unit that came in or went out.
+ */
+export interface StockMovement {
+  id?: StockMovementId;
+  productId: ProductId;
+  /**
+   * Warehouse whose stock changed. The server stores it on every
+   * movement; a client may leave it out to use the main warehouse.
+   */
+  warehouseId?: WarehouseId;
+  type: StockMovementType;
+  /** Units added (positive) or removed (negative); never zero */
+  quantity: number;
+  /** Free text explaining the movement, e.g. an invoice number */
+  reason?: string;
+  /** Name of the person who recorded the movement */
+  user: string;
+  /** ISO 8601 timestamp of when the movement was recorded, assigned by the server */
+  createdAt?: string;
+}
+
+/**
+ * Units of a product moved from one warehouse to another.
+ *
+ * The server records it as two `transfer` movements in the same
+ * write, taking the units from the source and adding them to the
+ * destination, so the total stock never changes.
+ */
+export interface StockTransfer {
+  productId: ProductId;
+  fromWarehouseId: WarehouseId;
+  toWarehouseId: WarehouseId;
+  /** Units to move; always positive */
+  quantity: number;
+  /** Free text explaining the transfer, e.g. a dispatch note number */
+  reason?: string;
+  /** Name of the person who recorded the transfer */
+  user: string;
+}
@@ -0,0 +1,81 @@
+import { decodeStockMovement, decodeStockMovements, decodeStockTransfer, StockMovementValidationError } from './stock-movement.schema';
+
+/**
+ * Pruebas unitarias para el esquema de movimientos de stock.
+ *
+ * Verifica que los movimientos recibidos desde la API se validen
+ * en tiempo de ejecución y que el signo de la cantidad corresponda
+ * al tipo de movimiento.
+ */
+describe('Stock movement schema', () => {
+  const receipt = {
+    id: 'm1', productId: 'a01f', type: 'receipt', quantity: 5,
+    reason: 'Factura 1234', user: 'Ana', createdAt: '2024-05-01T12:00:00.000Z'
+  };
+
+  /**
+   * Prueba que un movimiento válido se decodifique sin cambios.
+   */
+  it('should decode a valid movement', () => {
+    expect(decodeStockMovement({ ...receipt, extra: true })).toEqual(receipt as never);
+  });
+
+  /**
+   * Prueba que los ajustes acepten cantidades positivas y negativas.
+   */
+  it('should accept adjustments in either direction', () => {
+    expect(decodeStockMovement({ ...receipt, type: 'adjustment', quantity: -3 }).quantity).toBe(-3);
+    expect(decodeStockMovement({ ...receipt, type: 'adjustment', quantity: 3 }).quantity).toBe(3);
+  });
+
+  /**
+   * Prueba que se rechacen cantidades con el signo contrario al tipo.
+   */
+  it('should reject quantities with the wrong sign for the type', () => {
+    expect(() => decodeStockMovement({ ...receipt, type: 'sale', quantity: 2 }))
+      .toThrowError(StockMovementValidationError, /quantity must be negative for a sale/);
+    expect(() => decodeStockMovement({ ...receipt, type: 'return', quantity: -2 }))
+      .toThrowError(StockMovementValidationError, /quantity must be positive for a return/);
+  });
+
+  /**
+   * Prueba que se reporten todos los campos inválidos de cada registro.
+   */
+  it('should report every malformed field', () => {
+    try {
+      decodeStockMovements([receipt, { productId: 'a01f', type: 'gift', quantity: 0, user: ' ' }]);
+      fail('Expected a StockMovementValidationError');
+    } catch (error) {
+      expect(error).toEqual(jasmine.any(StockMovementValidationError));
+      expect((error as StockMovementValidationError).issues.map(issue => `${issue.index} ${issue.field}`))
+        .toEqual(['1 type', '1 quantity', '1 user']);
+    }
+  });
+
+  /**
+   * Prueba que se rechace un payload que no es un arreglo.
+   */
+  it('should reject a payload that is not an array', () => {
+    expect(() => decodeStockMovements({ data: [] })).toThrowError(StockMovementValidationError, /must be an array/);
+  });
+
+  /**
+   * Prueba que una transferencia se decodifique sin las propiedades desconocidas.
+   */
+  it('should decode a transfer between two warehouses', () => {
+    expect(decodeStockTransfer({ productId: 'a01f', fromWarehouseId: 'scl', toWarehouseId: 'vap', quantity: 2, user: 'Ana', type: 'sale' }))
+      .toEqual({ productId: 'a01f', fromWarehouseId: 'scl', toWarehouseId: 'vap', quantity: 2, user: 'Ana' });
+  });
+
+  /**
+   * Prueba que se rechace una transferencia a la misma bodega o sin unidades.
+   */
+  it('should reject a transfer to the same warehouse or without units', () => {
+    try {
+      decodeStockTransfer({ productId: 'a01f', fromWarehouseId: 'scl', toWarehouseId: 'scl', quantity: -2, user: 'Ana' });
+      fail('Expected a StockMovementValidationError');
+    } catch (error) {
+      expect((error as StockMovementValidationError).issues.map(issue => issue.field)).toEqual(['toWarehouseId', 'quantity']);
+    }
+  });
+});
@@ -0,0 +1,214 @@
+import {
+  STOCK_MOVEMENT_SIGNS,
+  STOCK_MOVEMENT_TYPES,
+  StockMovement,
+  StockMovementId,
+  StockMovementType,
+  StockTransfer
+} from './stock-movement.interface';
+
+/** Longest reason accepted, in characters */
+export const MAX_MOVEMENT_REASON_LENGTH = 200;
+
+/**
+ * A single problem found while decoding a stock movement.
+ */
+export interface StockMovementIssue {
+  /** Position of the record in the payload, when decoding a list */
+  index?: number;
+  /** Name of the offending field */
+  field: string;
+  message: string;
+}
+
+/**
+ * Error raised when a payload does not match the stock movement or
+ * transfer schema, or when a movement would leave the stock of a
+ * warehouse below zero.
+ */
+export class StockMovementValidationError extends Error {
+  constructor(readonly issues: StockMovementIssue[]) {
+    super(
+      `Invalid stock movement: ${issues
+        .map(issue => `${issue.index !== undefined ? `#${issue.index} ` : ''}${issue.field} ${issue.message}`)
+        .join('; ')}`
+    );
+    this.name = 'StockMovementValidationError';
+  }
+}
+
+/**
+ * Decodes a single stock movement received from the API.
+ *
+ * The quantity must be a non-zero integer whose sign matches the
+ * type of movement (see STOCK_MOVEMENT_SIGNS). Unknown properties
+ * are dropped.
+ *
+ * @param value - Raw value parsed from the response body
+ * @returns The validated movement
+ * @throws StockMovementValidationError if the record is malformed
+ */
+export function decodeStockMovement(value: unknown): StockMovement {
+  const issues: StockMovementIssue[] = [];
+  const movement = readStockMovement(value, issues);
+
+  if (!movement) {
+    throw new StockMovementValidationError(issues);
+  }
+  return movement;
+}
+
+/**
+ * Decodes a list of stock movements received from the API.
+ *
+ * @param value - Raw value parsed from the response body
+ * @returns The validated movements, in the same order
+ * @throws StockMovementValidationError listing every malformed record
+ */
+export function decodeStockMovements(value: unknown): StockMovement[] {
+  if (!Array.isArray(value)) {
+    throw new StockMovementValidationError([{ field: 'movements', message: 'must be an array' }]);
+  }
+
+  const issues: StockMovementIssue[] = [];
+  const movements = value.map((item, index) => {
+    const recordIssues: StockMovementIssue[] = [];
+    const movement = readStockMovement(item, recordIssues);
+    issues.push(...recordIssues.map(issue => ({ ...issue, index })));
+    return movement;
+  });
+
+  if (issues.length > 0) {
+    throw new StockMovementValidationError(issues);
+  }
+  return movements as StockMovement[];
+}
+
+/**
+ * Validates a record, collecting issues instead of throwing.
+ *
+ * @returns The movement, or null if any issue was found
+ */
+function readStockMovement(value: unknown, issues: StockMovementIssue[]): StockMovement | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push({ field: 'movement', message: 'must be an object' });
+    return null;
+  }
+
+  const { id, productId, warehouseId, type, quantity, reason, user, createdAt } = value as Record<string, unknown>;
+  const start = issues.length;
+  const movementId = readId(id);
+  const product = readId(productId);
+  const warehouse = readId(warehouseId);
+
+  if (id !== undefined && movementId === undefined) {
+    issues.push({ field: 'id', message: 'must be a non-empty string' });
+  }
+  if (product === undefined) {
+    issues.push({ field: 'productId', message: 'is required' });
+  }
+  if (warehouseId !== undefined && warehouse === undefined) {
+    issues.push({ field: 'warehouseId', message: 'must be a non-empty string' });
+  }
+  if (!STOCK_MOVEMENT_TYPES.includes(type as StockMovementType)) {
+    issues.push({ field: 'type', message: `must be one of ${STOCK_MOVEMENT_TYPES.join(', ')}` });
+  }
+  if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity === 0) {
+    issues.push({ field: 'quantity', message: 'must be a non-zero integer' });
+  } else {
+    const sign = STOCK_MOVEMENT_SIGNS[type as StockMovementType];
+    if (sign && Math.sign(quantity) !== sign) {
+      issues.push({ field: 'quantity', message: `must be ${sign > 0 ? 'positive' : 'negative'} for a ${type}` });
+    }
+  }
+  readNote(reason, user, issues);
+  if (createdAt !== undefined && (typeof createdAt !== 'string' || isNaN(Date.parse(createdAt)))) {
+    issues.push({ field: 'createdAt', message: 'must be a date' });
+  }
+
+  if (issues.length > start) {
+    return null;
+  }
+  return {
+    ...(movementId !== undefined && { id: movementId }),
+    productId: product!,
+    ...(warehouse !== undefined && { warehouseId: warehouse }),
+    type: type as StockMovementType,
+    quantity: quantity as number,
+    ...(reason !== undefined && { reason: reason as string }),
+    user: user as string,
+    ...(createdAt !== undefined && { createdAt: createdAt as string })
+  };
+}
+
+/**
+ * Decodes a transfer of units between two warehouses.
+ *
+ * The quantity must be a positive integer and the warehouses must be
+ * different. Unknown properties are dropped.
+ *
+ * @param value - Raw value parsed from the request body
+ * @returns The validated transfer
+ * @throws StockMovementValidationError if the transfer is malformed
+ */
+export function decodeStockTransfer(value: unknown): StockTransfer {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new StockMovementValidationError([{ field: 'transfer', message: 'must be an object' }]);
+  }
+
+  const { productId, fromWarehouseId, toWarehouseId, quantity, reason, user } = value as Record<string, unknown>;
+  const issues: StockMovementIssue[] = [];
+  const product = readId(productId);
+  const from = readId(fromWarehouseId);
+  const to = readId(toWarehouseId);
+
+  if (product === undefined) {
+    issues.push({ field: 'productId', message: 'is required' });
+  }
+  if (from === undefined) {
+    issues.push({ field: 'fromWarehouseId', message: 'is required' });
+  }
+  if (to === undefined) {
+    issues.push({ field: 'toWarehouseId', message: 'is required' });
+  } else if (to === from) {
+    issues.push({ field: 'toWarehouseId', message: 'must be different from the source warehouse' });
+  }
+  if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < 1) {
+    issues.push({ field: 'quantity', message: 'must be a positive integer' });
+  }
+  readNote(reason, user, issues);
+
+  if (issues.length > 0) {
+    throw new StockMovementValidationError(issues);
+  }
+  return {
+    productId: product!,
+    fromWarehouseId: from!,
+    toWarehouseId: to!,
+    quantity: quantity as number,
+    ...(reason !== undefined && { reason: reason as string }),
+    user: user as string
+  };
+}
+
+/**
+ * Checks the reason and user shared by movements and transfers.
+ */
+function readNote(reason: unknown, user: unknown, issues: StockMovementIssue[]): void {
+  if (reason !== undefined && (typeof reason !== 'string' || reason.length > MAX_MOVEMENT_REASON_LENGTH)) {
+    issues.push({ field: 'reason', message: `must be a string of at most ${MAX_MOVEMENT_REASON_LENGTH} characters` });
+  }
+  if (typeof user !== 'string' || user.trim() === '') {
+    issues.push({ field: 'user', message: 'is required' });
+  }
+}
+
+function readId(value: unknown): StockMovementId | undefined {
+  if (typeof value === 'string' && value.trim() !== '') {
+    return value;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  return undefined;
+}
@@ -0,0 +1,39 @@
+import { breakdownFromGross, grossFromNet, taxRateOf } from './tax';
+
+/**
+ * Pruebas unitarias para el cálculo del IVA.
+ *
+ * Verifica que los precios brutos se separen en neto e IVA que
+ * suman el precio original y que los productos exentos no paguen IVA.
+ */
+describe('Tax', () => {
+  /**
+   * Prueba que un producto exento no tenga IVA y el resto use la tasa configurada.
+   */
+  it('should only tax products that are not exempt', () => {
+    expect(taxRateOf({}, 0.19)).toBe(0.19);
+    expect(taxRateOf({ taxCategory: 'standard' }, 0.19)).toBe(0.19);
+    expect(taxRateOf({ taxCategory: 'exempt' }, 0.19)).toBe(0);
+  });
+
+  /**
+   * Prueba que el neto y el IVA se redondeen a pesos y sumen el precio bruto.
+   */
+  it('should split a gross price into net and IVA', () => {
+    expect(breakdownFromGross({ amount: 849990, currency: 'CLP' }, 0.19)).toEqual({
+      net: { amount: 714277, currency: 'CLP' },
+      tax: { amount: 135713, currency: 'CLP' },
+      gross: { amount: 849990, currency: 'CLP' }
+    });
+    expect(breakdownFromGross({ amount: 899.99, currency: 'USD' }, 0.19).net).toEqual({ amount: 756.29, currency: 'USD' });
+    expect(breakdownFromGross({ amount: 19990, currency: 'CLP' }, 0).tax).toEqual({ amount: 0, currency: 'CLP' });
+  });
+
+  /**
+   * Prueba que al neto se le sume el IVA redondeado a la moneda.
+   */
+  it('should add IVA to a net amount', () => {
+    expect(grossFromNet({ amount: 714277, currency: 'CLP' }, 0.19)).toEqual({ amount: 849990, currency: 'CLP' });
+    expect(grossFromNet({ amount: 100, currency: 'USD' }, 0.19)).toEqual({ amount: 119, currency: 'USD' });
+  });
+});
@@ -0,0 +1,50 @@
+import { Money, roundMoney } from './money';
+import { Product } from './product.interface';
+
+/**
+ * A price split into its net amount and the IVA charged on it.
+ */
+export interface TaxBreakdown {
+  /** Amount before IVA */
+  net: Money;
+  /** IVA charged on the net amount */
+  tax: Money;
+  /** Amount with IVA included */
+  gross: Money;
+}
+
+/**
+ * IVA rate that applies to a product.
+ *
+ * @param product - Product to tax
+ * @param rate - IVA rate of the app configuration, e.g. `0.19`
+ * @returns The rate, or 0 for an exempt product
+ */
+export function taxRateOf(product: Pick<Product, 'taxCategory'>, rate: number): number {
+  return product.taxCategory === 'exempt' ? 0 : rate;
+}
+
+/**
+ * Splits a price with IVA included into its net amount and its IVA.
+ *
+ * The net amount is rounded to the smallest unit of the currency and
+ * the IVA is the rest, so both always add up to the gross price.
+ *
+ * @param gross - Price with IVA included
+ * @param rate - IVA rate that applies, e.g. `0.19`
+ */
+export function breakdownFromGross(gross: Money, rate: number): TaxBreakdown {
+  const net = roundMoney({ amount: gross.amount / (1 + rate), currency: gross.currency });
+  return { net, tax: roundMoney({ amount: gross.amount - net.amount, currency: gross.currency }), gross };
+}
+
+/**
+ * Adds IVA to a net amount.
+ *
+ * @param net - Amount before IVA
+ * @param rate - IVA rate that applies, e.g. `0.19`
+ * @returns The price with IVA included, rounded to the smallest unit of the currency
+ */
+export function grossFromNet(net: Money, rate: number): Money {
+  return roundMoney({ amount: net.amount * (1 + rate), currency: net.currency });
+}
@@ -0,0 +1,30 @@
+import { Product } from './product.interface';
+import { stockByWarehouse, unitsAt } from './warehouse-stock';
+
+/**
+ * Pruebas unitarias para el stock por bodega.
+ *
+ * Verifica las unidades de cada bodega, incluidas las bodegas sin
+ * stock del producto.
+ */
+describe('Warehouse stock', () => {
+  const warehouses = [{ id: 'scl', name: 'Santiago' }, { id: 'vap', name: 'Valparaíso' }];
+  const product: Product = { id: '1', name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 6, warehouseStock: { scl: 6 } };
+
+  /**
+   * Prueba que una bodega sin unidades del producto cuente cero.
+   */
+  it('should count zero units at a warehouse without stock', () => {
+    expect(unitsAt(product, 'scl')).toBe(6);
+    expect(unitsAt(product, 'vap')).toBe(0);
+    expect(unitsAt({ ...product, warehouseStock: undefined }, 'scl')).toBe(0);
+  });
+
+  /**
+   * Prueba que el desglose liste cada bodega en su orden.
+   */
+  it('should break the stock down by every warehouse', () => {
+    expect(stockByWarehouse(product, warehouses).map(({ warehouse, units }) => [warehouse.name, units]))
+      .toEqual([['Santiago', 6], ['Valparaíso', 0]]);
+  });
+});
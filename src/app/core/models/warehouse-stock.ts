@@ -0,0 +1,33 @@
+import { Product } from './product.interface';
+import { Warehouse, WarehouseId } from './warehouse.interface';
+
+/**
+ * A warehouse and the units of a product kept there.
+ */
+export interface WarehouseUnits {
+  warehouse: Warehouse;
+  units: number;
+}
+
+/**
+ * Units of a product stored in a warehouse.
+ *
+ * @param product - Product to check
+ * @param warehouseId - Warehouse to look at
+ */
+export function unitsAt(product: Product, warehouseId: WarehouseId): number {
+  return product.warehouseStock?.[warehouseId] ?? 0;
+}
+
+/**
+ * Stock of a product at every warehouse, in warehouse order.
+ *
+ * Warehouses without units are listed too, so the breakdown always
+ * has the same rows.
+ *
+ * @param product - Product to break down
+ * @param warehouses - Every warehouse, the main one first
+ */
+export function stockByWarehouse(product: Product, warehouses: Warehouse[]): WarehouseUnits[] {
+  return warehouses.map(warehouse => ({ warehouse, units: unitsAt(product, warehouse.id!) }));
+}
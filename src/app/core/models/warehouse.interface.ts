@@ -0,0 +1,20 @@
+/**
+ * Unique identifier of a warehouse.
+ *
+ * Generated by the backend in the same short format as product ids.
+ */
+export type WarehouseId = string;
+
+/**
+ * Location where products are stored, e.g. the Santiago warehouse.
+ *
+ * The first warehouse of the list is the main one: new products
+ * receive their initial stock there, and stock added by editing a
+ * product goes there too.
+ */
+export interface Warehouse {
+  id?: WarehouseId;
+  name: string;
+  /** City or address shown next to the name */
+  city?: string;
+}
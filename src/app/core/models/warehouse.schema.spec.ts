@@ -0,0 +1,40 @@
+import { WarehouseValidationError, decodeWarehouse, decodeWarehouses } from './warehouse.schema';
+
+/**
+ * Pruebas unitarias para el esquema de bodegas.
+ *
+ * Verifica que las bodegas recibidas desde la API se validen en
+ * tiempo de ejecución.
+ */
+describe('Warehouse schema', () => {
+  /**
+   * Prueba que una bodega se decodifique sin las propiedades desconocidas.
+   */
+  it('should decode a warehouse and drop unknown properties', () => {
+    expect(decodeWarehouse({ id: 1, name: 'Valparaíso', city: 'Valparaíso', extra: true }))
+      .toEqual({ id: '1', name: 'Valparaíso', city: 'Valparaíso' });
+  });
+
+  /**
+   * Prueba que se reporten los campos inválidos de cada registro.
+   */
+  it('should report every malformed field', () => {
+    try {
+      decodeWarehouses([{ id: 'scl', name: 'Santiago' }, { name: ' ', city: 4 }]);
+      fail('Expected a WarehouseValidationError');
+    } catch (error) {
+      expect(error).toEqual(jasmine.any(WarehouseValidationError));
+      expect((error as WarehouseValidationError).issues).toEqual([
+        { index: 1, id: undefined, field: 'name', message: 'is required' },
+        { index: 1, id: undefined, field: 'city', message: 'must be a string' }
+      ]);
+    }
+  });
+
+  /**
+   * Prueba que se rechace un payload que no es un arreglo.
+   */
+  it('should reject a payload that is not an array', () => {
+    expect(() => decodeWarehouses({ data: [] })).toThrowError(WarehouseValidationError, /must be an array/);
+  });
+});
@@ -0,0 +1,124 @@
+import { Warehouse, WarehouseId } from './warehouse.interface';
+
+/** Longest warehouse name accepted, in characters */
+export const MAX_WAREHOUSE_NAME_LENGTH = 60;
+
+/**
+ * A single problem found while decoding a warehouse record.
+ */
+export interface WarehouseIssue {
+  /** Position of the record in the payload, when decoding a list */
+  index?: number;
+  /** ID of the record, when it could be read */
+  id?: WarehouseId;
+  /** Name of the offending field */
+  field: string;
+  message: string;
+}
+
+/**
+ * Error raised when a payload does not match the warehouse schema.
+ */
+export class WarehouseValidationError extends Error {
+  constructor(readonly issues: WarehouseIssue[]) {
+    super(
+      `Invalid warehouse data: ${issues
+        .map(issue => `${issue.index !== undefined ? `#${issue.index} ` : ''}${issue.field} ${issue.message}`)
+        .join('; ')}`
+    );
+    this.name = 'WarehouseValidationError';
+  }
+}
+
+/**
+ * Decodes a single warehouse record received from the API.
+ *
+ * Numeric ids are accepted and normalized to strings, and unknown
+ * properties are dropped.
+ *
+ * @param value - Raw value parsed from the response body
+ * @returns The validated warehouse
+ * @throws WarehouseValidationError if the record is malformed
+ */
+export function decodeWarehouse(value: unknown): Warehouse {
+  const issues: WarehouseIssue[] = [];
+  const warehouse = readWarehouse(value, issues);
+
+  if (!warehouse) {
+    throw new WarehouseValidationError(issues);
+  }
+  return warehouse;
+}
+
+/**
+ * Decodes a list of warehouse records received from the API.
+ *
+ * @param value - Raw value parsed from the response body
+ * @returns The validated warehouses, in the same order
+ * @throws WarehouseValidationError listing every malformed record
+ */
+export function decodeWarehouses(value: unknown): Warehouse[] {
+  if (!Array.isArray(value)) {
+    throw new WarehouseValidationError([{ field: 'warehouses', message: 'must be an array' }]);
+  }
+
+  const issues: WarehouseIssue[] = [];
+  const warehouses = value.map((item, index) => {
+    const recordIssues: WarehouseIssue[] = [];
+    const warehouse = readWarehouse(item, recordIssues);
+    issues.push(...recordIssues.map(issue => ({ ...issue, index })));
+    return warehouse;
+  });
+
+  if (issues.length > 0) {
+    throw new WarehouseValidationError(issues);
+  }
+  return warehouses as Warehouse[];
+}
+
+/**
+ * Validates a record, collecting issues instead of throwing.
+ *
+ * @returns The warehouse, or null if any issue was found
+ */
+function readWarehouse(value: unknown, issues: WarehouseIssue[]): Warehouse | null {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    issues.push({ field: 'warehouse', message: 'must be an object' });
+    return null;
+  }
+
+  const { id, name, city } = value as Record<string, unknown>;
+  const start = issues.length;
+  const warehouseId = readId(id);
+
+  if (id !== undefined && warehouseId === undefined) {
+    issues.push({ field: 'id', message: 'must be a non-empty string' });
+  }
+  if (typeof name !== 'string' || name.trim() === '') {
+    issues.push({ id: warehouseId, field: 'name', message: 'is required' });
+  } else if (name.trim().length > MAX_WAREHOUSE_NAME_LENGTH) {
+    issues.push({ id: warehouseId, field: 'name', message: `must have at most ${MAX_WAREHOUSE_NAME_LENGTH} characters` });
+  }
+  if (city !== undefined && typeof city !== 'string') {
+    issues.push({ id: warehouseId, field: 'city', message: 'must be a string' });
+  }
+
+  if (issues.length > start) {
+    return null;
+  }
+  return {
+    ...(warehouseId !== undefined && { id: warehouseId }),
+    name: name as string,
+    ...(city !== undefined && { city: city as string })
+  };
+}
+
+function readId(value: unknown): WarehouseId | undefined {
+  if (typeof value === 'string' && value.trim() !== '') {
+    return value;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value);
+  }
+  return undefined;
+}
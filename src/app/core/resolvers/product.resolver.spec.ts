@@ -0,0 +1,75 @@
+import { TestBed } from '@angular/core/testing';
+import { ActivatedRouteSnapshot, RedirectCommand, RouterStateSnapshot, convertToParamMap, provideRouter } from '@angular/router';
+import { Observable, firstValueFrom, of, throwError } from 'rxjs';
+import { productResolver } from './product.resolver';
+import { ProductService } from '../services/product.service';
+import { NotificationService } from '../services/notification.service';
+import { AppError } from '../models/app-error';
+import { Product } from '../models/product.interface';
+
+/**
+ * Pruebas unitarias para productResolver.
+ * 
+ * Verifica que se obtenga el producto de la ruta y que los
+ * errores lleven a la página 404 o de vuelta al listado.
+ */
+describe('productResolver', () => {
+  let productService: jasmine.SpyObj<ProductService>;
+
+  const product: Product = { id: '2', name: 'MacBook Pro', price: { amount: 2499990, currency: 'CLP' }, stock: 5, version: 1 };
+
+  beforeEach(() => {
+    productService = jasmine.createSpyObj('ProductService', ['getProduct']);
+
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([]),
+        { provide: ProductService, useValue: productService }
+      ]
+    });
+  });
+
+  /**
+   * Ejecuta el resolver para el ID indicado.
+   */
+  function resolve(id: string): Promise<Product | RedirectCommand> {
+    const route = { paramMap: convertToParamMap({ id }) } as ActivatedRouteSnapshot;
+    const result = TestBed.runInInjectionContext(() => productResolver(route, {} as RouterStateSnapshot));
+    return firstValueFrom(result as Observable<Product | RedirectCommand>);
+  }
+
+  /**
+   * Prueba que se obtenga el producto indicado en la URL.
+   */
+  it('should fetch the product of the route', async () => {
+    productService.getProduct.and.returnValue(of(product));
+
+    expect(await resolve('2')).toEqual(product);
+    expect(productService.getProduct).toHaveBeenCalledWith('2');
+  });
+
+  /**
+   * Prueba que un producto inexistente muestre la página 404 sin cambiar la URL.
+   */
+  it('should show the not found page for unknown products', async () => {
+    productService.getProduct.and.returnValue(throwError(() => new AppError('not-found', 'No existe', 404)));
+
+    const result = await resolve('999') as RedirectCommand;
+
+    expect(result).toBeInstanceOf(RedirectCommand);
+    expect(result.redirectTo.toString()).toBe('/404');
+    expect(result.navigationBehaviorOptions?.skipLocationChange).toBeTrue();
+  });
+
+  /**
+   * Prueba que otros errores se notifiquen y vuelvan al listado.
+   */
+  it('should report other errors and go back to the list', async () => {
+    productService.getProduct.and.returnValue(throwError(() => new AppError('server', 'Error del servidor', 500)));
+
+    const result = await resolve('2') as RedirectCommand;
+
+    expect(result.redirectTo.toString()).toBe('/productos');
+    expect(TestBed.inject(NotificationService).notifications()[0].title).toBe('No se pudo cargar el producto');
+  });
+});
@@ -0,0 +1,37 @@
+import { inject } from '@angular/core';
+import { RedirectCommand, ResolveFn, Router } from '@angular/router';
+import { catchError, of } from 'rxjs';
+import { toAppError } from '../models/app-error';
+import { Product } from '../models/product.interface';
+import { NotificationService } from '../services/notification.service';
+import { ProductService } from '../services/product.service';
+
+/**
+ * Resolves the product named by the `:id` route parameter.
+ *
+ * The product is fetched from the server rather than taken from the
+ * store, so deep links work without loading the whole catalog and the
+ * page always shows the latest version.
+ *
+ * An unknown ID shows the 404 page without changing the URL; any
+ * other failure is reported and leads back to the product list.
+ *
+ * @example
+ * ```typescript
+ * { path: ':id', component: ProductDetailComponent, resolve: { product: productResolver } }
+ * ```
+ */
+export const productResolver: ResolveFn<Product> = route => {
+  const router = inject(Router);
+  const notifications = inject(NotificationService);
+
+  return inject(ProductService).getProduct(route.paramMap.get('id') ?? '').pipe(
+    catchError((error: unknown) => {
+      if (toAppError(error).kind === 'not-found') {
+        return of(new RedirectCommand(router.parseUrl('/404'), { skipLocationChange: true }));
+      }
+      notifications.error(error, 'No se pudo cargar el producto');
+      return of(new RedirectCommand(router.parseUrl('/productos')));
+    })
+  );
+};
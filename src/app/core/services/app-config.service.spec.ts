@@ -0,0 +1,108 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting, HttpTestingController } from '@angular/common/http/testing';
+import { AppConfigService } from './app-config.service';
+import { API_BASE_URL, TAX_RATE } from '../config/app-config';
+import { environment } from '@environments/environment';
+
+/**
+ * Pruebas unitarias para AppConfigService.
+ * 
+ * Verifica que la configuración en tiempo de ejecución se cargue
+ * desde /config.json y que, si no está disponible, se mantengan
+ * los valores del environment.
+ */
+describe('AppConfigService', () => {
+  let service: AppConfigService;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting()
+      ]
+    });
+
+    service = TestBed.inject(AppConfigService);
+    httpMock = TestBed.inject(HttpTestingController);
+    spyOn(console, 'warn');
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  /**
+   * Prueba que se usen los valores del environment antes de cargar.
+   */
+  it('should start with the environment defaults', () => {
+    expect(service.config.apiBaseUrl).toBe(environment.apiBaseUrl);
+  });
+
+  /**
+   * Prueba que /config.json sobrescriba los valores por defecto.
+   */
+  it('should override defaults with /config.json', async () => {
+    const loading = service.load();
+    httpMock.expectOne('/config.json').flush({ apiBaseUrl: 'https://staging.example.com/api/' });
+    await loading;
+
+    expect(service.config.apiBaseUrl).toBe('https://staging.example.com/api/');
+    expect(TestBed.inject(API_BASE_URL)).toBe('https://staging.example.com/api');
+  });
+
+  /**
+   * Prueba que se puedan ajustar los reintentos y el timeout.
+   */
+  it('should override retry and timeout settings', async () => {
+    const loading = service.load();
+    httpMock.expectOne('/config.json').flush({ requestTimeoutMs: 3000, retryAttempts: 0, retryDelayMs: -1 });
+    await loading;
+
+    expect(service.config.requestTimeoutMs).toBe(3000);
+    expect(service.config.retryAttempts).toBe(0);
+    expect(service.config.retryDelayMs).toBe(environment.retryDelayMs);
+  });
+
+  /**
+   * Prueba que la tasa de IVA se pueda configurar y se ignore una tasa fuera de rango.
+   */
+  it('should override the tax rate', async () => {
+    let loading = service.load();
+    httpMock.expectOne('/config.json').flush({ taxRate: 0.1 });
+    await loading;
+
+    expect(service.config.taxRate).toBe(0.1);
+    expect(TestBed.inject(TAX_RATE)).toBe(0.1);
+
+    loading = service.load();
+    httpMock.expectOne('/config.json').flush({ taxRate: 19 });
+    await loading;
+
+    expect(service.config.taxRate).toBe(0.1);
+  });
+
+  /**
+   * Prueba que se ignoren valores vacíos o de tipo incorrecto.
+   */
+  it('should ignore unknown or malformed values', async () => {
+    const loading = service.load();
+    httpMock.expectOne('/config.json').flush({ apiBaseUrl: 42, extra: true });
+    await loading;
+
+    expect(service.config.apiBaseUrl).toBe(environment.apiBaseUrl);
+  });
+
+  /**
+   * Prueba que un archivo ausente no impida iniciar la aplicación.
+   */
+  it('should keep defaults when /config.json cannot be loaded', async () => {
+    const loading = service.load();
+    httpMock.expectOne('/config.json').flush('Not found', { status: 404, statusText: 'Not Found' });
+    await loading;
+
+    expect(service.config.apiBaseUrl).toBe(environment.apiBaseUrl);
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
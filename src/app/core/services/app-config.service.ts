@@ -0,0 +1,84 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { firstValueFrom } from 'rxjs';
+import { environment } from '@environments/environment';
+import { AppConfig } from '../config/app-config';
+
+/** Location of the runtime configuration file, served from public/ */
+const CONFIG_URL = '/config.json';
+
+/**
+ * Holds the runtime configuration of the app.
+ *
+ * Starts with the build-time values from the environment file and
+ * overrides them with `/config.json` when it is loaded, so the same
+ * build can point at staging, production or a local mock by editing
+ * a single file on the server.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AppConfigService {
+  private readonly http = inject(HttpClient);
+
+  private current: AppConfig = {
+    apiBaseUrl: environment.apiBaseUrl,
+    requestTimeoutMs: environment.requestTimeoutMs,
+    retryAttempts: environment.retryAttempts,
+    retryDelayMs: environment.retryDelayMs,
+    defaultReorderPoint: environment.defaultReorderPoint,
+    defaultReorderQuantity: environment.defaultReorderQuantity,
+    taxRate: environment.taxRate
+  };
+
+  /**
+   * Current configuration.
+   */
+  get config(): AppConfig {
+    return this.current;
+  }
+
+  /**
+   * Loads `/config.json` and merges it over the defaults.
+   *
+   * A missing or invalid file is not fatal: the app keeps the
+   * build-time defaults and logs a warning.
+   *
+   * @returns Promise that resolves once the configuration is ready
+   */
+  async load(): Promise<void> {
+    try {
+      const overrides = await firstValueFrom(this.http.get<Partial<AppConfig>>(CONFIG_URL));
+      this.current = { ...this.current, ...this.pickKnownValues(overrides) };
+    } catch (error) {
+      console.warn(`Could not load ${CONFIG_URL}, using build-time defaults:`, error);
+    }
+  }
+
+  /**
+   * Keeps only the settings that exist and have the expected type.
+   */
+  private pickKnownValues(overrides: Partial<AppConfig> | null): Partial<AppConfig> {
+    const values: Partial<AppConfig> = {};
+    if (typeof overrides?.apiBaseUrl === 'string' && overrides.apiBaseUrl.trim() !== '') {
+      values.apiBaseUrl = overrides.apiBaseUrl.trim();
+    }
+    for (const key of ['requestTimeoutMs', 'retryAttempts', 'retryDelayMs'] as const) {
+      const value = overrides?.[key];
+      if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+        values[key] = value;
+      }
+    }
+    for (const [key, min] of [['defaultReorderPoint', 0], ['defaultReorderQuantity', 1]] as const) {
+      const value = overrides?.[key];
+      if (typeof value === 'number' && Number.isInteger(value) && value >= min) {
+        values[key] = value;
+      }
+    }
+    const taxRate = overrides?.taxRate;
+    if (typeof taxRate === 'number' && taxRate >= 0 && taxRate < 1) {
+      values.taxRate = taxRate;
+    }
+    return values;
+  }
+}
@@ -0,0 +1,105 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting, HttpTestingController } from '@angular/common/http/testing';
+import { CategoryService } from './category.service';
+import { Category } from '../models/category.interface';
+import { CategoryValidationError } from '../models/category.schema';
+
+/**
+ * Pruebas unitarias para CategoryService.
+ * 
+ * Verifica las operaciones CRUD contra el endpoint de categorías
+ * y que los registros recibidos se validen.
+ */
+describe('CategoryService', () => {
+  let service: CategoryService;
+  let httpMock: HttpTestingController;
+  const apiUrl = '/api/categories';
+
+  const mockCategories: Category[] = [
+    { id: 'c1', name: 'Computadores' },
+    { id: 'c2', name: 'Notebooks', parentId: 'c1' }
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+
+    service = TestBed.inject(CategoryService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  /**
+   * Prueba que getCategories() retorne la lista plana de categorías.
+   */
+  it('should get every category', () => {
+    service.getCategories().subscribe(categories => {
+      expect(categories).toEqual(mockCategories);
+    });
+
+    const req = httpMock.expectOne(apiUrl);
+    expect(req.request.method).toBe('GET');
+    req.flush([{ ...mockCategories[0], parentId: null }, mockCategories[1]]);
+  });
+
+  /**
+   * Prueba que se rechacen categorías malformadas.
+   */
+  it('should fail with CategoryValidationError on malformed records', () => {
+    service.getCategories().subscribe({
+      next: () => fail('Expected a validation error, not categories'),
+      error: error => expect(error).toEqual(jasmine.any(CategoryValidationError))
+    });
+
+    httpMock.expectOne(apiUrl).flush([{ id: 'c1', name: '' }]);
+  });
+
+  /**
+   * Prueba que addCategory() envíe la categoría nueva.
+   */
+  it('should create a category', () => {
+    service.addCategory({ name: 'Escritorio', parentId: 'c1' }).subscribe(category => {
+      expect(category.id).toBe('c3');
+    });
+
+    const req = httpMock.expectOne(apiUrl);
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body).toEqual({ name: 'Escritorio', parentId: 'c1' });
+    req.flush({ id: 'c3', name: 'Escritorio', parentId: 'c1' });
+  });
+
+  /**
+   * Prueba que updateCategory() use la URL de la categoría.
+   */
+  it('should update a category', () => {
+    service.updateCategory('c2', { id: 'c2', name: 'Portátiles', parentId: 'c1' }).subscribe(category => {
+      expect(category.name).toBe('Portátiles');
+    });
+
+    const req = httpMock.expectOne(`${apiUrl}/c2`);
+    expect(req.request.method).toBe('PUT');
+    req.flush({ id: 'c2', name: 'Portátiles', parentId: 'c1' });
+  });
+
+  /**
+   * Prueba que un conflicto al eliminar llegue al suscriptor.
+   */
+  it('should report a category that is still in use', () => {
+    service.deleteCategory('c2').subscribe({
+      next: () => fail('Expected a conflict'),
+      error: error => {
+        expect(error.status).toBe(409);
+        expect(error.error.productCount).toBe(3);
+      }
+    });
+
+    const req = httpMock.expectOne(`${apiUrl}/c2`);
+    expect(req.request.method).toBe('DELETE');
+    req.flush({ error: 'Category "Notebooks" is used by 3 products', productCount: 3 }, { status: 409, statusText: 'Conflict' });
+  });
+});
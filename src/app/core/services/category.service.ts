@@ -0,0 +1,68 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { API_BASE_URL } from '../config/app-config';
+import { Category, CategoryId } from '../models/category.interface';
+import { decodeCategories, decodeCategory } from '../models/category.schema';
+
+/**
+ * Service to manage CRUD operations for categories.
+ * 
+ * The API returns every category as a flat list; the tree is built
+ * on the client from each category's `parentId`. Records are decoded
+ * at runtime like products, so malformed ones fail with a
+ * CategoryValidationError.
+ * 
+ * Deleting a category that still has subcategories or products
+ * fails with a 409 conflict whose body includes the `productCount`.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CategoryService {
+  /** Base URL of the REST API for categories */
+  private readonly apiUrl = `${inject(API_BASE_URL)}/categories`;
+
+  private readonly http = inject(HttpClient);
+
+  /**
+   * Gets every category.
+   * 
+   * @returns Observable that emits the categories as a flat list
+   */
+  getCategories(): Observable<Category[]> {
+    return this.http.get<unknown>(this.apiUrl).pipe(map(decodeCategories));
+  }
+
+  /**
+   * Creates a category.
+   * 
+   * @param category - Name and optional parent of the new category
+   * @returns Observable that emits the created category with its assigned ID
+   */
+  addCategory(category: Category): Observable<Category> {
+    return this.http.post<unknown>(this.apiUrl, category).pipe(map(decodeCategory));
+  }
+
+  /**
+   * Renames a category or moves it under another parent.
+   * 
+   * @param id - Unique ID of the category
+   * @param category - New name and parent
+   * @returns Observable that emits the updated category
+   */
+  updateCategory(id: CategoryId, category: Category): Observable<Category> {
+    return this.http.put<unknown>(`${this.apiUrl}/${id}`, category).pipe(map(decodeCategory));
+  }
+
+  /**
+   * Deletes a category that has no subcategories and no products.
+   * 
+   * @param id - Unique ID of the category
+   * @returns Observable that emits void when deletion is successful
+   */
+  deleteCategory(id: CategoryId): Observable<void> {
+    return this.http.delete<void>(`${this.apiUrl}/${id}`);
+  }
+}
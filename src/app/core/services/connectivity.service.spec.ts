@@ -0,0 +1,41 @@
+import { TestBed } from '@angular/core/testing';
+import { ConnectivityService } from './connectivity.service';
+
+/**
+ * Pruebas unitarias para ConnectivityService.
+ * 
+ * Verifica que el estado de conexión siga los eventos
+ * online/offline del navegador.
+ */
+describe('ConnectivityService', () => {
+  let service: ConnectivityService;
+  let onLine: boolean;
+
+  beforeEach(() => {
+    onLine = true;
+    spyOnProperty(navigator, 'onLine').and.callFake(() => onLine);
+
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ConnectivityService);
+  });
+
+  /**
+   * Prueba que el estado inicial venga del navegador.
+   */
+  it('should start with the browser status', () => {
+    expect(service.online()).toBeTrue();
+  });
+
+  /**
+   * Prueba que se reaccione a la pérdida y recuperación de la conexión.
+   */
+  it('should follow offline and online events', () => {
+    onLine = false;
+    window.dispatchEvent(new Event('offline'));
+    expect(service.online()).toBeFalse();
+
+    onLine = true;
+    window.dispatchEvent(new Event('online'));
+    expect(service.online()).toBeTrue();
+  });
+});
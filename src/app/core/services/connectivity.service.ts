@@ -0,0 +1,35 @@
+import { DestroyRef, Injectable, PLATFORM_ID, inject, signal } from '@angular/core';
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
+
+/**
+ * Tracks whether the browser has a network connection.
+ *
+ * Driven by the `online`/`offline` window events. On the server the
+ * app is always considered online.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConnectivityService {
+  private readonly status = signal(true);
+
+  /** Whether the browser reports a network connection */
+  readonly online = this.status.asReadonly();
+
+  constructor() {
+    const window = inject(DOCUMENT).defaultView;
+    if (!isPlatformBrowser(inject(PLATFORM_ID)) || !window) {
+      return;
+    }
+
+    this.status.set(window.navigator.onLine);
+
+    const update = () => this.status.set(window.navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    inject(DestroyRef).onDestroy(() => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    });
+  }
+}
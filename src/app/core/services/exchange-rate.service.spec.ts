@@ -0,0 +1,55 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting, HttpTestingController } from '@angular/common/http/testing';
+import { ExchangeRateService } from './exchange-rate.service';
+import { ExchangeRatesValidationError } from '../models/exchange-rates.schema';
+
+/**
+ * Pruebas unitarias para ExchangeRateService.
+ * 
+ * Verifica la lectura de las tasas de cambio y que la tabla
+ * recibida se valide.
+ */
+describe('ExchangeRateService', () => {
+  let service: ExchangeRateService;
+  let httpMock: HttpTestingController;
+  const apiUrl = '/api/exchange-rates';
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+
+    service = TestBed.inject(ExchangeRateService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  /**
+   * Prueba que getExchangeRates() retorne la tabla con la moneda base.
+   */
+  it('should get the exchange rates', () => {
+    service.getExchangeRates().subscribe(rates => {
+      expect(rates).toEqual({ base: 'CLP', rates: { USD: 950, CLP: 1 } });
+    });
+
+    const req = httpMock.expectOne(apiUrl);
+    expect(req.request.method).toBe('GET');
+    req.flush({ base: 'CLP', rates: { USD: 950 } });
+  });
+
+  /**
+   * Prueba que se rechace una tabla malformada.
+   */
+  it('should fail with ExchangeRatesValidationError on a malformed table', () => {
+    service.getExchangeRates().subscribe({
+      next: () => fail('Expected a validation error, not rates'),
+      error: error => expect(error).toEqual(jasmine.any(ExchangeRatesValidationError))
+    });
+
+    httpMock.expectOne(apiUrl).flush({ base: 'CLP', rates: { USD: -1 } });
+  });
+});
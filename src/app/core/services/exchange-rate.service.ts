@@ -0,0 +1,33 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { API_BASE_URL } from '../config/app-config';
+import { ExchangeRates } from '../models/money';
+import { decodeExchangeRates } from '../models/exchange-rates.schema';
+
+/**
+ * Service to read the exchange rates used to show prices in other
+ * currencies.
+ * 
+ * The table is decoded at runtime like products, so a malformed one
+ * fails with an ExchangeRatesValidationError.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ExchangeRateService {
+  /** URL of the exchange rate table */
+  private readonly apiUrl = `${inject(API_BASE_URL)}/exchange-rates`;
+
+  private readonly http = inject(HttpClient);
+
+  /**
+   * Gets the current exchange rates.
+   * 
+   * @returns Observable that emits the rates, including the base currency
+   */
+  getExchangeRates(): Observable<ExchangeRates> {
+    return this.http.get<unknown>(this.apiUrl).pipe(map(decodeExchangeRates));
+  }
+}
@@ -0,0 +1,36 @@
+import { TestBed } from '@angular/core/testing';
+import { FileDownloadService } from './file-download.service';
+
+/**
+ * Pruebas unitarias para FileDownloadService.
+ * 
+ * Verifica que el archivo se descargue mediante un enlace
+ * temporal con el nombre y el contenido indicados.
+ */
+describe('FileDownloadService', () => {
+  let service: FileDownloadService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(FileDownloadService);
+  });
+
+  /**
+   * Prueba que se haga clic en un enlace con el archivo y luego se limpie.
+   */
+  it('should download the content through a temporary link', () => {
+    spyOn(URL, 'createObjectURL').and.returnValue('blob:productos');
+    spyOn(URL, 'revokeObjectURL');
+    let clicked: HTMLAnchorElement | null = null;
+    spyOn(HTMLAnchorElement.prototype, 'click').and.callFake(function (this: HTMLAnchorElement) {
+      clicked = this;
+    });
+
+    service.save('id;nombre\n', 'productos.csv', 'text/csv');
+
+    expect(clicked!.download).toBe('productos.csv');
+    expect(clicked!.href).toBe('blob:productos');
+    expect(clicked!.isConnected).toBeFalse();
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:productos');
+  });
+});
@@ -0,0 +1,43 @@
+import { Injectable, PLATFORM_ID, inject } from '@angular/core';
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
+
+/**
+ * Saves generated content as a file on the user's device.
+ * 
+ * Does nothing on the server, where there is no one to download it.
+ * 
+ * @example
+ * ```typescript
+ * this.fileDownload.save('id;nombre\n', 'productos.csv', 'text/csv');
+ * ```
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FileDownloadService {
+  private readonly document = inject(DOCUMENT);
+  private readonly platformId = inject(PLATFORM_ID);
+
+  /**
+   * Starts the download of a file.
+   * 
+   * @param content - Content of the file
+   * @param fileName - Name suggested to the browser
+   * @param type - MIME type of the content
+   */
+  save(content: string, fileName: string, type: string): void {
+    if (!isPlatformBrowser(this.platformId)) {
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = this.document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.style.display = 'none';
+    this.document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,86 @@
+import { TestBed } from '@angular/core/testing';
+import { NotificationService } from './notification.service';
+import { AppError } from '../models/app-error';
+
+/**
+ * Pruebas unitarias para NotificationService.
+ * 
+ * Verifica que las notificaciones se agreguen y eliminen
+ * correctamente y que los errores se muestren con su mensaje.
+ */
+describe('NotificationService', () => {
+  let service: NotificationService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(NotificationService);
+  });
+
+  /**
+   * Prueba que el servicio se cree sin notificaciones.
+   */
+  it('should start empty', () => {
+    expect(service.notifications()).toEqual([]);
+  });
+
+  /**
+   * Prueba que success() agregue una notificación con duración por defecto.
+   */
+  it('should add success notifications', () => {
+    const id = service.success('Producto eliminado');
+
+    expect(service.notifications()).toEqual([
+      { id, type: 'success', message: 'Producto eliminado', title: undefined, delay: 4000 }
+    ]);
+  });
+
+  /**
+   * Prueba que error() use el mensaje del AppError.
+   */
+  it('should show the AppError message for errors', () => {
+    service.error(new AppError('conflict', 'Conflicto de datos', 409), 'No se pudo guardar');
+
+    const [notification] = service.notifications();
+    expect(notification.type).toBe('error');
+    expect(notification.title).toBe('No se pudo guardar');
+    expect(notification.message).toBe('Conflicto de datos');
+  });
+
+  /**
+   * Prueba que los errores desconocidos tengan un mensaje genérico.
+   */
+  it('should use a generic message for unknown errors', () => {
+    service.error(new Error('boom'));
+    expect(service.notifications()[0].message).toBe('Ocurrió un error inesperado.');
+  });
+
+  /**
+   * Prueba que dismiss() y clear() eliminen notificaciones.
+   */
+  it('should dismiss and clear notifications', () => {
+    const first = service.info('Uno');
+    service.warning('Dos');
+
+    service.dismiss(first);
+    expect(service.notifications().map(item => item.message)).toEqual(['Dos']);
+
+    service.clear();
+    expect(service.notifications()).toEqual([]);
+  });
+
+  /**
+   * Prueba que la acción se ejecute una sola vez y cierre la notificación.
+   */
+  it('should run the action once and dismiss the notification', () => {
+    const run = jasmine.createSpy('run');
+    const id = service.withAction('Producto eliminado', { label: 'Deshacer', run }, 'success', 6000);
+
+    expect(service.notifications()[0]).toEqual(jasmine.objectContaining({ type: 'success', delay: 6000 }));
+
+    service.runAction(id);
+    service.runAction(id);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(service.notifications()).toEqual([]);
+  });
+});
@@ -0,0 +1,156 @@
+import { Injectable, signal } from '@angular/core';
+import { toAppError } from '../models/app-error';
+
+/**
+ * Visual style of a notification.
+ */
+export type NotificationType = 'success' | 'error' | 'info' | 'warning';
+
+/**
+ * Button shown inside a notification, such as "Deshacer".
+ */
+export interface NotificationAction {
+  label: string;
+  run: () => void;
+}
+
+/**
+ * A notification shown as a toast.
+ */
+export interface AppNotification {
+  id: number;
+  type: NotificationType;
+  message: string;
+  title?: string;
+  /** Milliseconds before the toast hides itself; 0 keeps it until dismissed */
+  delay: number;
+  action?: NotificationAction;
+}
+
+/** How long each type of notification stays on screen by default */
+const DEFAULT_DELAYS: Record<NotificationType, number> = {
+  success: 4000,
+  info: 5000,
+  warning: 8000,
+  error: 8000
+};
+
+/**
+ * Shows toast notifications across the whole app.
+ *
+ * Notifications are rendered by the ToastContainerComponent placed
+ * once in the root component.
+ *
+ * @example
+ * ```typescript
+ * private readonly notifications = inject(NotificationService);
+ *
+ * this.notifications.success('Producto eliminado');
+ * this.notifications.error(error, 'No se pudo eliminar el producto');
+ * ```
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class NotificationService {
+  private readonly items = signal<AppNotification[]>([]);
+  private nextId = 1;
+
+  /** Notifications currently on screen, oldest first */
+  readonly notifications = this.items.asReadonly();
+
+  /**
+   * Shows a success message.
+   */
+  success(message: string, title?: string): number {
+    return this.show('success', message, title);
+  }
+
+  /**
+   * Shows an informational message.
+   */
+  info(message: string, title?: string): number {
+    return this.show('info', message, title);
+  }
+
+  /**
+   * Shows a warning message.
+   */
+  warning(message: string, title?: string): number {
+    return this.show('warning', message, title);
+  }
+
+  /**
+   * Shows an error.
+   * 
+   * @param error - Any error; it is converted to an AppError for its message
+   * @param title - Short description of what failed
+   */
+  error(error: unknown, title?: string): number {
+    return this.show('error', toAppError(error).message, title);
+  }
+
+  /**
+   * Adds a notification.
+   * 
+   * @returns ID of the notification, to dismiss it early
+   */
+  show(type: NotificationType, message: string, title?: string, delay = DEFAULT_DELAYS[type]): number {
+    const id = this.nextId++;
+    this.items.update(items => [...items, { id, type, message, title, delay }]);
+    return id;
+  }
+
+  /**
+   * Adds a notification with a button.
+   * 
+   * The button runs the action once and dismisses the notification.
+   * 
+   * @param message - Text of the notification
+   * @param action - Label of the button and what it does
+   * @param type - Visual style (default: info)
+   * @param delay - Milliseconds the button stays available
+   * @returns ID of the notification, to dismiss it early
+   * 
+   * @example
+   * ```typescript
+   * this.notifications.withAction('Producto eliminado', {
+   *   label: 'Deshacer',
+   *   run: () => this.store.restore(id).subscribe()
+   * });
+   * ```
+   */
+  withAction(message: string, action: NotificationAction, type: NotificationType = 'info', delay = DEFAULT_DELAYS[type]): number {
+    const id = this.nextId++;
+    this.items.update(items => [...items, { id, type, message, delay, action }]);
+    return id;
+  }
+
+  /**
+   * Runs the action of a notification and dismisses it.
+   * 
+   * Does nothing if the notification is already gone, so the
+   * action never runs twice.
+   */
+  runAction(id: number): void {
+    const notification = this.items().find(item => item.id === id);
+    if (notification) {
+      this.dismiss(id);
+      notification.action?.run();
+    }
+  }
+
+  /**
+   * Removes a notification from the screen.
+   */
+  dismiss(id: number): void {
+    this.items.update(items => items.filter(item => item.id !== id));
+  }
+
+  /**
+   * Removes every notification.
+   */
+  clear(): void {
+    this.items.set([]);
+  }
+}
@@ -3,6 +3,8 @@ import { provideHttpClient } from '@angular/common/http';
 import { provideHttpClientTesting, HttpTestingController } from '@angular/common/http/testing';
 import { ProductService } from './product.service';
 import { Product } from '../models/product.interface';
+import { ProductValidationError } from '../models/product.schema';
+import { API_BASE_URL } from '../config/app-config';
 
 /**
  * Unit tests for ProductService.
@@ -14,25 +16,25 @@ import { Product } from '../models/product.interface';
 describe('ProductService', () => {
   let service: ProductService;
   let httpMock: HttpTestingController;
-  const apiUrl = 'http://localhost:3000/products';
+  const apiUrl = '/api/products';
 
   // Mocked test data
   const mockProducts: Product[] = [
-    { id: 1, name: 'iPhone 15', price: 849990, stock: 10 },
-    { id: 2, name: 'MacBook Pro', price: 2499990, stock: 5 },
-    { id: 3, name: 'iPad Air', price: 649990, stock: 15 }
+    { id: '1', name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10 },
+    { id: '2', name: 'MacBook Pro', price: { amount: 2499990, currency: 'CLP' }, stock: 5 },
+    { id: '3', name: 'iPad Air', price: { amount: 649990, currency: 'CLP' }, stock: 15 }
   ];
 
   const mockProduct: Product = {
-    id: 1,
+    id: '1',
     name: 'iPhone 15 Pro',
-    price: 1199990,
+    price: { amount: 1199990, currency: 'CLP' },
     stock: 8
   };
 
   const newMockProduct: Product = {
     name: 'Apple Watch',
-    price: 399990,
+    price: { amount: 399990, currency: 'CLP' },
     stock: 20
   };
 
@@ -61,6 +63,28 @@ describe('ProductService', () => {
     expect(service).toBeTruthy();
   });
 
+  /**
+   * Prueba que las URLs se construyan desde API_BASE_URL.
+   */
+  it('should build URLs from the API_BASE_URL token', () => {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: API_BASE_URL, useValue: 'https://staging.example.com/api' },
+        provideHttpClient(),
+        provideHttpClientTesting()
+      ]
+    });
+    const stagingService = TestBed.inject(ProductService);
+    const stagingHttp = TestBed.inject(HttpTestingController);
+
+    stagingService.getProducts().subscribe();
+
+    stagingHttp.expectOne('https://staging.example.com/api/products').flush([]);
+    stagingHttp.verify();
+    httpMock = stagingHttp;
+  });
+
   /**
    * Grupo de pruebas para el método getProducts().
    */
@@ -109,6 +133,80 @@ describe('ProductService', () => {
       expect(req.request.method).toBe('GET');
       req.flush([]);
     });
+
+    /**
+     * Prueba que getProducts() rechace registros malformados con un error claro.
+     */
+    it('should fail with ProductValidationError on malformed records', () => {
+      service.getProducts().subscribe({
+        next: () => fail('Expected a validation error, not products'),
+        error: (error) => {
+          expect(error).toEqual(jasmine.any(ProductValidationError));
+          expect(error.issues.map((issue: { field: string }) => issue.field)).toEqual(['name', 'stock']);
+        }
+      });
+
+      const req = httpMock.expectOne(apiUrl);
+      req.flush([mockProducts[0], { id: 'b1', price: { amount: 1000, currency: 'CLP' }, stock: -2 }]);
+    });
+  });
+
+  /**
+   * Grupo de pruebas para el método queryProducts().
+   */
+  describe('queryProducts', () => {
+    /**
+     * Prueba que queryProducts() traduzca la consulta a parámetros del backend.
+     */
+    it('should send filter, sort and pagination params', () => {
+      service.queryProducts({
+        search: ' mac ',
+        minPrice: 100000,
+        maxStock: 10,
+        sortField: 'price',
+        sortDirection: 'desc',
+        page: 2,
+        limit: 25
+      }).subscribe();
+
+      const req = httpMock.expectOne(request => request.url === apiUrl);
+      expect(req.request.method).toBe('GET');
+      expect(req.request.params.get('q')).toBe('mac');
+      expect(req.request.params.get('price_gte')).toBe('100000');
+      expect(req.request.params.get('stock_lte')).toBe('10');
+      expect(req.request.params.has('price_lte')).toBeFalse();
+      expect(req.request.params.get('_sort')).toBe('-price');
+      expect(req.request.params.get('_page')).toBe('2');
+      expect(req.request.params.get('_per_page')).toBe('25');
+      req.flush([]);
+    });
+
+    /**
+     * Prueba que queryProducts() lea el total desde el sobre paginado.
+     */
+    it('should build the result from a paginated envelope', () => {
+      service.queryProducts({ page: 1, limit: 2 }).subscribe(result => {
+        expect(result).toEqual({ items: mockProducts.slice(0, 2), total: 3, page: 1, pageSize: 2 });
+      });
+
+      const req = httpMock.expectOne(request => request.url === apiUrl);
+      req.flush({ first: 1, prev: null, next: 2, last: 2, pages: 2, items: 3, data: mockProducts.slice(0, 2) });
+    });
+
+    /**
+     * Prueba que queryProducts() lea el total desde la cabecera X-Total-Count.
+     */
+    it('should build the result from an array and X-Total-Count header', () => {
+      service.queryProducts().subscribe(result => {
+        expect(result.items).toEqual(mockProducts);
+        expect(result.total).toBe(42);
+        expect(result.page).toBe(1);
+        expect(result.pageSize).toBe(10);
+      });
+
+      const req = httpMock.expectOne(request => request.url === apiUrl);
+      req.flush(mockProducts, { headers: { 'X-Total-Count': '42' } });
+    });
   });
 
   /**
@@ -119,7 +217,7 @@ describe('ProductService', () => {
      * Prueba que addProduct() cree un nuevo producto correctamente.
      */
     it('should add a new product and return it with ID', () => {
-      const expectedProduct = { ...newMockProduct, id: 4 };
+      const expectedProduct = { ...newMockProduct, id: '4' };
 
       service.addProduct(newMockProduct).subscribe(product => {
         expect(product).toEqual(expectedProduct);
@@ -143,7 +241,7 @@ describe('ProductService', () => {
       expect(req.request.body.name).toBe('Apple Watch');
       expect(req.request.body.price).toBe(399990);
       expect(req.request.body.stock).toBe(20);
-      req.flush({ ...newMockProduct, id: 4 });
+      req.flush({ ...newMockProduct, id: '4' });
     });
 
     /**
@@ -170,7 +268,7 @@ describe('ProductService', () => {
      * Prueba que deleteProduct() elimine un producto correctamente.
      */
     it('should delete a product by ID', () => {
-      const productId = 1;
+      const productId = '1';
 
       service.deleteProduct(productId).subscribe(response => {
         expect(response).toBeUndefined(); // void response
@@ -185,7 +283,7 @@ describe('ProductService', () => {
      * Prueba que deleteProduct() maneje el caso de producto no encontrado.
      */
     it('should handle error when deleting non-existent product', () => {
-      const productId = 999;
+      const productId = '999';
 
       service.deleteProduct(productId).subscribe({
         next: () => fail('Expected an error, not success'),
@@ -202,7 +300,7 @@ describe('ProductService', () => {
      * Prueba que deleteProduct() use la URL correcta con el ID.
      */
     it('should use correct URL with product ID', () => {
-      const productId = 42;
+      const productId = '42';
 
       service.deleteProduct(productId).subscribe();
 
@@ -212,6 +310,52 @@ describe('ProductService', () => {
     });
   });
 
+  /**
+   * Grupo de pruebas para la papelera.
+   */
+  describe('trash', () => {
+    /**
+     * Prueba que getDeletedProducts() consulte la papelera.
+     */
+    it('should get the deleted products', () => {
+      const deleted = [{ id: '2', name: 'MacBook Pro', price: { amount: 2499990, currency: 'CLP' }, stock: 5, deletedAt: '2024-05-02T09:30:00.000Z' }];
+
+      service.getDeletedProducts().subscribe(products => {
+        expect(products).toEqual(deleted);
+      });
+
+      const req = httpMock.expectOne(`${apiUrl}/trash`);
+      expect(req.request.method).toBe('GET');
+      req.flush(deleted);
+    });
+
+    /**
+     * Prueba que restoreProduct() devuelva el producto restaurado.
+     */
+    it('should restore a deleted product', () => {
+      const restored = { id: '2', name: 'MacBook Pro', price: { amount: 2499990, currency: 'CLP' }, stock: 5, version: 3 };
+
+      service.restoreProduct('2').subscribe(product => {
+        expect(product).toEqual(restored);
+      });
+
+      const req = httpMock.expectOne(`${apiUrl}/trash/2/restore`);
+      expect(req.request.method).toBe('POST');
+      req.flush(restored);
+    });
+
+    /**
+     * Prueba que purgeProduct() elimine definitivamente el producto.
+     */
+    it('should purge a deleted product', () => {
+      service.purgeProduct('2').subscribe();
+
+      const req = httpMock.expectOne(`${apiUrl}/trash/2`);
+      expect(req.request.method).toBe('DELETE');
+      req.flush(null);
+    });
+  });
+
   /**
    * Grupo de pruebas para el método getProduct().
    */
@@ -220,7 +364,7 @@ describe('ProductService', () => {
      * Prueba que getProduct() retorne un producto específico por ID.
      */
     it('should return a single product by ID', () => {
-      const productId = 1;
+      const productId = '1';
 
       service.getProduct(productId).subscribe(product => {
         expect(product).toEqual(mockProduct);
@@ -236,7 +380,7 @@ describe('ProductService', () => {
      * Prueba que getProduct() maneje el caso de producto no encontrado.
      */
     it('should handle error when product not found', () => {
-      const productId = 999;
+      const productId = '999';
 
       service.getProduct(productId).subscribe({
         next: () => fail('Expected an error, not product'),
@@ -258,18 +402,18 @@ describe('ProductService', () => {
      * Prueba que updateProduct() actualice un producto correctamente.
      */
     it('should update a product and return updated data', () => {
-      const productId = 1;
+      const productId = '1';
       const updatedProduct: Product = {
         id: productId,
         name: 'iPhone 15 Pro Max',
-        price: 1399990,
+        price: { amount: 1399990, currency: 'CLP' },
         stock: 5
       };
 
       service.updateProduct(productId, updatedProduct).subscribe(product => {
         expect(product).toEqual(updatedProduct);
         expect(product.name).toBe('iPhone 15 Pro Max');
-        expect(product.price).toBe(1399990);
+        expect(product.price.amount).toBe(1399990);
       });
 
       const req = httpMock.expectOne(`${apiUrl}/${productId}`);
@@ -282,11 +426,11 @@ describe('ProductService', () => {
      * Prueba que updateProduct() maneje errores de validación.
      */
     it('should handle validation errors when updating product', () => {
-      const productId = 1;
+      const productId = '1';
       const invalidProduct: Product = {
         id: productId,
         name: '',
-        price: -100,
+        price: { amount: -100, currency: 'CLP' },
         stock: -5
       };
 
@@ -305,7 +449,7 @@ describe('ProductService', () => {
      * Prueba que updateProduct() maneje el caso de producto no encontrado.
      */
     it('should handle error when updating non-existent product', () => {
-      const productId = 999;
+      const productId = '999';
 
       service.updateProduct(productId, mockProduct).subscribe({
         next: () => fail('Expected an error, not success'),
@@ -319,6 +463,51 @@ describe('ProductService', () => {
     });
   });
 
+  /**
+   * Grupo de pruebas para el reseteo de la base de datos.
+   */
+  describe('resetDatabase', () => {
+    /**
+     * Prueba que getFixtures() consulte los conjuntos disponibles.
+     */
+    it('should get the available fixtures', () => {
+      const fixtures = [{ name: 'default', label: 'Catálogo inicial', productCount: 6 }];
+
+      service.getFixtures().subscribe(result => {
+        expect(result).toEqual(fixtures);
+      });
+
+      const req = httpMock.expectOne('/api/admin/fixtures');
+      expect(req.request.method).toBe('GET');
+      req.flush(fixtures);
+    });
+
+    /**
+     * Prueba que resetDatabase() use el endpoint atómico con el conjunto elegido.
+     */
+    it('should reset through a single request with the chosen fixture', () => {
+      service.resetDatabase('low-stock').subscribe(products => {
+        expect(products).toEqual(mockProducts);
+      });
+
+      const req = httpMock.expectOne('/api/admin/reset');
+      expect(req.request.method).toBe('POST');
+      expect(req.request.body).toEqual({ fixture: 'low-stock' });
+      req.flush(mockProducts);
+    });
+
+    /**
+     * Prueba que resetDatabase() use el conjunto por defecto.
+     */
+    it('should use the default fixture when none is given', () => {
+      service.resetDatabase().subscribe();
+
+      const req = httpMock.expectOne('/api/admin/reset');
+      expect(req.request.body).toEqual({ fixture: 'default' });
+      req.flush([]);
+    });
+  });
+
   /**
    * Grupo de pruebas de integración para verificar el flujo completo.
    */
@@ -336,17 +525,17 @@ describe('ProductService', () => {
       req.flush(mockProducts);
 
       // 2. Add new product
-      const newProduct = { name: 'New Product', price: 199990, stock: 30 };
+      const newProduct = { name: 'New Product', price: { amount: 199990, currency: 'CLP' }, stock: 30 };
       service.addProduct(newProduct).subscribe(product => {
         expect(product.id).toBeDefined();
       });
 
       req = httpMock.expectOne(apiUrl);
-      req.flush({ ...newProduct, id: 4 });
+      req.flush({ ...newProduct, id: '4' });
 
       // 3. Update product
-      const updatedProduct = { id: 4, name: 'Updated Product', price: 299990, stock: 25 };
-      service.updateProduct(4, updatedProduct).subscribe(product => {
+      const updatedProduct = { id: '4', name: 'Updated Product', price: { amount: 299990, currency: 'CLP' }, stock: 25 };
+      service.updateProduct('4', updatedProduct).subscribe(product => {
         expect(product.name).toBe('Updated Product');
       });
 
@@ -354,7 +543,7 @@ describe('ProductService', () => {
       req.flush(updatedProduct);
 
       // 4. Delete product
-      service.deleteProduct(4).subscribe();
+      service.deleteProduct('4').subscribe();
 
       req = httpMock.expectOne(`${apiUrl}/4`);
       req.flush(null);
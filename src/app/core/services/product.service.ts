@@ -1,8 +1,25 @@
 import { Injectable, inject } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable, of, forkJoin } from 'rxjs';
-import { switchMap } from 'rxjs/operators';
-import { Product } from '../models/product.interface';
+import { HttpClient, HttpParams, HttpResponse } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { API_BASE_URL } from '../config/app-config';
+import { DatabaseFixture } from '../models/fixture.interface';
+import { Product, ProductId } from '../models/product.interface';
+import { PagedResult, ProductQuery } from '../models/product-query.interface';
+import { decodeProduct, decodeProducts } from '../models/product.schema';
+
+/** Page size used by queryProducts() when the query does not set a limit */
+const DEFAULT_PAGE_SIZE = 10;
+
+/**
+ * Paginated envelope returned by json-server when `_page` is requested.
+ */
+interface PaginatedEnvelope<T> {
+  data: T[];
+  /** Total number of matching items */
+  items: number;
+  pages: number;
+}
 
 /**
  * Service to manage CRUD operations for products.
@@ -11,6 +28,10 @@ import { Product } from '../models/product.interface';
  * for products, including read, create, update, and delete operations.
  * Uses the new inject() syntax for dependency injection.
  * 
+ * Every product received from the API is decoded at runtime; malformed
+ * records make the observable fail with a ProductValidationError that
+ * lists each problem, instead of reaching the UI.
+ * 
  * @example
  * ```typescript
  * constructor() {
@@ -27,8 +48,14 @@ import { Product } from '../models/product.interface';
   providedIn: 'root'
 })
 export class ProductService {
+  /** Base URL of the REST API, from the runtime configuration */
+  private readonly apiBaseUrl = inject(API_BASE_URL);
+
   /** Base URL of the REST API for products */
-  private readonly apiUrl = 'http://localhost:3000/products';
+  private readonly apiUrl = `${this.apiBaseUrl}/products`;
+
+  /** Base URL of the admin endpoints used to manage demo data */
+  private readonly adminUrl = `${this.apiBaseUrl}/admin`;
   
   /** HTTP client injected using inject() */
   private readonly http = inject(HttpClient);
@@ -42,7 +69,36 @@ export class ProductService {
    * @returns Observable that emits an array of products
    */
   getProducts(): Observable<Product[]> {
-    return this.http.get<Product[]>(this.apiUrl);
+    return this.http.get<unknown>(this.apiUrl).pipe(map(decodeProducts));
+  }
+
+  /**
+   * Gets one page of products matching the given criteria.
+   * 
+   * Filtering, sorting and pagination are done by the backend, so
+   * only the requested page is downloaded. The total count is read
+   * from the paginated envelope when the backend returns one, or
+   * from the `X-Total-Count` header when it returns a plain array.
+   * 
+   * @param query - Search, range, sort and pagination criteria
+   * @returns Observable that emits the requested page and the total count
+   * 
+   * @example
+   * ```typescript
+   * this.productService.queryProducts({ search: 'mac', sortField: 'price', page: 2 })
+   *   .subscribe(({ items, total }) => console.log(items, total));
+   * ```
+   */
+  queryProducts(query: ProductQuery = {}): Observable<PagedResult<Product>> {
+    const page = query.page && query.page > 0 ? query.page : 1;
+    const pageSize = query.limit && query.limit > 0 ? query.limit : DEFAULT_PAGE_SIZE;
+
+    return this.http
+      .get<unknown[] | PaginatedEnvelope<unknown>>(this.apiUrl, {
+        params: this.buildQueryParams(query, page, pageSize),
+        observe: 'response'
+      })
+      .pipe(map(response => this.toPagedResult(response, page, pageSize)));
   }
 
   /**
@@ -55,22 +111,56 @@ export class ProductService {
    * @returns Observable that emits the created product with its assigned ID
    */
   addProduct(product: Product): Observable<Product> {
-    return this.http.post<Product>(this.apiUrl, product);
+    return this.http.post<unknown>(this.apiUrl, product).pipe(map(decodeProduct));
   }
 
   /**
    * Deletes a product from the API.
    * 
-   * Sends a DELETE request to the specific product endpoint
-   * to permanently remove it.
+   * Sends a DELETE request to the specific product endpoint. The
+   * server moves the product to the trash, from where it can be
+   * restored with restoreProduct() or removed for good with
+   * purgeProduct().
    * 
    * @param id - Unique ID of the product to delete
    * @returns Observable that emits void when deletion is successful
    */
-  deleteProduct(id: number): Observable<void> {
+  deleteProduct(id: ProductId): Observable<void> {
     return this.http.delete<void>(`${this.apiUrl}/${id}`);
   }
 
+  /**
+   * Gets the products in the trash, most recently deleted first.
+   * 
+   * @returns Observable that emits the deleted products, with their `deletedAt`
+   */
+  getDeletedProducts(): Observable<Product[]> {
+    return this.http.get<unknown>(`${this.apiUrl}/trash`).pipe(map(decodeProducts));
+  }
+
+  /**
+   * Moves a product from the trash back to the catalog.
+   * 
+   * Fails with a 409 conflict if another product with the same
+   * name was created after it was deleted.
+   * 
+   * @param id - Unique ID of the deleted product
+   * @returns Observable that emits the restored product, with its new version
+   */
+  restoreProduct(id: ProductId): Observable<Product> {
+    return this.http.post<unknown>(`${this.apiUrl}/trash/${id}/restore`, null).pipe(map(decodeProduct));
+  }
+
+  /**
+   * Permanently deletes a product from the trash.
+   * 
+   * @param id - Unique ID of the deleted product
+   * @returns Observable that emits void when the product is gone
+   */
+  purgeProduct(id: ProductId): Observable<void> {
+    return this.http.delete<void>(`${this.apiUrl}/trash/${id}`);
+  }
+
   /**
    * Gets a specific product by its ID.
    * 
@@ -80,75 +170,115 @@ export class ProductService {
    * @param id - Unique ID of the product to get
    * @returns Observable that emits the found product
    */
-  getProduct(id: number): Observable<Product> {
-    return this.http.get<Product>(`${this.apiUrl}/${id}`);
+  getProduct(id: ProductId): Observable<Product> {
+    return this.http.get<unknown>(`${this.apiUrl}/${id}`).pipe(map(decodeProduct));
   }
 
   /**
    * Updates an existing product in the API.
    * 
    * Sends a PUT request to the specific product endpoint
-   * with the new data to update.
+   * with the new data to update. The product must carry the
+   * `version` it was based on; if someone else saved the product
+   * since, the request fails with a 409 conflict (see
+   * readVersionConflict()).
    * 
    * @param id - Unique ID of the product to update
    * @param product - Product object with the updated data
-   * @returns Observable that emits the updated product
+   * @returns Observable that emits the updated product, with its new version
    */
-  updateProduct(id: number, product: Product): Observable<Product> {
-    return this.http.put<Product>(`${this.apiUrl}/${id}`, product);
+  updateProduct(id: ProductId, product: Product): Observable<Product> {
+    return this.http.put<unknown>(`${this.apiUrl}/${id}`, product).pipe(map(decodeProduct));
   }
 
   /**
-   * Resets the database to initial data.
+   * Gets the fixture sets the database can be reset to.
    * 
-   * Restores all products to their original state by deleting
-   * all current products and recreating the initial data.
-   * Uses a delete-all-and-recreate strategy since json-server
-   * doesn't have a native reset endpoint.
+   * @returns Observable that emits the available fixtures
+   */
+  getFixtures(): Observable<DatabaseFixture[]> {
+    return this.http.get<DatabaseFixture[]>(`${this.adminUrl}/fixtures`);
+  }
+
+  /**
+   * Resets the database to a named fixture set.
+   * 
+   * The server replaces the whole catalog in a single atomic write,
+   * so a failed reset never leaves the catalog half-deleted.
    * 
-   * @returns Observable that emits an array with the initial products
+   * @param fixture - Name of the fixture to load (default: `"default"`)
+   * @returns Observable that emits the products of the restored catalog
    * 
    * @example
    * ```typescript
-   * this.productService.resetDatabase().subscribe({
+   * this.productService.resetDatabase('low-stock').subscribe({
    *   next: (products) => console.log('Database reset:', products),
    *   error: (error) => console.error('Reset error:', error)
    * });
    * ```
    */
-  resetDatabase(): Observable<Product[]> {
-    const initialProducts: Product[] = [
-      { name: 'iPhone 15', price: 849990, stock: 10 },
-      { name: 'MacBook Pro', price: 2499990, stock: 5 },
-      { name: 'iPad Air', price: 649990, stock: 15 },
-      { name: 'Apple Watch Series 9', price: 399990, stock: 20 },
-      { name: 'AirPods Pro', price: 249990, stock: 25 },
-      { name: 'Mac Studio', price: 1999990, stock: 3 }
+  resetDatabase(fixture = 'default'): Observable<Product[]> {
+    return this.http
+      .post<unknown>(`${this.adminUrl}/reset`, { fixture })
+      .pipe(map(decodeProducts));
+  }
+
+  /**
+   * Translates a query into the backend's query string conventions.
+   * 
+   * Uses the json-server style: `_sort` with a leading `-` for
+   * descending order, `_gte`/`_lte` suffixes for ranges and
+   * `_page`/`_per_page` for pagination.
+   */
+  private buildQueryParams(query: ProductQuery, page: number, pageSize: number): HttpParams {
+    let params = new HttpParams()
+      .set('_page', page)
+      .set('_per_page', pageSize);
+
+    const search = query.search?.trim();
+    if (search) {
+      params = params.set('q', search);
+    }
+    if (query.sortField) {
+      params = params.set('_sort', `${query.sortDirection === 'desc' ? '-' : ''}${query.sortField}`);
+    }
+
+    const ranges: [string, number | undefined][] = [
+      ['price_gte', query.minPrice],
+      ['price_lte', query.maxPrice],
+      ['stock_gte', query.minStock],
+      ['stock_lte', query.maxStock]
     ];
+    for (const [key, value] of ranges) {
+      if (value !== undefined && value !== null && !isNaN(value)) {
+        params = params.set(key, value);
+      }
+    }
 
-    // First get all existing products and delete them
-    return this.getProducts().pipe(
-      switchMap((existingProducts: Product[]) => {
-        // Delete all existing products
-        const deleteRequests = existingProducts.map((product: Product) => 
-          this.deleteProduct(product.id!)
-        );
-        
-        // If no products exist, continue directly
-        if (deleteRequests.length === 0) {
-          return of([]);
-        }
-        
-        return forkJoin(deleteRequests);
-      }),
-      switchMap(() => {
-        // Create all initial products
-        const createRequests = initialProducts.map((product: Product) => 
-          this.addProduct(product)
-        );
-        
-        return forkJoin(createRequests);
-      })
-    );
+    return params;
+  }
+
+  /**
+   * Builds a paged result from either a paginated envelope or
+   * a plain array with an `X-Total-Count` header.
+   */
+  private toPagedResult(
+    response: HttpResponse<unknown[] | PaginatedEnvelope<unknown>>,
+    page: number,
+    pageSize: number
+  ): PagedResult<Product> {
+    const body = response.body;
+
+    if (body && !Array.isArray(body)) {
+      return { items: decodeProducts(body.data ?? []), total: body.items ?? 0, page, pageSize };
+    }
+
+    const items = decodeProducts(body ?? []);
+    const totalHeader = Number(response.headers.get('X-Total-Count'));
+    const total = response.headers.has('X-Total-Count') && !isNaN(totalHeader)
+      ? totalHeader
+      : items.length;
+
+    return { items, total, page, pageSize };
   }
 }
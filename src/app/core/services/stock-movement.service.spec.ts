@@ -0,0 +1,105 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting, HttpTestingController } from '@angular/common/http/testing';
+import { StockMovementService } from './stock-movement.service';
+import { StockMovement, StockTransfer } from '../models/stock-movement.interface';
+import { StockMovementValidationError } from '../models/stock-movement.schema';
+
+/**
+ * Pruebas unitarias para StockMovementService.
+ *
+ * Verifica que el historial de stock se lea desde el endpoint de
+ * cada producto y que registrar un movimiento retorne el producto
+ * con su nuevo stock.
+ */
+describe('StockMovementService', () => {
+  let service: StockMovementService;
+  let httpMock: HttpTestingController;
+  const apiUrl = '/api/products/a01f/movements';
+
+  const mockMovements: StockMovement[] = [
+    { id: 'm1', productId: 'a01f', type: 'receipt', quantity: 5, user: 'sistema', createdAt: '2024-05-01T12:00:00.000Z' },
+    { id: 'm2', productId: 'a01f', type: 'sale', quantity: -3, reason: 'Boleta 881', user: 'Ana', createdAt: '2024-05-02T12:00:00.000Z' }
+  ];
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+
+    service = TestBed.inject(StockMovementService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  /**
+   * Prueba que getMovements() retorne el historial del producto.
+   */
+  it('should get the ledger of a product', () => {
+    service.getMovements('a01f').subscribe(movements => {
+      expect(movements).toEqual(mockMovements);
+    });
+
+    const req = httpMock.expectOne(apiUrl);
+    expect(req.request.method).toBe('GET');
+    req.flush(mockMovements);
+  });
+
+  /**
+   * Prueba que se rechacen movimientos malformados.
+   */
+  it('should fail with StockMovementValidationError on malformed records', () => {
+    service.getMovements('a01f').subscribe({
+      next: () => fail('Expected a validation error, not movements'),
+      error: error => expect(error).toEqual(jasmine.any(StockMovementValidationError))
+    });
+
+    httpMock.expectOne(apiUrl).flush([{ ...mockMovements[1], quantity: 3 }]);
+  });
+
+  /**
+   * Prueba que recordMovement() envíe el movimiento y retorne el producto actualizado.
+   */
+  it('should record a movement', () => {
+    const movement: StockMovement = { productId: 'a01f', type: 'damage', quantity: -1, user: 'Ana' };
+    const product = { id: 'a01f', name: 'MacBook Pro', price: { amount: 2499990, currency: 'CLP' }, stock: 1, version: 4 };
+
+    service.recordMovement(movement).subscribe(result => {
+      expect(result.movement.id).toBe('m3');
+      expect(result.product).toEqual(product);
+    });
+
+    const req = httpMock.expectOne(apiUrl);
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body).toEqual(movement);
+    req.flush({ movement: { ...movement, id: 'm3', createdAt: '2024-05-03T12:00:00.000Z' }, product });
+  });
+
+  /**
+   * Prueba que transferStock() envíe la transferencia y retorne ambos movimientos.
+   */
+  it('should transfer units between warehouses', () => {
+    const transfer: StockTransfer = { productId: 'a01f', fromWarehouseId: 'scl', toWarehouseId: 'vap', quantity: 2, user: 'Ana' };
+    const product = { id: 'a01f', name: 'MacBook Pro', price: { amount: 2499990, currency: 'CLP' }, stock: 5, warehouseStock: { scl: 3, vap: 2 }, version: 5 };
+    const createdAt = '2024-05-04T12:00:00.000Z';
+
+    service.transferStock(transfer).subscribe(result => {
+      expect(result.movements.map(movement => [movement.warehouseId, movement.quantity])).toEqual([['scl', -2], ['vap', 2]]);
+      expect(result.product).toEqual(product);
+    });
+
+    const req = httpMock.expectOne('/api/products/a01f/transfers');
+    expect(req.request.method).toBe('POST');
+    expect(req.request.body).toEqual(transfer);
+    req.flush({
+      movements: [
+        { id: 'm4', productId: 'a01f', warehouseId: 'scl', type: 'transfer', quantity: -2, user: 'Ana', createdAt },
+        { id: 'm5', productId: 'a01f', warehouseId: 'vap', type: 'transfer', quantity: 2, user: 'Ana', createdAt }
+      ],
+      product
+    });
+  });
+});
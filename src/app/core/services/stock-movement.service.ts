@@ -0,0 +1,79 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { API_BASE_URL } from '../config/app-config';
+import { Product, ProductId } from '../models/product.interface';
+import { decodeProduct } from '../models/product.schema';
+import { StockMovement, StockTransfer } from '../models/stock-movement.interface';
+import { decodeStockMovement, decodeStockMovements } from '../models/stock-movement.schema';
+
+/**
+ * A recorded movement and the product with its new stock.
+ */
+export interface RecordedStockMovement {
+  movement: StockMovement;
+  product: Product;
+}
+
+/**
+ * The two movements of a recorded transfer and the product with its
+ * new stock per warehouse.
+ */
+export interface RecordedStockTransfer {
+  /** Movement out of the source warehouse, then movement into the destination */
+  movements: StockMovement[];
+  product: Product;
+}
+
+/**
+ * Service to read and extend the stock ledger of a product.
+ *
+ * The stock of a product is derived by the API from its movements,
+ * so recording a movement is the way to change the stock without
+ * editing the product. A movement or transfer that would leave the
+ * stock of a warehouse below zero fails with a 400 validation error.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class StockMovementService {
+  /** Base URL of the REST API for products */
+  private readonly apiUrl = `${inject(API_BASE_URL)}/products`;
+
+  private readonly http = inject(HttpClient);
+
+  /**
+   * Gets the stock ledger of a product.
+   *
+   * @param productId - Unique ID of the product
+   * @returns Observable that emits the movements, oldest first
+   */
+  getMovements(productId: ProductId): Observable<StockMovement[]> {
+    return this.http.get<unknown>(`${this.apiUrl}/${productId}/movements`).pipe(map(decodeStockMovements));
+  }
+
+  /**
+   * Records a movement in the ledger of a product.
+   *
+   * @param movement - Type, signed quantity, reason and user of the movement
+   * @returns Observable that emits the stored movement and the updated product
+   */
+  recordMovement(movement: StockMovement): Observable<RecordedStockMovement> {
+    return this.http
+      .post<{ movement: unknown; product: unknown }>(`${this.apiUrl}/${movement.productId}/movements`, movement)
+      .pipe(map(body => ({ movement: decodeStockMovement(body?.movement), product: decodeProduct(body?.product) })));
+  }
+
+  /**
+   * Moves units of a product from one warehouse to another.
+   *
+   * @param transfer - Product, warehouses, units, reason and user of the transfer
+   * @returns Observable that emits the two stored movements and the updated product
+   */
+  transferStock(transfer: StockTransfer): Observable<RecordedStockTransfer> {
+    return this.http
+      .post<{ movements: unknown; product: unknown }>(`${this.apiUrl}/${transfer.productId}/transfers`, transfer)
+      .pipe(map(body => ({ movements: decodeStockMovements(body?.movements), product: decodeProduct(body?.product) })));
+  }
+}
@@ -0,0 +1,55 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClientTesting, HttpTestingController } from '@angular/common/http/testing';
+import { WarehouseService } from './warehouse.service';
+import { WarehouseValidationError } from '../models/warehouse.schema';
+
+/**
+ * Pruebas unitarias para WarehouseService.
+ * 
+ * Verifica la lectura de las bodegas y que los registros recibidos
+ * se validen.
+ */
+describe('WarehouseService', () => {
+  let service: WarehouseService;
+  let httpMock: HttpTestingController;
+  const apiUrl = '/api/warehouses';
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+
+    service = TestBed.inject(WarehouseService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  /**
+   * Prueba que getWarehouses() retorne las bodegas en el orden del servidor.
+   */
+  it('should get every warehouse', () => {
+    service.getWarehouses().subscribe(warehouses => {
+      expect(warehouses).toEqual([{ id: 'scl', name: 'Santiago' }, { id: 'vap', name: 'Valparaíso', city: 'Valparaíso' }]);
+    });
+
+    const req = httpMock.expectOne(apiUrl);
+    expect(req.request.method).toBe('GET');
+    req.flush([{ id: 'scl', name: 'Santiago' }, { id: 'vap', name: 'Valparaíso', city: 'Valparaíso' }]);
+  });
+
+  /**
+   * Prueba que se rechacen bodegas malformadas.
+   */
+  it('should fail with WarehouseValidationError on malformed records', () => {
+    service.getWarehouses().subscribe({
+      next: () => fail('Expected a validation error, not warehouses'),
+      error: error => expect(error).toEqual(jasmine.any(WarehouseValidationError))
+    });
+
+    httpMock.expectOne(apiUrl).flush([{ id: 'scl', name: '' }]);
+  });
+});
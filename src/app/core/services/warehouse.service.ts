@@ -0,0 +1,33 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { API_BASE_URL } from '../config/app-config';
+import { Warehouse } from '../models/warehouse.interface';
+import { decodeWarehouses } from '../models/warehouse.schema';
+
+/**
+ * Service to read the warehouses where stock is kept.
+ * 
+ * Records are decoded at runtime like products, so malformed ones
+ * fail with a WarehouseValidationError. The stock of each product
+ * per warehouse comes with the product, in `warehouseStock`.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class WarehouseService {
+  /** Base URL of the REST API for warehouses */
+  private readonly apiUrl = `${inject(API_BASE_URL)}/warehouses`;
+
+  private readonly http = inject(HttpClient);
+
+  /**
+   * Gets every warehouse.
+   * 
+   * @returns Observable that emits the warehouses, the main one first
+   */
+  getWarehouses(): Observable<Warehouse[]> {
+    return this.http.get<unknown>(this.apiUrl).pipe(map(decodeWarehouses));
+  }
+}
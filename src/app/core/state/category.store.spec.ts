@@ -0,0 +1,115 @@
+import { TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+import { CategoryStore, categoryPath, descendantIds, flattenCategoryTree } from './category.store';
+import { CategoryService } from '../services/category.service';
+import { Category } from '../models/category.interface';
+
+/**
+ * Pruebas unitarias para CategoryStore y las funciones del árbol de categorías.
+ * 
+ * Verifica la carga con caché, que las mutaciones se apliquen solo
+ * cuando el servidor las confirma y el armado del árbol.
+ */
+describe('CategoryStore', () => {
+  let store: CategoryStore;
+  let categoryService: jasmine.SpyObj<CategoryService>;
+
+  const mockCategories: Category[] = [
+    { id: 't1', name: 'Telefonía' },
+    { id: 'c2', name: 'Notebooks', parentId: 'c1' },
+    { id: 'c1', name: 'Computadores' },
+    { id: 'c3', name: 'Escritorio', parentId: 'c1' },
+    { id: 'c4', name: 'Gamer', parentId: 'c2' }
+  ];
+
+  beforeEach(() => {
+    categoryService = jasmine.createSpyObj('CategoryService', [
+      'getCategories',
+      'addCategory',
+      'updateCategory',
+      'deleteCategory'
+    ]);
+    categoryService.getCategories.and.returnValue(of(mockCategories));
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: CategoryService, useValue: categoryService }]
+    });
+
+    store = TestBed.inject(CategoryStore);
+  });
+
+  /**
+   * Prueba que las categorías se pidan una sola vez.
+   */
+  it('should load the categories once and cache them', () => {
+    store.load();
+    store.load();
+
+    expect(categoryService.getCategories).toHaveBeenCalledTimes(1);
+    expect(store.categories()).toEqual(mockCategories);
+    expect(store.loaded()).toBeTrue();
+  });
+
+  /**
+   * Prueba que el árbol quede en orden, con cada categoría tras su padre.
+   */
+  it('should list the tree with depth and path', () => {
+    store.load();
+
+    expect(store.tree().map(node => [node.path, node.depth])).toEqual([
+      ['Computadores', 0],
+      ['Computadores > Escritorio', 1],
+      ['Computadores > Notebooks', 1],
+      ['Computadores > Notebooks > Gamer', 2],
+      ['Telefonía', 0]
+    ]);
+  });
+
+  /**
+   * Prueba que las mutaciones confirmadas actualicen la lista.
+   */
+  it('should apply confirmed mutations', () => {
+    categoryService.addCategory.and.returnValue(of({ id: 'a1', name: 'Audio' }));
+    categoryService.updateCategory.and.returnValue(of({ id: 'c3', name: 'All-in-one', parentId: 'c1' }));
+    categoryService.deleteCategory.and.returnValue(of(undefined));
+    store.load();
+
+    store.add({ name: 'Audio' }).subscribe();
+    store.update('c3', { name: 'All-in-one', parentId: 'c1' }).subscribe();
+    store.remove('t1').subscribe();
+
+    expect(categoryService.updateCategory).toHaveBeenCalledWith('c3', { id: 'c3', name: 'All-in-one', parentId: 'c1' });
+    expect(store.categories().map(category => category.name))
+      .toEqual(['Notebooks', 'Computadores', 'All-in-one', 'Gamer', 'Audio']);
+  });
+
+  /**
+   * Prueba que una eliminación rechazada no cambie la lista.
+   */
+  it('should keep a category whose deletion is rejected', () => {
+    categoryService.deleteCategory.and.returnValue(throwError(() => new Error('409')));
+    store.load();
+
+    store.remove('c3').subscribe({ error: () => undefined });
+
+    expect(store.categories()).toEqual(mockCategories);
+  });
+
+  /**
+   * Prueba la ruta completa y los descendientes de una categoría.
+   */
+  it('should describe paths and branches', () => {
+    expect(categoryPath(mockCategories, 'c4')).toBe('Computadores > Notebooks > Gamer');
+    expect(categoryPath(mockCategories, 'x')).toBe('');
+    expect(categoryPath(mockCategories, undefined)).toBe('');
+    expect([...descendantIds(mockCategories, 'c1')].sort()).toEqual(['c1', 'c2', 'c3', 'c4']);
+  });
+
+  /**
+   * Prueba que una categoría con un padre inexistente quede en el primer nivel.
+   */
+  it('should list orphan categories at the top level', () => {
+    expect(flattenCategoryTree([{ id: 'x', name: 'Huérfana', parentId: 'gone' }]))
+      .toEqual([{ category: { id: 'x', name: 'Huérfana', parentId: 'gone' }, depth: 0, path: 'Huérfana' }]);
+  });
+});
@@ -0,0 +1,203 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { Observable, defer, tap } from 'rxjs';
+import { AppError, toAppError } from '../models/app-error';
+import { Category, CategoryId } from '../models/category.interface';
+import { CategoryService } from '../services/category.service';
+
+/** Separator between the levels of a category path */
+export const CATEGORY_PATH_SEPARATOR = ' > ';
+
+/**
+ * A category placed in the tree, as listed by `flattenCategoryTree`.
+ */
+export interface CategoryNode {
+  category: Category;
+  /** Nesting level, 0 for top-level categories */
+  depth: number;
+  /** Names from the top level down to this category, e.g. "Computadores > Notebooks" */
+  path: string;
+}
+
+interface CategoryState {
+  categories: Category[];
+  loaded: boolean;
+  loading: boolean;
+  error: AppError | null;
+}
+
+const INITIAL_STATE: CategoryState = {
+  categories: [],
+  loaded: false,
+  loading: false,
+  error: null
+};
+
+/**
+ * Shared state of the category tree.
+ * 
+ * Fetches the categories once and keeps them in signals. Unlike
+ * products, mutations are not optimistic: the API validates the tree
+ * (unique names, no cycles, no deleting categories in use), so the
+ * list only changes once the server accepts the change.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CategoryStore {
+  private readonly categoryService = inject(CategoryService);
+  private readonly state = signal<CategoryState>(INITIAL_STATE);
+
+  /** Every category, in server order */
+  readonly categories = computed(() => this.state().categories);
+  readonly loaded = computed(() => this.state().loaded);
+  readonly loading = computed(() => this.state().loading);
+  /** Error of the last load, or null */
+  readonly error = computed(() => this.state().error);
+
+  /** Categories in tree order, each after its parent, siblings by name */
+  readonly tree = computed(() => flattenCategoryTree(this.categories()));
+
+  /**
+   * Fetches the categories from the server.
+   * 
+   * Does nothing if they are already loaded or a load is in
+   * progress, unless `force` is set. Failures are kept in `error`.
+   * 
+   * @param options - Set `force` to refetch already loaded categories
+   */
+  load(options: { force?: boolean } = {}): void {
+    const { loaded, loading } = this.state();
+    if (loading || (loaded && !options.force)) {
+      return;
+    }
+
+    this.patch({ loading: true, error: null });
+    this.categoryService.getCategories().subscribe({
+      next: categories => this.patch({ categories, loaded: true, loading: false }),
+      error: (error: unknown) => this.patch({ error: toAppError(error), loading: false })
+    });
+  }
+
+  /**
+   * Creates a category and appends it to the list.
+   * 
+   * @param category - Name and optional parent of the new category
+   * @returns Observable with the category as stored by the server
+   */
+  add(category: Category): Observable<Category> {
+    return defer(() =>
+      this.categoryService.addCategory(category).pipe(
+        tap(created => this.patch({ categories: [...this.categories(), created] }))
+      )
+    );
+  }
+
+  /**
+   * Renames or moves a category.
+   * 
+   * @param id - Unique ID of the category
+   * @param category - New name and parent
+   * @returns Observable with the category as stored by the server
+   */
+  update(id: CategoryId, category: Category): Observable<Category> {
+    return defer(() =>
+      this.categoryService.updateCategory(id, { ...category, id }).pipe(
+        tap(updated => this.patch({ categories: this.categories().map(item => (item.id === id ? updated : item)) }))
+      )
+    );
+  }
+
+  /**
+   * Deletes a category that has no subcategories and no products.
+   * 
+   * @param id - Unique ID of the category
+   * @returns Observable that completes once the category is deleted
+   */
+  remove(id: CategoryId): Observable<void> {
+    return defer(() =>
+      this.categoryService.deleteCategory(id).pipe(
+        tap(() => this.patch({ categories: this.categories().filter(item => item.id !== id) }))
+      )
+    );
+  }
+
+  private patch(changes: Partial<CategoryState>): void {
+    this.state.update(state => ({ ...state, ...changes }));
+  }
+}
+
+/**
+ * Lists categories in tree order: each category right after its
+ * parent, and siblings sorted by name.
+ * 
+ * Categories whose parent is missing are listed at the top level,
+ * so a partial list never hides anything.
+ * 
+ * @param categories - Categories as a flat list
+ */
+export function flattenCategoryTree(categories: Category[]): CategoryNode[] {
+  const ids = new Set(categories.map(category => category.id));
+  const children = new Map<CategoryId | undefined, Category[]>();
+  for (const category of categories) {
+    const parentId = category.parentId !== undefined && ids.has(category.parentId) ? category.parentId : undefined;
+    children.set(parentId, [...(children.get(parentId) ?? []), category]);
+  }
+
+  const nodes: CategoryNode[] = [];
+  const visit = (parentId: CategoryId | undefined, depth: number, prefix: string) => {
+    const siblings = [...(children.get(parentId) ?? [])].sort((a, b) => a.name.localeCompare(b.name, 'es-CL'));
+    for (const category of siblings) {
+      const path = `${prefix}${category.name}`;
+      nodes.push({ category, depth, path });
+      if (category.id !== undefined) {
+        visit(category.id, depth + 1, `${path}${CATEGORY_PATH_SEPARATOR}`);
+      }
+    }
+  };
+  visit(undefined, 0, '');
+  return nodes;
+}
+
+/**
+ * Full path of a category, e.g. "Computadores > Notebooks".
+ * 
+ * @param categories - Every category
+ * @param id - Category to describe
+ * @returns The path, or an empty string if the category does not exist
+ */
+export function categoryPath(categories: Category[], id: CategoryId | undefined): string {
+  const names: string[] = [];
+  const seen = new Set<CategoryId>();
+  let current = id;
+  while (current !== undefined && !seen.has(current)) {
+    seen.add(current);
+    const category = categories.find(item => item.id === current);
+    if (!category) {
+      break;
+    }
+    names.unshift(category.name);
+    current = category.parentId;
+  }
+  return names.join(CATEGORY_PATH_SEPARATOR);
+}
+
+/**
+ * IDs of a category and every category nested under it, at any depth.
+ * 
+ * @param categories - Every category
+ * @param id - Root of the branch
+ */
+export function descendantIds(categories: Category[], id: CategoryId): Set<CategoryId> {
+  const ids = new Set<CategoryId>([id]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const category of categories) {
+      if (category.id !== undefined && category.parentId !== undefined && ids.has(category.parentId) && !ids.has(category.id)) {
+        ids.add(category.id);
+        added = true;
+      }
+    }
+  }
+  return ids;
+}
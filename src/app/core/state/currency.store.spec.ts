@@ -0,0 +1,64 @@
+import { TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+import { CurrencyStore } from './currency.store';
+import { ExchangeRateService } from '../services/exchange-rate.service';
+
+/**
+ * Pruebas unitarias para CurrencyStore.
+ * 
+ * Verifica la carga con caché de las tasas, la moneda elegida y la
+ * conversión de montos.
+ */
+describe('CurrencyStore', () => {
+  let store: CurrencyStore;
+  let exchangeRateService: jasmine.SpyObj<ExchangeRateService>;
+
+  beforeEach(() => {
+    exchangeRateService = jasmine.createSpyObj('ExchangeRateService', ['getExchangeRates']);
+    exchangeRateService.getExchangeRates.and.returnValue(of({ base: 'CLP', rates: { CLP: 1, USD: 950, ARS: 0.8 } }));
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: ExchangeRateService, useValue: exchangeRateService }]
+    });
+
+    store = TestBed.inject(CurrencyStore);
+  });
+
+  /**
+   * Prueba que las tasas se pidan una sola vez y se listen sus monedas.
+   */
+  it('should load the rates once and list their currencies', () => {
+    store.load();
+    store.load();
+
+    expect(exchangeRateService.getExchangeRates).toHaveBeenCalledTimes(1);
+    expect(store.currencies()).toEqual(['CLP', 'ARS', 'USD']);
+  });
+
+  /**
+   * Prueba que una moneda elegida antes de cargar las tasas se aplique al recibirlas.
+   */
+  it('should apply the chosen currency once it has a rate', () => {
+    store.setCurrency('USD');
+    expect(store.currency()).toBe('CLP');
+
+    store.load();
+
+    expect(store.currency()).toBe('USD');
+    expect(store.convert({ amount: 1900, currency: 'CLP' })).toEqual({ amount: 2, currency: 'USD' });
+    expect(store.convert({ amount: 1, currency: 'USD' }, 'CLP')).toEqual({ amount: 950, currency: 'CLP' });
+  });
+
+  /**
+   * Prueba que un error de carga quede en el estado y se sigan mostrando pesos.
+   */
+  it('should keep the load error and stay in the base currency', () => {
+    exchangeRateService.getExchangeRates.and.returnValue(throwError(() => new Error('offline')));
+
+    store.load();
+
+    expect(store.error()).not.toBeNull();
+    expect(store.currencies()).toEqual(['CLP']);
+    expect(store.convert({ amount: 10, currency: 'USD' })).toBeNull();
+  });
+});
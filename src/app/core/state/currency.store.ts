@@ -0,0 +1,97 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { AppError, toAppError } from '../models/app-error';
+import { CurrencyCode, DEFAULT_EXCHANGE_RATES, ExchangeRates, Money, convertMoney } from '../models/money';
+import { ExchangeRateService } from '../services/exchange-rate.service';
+
+interface CurrencyState {
+  rates: ExchangeRates;
+  /** Currency chosen to show prices in */
+  currency: CurrencyCode;
+  loaded: boolean;
+  loading: boolean;
+  error: AppError | null;
+}
+
+const INITIAL_STATE: CurrencyState = {
+  rates: DEFAULT_EXCHANGE_RATES,
+  currency: DEFAULT_EXCHANGE_RATES.base,
+  loaded: false,
+  loading: false,
+  error: null
+};
+
+/**
+ * Shared exchange rates and the currency prices are shown in.
+ * 
+ * Fetches the rates once and keeps them in signals. Until they
+ * arrive only the base currency is known, so a currency chosen
+ * before that (e.g. from a bookmarked URL) takes effect once the
+ * rates are loaded.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class CurrencyStore {
+  private readonly exchangeRateService = inject(ExchangeRateService);
+  private readonly state = signal<CurrencyState>(INITIAL_STATE);
+
+  readonly rates = computed(() => this.state().rates);
+  /** Currencies with a rate, the base currency first */
+  readonly currencies = computed(() => {
+    const { base, rates } = this.rates();
+    return [base, ...Object.keys(rates).filter(currency => currency !== base).sort()];
+  });
+  /** Currency prices are shown in; the base currency while the chosen one has no rate */
+  readonly currency = computed(() =>
+    this.currencies().includes(this.state().currency) ? this.state().currency : this.rates().base
+  );
+  readonly loaded = computed(() => this.state().loaded);
+  readonly loading = computed(() => this.state().loading);
+  /** Error of the last load, or null */
+  readonly error = computed(() => this.state().error);
+
+  /**
+   * Fetches the exchange rates from the server.
+   * 
+   * Does nothing if they are already loaded or a load is in
+   * progress, unless `force` is set. Failures are kept in `error`.
+   * 
+   * @param options - Set `force` to refetch already loaded rates
+   */
+  load(options: { force?: boolean } = {}): void {
+    const { loaded, loading } = this.state();
+    if (loading || (loaded && !options.force)) {
+      return;
+    }
+
+    this.patch({ loading: true, error: null });
+    this.exchangeRateService.getExchangeRates().subscribe({
+      next: rates => this.patch({ rates, loaded: true, loading: false }),
+      error: (error: unknown) => this.patch({ error: toAppError(error), loading: false })
+    });
+  }
+
+  /**
+   * Chooses the currency prices are shown in.
+   * 
+   * @param currency - Currency to show, or null for the base currency
+   */
+  setCurrency(currency: CurrencyCode | null): void {
+    this.patch({ currency: currency ?? this.rates().base });
+  }
+
+  /**
+   * Converts an amount with the current rates.
+   * 
+   * @param money - Amount to convert
+   * @param currency - Currency to convert to; the chosen one by default
+   * @returns The converted amount, or null if either currency has no rate
+   */
+  convert(money: Money, currency: CurrencyCode = this.currency()): Money | null {
+    return convertMoney(money, currency, this.rates());
+  }
+
+  private patch(changes: Partial<CurrencyState>): void {
+    this.state.update(state => ({ ...state, ...changes }));
+  }
+}
@@ -0,0 +1,393 @@
+import { TestBed } from '@angular/core/testing';
+import { Subject, of, throwError } from 'rxjs';
+import { ProductStore } from './product.store';
+import { CategoryStore } from './category.store';
+import { CurrencyStore } from './currency.store';
+import { ProductService } from '../services/product.service';
+import { CategoryService } from '../services/category.service';
+import { ExchangeRateService } from '../services/exchange-rate.service';
+import { WarehouseService } from '../services/warehouse.service';
+import { Category } from '../models/category.interface';
+import { Product } from '../models/product.interface';
+import { AppError } from '../models/app-error';
+import { REORDER_DEFAULTS } from '../config/app-config';
+
+/**
+ * Pruebas unitarias para ProductStore.
+ * 
+ * Verifica la carga con caché, los selectores derivados y que
+ * las mutaciones optimistas se confirmen o reviertan.
+ */
+describe('ProductStore', () => {
+  let store: ProductStore;
+  let productService: jasmine.SpyObj<ProductService>;
+  let categoryService: jasmine.SpyObj<CategoryService>;
+  let exchangeRateService: jasmine.SpyObj<ExchangeRateService>;
+  let warehouseService: jasmine.SpyObj<WarehouseService>;
+
+  const mockCategories: Category[] = [
+    { id: 'c1', name: 'Computadores' },
+    { id: 'c2', name: 'Notebooks', parentId: 'c1' },
+    { id: 'c3', name: 'Escritorio', parentId: 'c1' }
+  ];
+
+  const mockProducts: Product[] = [
+    { id: '1', name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10 },
+    { id: '2', name: 'MacBook Pro', categoryId: 'c2', price: { amount: 2499990, currency: 'CLP' }, stock: 2 },
+    { id: '3', name: 'iPad Air', price: { amount: 649990, currency: 'CLP' }, stock: 5 }
+  ];
+
+  beforeEach(() => {
+    productService = jasmine.createSpyObj('ProductService', [
+      'getProducts',
+      'addProduct',
+      'updateProduct',
+      'deleteProduct',
+      'restoreProduct',
+      'resetDatabase'
+    ]);
+    productService.getProducts.and.returnValue(of(mockProducts));
+    categoryService = jasmine.createSpyObj('CategoryService', ['getCategories']);
+    categoryService.getCategories.and.returnValue(of(mockCategories));
+    exchangeRateService = jasmine.createSpyObj('ExchangeRateService', ['getExchangeRates']);
+    exchangeRateService.getExchangeRates.and.returnValue(of({ base: 'CLP', rates: { CLP: 1, USD: 1000 } }));
+    warehouseService = jasmine.createSpyObj('WarehouseService', ['getWarehouses']);
+    warehouseService.getWarehouses.and.returnValue(of([{ id: 'principal', name: 'Bodega principal' }]));
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: ProductService, useValue: productService },
+        { provide: CategoryService, useValue: categoryService },
+        { provide: ExchangeRateService, useValue: exchangeRateService },
+        { provide: WarehouseService, useValue: warehouseService },
+        { provide: REORDER_DEFAULTS, useValue: { reorderPoint: 10, reorderQuantity: 20 } }
+      ]
+    });
+
+    store = TestBed.inject(ProductStore);
+  });
+
+  /**
+   * Prueba que el catálogo se pida una sola vez.
+   */
+  it('should load the catalog once and cache it', () => {
+    store.load();
+    store.load();
+
+    expect(productService.getProducts).toHaveBeenCalledTimes(1);
+    expect(store.products()).toEqual(mockProducts);
+    expect(store.loaded()).toBeTrue();
+    expect(store.loading()).toBeFalse();
+  });
+
+  /**
+   * Prueba que force vuelva a pedir el catálogo.
+   */
+  it('should refetch when forced', () => {
+    store.load();
+    store.load({ force: true });
+
+    expect(productService.getProducts).toHaveBeenCalledTimes(2);
+  });
+
+  /**
+   * Prueba que no se repita una carga en curso.
+   */
+  it('should not start a second load while one is in progress', () => {
+    const response = new Subject<Product[]>();
+    productService.getProducts.and.returnValue(response);
+
+    store.load();
+    store.load({ force: true });
+    expect(store.loading()).toBeTrue();
+
+    response.next(mockProducts);
+    response.complete();
+
+    expect(productService.getProducts).toHaveBeenCalledTimes(1);
+    expect(store.loading()).toBeFalse();
+  });
+
+  /**
+   * Prueba que un error de carga quede en el estado y permita reintentar.
+   */
+  it('should keep the load error and allow a retry', () => {
+    productService.getProducts.and.returnValue(throwError(() => new Error('boom')));
+    store.load();
+
+    expect(store.error()?.kind).toBe('unknown');
+    expect(store.loaded()).toBeFalse();
+
+    productService.getProducts.and.returnValue(of(mockProducts));
+    store.load();
+
+    expect(store.error()).toBeNull();
+    expect(store.products()).toEqual(mockProducts);
+  });
+
+  /**
+   * Prueba los totales y los productos con stock bajo.
+   */
+  it('should compute totals and low stock products', () => {
+    store.load();
+
+    expect(store.totals()).toEqual({
+      count: 3,
+      units: 17,
+      value: 849990 * 10 + 2499990 * 2 + 649990 * 5
+    });
+    expect(store.lowStockProducts().map(p => p.id)).toEqual(['2', '3', '1']);
+  });
+
+  /**
+   * Prueba que el valor del inventario y el orden por precio conviertan cada moneda a la base.
+   */
+  it('should compare and add up prices in the base currency', () => {
+    productService.getProducts.and.returnValue(of([
+      mockProducts[0],
+      { ...mockProducts[1], price: { amount: 2000, currency: 'USD' } },
+      mockProducts[2]
+    ]));
+    store.load();
+    TestBed.inject(CurrencyStore).load();
+
+    expect(store.totals().value).toBe(849990 * 10 + 2000000 * 2 + 649990 * 5);
+    store.setFilter({ sortField: 'price', sortDirection: 'desc' });
+    expect(store.filteredProducts().map(p => p.id)).toEqual(['2', '1', '3']);
+  });
+
+  /**
+   * Prueba que se respete el punto de reorden de cada producto y se sugiera cuánto pedir.
+   */
+  it('should suggest reorders with each product\'s own policy', () => {
+    productService.getProducts.and.returnValue(of([
+      { ...mockProducts[0], reorderPoint: 5 },
+      { ...mockProducts[1], stock: 0, reorderQuantity: 4 },
+      mockProducts[2]
+    ]));
+    store.load();
+
+    expect(store.reorderSuggestions().map(({ product, quantity }) => [product.id, quantity]))
+      .toEqual([['2', 11], ['3', 20]]);
+    expect(store.stockLevel(store.products()[0])).toBe('ok');
+    expect(store.stockLevel(store.products()[1])).toBe('out');
+  });
+
+  /**
+   * Prueba que el filtro busque por nombre y ordene.
+   */
+  it('should filter and sort products', () => {
+    store.load();
+
+    store.setFilter({ search: 'IP' });
+    expect(store.filteredProducts().map(p => p.id)).toEqual(['1', '3']);
+
+    store.setFilter({ sortField: 'price', sortDirection: 'asc' });
+    expect(store.filteredProducts().map(p => p.id)).toEqual(['3', '1']);
+    expect(store.filter().search).toBe('IP');
+  });
+
+  /**
+   * Prueba que el filtro por categoría incluya las subcategorías.
+   */
+  it('should filter by a category and its subcategories', () => {
+    store.load();
+    TestBed.inject(CategoryStore).load();
+
+    store.setFilter({ categoryId: 'c1' });
+    expect(store.filteredProducts().map(p => p.id)).toEqual(['2']);
+
+    store.setFilter({ categoryId: 'c3' });
+    expect(store.filteredProducts()).toEqual([]);
+  });
+
+  /**
+   * Prueba que el filtro por bodega liste los productos con unidades en ella y sume cada bodega.
+   */
+  it('should filter by warehouse and add up the units of each one', () => {
+    productService.getProducts.and.returnValue(of<Product[]>([
+      { ...mockProducts[0], warehouseStock: { scl: 6, vap: 4 } },
+      { ...mockProducts[1], warehouseStock: { scl: 2 } },
+      { ...mockProducts[2], warehouseStock: { vap: 5 } }
+    ]));
+    store.load();
+
+    store.setFilter({ warehouseId: 'vap' });
+    expect(store.filteredProducts().map(p => p.id)).toEqual(['1', '3']);
+    expect(store.warehouseUnits()).toEqual(new Map([['scl', 8], ['vap', 9]]));
+  });
+
+  /**
+   * Prueba que un producto recibido del servidor reemplace la copia guardada.
+   */
+  it('should sync a product received from the server', () => {
+    store.load();
+
+    store.sync({ ...mockProducts[1], stock: 1, version: 2 });
+
+    expect(store.products().map(p => p.stock)).toEqual([10, 1, 5]);
+  });
+
+  /**
+   * Prueba que cada categoría cuente también los productos de sus subcategorías.
+   */
+  it('should count the products of each category branch', () => {
+    store.load();
+    TestBed.inject(CategoryStore).load();
+
+    const counts = store.categoryCounts();
+    expect(counts.get('c1')).toBe(1);
+    expect(counts.get('c2')).toBe(1);
+    expect(counts.has('c3')).toBeFalse();
+  });
+
+  /**
+   * Prueba que add, update y remove actualicen el catálogo.
+   */
+  it('should apply confirmed mutations to the catalog', () => {
+    const created: Product = { id: '4', name: 'Apple Watch', price: { amount: 399990, currency: 'CLP' }, stock: 20 };
+    const updated: Product = { ...mockProducts[1], stock: 8 };
+    productService.addProduct.and.returnValue(of(created));
+    productService.updateProduct.and.returnValue(of(updated));
+    productService.deleteProduct.and.returnValue(of(undefined));
+    store.load();
+
+    store.add({ name: 'Apple Watch', price: { amount: 399990, currency: 'CLP' }, stock: 20 }).subscribe();
+    store.update('2', updated).subscribe();
+    store.remove('1').subscribe();
+
+    expect(store.products()).toEqual([updated, mockProducts[2], created]);
+  });
+
+  /**
+   * Prueba que un producto nuevo aparezca de inmediato como pendiente.
+   */
+  it('should show a created product before the server confirms it', () => {
+    const response = new Subject<Product>();
+    productService.addProduct.and.returnValue(response);
+    store.load();
+
+    store.add({ name: 'Apple Watch', price: { amount: 399990, currency: 'CLP' }, stock: 20 }).subscribe();
+
+    const placeholder = store.products()[3];
+    expect(placeholder.name).toBe('Apple Watch');
+    expect(store.pendingIds().has(placeholder.id!)).toBeTrue();
+
+    response.next({ id: '4', name: 'Apple Watch', price: { amount: 399990, currency: 'CLP' }, stock: 20 });
+    response.complete();
+
+    expect(store.products()[3].id).toBe('4');
+    expect(store.pendingIds().size).toBe(0);
+  });
+
+  /**
+   * Prueba que se revierta un producto nuevo rechazado por el servidor.
+   */
+  it('should roll back a rejected creation', () => {
+    productService.addProduct.and.returnValue(throwError(() => new Error('boom')));
+    store.load();
+
+    store.add({ name: 'Apple Watch', price: { amount: 399990, currency: 'CLP' }, stock: 20 }).subscribe({ error: () => undefined });
+
+    expect(store.products()).toEqual(mockProducts);
+    expect(store.pendingIds().size).toBe(0);
+  });
+
+  /**
+   * Prueba que una edición se vea de inmediato y se revierta si falla.
+   */
+  it('should apply an update right away and roll it back on failure', () => {
+    const response = new Subject<Product>();
+    productService.updateProduct.and.returnValue(response);
+    store.load();
+
+    store.update('2', { ...mockProducts[1], stock: 8 }).subscribe({ error: () => undefined });
+
+    expect(store.products()[1].stock).toBe(8);
+    expect(store.pendingIds().has('2')).toBeTrue();
+
+    response.error(new Error('boom'));
+
+    expect(store.products()[1]).toEqual(mockProducts[1]);
+    expect(store.pendingIds().has('2')).toBeFalse();
+  });
+
+  /**
+   * Prueba que un conflicto de versión deje la copia del servidor.
+   */
+  it('should show the server copy when an update conflicts', () => {
+    const current: Product = { ...mockProducts[1], stock: 1, version: 2 };
+    productService.updateProduct.and.returnValue(
+      throwError(() => new AppError('conflict', 'Conflicto', 409, { error: 'Stale version', current }))
+    );
+    store.load();
+
+    store.update('2', { ...mockProducts[1], stock: 8 }).subscribe({ error: () => undefined });
+
+    expect(store.products()[1]).toEqual(current);
+  });
+
+  /**
+   * Prueba que un producto eliminado vuelva a su posición si falla el borrado.
+   */
+  it('should remove a product right away and restore it on failure', () => {
+    const response = new Subject<void>();
+    productService.deleteProduct.and.returnValue(response);
+    store.load();
+
+    store.remove('2').subscribe({ error: () => undefined });
+    expect(store.products().map(p => p.id)).toEqual(['1', '3']);
+
+    response.error(new Error('boom'));
+    expect(store.products()).toEqual(mockProducts);
+  });
+
+  /**
+   * Prueba que un producto restaurado vuelva a la posición que tenía.
+   */
+  it('should put a restored product back in its previous position', () => {
+    const restored: Product = { ...mockProducts[1], version: 3 };
+    productService.deleteProduct.and.returnValue(of(undefined));
+    productService.restoreProduct.and.returnValue(of(restored));
+    store.load();
+
+    store.remove('2').subscribe();
+    store.restore('2').subscribe();
+
+    expect(productService.restoreProduct).toHaveBeenCalledWith('2');
+    expect(store.products()).toEqual([mockProducts[0], restored, mockProducts[2]]);
+  });
+
+  /**
+   * Prueba que reset reemplace el catálogo solo al suscribirse.
+   */
+  it('should replace the catalog on reset', () => {
+    productService.resetDatabase.and.returnValue(of([mockProducts[0]]));
+
+    const reset$ = store.reset('low-stock');
+    expect(productService.resetDatabase).not.toHaveBeenCalled();
+
+    reset$.subscribe();
+
+    expect(productService.resetDatabase).toHaveBeenCalledWith('low-stock');
+    expect(store.products()).toEqual([mockProducts[0]]);
+    expect(store.loading()).toBeFalse();
+    expect(categoryService.getCategories).toHaveBeenCalled();
+  });
+
+  /**
+   * Prueba que reset vuelva a cargar las bodegas y los tipos de cambio del conjunto.
+   */
+  it('should reload the warehouses and exchange rates on reset', () => {
+    const currencyStore = TestBed.inject(CurrencyStore);
+    currencyStore.load();
+    productService.resetDatabase.and.returnValue(of([mockProducts[0]]));
+    exchangeRateService.getExchangeRates.and.returnValue(of({ base: 'CLP', rates: { CLP: 1, PEN: 253 } }));
+
+    store.reset('low-stock').subscribe();
+
+    expect(warehouseService.getWarehouses).toHaveBeenCalled();
+    expect(exchangeRateService.getExchangeRates).toHaveBeenCalledTimes(2);
+    expect(currencyStore.currencies()).toEqual(['CLP', 'PEN']);
+  });
+});
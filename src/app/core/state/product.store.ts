@@ -0,0 +1,447 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { Observable, defer, finalize, tap } from 'rxjs';
+import { AppError, toAppError } from '../models/app-error';
+import { Category, CategoryId } from '../models/category.interface';
+import { Product, ProductId } from '../models/product.interface';
+import { readVersionConflict } from '../models/product-conflict';
+import { ExchangeRates, convertMoney } from '../models/money';
+import { ProductSortField, SortDirection } from '../models/product-query.interface';
+import { ReorderSuggestion, StockLevel, reorderSuggestions, stockLevelOf } from '../models/stock-level';
+import { WarehouseId } from '../models/warehouse.interface';
+import { unitsAt } from '../models/warehouse-stock';
+import { REORDER_DEFAULTS } from '../config/app-config';
+import { ProductService } from '../services/product.service';
+import { CategoryStore, descendantIds } from './category.store';
+import { CurrencyStore } from './currency.store';
+import { WarehouseStore } from './warehouse.store';
+
+/** Prefix of the IDs given to created products until the server assigns one */
+const TEMP_ID_PREFIX = 'tmp-';
+
+/**
+ * Client-side filter applied by the `filteredProducts` selector.
+ */
+export interface ProductFilter {
+  /** Case-insensitive text matched against the product name and SKU */
+  search: string;
+  /** Category whose products are listed, including its subcategories; null for all */
+  categoryId: CategoryId | null;
+  /** Warehouse whose products are listed, those with units in it; null for all */
+  warehouseId: WarehouseId | null;
+  sortField: ProductSortField | null;
+  sortDirection: SortDirection;
+}
+
+/**
+ * Aggregated figures of the whole catalog.
+ */
+export interface ProductTotals {
+  /** Number of products */
+  count: number;
+  /** Units in stock across all products */
+  units: number;
+  /** Value of the stock at list price, in the base currency of the exchange rates */
+  value: number;
+}
+
+interface ProductState {
+  products: Product[];
+  /** Whether the catalog has been fetched at least once */
+  loaded: boolean;
+  loading: boolean;
+  error: AppError | null;
+  filter: ProductFilter;
+  /** IDs of products with a change not yet confirmed by the server */
+  pending: ReadonlySet<ProductId>;
+}
+
+const INITIAL_STATE: ProductState = {
+  products: [],
+  loaded: false,
+  loading: false,
+  error: null,
+  filter: { search: '', categoryId: null, warehouseId: null, sortField: null, sortDirection: 'asc' },
+  pending: new Set()
+};
+
+/**
+ * Shared state of the product catalog.
+ * 
+ * Fetches the catalog once and keeps it in signals, so every page
+ * reads the same list instead of requesting it again.
+ * 
+ * Mutations are optimistic: the list changes as soon as the request
+ * is sent, the affected row is listed in `pendingIds` until the server
+ * answers, and the change is rolled back if the server rejects it.
+ * 
+ * Mutation methods return cold observables: nothing changes until
+ * the caller subscribes, which lets components react to the result
+ * (show a toast) while the store keeps the list in sync.
+ * 
+ * @example
+ * ```typescript
+ * readonly store = inject(ProductStore);
+ * 
+ * ngOnInit(): void {
+ *   this.store.load();
+ * }
+ * ```
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ProductStore {
+  private readonly productService = inject(ProductService);
+  private readonly categoryStore = inject(CategoryStore);
+  private readonly currencyStore = inject(CurrencyStore);
+  private readonly warehouseStore = inject(WarehouseStore);
+  private readonly reorderDefaults = inject(REORDER_DEFAULTS);
+  private readonly state = signal<ProductState>(INITIAL_STATE);
+  private nextTempId = 1;
+  /** Position each deleted product had, so restoring puts it back there */
+  private readonly deletedPositions = new Map<ProductId, number>();
+
+  /** Every product in the catalog, in server order */
+  readonly products = computed(() => this.state().products);
+  readonly loaded = computed(() => this.state().loaded);
+  readonly loading = computed(() => this.state().loading);
+  /** Error of the last load, or null */
+  readonly error = computed(() => this.state().error);
+  readonly filter = computed(() => this.state().filter);
+  /** IDs of products whose change is waiting for the server */
+  readonly pendingIds = computed(() => this.state().pending);
+
+  /** Products matching the filter, in the selected sort order; prices compare across currencies */
+  readonly filteredProducts = computed(() =>
+    applyFilter(this.products(), this.filter(), this.categoryStore.categories(), this.currencyStore.rates())
+  );
+
+  /**
+   * Number of products in each category, counting those of its
+   * subcategories too. Categories without products are not listed.
+   */
+  readonly categoryCounts = computed(() =>
+    countByCategory(this.products(), this.categoryStore.categories())
+  );
+
+  /** Aggregated figures of the whole catalog */
+  readonly totals = computed(() => computeTotals(this.products(), this.currencyStore.rates()));
+
+  /**
+   * Units in stock at each warehouse across the whole catalog.
+   * Warehouses without units are not listed.
+   */
+  readonly warehouseUnits = computed(() => countUnitsByWarehouse(this.products()));
+
+  /**
+   * Products at or below their reorder point and the units to order
+   * of each, lowest stock first. Archived products are left out.
+   */
+  readonly reorderSuggestions = computed<ReorderSuggestion[]>(() =>
+    reorderSuggestions(this.products(), this.reorderDefaults)
+  );
+
+  /** Products that should be restocked, lowest stock first */
+  readonly lowStockProducts = computed(() => this.reorderSuggestions().map(suggestion => suggestion.product));
+
+  /**
+   * Fetches the catalog from the server.
+   * 
+   * Does nothing if the catalog is already loaded or a load is in
+   * progress, unless `force` is set. Failures are kept in `error`.
+   * 
+   * @param options - Set `force` to refetch an already loaded catalog
+   */
+  load(options: { force?: boolean } = {}): void {
+    const { loaded, loading } = this.state();
+    if (loading || (loaded && !options.force)) {
+      return;
+    }
+
+    this.patch({ loading: true, error: null });
+    this.productService.getProducts().subscribe({
+      next: products => this.patch({ products, loaded: true, loading: false }),
+      error: (error: unknown) => this.patch({ error: toAppError(error), loading: false })
+    });
+  }
+
+  /**
+   * Creates a product and appends it to the catalog.
+   * 
+   * The product is shown right away under a temporary ID, which is
+   * replaced by the server's record once it is created.
+   * 
+   * @param product - Product to create, without ID
+   * @returns Observable with the product as stored by the server
+   */
+  add(product: Product): Observable<Product> {
+    return defer(() => {
+      const tempId = `${TEMP_ID_PREFIX}${this.nextTempId++}`;
+      this.patch({ products: [...this.products(), { ...product, id: tempId }] });
+      this.setPending(tempId, true);
+
+      return this.productService.addProduct(product).pipe(
+        tap({
+          next: created => this.replace(tempId, created),
+          error: () => this.patch({ products: this.products().filter(item => item.id !== tempId) })
+        }),
+        finalize(() => this.setPending(tempId, false))
+      );
+    });
+  }
+
+  /**
+   * Updates a product and replaces it in place in the catalog.
+   * 
+   * The new values are shown right away; the previous ones are
+   * restored if the update fails. When the update is rejected
+   * because someone else changed the product, the row shows the
+   * server's copy instead.
+   * 
+   * @param id - Unique ID of the product
+   * @param product - New values of the product
+   * @returns Observable with the product as stored by the server
+   */
+  update(id: ProductId, product: Product): Observable<Product> {
+    return defer(() => {
+      const previous = this.products().find(item => item.id === id);
+      this.replace(id, { ...product, id });
+      this.setPending(id, true);
+
+      return this.productService.updateProduct(id, product).pipe(
+        tap({
+          next: updated => this.replace(id, updated),
+          error: (error: unknown) => {
+            const current = readVersionConflict(error) ?? previous;
+            if (current) {
+              this.replace(id, current);
+            }
+          }
+        }),
+        finalize(() => this.setPending(id, false))
+      );
+    });
+  }
+
+  /**
+   * Moves a product to the trash and removes it from the catalog.
+   * 
+   * The row disappears right away and is put back in its
+   * previous position if the deletion fails.
+   * 
+   * @param id - Unique ID of the product
+   * @returns Observable that completes once the product is deleted
+   */
+  remove(id: ProductId): Observable<void> {
+    return defer(() => {
+      const index = this.products().findIndex(item => item.id === id);
+      const removed = this.products()[index];
+      this.patch({ products: this.products().filter(item => item.id !== id) });
+
+      return this.productService.deleteProduct(id).pipe(
+        tap({
+          next: () => this.deletedPositions.set(id, index),
+          error: () => {
+            if (removed) {
+              this.insert(removed, index);
+            }
+          }
+        })
+      );
+    });
+  }
+
+  /**
+   * Moves a product from the trash back to the catalog.
+   * 
+   * The product returns to the position it had when it was deleted
+   * in this session, or to the end of the list otherwise.
+   * 
+   * @param id - Unique ID of the deleted product
+   * @returns Observable with the restored product
+   */
+  restore(id: ProductId): Observable<Product> {
+    return defer(() =>
+      this.productService.restoreProduct(id).pipe(
+        tap(product => {
+          this.insert(product, this.deletedPositions.get(id) ?? this.products().length);
+          this.deletedPositions.delete(id);
+        })
+      )
+    );
+  }
+
+  /**
+   * Resets the database to a fixture set and loads the result.
+   * 
+   * The fixture also replaces the categories, warehouses and
+   * exchange rates, so they are fetched again.
+   * 
+   * @param fixture - Name of the fixture set
+   * @returns Observable with the new catalog
+   */
+  reset(fixture: string): Observable<Product[]> {
+    return defer(() => {
+      this.patch({ loading: true, error: null });
+      return this.productService.resetDatabase(fixture).pipe(
+        tap(products => {
+          this.patch({ products, loaded: true });
+          this.categoryStore.load({ force: true });
+          this.warehouseStore.load({ force: true });
+          this.currencyStore.load({ force: true });
+        }),
+        finalize(() => this.patch({ loading: false }))
+      );
+    });
+  }
+
+  /**
+   * Puts a product received from the server in place of the stored
+   * copy, e.g. after recording a stock movement or transfer for it.
+   * 
+   * @param product - Product as returned by the server
+   */
+  sync(product: Product): void {
+    this.replace(product.id!, product);
+  }
+
+  /**
+   * Stock level of a product, using the default reorder point of the
+   * app configuration if the product does not set its own.
+   */
+  stockLevel(product: Product): StockLevel {
+    return stockLevelOf(product, this.reorderDefaults);
+  }
+
+  /**
+   * Changes the filter of `filteredProducts`.
+   * 
+   * @param filter - Values to change; the rest are kept
+   */
+  setFilter(filter: Partial<ProductFilter>): void {
+    this.patch({ filter: { ...this.filter(), ...filter } });
+  }
+
+  private patch(changes: Partial<ProductState>): void {
+    this.state.update(state => ({ ...state, ...changes }));
+  }
+
+  /**
+   * Inserts a product at a position, clamped to the list length.
+   */
+  private insert(product: Product, index: number): void {
+    const products = [...this.products()];
+    products.splice(Math.min(index, products.length), 0, product);
+    this.patch({ products });
+  }
+
+  /**
+   * Replaces the product with the given ID, keeping its position.
+   */
+  private replace(id: ProductId, product: Product): void {
+    this.patch({ products: this.products().map(item => item.id === id ? product : item) });
+  }
+
+  private setPending(id: ProductId, pending: boolean): void {
+    const ids = new Set(this.pendingIds());
+    if (pending) {
+      ids.add(id);
+    } else {
+      ids.delete(id);
+    }
+    this.patch({ pending: ids });
+  }
+}
+
+/**
+ * Adds up the count, units and stock value of a list of products.
+ * 
+ * Prices are converted to the base currency of the rates; products
+ * priced in a currency without a rate add no value.
+ * 
+ * @param products - Products to add up
+ * @param rates - Exchange rates to convert the prices with
+ */
+export function computeTotals(products: Product[], rates: ExchangeRates): ProductTotals {
+  return products.reduce(
+    (totals, product) => ({
+      count: totals.count + 1,
+      units: totals.units + product.stock,
+      value: totals.value + (baseAmount(product, rates) ?? 0) * product.stock
+    }),
+    { count: 0, units: 0, value: 0 }
+  );
+}
+
+/**
+ * Counts the products of each category and its subcategories.
+ * 
+ * @param products - Products to count
+ * @param categories - Every category, to find the ancestors of each one
+ */
+export function countByCategory(products: Product[], categories: Category[]): Map<CategoryId, number> {
+  const parents = new Map(categories.map(category => [category.id, category.parentId]));
+  const counts = new Map<CategoryId, number>();
+
+  for (const product of products) {
+    const seen = new Set<CategoryId>();
+    for (let id = product.categoryId; id !== undefined && !seen.has(id); id = parents.get(id)) {
+      seen.add(id);
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Adds up the units in stock at each warehouse.
+ * 
+ * @param products - Products to add up
+ */
+export function countUnitsByWarehouse(products: Product[]): Map<WarehouseId, number> {
+  const units = new Map<WarehouseId, number>();
+  for (const product of products) {
+    for (const [warehouseId, count] of Object.entries(product.warehouseStock ?? {})) {
+      units.set(warehouseId, (units.get(warehouseId) ?? 0) + count);
+    }
+  }
+  return units;
+}
+
+/**
+ * Price of a product in the base currency of the rates, or null if
+ * its currency has no rate.
+ */
+function baseAmount(product: Product, rates: ExchangeRates): number | null {
+  return convertMoney(product.price, rates.base, rates)?.amount ?? null;
+}
+
+/**
+ * Filters and sorts a list of products.
+ */
+function applyFilter(products: Product[], filter: ProductFilter, categories: Category[], rates: ExchangeRates): Product[] {
+  const term = filter.search.toLocaleLowerCase('es-CL');
+  const branch = filter.categoryId !== null ? descendantIds(categories, filter.categoryId) : null;
+  const matches = products.filter(product =>
+    (!branch || (product.categoryId !== undefined && branch.has(product.categoryId))) &&
+    (filter.warehouseId === null || unitsAt(product, filter.warehouseId) > 0) &&
+    (!term ||
+      product.name.toLocaleLowerCase('es-CL').includes(term) ||
+      (product.sku ?? '').toLocaleLowerCase('es-CL').includes(term))
+  );
+
+  const field = filter.sortField;
+  if (field) {
+    const direction = filter.sortDirection === 'asc' ? 1 : -1;
+    matches.sort((a, b) => {
+      const result = field === 'price'
+        ? (baseAmount(a, rates) ?? 0) - (baseAmount(b, rates) ?? 0)
+        : field === 'stock'
+          ? a.stock - b.stock
+          : (a[field] ?? '').localeCompare(b[field] ?? '', 'es-CL');
+      return result * direction;
+    });
+  }
+
+  return matches;
+}
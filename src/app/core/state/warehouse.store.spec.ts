@@ -0,0 +1,50 @@
+import { TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+import { WarehouseStore } from './warehouse.store';
+import { WarehouseService } from '../services/warehouse.service';
+
+/**
+ * Pruebas unitarias para WarehouseStore.
+ * 
+ * Verifica la carga con caché y el nombre de cada bodega.
+ */
+describe('WarehouseStore', () => {
+  let store: WarehouseStore;
+  let warehouseService: jasmine.SpyObj<WarehouseService>;
+
+  beforeEach(() => {
+    warehouseService = jasmine.createSpyObj('WarehouseService', ['getWarehouses']);
+    warehouseService.getWarehouses.and.returnValue(of([{ id: 'scl', name: 'Santiago' }, { id: 'vap', name: 'Valparaíso' }]));
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: WarehouseService, useValue: warehouseService }]
+    });
+
+    store = TestBed.inject(WarehouseStore);
+  });
+
+  /**
+   * Prueba que las bodegas se pidan una sola vez.
+   */
+  it('should load the warehouses once and cache them', () => {
+    store.load();
+    store.load();
+
+    expect(warehouseService.getWarehouses).toHaveBeenCalledTimes(1);
+    expect(store.warehouses().map(warehouse => warehouse.id)).toEqual(['scl', 'vap']);
+    expect(store.nameOf('vap')).toBe('Valparaíso');
+    expect(store.nameOf('old')).toBe('old');
+  });
+
+  /**
+   * Prueba que un error de carga quede en el estado.
+   */
+  it('should keep the load error', () => {
+    warehouseService.getWarehouses.and.returnValue(throwError(() => new Error('offline')));
+
+    store.load();
+
+    expect(store.error()).not.toBeNull();
+    expect(store.loaded()).toBeFalse();
+  });
+});
@@ -0,0 +1,75 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { AppError, toAppError } from '../models/app-error';
+import { Warehouse, WarehouseId } from '../models/warehouse.interface';
+import { WarehouseService } from '../services/warehouse.service';
+
+interface WarehouseState {
+  warehouses: Warehouse[];
+  loaded: boolean;
+  loading: boolean;
+  error: AppError | null;
+}
+
+const INITIAL_STATE: WarehouseState = {
+  warehouses: [],
+  loaded: false,
+  loading: false,
+  error: null
+};
+
+/**
+ * Shared list of warehouses.
+ * 
+ * Fetches the warehouses once and keeps them in signals, so the
+ * dashboard, the product page and the transfer dialog name them
+ * without requesting them again.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class WarehouseStore {
+  private readonly warehouseService = inject(WarehouseService);
+  private readonly state = signal<WarehouseState>(INITIAL_STATE);
+
+  /** Every warehouse, the main one first */
+  readonly warehouses = computed(() => this.state().warehouses);
+  readonly loaded = computed(() => this.state().loaded);
+  readonly loading = computed(() => this.state().loading);
+  /** Error of the last load, or null */
+  readonly error = computed(() => this.state().error);
+
+  /**
+   * Fetches the warehouses from the server.
+   * 
+   * Does nothing if they are already loaded or a load is in
+   * progress, unless `force` is set. Failures are kept in `error`.
+   * 
+   * @param options - Set `force` to refetch already loaded warehouses
+   */
+  load(options: { force?: boolean } = {}): void {
+    const { loaded, loading } = this.state();
+    if (loading || (loaded && !options.force)) {
+      return;
+    }
+
+    this.patch({ loading: true, error: null });
+    this.warehouseService.getWarehouses().subscribe({
+      next: warehouses => this.patch({ warehouses, loaded: true, loading: false }),
+      error: (error: unknown) => this.patch({ error: toAppError(error), loading: false })
+    });
+  }
+
+  /**
+   * Name of a warehouse.
+   * 
+   * @param id - Warehouse to name
+   * @returns The name, or the ID itself if the warehouse is not listed
+   */
+  nameOf(id: WarehouseId | undefined): string {
+    return this.warehouses().find(warehouse => warehouse.id === id)?.name ?? id ?? '';
+  }
+
+  private patch(changes: Partial<WarehouseState>): void {
+    this.state.update(state => ({ ...state, ...changes }));
+  }
+}
@@ -0,0 +1,144 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { of, throwError } from 'rxjs';
+import { CategoryAdminComponent } from './category-admin.component';
+import { REORDER_DEFAULTS } from '@core/config/app-config';
+import { AppError } from '@core/models/app-error';
+import { Category } from '@core/models/category.interface';
+import { Product } from '@core/models/product.interface';
+import { CategoryService } from '@core/services/category.service';
+import { ExchangeRateService } from '@core/services/exchange-rate.service';
+import { WarehouseService } from '@core/services/warehouse.service';
+import { NotificationService } from '@core/services/notification.service';
+import { ProductService } from '@core/services/product.service';
+
+/**
+ * Pruebas unitarias para CategoryAdminComponent.
+ * 
+ * Verifica el árbol con la cantidad de productos, la creación y
+ * edición de categorías y que no se eliminen las que están en uso.
+ */
+describe('CategoryAdminComponent', () => {
+  let fixture: ComponentFixture<CategoryAdminComponent>;
+  let component: CategoryAdminComponent;
+  let categoryService: jasmine.SpyObj<CategoryService>;
+  let notifications: NotificationService;
+
+  const categories: Category[] = [
+    { id: 'c1', name: 'Computadores' },
+    { id: 'c2', name: 'Notebooks', parentId: 'c1' },
+    { id: 'c3', name: 'Gamer', parentId: 'c2' },
+    { id: 'a1', name: 'Audio' }
+  ];
+  const products: Product[] = [
+    { id: '1', sku: 'APL-MBP14', name: 'MacBook Pro', categoryId: 'c2', price: { amount: 2499990, currency: 'CLP' }, stock: 5 }
+  ];
+
+  beforeEach(async () => {
+    categoryService = jasmine.createSpyObj('CategoryService', [
+      'getCategories',
+      'addCategory',
+      'updateCategory',
+      'deleteCategory'
+    ]);
+    categoryService.getCategories.and.returnValue(of(categories));
+    const productService = jasmine.createSpyObj('ProductService', ['getProducts']);
+    productService.getProducts.and.returnValue(of(products));
+    const exchangeRateService = jasmine.createSpyObj('ExchangeRateService', ['getExchangeRates']);
+
+    await TestBed.configureTestingModule({
+      imports: [CategoryAdminComponent],
+      providers: [
+        provideRouter([]),
+        { provide: CategoryService, useValue: categoryService },
+        { provide: ProductService, useValue: productService },
+        { provide: ExchangeRateService, useValue: exchangeRateService },
+        { provide: WarehouseService, useValue: jasmine.createSpyObj('WarehouseService', ['getWarehouses']) },
+        { provide: REORDER_DEFAULTS, useValue: { reorderPoint: 10, reorderQuantity: 20 } }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(CategoryAdminComponent);
+    component = fixture.componentInstance;
+    notifications = TestBed.inject(NotificationService);
+    fixture.detectChanges();
+  });
+
+  /**
+   * Devuelve las filas del árbol como texto.
+   */
+  function rowTexts(): string[] {
+    return Array.from<HTMLElement>(fixture.nativeElement.querySelectorAll('.category-row')).map(row =>
+      `${row.querySelector('.category-name')?.textContent} ${row.querySelector('.category-count')?.textContent}`
+    );
+  }
+
+  /**
+   * Prueba que el árbol muestre cada categoría con sus productos.
+   */
+  it('should list the tree with the products of each branch', () => {
+    expect(rowTexts()).toEqual(['Audio 0', 'Computadores 1', 'Notebooks 1', 'Gamer 0']);
+  });
+
+  /**
+   * Prueba que se cree una categoría dentro de otra.
+   */
+  it('should create a nested category', () => {
+    categoryService.addCategory.and.returnValue(of({ id: 'c4', name: 'Escritorio', parentId: 'c1' }));
+
+    component.form.setValue({ name: ' Escritorio ', parentId: 'c1' });
+    component.save();
+    fixture.detectChanges();
+
+    expect(categoryService.addCategory).toHaveBeenCalledWith({ name: 'Escritorio', parentId: 'c1' });
+    expect(rowTexts()).toContain('Escritorio 0');
+    expect(component.form.getRawValue()).toEqual({ name: '', parentId: '' });
+  });
+
+  /**
+   * Prueba que un nombre repetido en el mismo nivel se marque en el campo.
+   */
+  it('should flag a name already used at the same level', () => {
+    categoryService.addCategory.and.returnValue(throwError(() => new AppError('conflict', 'Conflicto', 409)));
+
+    component.form.setValue({ name: 'notebooks', parentId: 'c1' });
+    component.save();
+    fixture.detectChanges();
+
+    expect(component.name.hasError('duplicate')).toBeTrue();
+    expect(fixture.nativeElement.querySelector('.invalid-feedback').textContent).toContain('mismo nivel');
+  });
+
+  /**
+   * Prueba que una categoría no se pueda mover dentro de sí misma ni de sus subcategorías.
+   */
+  it('should not offer the category or its subcategories as parent', () => {
+    component.edit(categories[1]);
+
+    expect(component.parentOptions().map(node => node.category.id)).toEqual(['a1', 'c1']);
+    expect(component.form.getRawValue()).toEqual({ name: 'Notebooks', parentId: 'c1' });
+  });
+
+  /**
+   * Prueba que solo se puedan eliminar categorías sin subcategorías ni productos.
+   */
+  it('should only allow deleting unused categories', () => {
+    const buttons = Array.from<HTMLButtonElement>(fixture.nativeElement.querySelectorAll('.delete-btn'));
+
+    expect(buttons.map(button => button.disabled)).toEqual([false, true, true, false]);
+  });
+
+  /**
+   * Prueba que se explique por qué el servidor rechazó la eliminación.
+   */
+  it('should explain a deletion rejected by the server', () => {
+    categoryService.deleteCategory.and.returnValue(
+      throwError(() => new AppError('conflict', 'Conflicto', 409, { error: 'in use', productCount: 2 }))
+    );
+
+    component.remove(categories[3]);
+
+    expect(rowTexts()).toContain('Audio 0');
+    expect(notifications.notifications()[0].message).toContain('2 productos la usan');
+  });
+});
@@ -0,0 +1,205 @@
+import { Component, OnInit, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { toAppError } from '@core/models/app-error';
+import { Category, CategoryId } from '@core/models/category.interface';
+import { MAX_CATEGORY_NAME_LENGTH } from '@core/models/category.schema';
+import { NotificationService } from '@core/services/notification.service';
+import { CategoryStore, descendantIds } from '@core/state/category.store';
+import { ProductStore } from '@core/state/product.store';
+
+/**
+ * Page to manage the category tree.
+ * 
+ * Served at `/categorias`. Lists every category with the number of
+ * products in its branch, and lets the user create, rename, move and
+ * delete categories. A category cannot be moved under itself or one
+ * of its subcategories, so those are left out of the parent select.
+ * 
+ * Categories with subcategories or products cannot be deleted. The
+ * delete button is disabled for those the page knows about; the
+ * server also counts products in the trash and rejects the deletion
+ * with the reason, which is shown as a warning.
+ */
+@Component({
+  selector: 'app-category-admin',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, RouterLink],
+  templateUrl: './category-admin.component.html'
+})
+export class CategoryAdminComponent implements OnInit {
+  readonly categoryStore = inject(CategoryStore);
+  readonly productStore = inject(ProductStore);
+
+  readonly form = inject(FormBuilder).nonNullable.group({
+    name: ['', [Validators.required, Validators.maxLength(MAX_CATEGORY_NAME_LENGTH)]],
+    parentId: ['']
+  });
+  readonly maxNameLength = MAX_CATEGORY_NAME_LENGTH;
+
+  /** Category being edited in the form; null when creating one */
+  readonly editing = signal<Category | null>(null);
+  /** Category waiting for the user to confirm its deletion */
+  deleteCandidate: CategoryId | null = null;
+  isSaving = false;
+  /** IDs of the categories whose deletion is waiting for the server */
+  busyIds: ReadonlySet<CategoryId> = new Set();
+
+  /**
+   * Categories the edited one can be placed under: every category
+   * except itself and its subcategories.
+   */
+  readonly parentOptions = computed(() => {
+    const editing = this.editing();
+    const excluded = editing?.id ? descendantIds(this.categoryStore.categories(), editing.id) : new Set<CategoryId>();
+    return this.categoryStore.tree().filter(node => !excluded.has(node.category.id!));
+  });
+
+  private readonly notifications = inject(NotificationService);
+
+  ngOnInit(): void {
+    this.categoryStore.load();
+    this.productStore.load();
+  }
+
+  get name() {
+    return this.form.controls.name;
+  }
+
+  /**
+   * Products in a category's branch, counting those of its subcategories.
+   * 
+   * @param id - Category to count
+   */
+  productCount(id: CategoryId): number {
+    return this.productStore.categoryCounts().get(id) ?? 0;
+  }
+
+  /**
+   * Whether a category has subcategories.
+   * 
+   * @param id - Category to check
+   */
+  hasChildren(id: CategoryId): boolean {
+    return this.categoryStore.categories().some(category => category.parentId === id);
+  }
+
+  /**
+   * Loads a category into the form to rename or move it.
+   * 
+   * @param category - Category to edit
+   */
+  edit(category: Category): void {
+    this.editing.set(category);
+    this.deleteCandidate = null;
+    this.form.reset({ name: category.name, parentId: category.parentId ?? '' });
+  }
+
+  /**
+   * Empties the form to create a new category.
+   */
+  cancelEdit(): void {
+    this.editing.set(null);
+    this.form.reset({ name: '', parentId: '' });
+  }
+
+  /**
+   * Creates a category or saves the one being edited.
+   * 
+   * A name already used at the same level is flagged on the name
+   * field; other errors are shown as a notification.
+   */
+  save(): void {
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    const { name, parentId } = this.form.getRawValue();
+    const category: Category = { name: name.trim(), ...(parentId && { parentId }) };
+    const editing = this.editing();
+    this.isSaving = true;
+
+    const request = editing ? this.categoryStore.update(editing.id!, category) : this.categoryStore.add(category);
+    request.subscribe({
+      next: saved => {
+        this.isSaving = false;
+        this.notifications.success(`Categoría "${saved.name}" ${editing ? 'actualizada' : 'creada'}`);
+        this.cancelEdit();
+      },
+      error: (error: unknown) => {
+        this.isSaving = false;
+        if (toAppError(error).kind === 'conflict') {
+          this.name.setErrors({ duplicate: true });
+          this.name.markAsTouched();
+        } else {
+          this.notifications.error(error, editing ? 'No se pudo actualizar la categoría' : 'No se pudo crear la categoría');
+        }
+      }
+    });
+  }
+
+  /**
+   * Asks for confirmation before deleting a category.
+   * 
+   * @param id - Category to delete, or null to cancel
+   */
+  askDelete(id: CategoryId | null): void {
+    this.deleteCandidate = id;
+  }
+
+  /**
+   * Deletes a category once the user confirms it.
+   * 
+   * @param category - Category to delete
+   */
+  remove(category: Category): void {
+    const id = category.id!;
+    this.deleteCandidate = null;
+    this.setBusy(id, true);
+
+    this.categoryStore.remove(id).subscribe({
+      next: () => {
+        this.setBusy(id, false);
+        if (this.editing()?.id === id) {
+          this.cancelEdit();
+        }
+        this.notifications.success(`Categoría "${category.name}" eliminada`);
+      },
+      error: (error: unknown) => {
+        this.setBusy(id, false);
+        const appError = toAppError(error);
+        if (appError.kind === 'conflict') {
+          this.notifications.warning(deleteConflictMessage(category, appError.details), 'No se puede eliminar la categoría');
+        } else {
+          this.notifications.error(error, 'No se pudo eliminar la categoría');
+        }
+      }
+    });
+  }
+
+  private setBusy(id: CategoryId, busy: boolean): void {
+    const ids = new Set(this.busyIds);
+    if (busy) {
+      ids.add(id);
+    } else {
+      ids.delete(id);
+    }
+    this.busyIds = ids;
+  }
+}
+
+/**
+ * Explains why the server refused to delete a category.
+ * 
+ * @param details - Body of the 409 response, with `productCount` when products use the category
+ */
+function deleteConflictMessage(category: Category, details: unknown): string {
+  const productCount = (details as { productCount?: unknown } | null | undefined)?.productCount;
+  if (typeof productCount === 'number' && productCount > 0) {
+    const products = productCount === 1 ? '1 producto la usa' : `${productCount} productos la usan`;
+    return `"${category.name}" no se puede eliminar: ${products}, incluidos los de la papelera.`;
+  }
+  return `"${category.name}" no se puede eliminar mientras tenga subcategorías.`;
+}
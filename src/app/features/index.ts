@@ -6,3 +6,5 @@
  */
 
 export * from './product-dashboard';
+export * from './category-admin';
+export * from './not-found';
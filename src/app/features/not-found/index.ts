@@ -0,0 +1 @@
+export * from './not-found.component';
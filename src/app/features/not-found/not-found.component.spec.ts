@@ -0,0 +1,43 @@
+import { RESPONSE_INIT } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { NotFoundComponent } from './not-found.component';
+
+/**
+ * Pruebas unitarias para NotFoundComponent.
+ * 
+ * Verifica que la página 404 ofrezca volver al listado y
+ * responda con el estado 404 en el servidor.
+ */
+describe('NotFoundComponent', () => {
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [NotFoundComponent],
+      providers: [provideRouter([])]
+    }).compileComponents();
+  });
+
+  /**
+   * Prueba que se muestre un enlace al listado de productos.
+   */
+  it('should link back to the product list', () => {
+    const fixture = TestBed.createComponent(NotFoundComponent);
+    fixture.detectChanges();
+
+    const link: HTMLAnchorElement = fixture.nativeElement.querySelector('a');
+    expect(fixture.nativeElement.querySelector('h1').textContent).toContain('Página no encontrada');
+    expect(link.getAttribute('href')).toBe('/productos');
+  });
+
+  /**
+   * Prueba que en el servidor la respuesta tenga el estado 404.
+   */
+  it('should answer with a 404 status when rendered on the server', () => {
+    const response: ResponseInit = {};
+    TestBed.overrideProvider(RESPONSE_INIT, { useValue: response });
+
+    TestBed.createComponent(NotFoundComponent);
+
+    expect(response.status).toBe(404);
+  });
+});
@@ -0,0 +1,24 @@
+import { Component, RESPONSE_INIT, inject } from '@angular/core';
+import { RouterLink } from '@angular/router';
+
+/**
+ * Page shown for URLs that match no route and for products that
+ * do not exist.
+ * 
+ * When rendered on the server, the response is sent with a 404
+ * status so crawlers do not index the page.
+ */
+@Component({
+  selector: 'app-not-found',
+  standalone: true,
+  imports: [RouterLink],
+  templateUrl: './not-found.component.html'
+})
+export class NotFoundComponent {
+  constructor() {
+    const response = inject(RESPONSE_INIT, { optional: true });
+    if (response) {
+      response.status = 404;
+    }
+  }
+}
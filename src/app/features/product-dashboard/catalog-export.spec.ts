@@ -0,0 +1,108 @@
+import { Category } from '@core/models/category.interface';
+import { Product } from '@core/models/product.interface';
+import { exportFileName, toCsv, toJson, toReorderCsv } from './catalog-export';
+import { guessColumnMapping, parseChileanNumber, readCatalogFile } from './product-import-dialog/catalog-parser';
+
+/**
+ * Pruebas unitarias para la exportación del catálogo.
+ * 
+ * Verifica el formato CSV y JSON generado y que los archivos
+ * exportados se puedan volver a importar sin cambios.
+ */
+describe('catalog export', () => {
+  const categories: Category[] = [
+    { id: 'c1', name: 'Computadores' },
+    { id: 'c2', name: 'Notebooks', parentId: 'c1' }
+  ];
+  const products: Product[] = [
+    {
+      id: '1', sku: 'LEN-IDEAPAD5', name: 'Notebook Lenovo', categoryId: 'c2', brand: 'Lenovo', status: 'active',
+      price: { amount: 849990, currency: 'CLP' }, stock: 12, version: 3, createdAt: '2025-01-02T10:00:00.000Z', updatedAt: '2025-03-14T10:00:00.000Z'
+    },
+    { id: '2', sku: 'ACC-USBC-2M', name: 'Cable "USB-C"; 2m', status: 'draft', price: { amount: 4990.5, currency: 'CLP' }, stock: 40 }
+  ];
+
+  describe('toCsv', () => {
+    /**
+     * Prueba que el CSV use punto y coma, coma decimal y BOM.
+     */
+    it('should write a semicolon separated file with a byte order mark', () => {
+      const lines = toCsv(products, categories).split('\r\n');
+
+      expect(lines[0]).toBe('\uFEFFid;sku;nombre;categoria;marca;estado;precio;stock;moneda');
+      expect(lines[1]).toBe('1;LEN-IDEAPAD5;Notebook Lenovo;Computadores > Notebooks;Lenovo;active;849990;12;CLP');
+      expect(lines[2]).toBe('2;ACC-USBC-2M;"Cable ""USB-C""; 2m";;;draft;4990,5;40;CLP');
+    });
+
+    /**
+     * Prueba que los textos que Excel ejecutaría como fórmula se exporten como texto.
+     */
+    it('should neutralize cells that start like a formula', () => {
+      const risky: Product[] = [
+        { sku: 'ACC-01', name: '=HYPERLINK("http://x.test","Ver")', brand: '@Marca', price: { amount: 1990, currency: 'CLP' }, stock: 3 },
+        { sku: 'ACC-02', name: '+56 9 1234', brand: '-Genérico', price: { amount: 990, currency: 'CLP' }, stock: 1 }
+      ];
+
+      const lines = toCsv(risky).split('\r\n');
+
+      expect(lines[1]).toBe(';ACC-01;"\'=HYPERLINK(""http://x.test"",""Ver"")";;\'@Marca;active;1990;3;CLP');
+      expect(lines[2]).toBe(';ACC-02;\'+56 9 1234;;\'-Genérico;active;990;1;CLP');
+
+      const table = readCatalogFile(toCsv(risky), 'productos.csv');
+      expect(table.rows.map(row => [row[2], row[4]])).toEqual([
+        ['=HYPERLINK("http://x.test","Ver")', '@Marca'],
+        ['+56 9 1234', '-Genérico']
+      ]);
+    });
+
+    /**
+     * Prueba que el CSV exportado se pueda volver a importar.
+     */
+    it('should be readable by the importer', () => {
+      const table = readCatalogFile(toCsv(products), 'productos.csv');
+      const mapping = guessColumnMapping(table.headers);
+
+      expect(mapping).toEqual({ id: 0, sku: 1, name: 2, price: 6, currency: 8, stock: 7 });
+      expect(table.rows.length).toBe(2);
+      expect(table.rows[1][2]).toBe('Cable "USB-C"; 2m');
+      expect(parseChileanNumber(table.rows[1][6])).toBe(4990.5);
+    });
+  });
+
+  describe('toReorderCsv', () => {
+    /**
+     * Prueba que la lista de reposición incluya el stock, el punto de reorden y la cantidad a pedir.
+     */
+    it('should list the units to order of each product', () => {
+      const lines = toReorderCsv([{ product: products[0], reorderPoint: 15, quantity: 20 }], categories).split('\r\n');
+
+      expect(lines[0]).toBe('\uFEFFsku;nombre;categoria;marca;stock;punto_reorden;cantidad_a_pedir');
+      expect(lines[1]).toBe('LEN-IDEAPAD5;Notebook Lenovo;Computadores > Notebooks;Lenovo;12;15;20');
+    });
+  });
+
+  describe('toJson', () => {
+    /**
+     * Prueba que el JSON omita los metadatos de versión y las fechas.
+     */
+    it('should keep only the catalog fields', () => {
+      expect(JSON.parse(toJson(products))).toEqual([
+        {
+          id: '1', sku: 'LEN-IDEAPAD5', name: 'Notebook Lenovo', categoryId: 'c2', brand: 'Lenovo', status: 'active',
+          price: { amount: 849990, currency: 'CLP' }, stock: 12
+        },
+        { id: '2', sku: 'ACC-USBC-2M', name: 'Cable "USB-C"; 2m', status: 'draft', price: { amount: 4990.5, currency: 'CLP' }, stock: 40 }
+      ]);
+    });
+  });
+
+  describe('exportFileName', () => {
+    /**
+     * Prueba que el nombre incluya la fecha local.
+     */
+    it('should stamp the name with the date', () => {
+      expect(exportFileName('csv', new Date(2025, 2, 4))).toBe('productos-2025-03-04.csv');
+      expect(exportFileName('csv', new Date(2025, 2, 4), 'reposicion')).toBe('reposicion-2025-03-04.csv');
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { Category } from '@core/models/category.interface';
+import { Product } from '@core/models/product.interface';
+import { ReorderSuggestion } from '@core/models/stock-level';
+import { categoryPath } from '@core/state/category.store';
+
+/** Cell separator used by spreadsheets configured for Chile */
+const CSV_DELIMITER = ';';
+
+/**
+ * Column headers of the exported CSV. The importer recognizes the ID,
+ * SKU, name, price, stock and currency; the rest are for reading the file.
+ * The currency of the price goes last, so files exported before it
+ * existed keep the same columns.
+ */
+const CSV_HEADERS = ['id', 'sku', 'nombre', 'categoria', 'marca', 'estado', 'precio', 'stock', 'moneda'];
+
+/**
+ * Characters that make a spreadsheet read a cell as a formula. Cells
+ * starting with them are written with a leading `'`, so a product
+ * name like `=HYPERLINK(...)` is shown as text instead of run.
+ */
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+/** Column headers of the exported reorder list */
+const REORDER_CSV_HEADERS = ['sku', 'nombre', 'categoria', 'marca', 'stock', 'punto_reorden', 'cantidad_a_pedir'];
+
+/**
+ * Serializes products as CSV.
+ * 
+ * Uses `;` as separator and a comma for decimals, and starts with a
+ * byte order mark so Excel detects UTF-8. The result can be imported
+ * back without remapping columns. Categories are written as their
+ * full path, e.g. "Computadores > Notebooks". Texts that a spreadsheet
+ * would run as a formula are prefixed with `'`, which the importer
+ * removes.
+ * 
+ * @param products - Products to export, in order
+ * @param categories - Every category, to name the products' categories
+ */
+export function toCsv(products: Product[], categories: Category[] = []): string {
+  const lines = [
+    CSV_HEADERS,
+    ...products.map(product => [
+      product.id ?? '',
+      product.sku ?? '',
+      product.name,
+      categoryPath(categories, product.categoryId),
+      product.brand ?? '',
+      product.status ?? 'active',
+      formatNumber(product.price.amount),
+      formatNumber(product.stock),
+      product.price.currency
+    ])
+  ];
+  return serializeCsv(lines);
+}
+
+/**
+ * Serializes a reorder list as CSV, for the purchasing team.
+ * 
+ * Uses the same format as toCsv(). Each row has the product, its
+ * current stock and reorder point, and the units to order.
+ * 
+ * @param suggestions - Products to restock, in order
+ * @param categories - Every category, to name the products' categories
+ */
+export function toReorderCsv(suggestions: ReorderSuggestion[], categories: Category[] = []): string {
+  const lines = [
+    REORDER_CSV_HEADERS,
+    ...suggestions.map(({ product, reorderPoint, quantity }) => [
+      product.sku ?? '',
+      product.name,
+      categoryPath(categories, product.categoryId),
+      product.brand ?? '',
+      formatNumber(product.stock),
+      formatNumber(reorderPoint),
+      formatNumber(quantity)
+    ])
+  ];
+  return serializeCsv(lines);
+}
+
+/**
+ * Serializes products as indented JSON.
+ * 
+ * Only catalog fields are kept; version metadata and timestamps are
+ * left out so the file can be imported into another database.
+ * 
+ * @param products - Products to export, in order
+ */
+export function toJson(products: Product[]): string {
+  const records = products.map(({ version, createdAt, updatedAt, deletedAt, ...fields }) => fields);
+  return JSON.stringify(records, null, 2) + '\n';
+}
+
+/**
+ * Name of an export file, stamped with the local date.
+ * 
+ * @param extension - File extension, without the dot
+ * @param date - Date of the export
+ * @param prefix - What the file contains
+ * @returns A name like `productos-2025-03-14.csv`
+ */
+export function exportFileName(extension: string, date = new Date(), prefix = 'productos'): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return `${prefix}-${stamp}.${extension}`;
+}
+
+/**
+ * Joins the cells of each line, with a byte order mark for Excel.
+ */
+function serializeCsv(lines: string[][]): string {
+  return '\uFEFF' + lines.map(cells => cells.map(escapeCell).join(CSV_DELIMITER)).join('\r\n') + '\r\n';
+}
+
+/**
+ * Writes a number with a decimal comma and no thousands separator.
+ */
+function formatNumber(value: number): string {
+  return String(value).replace('.', ',');
+}
+
+/**
+ * Neutralizes cells that would run as a formula, and quotes a cell
+ * when it contains the separator, quotes or line breaks. Negative
+ * numbers are left as they are.
+ */
+function escapeCell(value: string): string {
+  const text = FORMULA_TRIGGER.test(value) && !/^-\d+(,\d+)?$/.test(value) ? `'${value}` : value;
+  return /[;"\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
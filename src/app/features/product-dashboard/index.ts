@@ -1 +1,4 @@
-export * from './product-dashboard.component';
\ No newline at end of file
+export * from './product-dashboard.component';
+export * from './product-detail';
+export * from './product-editor';
+export * from './product.routes';
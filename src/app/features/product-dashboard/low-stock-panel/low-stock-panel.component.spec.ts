@@ -0,0 +1,74 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { LowStockPanelComponent } from './low-stock-panel.component';
+import { REORDER_DEFAULTS } from '@core/config/app-config';
+import { ReorderSuggestion } from '@core/models/stock-level';
+
+/**
+ * Pruebas unitarias para LowStockPanelComponent.
+ *
+ * Verifica el resumen de productos por reponer, el límite de filas
+ * visibles y la solicitud de exportación.
+ */
+describe('LowStockPanelComponent', () => {
+  let fixture: ComponentFixture<LowStockPanelComponent>;
+  let component: LowStockPanelComponent;
+
+  const suggestions: ReorderSuggestion[] = Array.from({ length: 7 }, (_, index) => ({
+    product: { id: String(index + 1), name: `Producto ${index + 1}`, price: { amount: 1000, currency: 'CLP' }, stock: index },
+    reorderPoint: 10,
+    quantity: 20
+  }));
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [LowStockPanelComponent],
+      providers: [
+        provideRouter([]),
+        { provide: REORDER_DEFAULTS, useValue: { reorderPoint: 10, reorderQuantity: 20 } }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(LowStockPanelComponent);
+    component = fixture.componentInstance;
+  });
+
+  /**
+   * Prueba que el panel no se muestre sin productos por reponer.
+   */
+  it('should stay hidden when no product needs restocking', () => {
+    fixture.detectChanges();
+    expect(fixture.nativeElement.querySelector('.low-stock-panel')).toBeNull();
+  });
+
+  /**
+   * Prueba que se muestren las primeras filas hasta expandir el panel.
+   */
+  it('should show the first rows until expanded', () => {
+    fixture.componentRef.setInput('suggestions', suggestions);
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelectorAll('.reorder-row').length).toBe(5);
+    expect(fixture.nativeElement.querySelector('.low-stock-summary').textContent).toContain('1 agotado');
+    expect(fixture.nativeElement.querySelector('.low-stock-summary').textContent).toContain('140 unidades');
+
+    fixture.nativeElement.querySelector('.toggle-reorder-btn').click();
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelectorAll('.reorder-row').length).toBe(7);
+  });
+
+  /**
+   * Prueba que el botón de exportar avise al componente padre.
+   */
+  it('should ask to export the reorder list', () => {
+    const exportList = jasmine.createSpy('exportList');
+    component.exportList.subscribe(exportList);
+    fixture.componentRef.setInput('suggestions', suggestions);
+    fixture.detectChanges();
+
+    fixture.nativeElement.querySelector('.export-reorder-btn').click();
+
+    expect(exportList).toHaveBeenCalled();
+  });
+});
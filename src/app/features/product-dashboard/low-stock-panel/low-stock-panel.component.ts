@@ -0,0 +1,52 @@
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { ReorderSuggestion } from '@core/models/stock-level';
+import { StockBadgeComponent } from '@shared/components';
+
+/** Rows shown before the user expands the panel */
+export const COLLAPSED_ROWS = 5;
+
+/**
+ * "Stock bajo" panel of the dashboard.
+ *
+ * Lists the products at or below their reorder point, out of stock
+ * first, with the units suggested to order. Only the first rows are
+ * shown until the user expands the list. The export button asks the
+ * parent to download the whole reorder list for purchasing.
+ */
+@Component({
+  selector: 'app-low-stock-panel',
+  standalone: true,
+  imports: [CommonModule, RouterLink, StockBadgeComponent],
+  templateUrl: './low-stock-panel.component.html'
+})
+export class LowStockPanelComponent {
+  /** Products to restock, lowest stock first */
+  @Input() suggestions: ReorderSuggestion[] = [];
+  /** Emitted when the user asks to download the reorder list */
+  @Output() exportList = new EventEmitter<void>();
+
+  expanded = false;
+
+  /**
+   * Suggestions on display.
+   */
+  get visibleSuggestions(): ReorderSuggestion[] {
+    return this.expanded ? this.suggestions : this.suggestions.slice(0, COLLAPSED_ROWS);
+  }
+
+  /**
+   * Number of products without units left.
+   */
+  get outOfStockCount(): number {
+    return this.suggestions.filter(({ product }) => product.stock <= 0).length;
+  }
+
+  /**
+   * Units to order across the whole list.
+   */
+  get totalUnits(): number {
+    return this.suggestions.reduce((total, { quantity }) => total + quantity, 0);
+  }
+}
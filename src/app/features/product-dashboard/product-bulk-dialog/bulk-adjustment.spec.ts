@@ -0,0 +1,59 @@
+import { applyPriceChange, applyStockDelta } from './bulk-adjustment';
+import { ExchangeRates } from '@core/models/money';
+
+/**
+ * Pruebas unitarias para los cálculos de ajustes masivos.
+ * 
+ * Verifica el stock y el precio resultantes y que se rechacen
+ * los valores fuera de rango.
+ */
+describe('Bulk adjustment', () => {
+  const rates: ExchangeRates = { base: 'CLP', rates: { CLP: 1, USD: 950 } };
+  const clp = (amount: number) => ({ amount, currency: 'CLP' });
+  const usd = (amount: number) => ({ amount, currency: 'USD' });
+
+  /**
+   * Prueba que el stock sume o reste unidades sin quedar negativo.
+   */
+  it('should add a delta to the stock', () => {
+    expect(applyStockDelta(10, 5)).toBe(15);
+    expect(applyStockDelta(10, -10)).toBe(0);
+    expect(applyStockDelta(3, -5)).toBe('El stock quedaría negativo (-2)');
+  });
+
+  /**
+   * Prueba los cambios de precio porcentuales, redondeados a pesos.
+   */
+  it('should change the price by a percentage', () => {
+    expect(applyPriceChange(clp(849990), 'percent', -10, rates)).toBe(764991);
+    expect(applyPriceChange(clp(999), 'percent', 15, rates)).toBe(1149);
+    expect(applyPriceChange(clp(1000), 'percent', -100, rates)).toContain('por debajo');
+  });
+
+  /**
+   * Prueba que los porcentajes se redondeen a la unidad mínima de cada moneda.
+   */
+  it('should round percentages to the smallest unit of the currency', () => {
+    expect(applyPriceChange(usd(999.99), 'percent', 15, rates)).toBe(1149.99);
+    expect(applyPriceChange(usd(10), 'percent', -33.333, rates)).toBe(6.67);
+  });
+
+  /**
+   * Prueba los cambios de precio por monto fijo.
+   */
+  it('should change the price by a fixed amount', () => {
+    expect(applyPriceChange(clp(10000), 'amount', 5000, rates)).toBe(15000);
+    expect(applyPriceChange(clp(10000), 'amount', -9999, rates)).toBe(1);
+    expect(applyPriceChange(clp(10000), 'amount', -10000, rates)).toContain('por debajo');
+  });
+
+  /**
+   * Prueba que los montos se conviertan a la moneda de cada precio.
+   */
+  it('should convert fixed amounts to the currency of the price', () => {
+    expect(applyPriceChange(usd(899.99), 'amount', 9500, rates)).toBe(909.99);
+    expect(applyPriceChange(usd(10), 'amount', 1000, rates)).toBe(11.05);
+    expect(applyPriceChange({ amount: 100, currency: 'EUR' }, 'amount', 1000, rates))
+      .toBe('No hay tipo de cambio para EUR');
+  });
+});
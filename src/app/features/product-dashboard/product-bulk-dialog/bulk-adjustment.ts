@@ -0,0 +1,61 @@
+import { ExchangeRates, Money, convertMoney, roundMoney } from '@core/models/money';
+
+/**
+ * Operation applied to every selected product.
+ */
+export type BulkAction = 'delete' | 'stock' | 'price';
+
+/**
+ * How a bulk price change is expressed.
+ * 
+ * - `percent`: relative change, e.g. `-10` for a 10% discount
+ * - `amount`: fixed change in the base currency of the exchange rates,
+ *   e.g. `5000` to raise every price by $5.000
+ */
+export type PriceChangeMode = 'percent' | 'amount';
+
+/** Lowest price a product can have, matching the product form */
+export const MIN_PRICE = 1;
+
+/**
+ * Computes the stock of a product after adding a delta.
+ * 
+ * @param stock - Current stock
+ * @param delta - Units to add; negative to remove
+ * @returns The new stock, or an error message if it would be negative
+ */
+export function applyStockDelta(stock: number, delta: number): number | string {
+  const result = stock + delta;
+  return result < 0 ? `El stock quedaría negativo (${result})` : result;
+}
+
+/**
+ * Computes the price of a product after a bulk change.
+ * 
+ * Amounts are converted from the base currency of the rates to the
+ * currency of the price, and the result is rounded to the smallest
+ * unit of that currency, e.g. whole pesos for CLP or cents for USD.
+ * 
+ * @param price - Current price
+ * @param mode - Whether `change` is a percentage or an amount
+ * @param change - Percentage or amount to add; negative to lower it
+ * @param rates - Exchange rates to convert amounts with
+ * @returns The new amount of the price, or an error message if it would be too low
+ * or the currency has no rate
+ */
+export function applyPriceChange(
+  price: Money,
+  mode: PriceChangeMode,
+  change: number,
+  rates: ExchangeRates
+): number | string {
+  const delta = mode === 'percent'
+    ? price.amount * (change / 100)
+    : convertMoney({ amount: change, currency: rates.base }, price.currency, rates)?.amount;
+  if (delta === undefined) {
+    return `No hay tipo de cambio para ${price.currency}`;
+  }
+
+  const result = roundMoney({ amount: price.amount + delta, currency: price.currency }).amount;
+  return result < MIN_PRICE ? `El precio quedaría por debajo de ${MIN_PRICE} ${price.currency}` : result;
+}
@@ -0,0 +1,48 @@
+import { Observable, catchError, concatMap, from, map, of } from 'rxjs';
+import { toAppError } from '@core/models/app-error';
+import { Product } from '@core/models/product.interface';
+
+/**
+ * Outcome of a batch operation for a single product.
+ */
+export interface BulkItemResult {
+  product: Product;
+  ok: boolean;
+  /** Reason of the failure */
+  message?: string;
+}
+
+/**
+ * Runs an operation on several products, one at a time.
+ * 
+ * A failure does not stop the batch: it is reported as a failed
+ * result and the next product is processed. Running in sequence
+ * keeps the load on the server predictable and the progress
+ * meaningful.
+ * 
+ * @param products - Products to process, in order
+ * @param operation - Operation to run for each product
+ * @returns Observable that emits one result per product and completes
+ */
+export function runInSequence(
+  products: Product[],
+  operation: (product: Product) => Observable<unknown>
+): Observable<BulkItemResult> {
+  return from(products).pipe(
+    concatMap(product => operation(product).pipe(
+      map((): BulkItemResult => ({ product, ok: true })),
+      catchError((error: unknown) => of<BulkItemResult>({ product, ok: false, message: messageOf(error) }))
+    ))
+  );
+}
+
+/**
+ * Message shown for a failed product.
+ * 
+ * Errors raised locally (e.g. a value out of range) keep their own
+ * message; API errors use the translated AppError message.
+ */
+function messageOf(error: unknown): string {
+  const appError = toAppError(error);
+  return appError.kind === 'unknown' && error instanceof Error ? error.message : appError.message;
+}
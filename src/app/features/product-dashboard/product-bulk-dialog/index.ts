@@ -0,0 +1,3 @@
+export * from './bulk-adjustment';
+export * from './bulk-runner';
+export * from './product-bulk-dialog.component';
@@ -0,0 +1,148 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { Subject, of, throwError } from 'rxjs';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { ProductBulkDialogComponent } from './product-bulk-dialog.component';
+import { ProductStore } from '@core/state/product.store';
+import { CurrencyStore } from '@core/state/currency.store';
+import { ExchangeRateService } from '@core/services/exchange-rate.service';
+import { Product } from '@core/models/product.interface';
+
+/**
+ * Pruebas unitarias para ProductBulkDialogComponent.
+ * 
+ * Verifica que las acciones masivas se apliquen producto por
+ * producto y que el resumen indique cuáles fallaron.
+ */
+describe('ProductBulkDialogComponent', () => {
+  let fixture: ComponentFixture<ProductBulkDialogComponent>;
+  let component: ProductBulkDialogComponent;
+  let store: jasmine.SpyObj<ProductStore>;
+  let activeModal: jasmine.SpyObj<NgbActiveModal>;
+
+  const products: Product[] = [
+    { id: '1', name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10, version: 1 },
+    { id: '2', name: 'MacBook Pro', price: { amount: 2499990, currency: 'CLP' }, stock: 2, version: 1 },
+    { id: '3', name: 'iPad Air', price: { amount: 649990, currency: 'CLP' }, stock: 15, version: 1 }
+  ];
+
+  beforeEach(async () => {
+    store = jasmine.createSpyObj('ProductStore', ['update', 'remove']);
+    activeModal = jasmine.createSpyObj('NgbActiveModal', ['close', 'dismiss']);
+    const exchangeRateService = jasmine.createSpyObj('ExchangeRateService', ['getExchangeRates']);
+    exchangeRateService.getExchangeRates.and.returnValue(of({ base: 'CLP', rates: { CLP: 1, USD: 950 } }));
+
+    await TestBed.configureTestingModule({
+      imports: [ProductBulkDialogComponent],
+      providers: [
+        { provide: ProductStore, useValue: store },
+        { provide: NgbActiveModal, useValue: activeModal },
+        { provide: ExchangeRateService, useValue: exchangeRateService }
+      ]
+    }).compileComponents();
+    TestBed.inject(CurrencyStore).load();
+
+    fixture = TestBed.createComponent(ProductBulkDialogComponent);
+    component = fixture.componentInstance;
+    component.products = products;
+  });
+
+  /**
+   * Prueba que el ajuste de stock continúe aunque un producto falle.
+   */
+  it('should adjust the stock and report the products that fail', () => {
+    component.action = 'stock';
+    store.update.and.callFake((id: string, product: Product) => of(product));
+    component.form.patchValue({ stockDelta: -5 });
+
+    component.apply();
+    fixture.detectChanges();
+
+    expect(store.update).toHaveBeenCalledTimes(2);
+    expect(store.update).toHaveBeenCalledWith('1', { ...products[0], stock: 5 });
+    expect(store.update).toHaveBeenCalledWith('3', { ...products[2], stock: 10 });
+    expect(component.failures.map(result => result.product.id)).toEqual(['2']);
+    expect(component.failures[0].message).toContain('negativo');
+    expect(fixture.nativeElement.querySelector('.bulk-summary').textContent)
+      .toContain('2 de 3 completados, 1 con error');
+  });
+
+  /**
+   * Prueba que el cambio de precio porcentual use el precio de cada producto.
+   */
+  it('should change prices by a percentage', () => {
+    component.action = 'price';
+    store.update.and.callFake((id: string, product: Product) => of(product));
+    component.form.patchValue({ priceMode: 'percent', priceChange: -10 });
+
+    component.apply();
+
+    expect(store.update).toHaveBeenCalledWith('2', { ...products[1], price: { amount: 2249991, currency: 'CLP' } });
+    expect(component.isDone).toBeTrue();
+  });
+
+  /**
+   * Prueba que un monto fijo se convierta a la moneda de cada producto.
+   */
+  it('should convert a fixed amount to the currency of each product', () => {
+    const dollarProduct: Product = { id: '4', name: 'AirPods', price: { amount: 199.99, currency: 'USD' }, stock: 5, version: 1 };
+    component.products = [products[0], dollarProduct];
+    component.action = 'price';
+    store.update.and.callFake((id: string, product: Product) => of(product));
+    component.form.patchValue({ priceMode: 'amount', priceChange: 9500 });
+
+    component.apply();
+
+    expect(store.update).toHaveBeenCalledWith('1', { ...products[0], price: { amount: 859490, currency: 'CLP' } });
+    expect(store.update).toHaveBeenCalledWith('4', { ...dollarProduct, price: { amount: 209.99, currency: 'USD' } });
+  });
+
+  /**
+   * Prueba que se procese un producto a la vez y se muestre el avance.
+   */
+  it('should process products one at a time', () => {
+    component.action = 'delete';
+    const responses = products.map(() => new Subject<void>());
+    store.remove.and.returnValues(...responses);
+
+    component.apply();
+    expect(store.remove).toHaveBeenCalledTimes(1);
+
+    responses[0].next();
+    responses[0].complete();
+    expect(store.remove).toHaveBeenCalledTimes(2);
+    expect(component.results.length).toBe(1);
+    expect(component.isRunning).toBeTrue();
+
+    responses[1].error(new Error('Server error'));
+    responses[2].next();
+    responses[2].complete();
+
+    expect(component.isRunning).toBeFalse();
+    expect(component.results.map(result => result.ok)).toEqual([true, false, true]);
+  });
+
+  /**
+   * Prueba que no se aplique un ajuste sin cambios.
+   */
+  it('should not apply an empty adjustment', () => {
+    component.action = 'stock';
+    component.apply();
+
+    expect(component.canApply).toBeFalse();
+    expect(store.update).not.toHaveBeenCalled();
+  });
+
+  /**
+   * Prueba que al cerrar se entreguen los resultados.
+   */
+  it('should close with the results', () => {
+    component.action = 'delete';
+    store.remove.and.returnValue(throwError(() => new Error('Server error')));
+
+    component.apply();
+    component.close();
+
+    expect(activeModal.close).toHaveBeenCalledWith(component.results);
+    expect(component.results.length).toBe(3);
+  });
+});
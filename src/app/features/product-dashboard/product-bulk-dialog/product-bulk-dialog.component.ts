@@ -0,0 +1,140 @@
+import { Component, DestroyRef, Input, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Observable, throwError } from 'rxjs';
+import { NgbActiveModal, NgbProgressbarModule } from '@ng-bootstrap/ng-bootstrap';
+import { Product } from '@core/models/product.interface';
+import { CurrencyStore } from '@core/state/currency.store';
+import { ProductStore } from '@core/state/product.store';
+import { BulkAction, PriceChangeMode, applyPriceChange, applyStockDelta } from './bulk-adjustment';
+import { BulkItemResult, runInSequence } from './bulk-runner';
+
+/** Titles of the dialog for each action */
+const TITLES: Record<BulkAction, string> = {
+  delete: 'Eliminar productos',
+  stock: 'Ajustar stock',
+  price: 'Ajustar precio'
+};
+
+/**
+ * Dialog that applies an action to several products at once.
+ * 
+ * Products are processed one by one through the ProductStore, so
+ * the table reflects each change as soon as it is sent. A failure
+ * does not stop the rest: the dialog shows the progress and, at
+ * the end, which products succeeded and why the others failed.
+ * 
+ * Closes with the results of every product.
+ * 
+ * @example
+ * ```typescript
+ * const modalRef = this.modalService.open(ProductBulkDialogComponent);
+ * modalRef.componentInstance.action = 'stock';
+ * modalRef.componentInstance.products = selected;
+ * modalRef.result.then((results: BulkItemResult[]) => ...);
+ * ```
+ */
+@Component({
+  selector: 'app-product-bulk-dialog',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, NgbProgressbarModule],
+  templateUrl: './product-bulk-dialog.component.html'
+})
+export class ProductBulkDialogComponent {
+  @Input() action!: BulkAction;
+  /** Products the action is applied to */
+  @Input() products!: Product[];
+
+  readonly activeModal = inject(NgbActiveModal);
+  private readonly store = inject(ProductStore);
+  private readonly currencyStore = inject(CurrencyStore);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly form = inject(FormBuilder).nonNullable.group({
+    stockDelta: [0, [Validators.required, Validators.pattern(/^-?\d+$/)]],
+    priceMode: ['percent' as PriceChangeMode],
+    priceChange: [0, [Validators.required]]
+  });
+
+  /** Whether the action is being applied */
+  isRunning = false;
+  results: BulkItemResult[] = [];
+
+  get title(): string {
+    return TITLES[this.action];
+  }
+
+  /** Currency fixed price changes are entered in */
+  get baseCurrency(): string {
+    return this.currencyStore.rates().base;
+  }
+
+  /** Whether every product has been processed */
+  get isDone(): boolean {
+    return this.results.length === this.products.length && this.results.length > 0;
+  }
+
+  get failures(): BulkItemResult[] {
+    return this.results.filter(result => !result.ok);
+  }
+
+  /**
+   * Whether the form describes an actual change.
+   */
+  get canApply(): boolean {
+    if (this.action === 'stock') {
+      return this.form.controls.stockDelta.valid && Number(this.form.controls.stockDelta.value) !== 0;
+    }
+    if (this.action === 'price') {
+      return this.form.controls.priceChange.valid && Number(this.form.controls.priceChange.value) !== 0;
+    }
+    return true;
+  }
+
+  /**
+   * Applies the action to every product, one at a time.
+   */
+  apply(): void {
+    if (!this.canApply || this.isRunning || this.isDone) {
+      return;
+    }
+
+    this.isRunning = true;
+    this.results = [];
+    runInSequence(this.products, product => this.applyTo(product))
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: result => this.results = [...this.results, result],
+        complete: () => this.isRunning = false
+      });
+  }
+
+  /**
+   * Closes the dialog with the results.
+   */
+  close(): void {
+    this.activeModal.close(this.results);
+  }
+
+  /**
+   * Runs the action on a single product.
+   */
+  private applyTo(product: Product): Observable<unknown> {
+    const id = product.id!;
+    const { stockDelta, priceMode, priceChange } = this.form.getRawValue();
+
+    if (this.action === 'delete') {
+      return this.store.remove(id);
+    }
+
+    const value = this.action === 'stock'
+      ? applyStockDelta(product.stock, Number(stockDelta))
+      : applyPriceChange(product.price, priceMode, Number(priceChange), this.currencyStore.rates());
+    if (typeof value === 'string') {
+      return throwError(() => new Error(value));
+    }
+
+    return this.store.update(id, this.action === 'stock' ? { ...product, stock: value } : { ...product, price: { ...product.price, amount: value } });
+  }
+}
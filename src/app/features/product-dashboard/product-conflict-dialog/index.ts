@@ -0,0 +1 @@
+export * from './product-conflict-dialog.component';
@@ -0,0 +1,122 @@
+import { signal } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { ProductConflictDialogComponent } from './product-conflict-dialog.component';
+import { Product } from '@core/models/product.interface';
+import { CategoryStore } from '@core/state/category.store';
+
+/**
+ * Pruebas unitarias para ProductConflictDialogComponent.
+ * 
+ * Verifica que el diálogo compare ambas versiones y entregue
+ * los valores elegidos con la versión del servidor.
+ */
+describe('ProductConflictDialogComponent', () => {
+  let fixture: ComponentFixture<ProductConflictDialogComponent>;
+  let component: ProductConflictDialogComponent;
+  let activeModal: jasmine.SpyObj<NgbActiveModal>;
+
+  const mine: Product = {
+    id: '2', sku: 'APL-MBP14', name: 'MacBook Pro M3', brand: 'Apple', price: { amount: 2499990, currency: 'CLP' }, stock: 4,
+    imageUrls: ['https://example.com/mbp.jpg'], version: 1
+  };
+  const current: Product = {
+    id: '2', sku: 'APL-MBP14', name: 'MacBook Pro', brand: 'Apple', price: { amount: 2299990, currency: 'CLP' }, stock: 4,
+    imageUrls: ['https://example.com/mbp.jpg'], version: 2
+  };
+
+  beforeEach(async () => {
+    activeModal = jasmine.createSpyObj('NgbActiveModal', ['close', 'dismiss']);
+
+    await TestBed.configureTestingModule({
+      imports: [ProductConflictDialogComponent],
+      providers: [
+        { provide: NgbActiveModal, useValue: activeModal },
+        { provide: CategoryStore, useValue: jasmine.createSpyObj('CategoryStore', ['load'], { categories: signal([]).asReadonly() }) }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ProductConflictDialogComponent);
+    component = fixture.componentInstance;
+    component.mine = mine;
+    component.current = current;
+    fixture.detectChanges();
+  });
+
+  /**
+   * Prueba que se destaquen solo los campos con valores distintos.
+   */
+  it('should highlight the fields that differ', () => {
+    const highlighted = Array.from<HTMLElement>(fixture.nativeElement.querySelectorAll('tbody tr.table-warning'))
+      .map(row => row.querySelector('th')?.textContent);
+    expect(highlighted).toEqual(['Nombre', 'Precio']);
+  });
+
+  /**
+   * Prueba que sobrescribir use todos los valores del usuario.
+   */
+  it('should overwrite with the user values and the server version', () => {
+    component.overwrite();
+
+    expect(activeModal.close).toHaveBeenCalledWith({ ...mine, version: 2 });
+  });
+
+  /**
+   * Prueba que combinar use el valor elegido en cada campo.
+   */
+  it('should merge the chosen fields', () => {
+    component.choose('price', 'current');
+    component.merge();
+
+    expect(activeModal.close).toHaveBeenCalledWith({ ...mine, price: { amount: 2299990, currency: 'CLP' }, version: 2 });
+  });
+
+  /**
+   * Prueba que los valores de reposición se conserven al combinar.
+   */
+  it('should keep the reorder values when merging', () => {
+    component.mine = { ...mine, reorderPoint: 3, reorderQuantity: 12 };
+    component.current = { ...current, reorderPoint: 5, reorderQuantity: 12 };
+    expect(component.differs('reorderPoint')).toBeTrue();
+    expect(component.differs('reorderQuantity')).toBeFalse();
+
+    component.choose('reorderPoint', 'current');
+    component.merge();
+
+    expect(activeModal.close).toHaveBeenCalledWith({ ...mine, reorderPoint: 5, reorderQuantity: 12, version: 2 });
+  });
+
+  /**
+   * Prueba que la moneda acompañe al precio elegido.
+   */
+  it('should take the currency together with the price', () => {
+    component.current = { ...current, price: { amount: 2499990, currency: 'USD' } };
+    expect(component.differs('price')).toBeTrue();
+
+    component.choose('price', 'current');
+    component.merge();
+
+    expect(activeModal.close).toHaveBeenCalledWith({ ...mine, price: { amount: 2499990, currency: 'USD' }, version: 2 });
+  });
+
+  /**
+   * Prueba que un producto sin categoría tributaria cuente como afecto a IVA.
+   */
+  it('should treat a missing tax category as standard', () => {
+    component.current = { ...current, taxCategory: 'standard' };
+    expect(component.differs('taxCategory')).toBeFalse();
+
+    component.current = { ...current, taxCategory: 'exempt' };
+    expect(component.differs('taxCategory')).toBeTrue();
+  });
+
+  /**
+   * Prueba que descartar cierre el diálogo sin valores.
+   */
+  it('should dismiss when discarding the changes', () => {
+    component.discard();
+
+    expect(activeModal.dismiss).toHaveBeenCalled();
+    expect(activeModal.close).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,168 @@
+import { Component, Input, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { Product } from '@core/models/product.interface';
+import { CategoryStore, categoryPath } from '@core/state/category.store';
+import { MoneyPipe, ProductStatusPipe, TaxCategoryPipe } from '@shared/pipes';
+
+/** Fields the user can pick between when resolving a conflict */
+export type ConflictField =
+  | 'sku'
+  | 'name'
+  | 'brand'
+  | 'categoryId'
+  | 'status'
+  | 'price'
+  | 'taxCategory'
+  | 'stock'
+  | 'reorderPoint'
+  | 'reorderQuantity'
+  | 'description'
+  | 'imageUrls';
+
+/** Which side of the conflict a field is taken from */
+export type ConflictChoice = 'mine' | 'current';
+
+/**
+ * Dialog shown when an update is rejected because someone else
+ * changed the product first.
+ * 
+ * Compares the user's values with the ones on the server and lets
+ * the user keep the server's copy, overwrite it, or merge both field
+ * by field. Closes with the values to save, or is dismissed when the
+ * user keeps the server's copy.
+ * 
+ * @example
+ * ```typescript
+ * const modalRef = this.modalService.open(ProductConflictDialogComponent);
+ * modalRef.componentInstance.mine = changes;
+ * modalRef.componentInstance.current = current;
+ * modalRef.result.then(resolved => save(resolved), () => {});
+ * ```
+ */
+@Component({
+  selector: 'app-product-conflict-dialog',
+  standalone: true,
+  imports: [CommonModule, MoneyPipe, ProductStatusPipe, TaxCategoryPipe],
+  templateUrl: './product-conflict-dialog.component.html'
+})
+export class ProductConflictDialogComponent {
+  /** Values the user tried to save */
+  @Input() mine!: Product;
+  /** Product as currently stored on the server */
+  @Input() current!: Product;
+
+  readonly activeModal = inject(NgbActiveModal);
+  private readonly categoryStore = inject(CategoryStore);
+
+  readonly fields: { key: ConflictField; label: string }[] = [
+    { key: 'sku', label: 'SKU' },
+    { key: 'name', label: 'Nombre' },
+    { key: 'brand', label: 'Marca' },
+    { key: 'categoryId', label: 'Categoría' },
+    { key: 'status', label: 'Estado' },
+    { key: 'price', label: 'Precio' },
+    { key: 'taxCategory', label: 'IVA' },
+    { key: 'stock', label: 'Stock' },
+    { key: 'reorderPoint', label: 'Punto de reorden' },
+    { key: 'reorderQuantity', label: 'Cantidad a reponer' },
+    { key: 'description', label: 'Descripción' },
+    { key: 'imageUrls', label: 'Imágenes' }
+  ];
+
+  readonly sides: ConflictChoice[] = ['mine', 'current'];
+
+  choices = this.allFrom('mine');
+
+  /**
+   * Whether both sides have a different value for a field.
+   * 
+   * Lists are compared item by item, a missing optional text
+   * counts as empty, a missing tax category as standard, and prices
+   * are compared with their currency.
+   * 
+   * @param field - Field to compare
+   */
+  differs(field: ConflictField): boolean {
+    if (field === 'price') {
+      const [mine, current] = [this.mine.price, this.current.price];
+      return mine.amount !== current.amount || mine.currency !== current.currency;
+    }
+    if (field === 'taxCategory') {
+      return (this.mine.taxCategory ?? 'standard') !== (this.current.taxCategory ?? 'standard');
+    }
+    return comparable(this.mine[field]) !== comparable(this.current[field]);
+  }
+
+  /**
+   * Category of one side, shown as its full path.
+   * 
+   * @param product - Side to describe
+   */
+  categoryOf(product: Product): string {
+    return categoryPath(this.categoryStore.categories(), product.categoryId);
+  }
+
+  /**
+   * Selects the side a field is taken from when merging.
+   * 
+   * @param field - Field to resolve
+   * @param choice - Side to keep
+   */
+  choose(field: ConflictField, choice: ConflictChoice): void {
+    this.choices = { ...this.choices, [field]: choice };
+  }
+
+  /**
+   * Saves the user's values over the server's copy.
+   */
+  overwrite(): void {
+    this.activeModal.close(this.resolve(this.allFrom('mine')));
+  }
+
+  /**
+   * Saves the combination of fields selected by the user.
+   */
+  merge(): void {
+    this.activeModal.close(this.resolve(this.choices));
+  }
+
+  /**
+   * Keeps the server's copy and drops the user's changes.
+   */
+  discard(): void {
+    this.activeModal.dismiss('discard');
+  }
+
+  /**
+   * Builds the product to save from the chosen sides.
+   * 
+   * The result carries the server's version, so saving it is accepted
+   * unless the product changes again in the meantime.
+   */
+  private resolve(choices: Record<ConflictField, ConflictChoice>): Product {
+    const resolved = { id: this.current.id } as Product;
+    for (const { key } of this.fields) {
+      const value = (choices[key] === 'mine' ? this.mine : this.current)[key];
+      if (value !== undefined) {
+        (resolved as unknown as Record<ConflictField, unknown>)[key] = value;
+      }
+    }
+    resolved.version = this.current.version;
+    return resolved;
+  }
+
+  /**
+   * Picks the same side for every field.
+   */
+  private allFrom(choice: ConflictChoice): Record<ConflictField, ConflictChoice> {
+    return Object.fromEntries(this.fields.map(field => [field.key, choice])) as Record<ConflictField, ConflictChoice>;
+  }
+}
+
+/**
+ * Turns a field value into a string that can be compared with `===`.
+ */
+function comparable(value: Product[ConflictField]): string {
+  return Array.isArray(value) ? value.join('\n') : String(value ?? '');
+}
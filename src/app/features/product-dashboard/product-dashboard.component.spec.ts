@@ -1,13 +1,29 @@
-import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ComponentFixture, TestBed, fakeAsync, flushMicrotasks, tick } from '@angular/core/testing';
 import { ReactiveFormsModule } from '@angular/forms';
 import { provideHttpClient } from '@angular/common/http';
 import { provideHttpClientTesting } from '@angular/common/http/testing';
-import { of, throwError } from 'rxjs';
+import { Router, provideRouter } from '@angular/router';
+import { Subject, of, throwError } from 'rxjs';
 import { NgbModal, NgbModalModule } from '@ng-bootstrap/ng-bootstrap';
 
 import { ProductDashboardComponent } from './product-dashboard.component';
 import { ProductService } from '@core/services/product.service';
+import { CategoryService } from '@core/services/category.service';
+import { WarehouseService } from '@core/services/warehouse.service';
+import { ExchangeRateService } from '@core/services/exchange-rate.service';
+import { Category } from '@core/models/category.interface';
 import { Product } from '@core/models/product.interface';
+import { Warehouse } from '@core/models/warehouse.interface';
+import { NotificationService } from '@core/services/notification.service';
+import { ProductStore } from '@core/state/product.store';
+import { CurrencyStore } from '@core/state/currency.store';
+import { ProductBulkDialogComponent } from './product-bulk-dialog';
+import { ProductImportDialogComponent } from './product-import-dialog';
+import { ProductReportComponent } from './product-report';
+import { ProductTransferDialogComponent } from './product-transfer-dialog';
+import { ProductTrashDialogComponent } from './product-trash-dialog';
+import { FileDownloadService } from '@core/services/file-download.service';
+import { REORDER_DEFAULTS, TAX_RATE } from '@core/config/app-config';
 
 /**
  * Unit tests for ProductDashboardComponent.
@@ -20,24 +36,38 @@ describe('ProductDashboardComponent', () => {
   let fixture: ComponentFixture<ProductDashboardComponent>;
   let productService: jasmine.SpyObj<ProductService>;
   let modalService: jasmine.SpyObj<NgbModal>;
+  let notificationService: NotificationService;
+  let store: ProductStore;
 
   // Mocked test data
+  const mockCategories: Category[] = [
+    { id: 't1', name: 'Telefonía' },
+    { id: 't2', name: 'Smartphones', parentId: 't1' },
+    { id: 'c1', name: 'Computadores' },
+    { id: 'c2', name: 'Notebooks', parentId: 'c1' }
+  ];
+
   const mockProducts: Product[] = [
-    { id: 1, name: 'iPhone 15', price: 849990, stock: 10 },
-    { id: 2, name: 'MacBook Pro', price: 2499990, stock: 5 },
-    { id: 3, name: 'iPad Air', price: 649990, stock: 15 }
+    { id: '1', sku: 'APL-IPH15', name: 'iPhone 15', categoryId: 't2', brand: 'Apple', price: { amount: 849990, currency: 'CLP' }, stock: 10, version: 1 },
+    { id: '2', sku: 'APL-MBP14', name: 'MacBook Pro', categoryId: 'c2', status: 'draft', price: { amount: 2499990, currency: 'CLP' }, stock: 5, version: 1 },
+    { id: '3', sku: 'APL-IPADAIR', name: 'iPad Air', status: 'active', price: { amount: 649990, currency: 'CLP' }, stock: 15, version: 1 }
+  ];
+
+  const mockWarehouses: Warehouse[] = [
+    { id: 'scl', name: 'Santiago', city: 'Santiago' },
+    { id: 'vap', name: 'Valparaíso', city: 'Valparaíso' }
   ];
 
   const newMockProduct: Product = {
     name: 'Apple Watch',
-    price: 399990,
+    price: { amount: 399990, currency: 'CLP' },
     stock: 20
   };
 
   const createdMockProduct: Product = {
-    id: 4,
+    id: '4',
     name: 'Apple Watch',
-    price: 399990,
+    price: { amount: 399990, currency: 'CLP' },
     stock: 20
   };
 
@@ -48,9 +78,21 @@ describe('ProductDashboardComponent', () => {
       'addProduct',
       'deleteProduct',
       'getProduct',
-      'updateProduct'
+      'updateProduct',
+      'restoreProduct',
+      'getFixtures',
+      'resetDatabase'
     ]);
 
+    const categorySpy = jasmine.createSpyObj('CategoryService', ['getCategories']);
+    categorySpy.getCategories.and.returnValue(of(mockCategories));
+
+    const warehouseSpy = jasmine.createSpyObj('WarehouseService', ['getWarehouses']);
+    warehouseSpy.getWarehouses.and.returnValue(of(mockWarehouses));
+
+    const exchangeRateSpy = jasmine.createSpyObj('ExchangeRateService', ['getExchangeRates']);
+    exchangeRateSpy.getExchangeRates.and.returnValue(of({ base: 'CLP', rates: { CLP: 1, USD: 1000 } }));
+
     // Create NgbModal spy
     const modalSpy = jasmine.createSpyObj('NgbModal', ['open']);
     const mockModalRef = jasmine.createSpyObj('NgbModalRef', ['close', 'dismiss']);
@@ -64,7 +106,13 @@ describe('ProductDashboardComponent', () => {
       ],
       providers: [
         { provide: ProductService, useValue: spy },
+        { provide: CategoryService, useValue: categorySpy },
+        { provide: WarehouseService, useValue: warehouseSpy },
+        { provide: ExchangeRateService, useValue: exchangeRateSpy },
         { provide: NgbModal, useValue: modalSpy },
+        { provide: REORDER_DEFAULTS, useValue: { reorderPoint: 10, reorderQuantity: 20 } },
+        { provide: TAX_RATE, useValue: 0.19 },
+        provideRouter([]),
         provideHttpClient(),
         provideHttpClientTesting()
       ]
@@ -74,8 +122,18 @@ describe('ProductDashboardComponent', () => {
     component = fixture.componentInstance;
     productService = TestBed.inject(ProductService) as jasmine.SpyObj<ProductService>;
     modalService = TestBed.inject(NgbModal) as jasmine.SpyObj<NgbModal>;
+    notificationService = TestBed.inject(NotificationService);
+    store = TestBed.inject(ProductStore);
   });
 
+  /**
+   * Carga el catálogo de prueba en el store.
+   */
+  function loadMockProducts(): void {
+    productService.getProducts.and.returnValue(of(mockProducts));
+    store.load();
+  }
+
   /**
    * Prueba que el componente se cree correctamente.
    */
@@ -87,48 +145,13 @@ describe('ProductDashboardComponent', () => {
    * Grupo de pruebas para la inicialización del componente.
    */
   describe('Component Initialization', () => {
-    /**
-     * Prueba que el formulario se inicialice con las validaciones correctas.
-     */
-    it('should initialize form with correct validators', () => {
-      expect(component.productForm).toBeDefined();
-      expect(component.productForm.get('name')).toBeDefined();
-      expect(component.productForm.get('price')).toBeDefined();
-      expect(component.productForm.get('stock')).toBeDefined();
-
-      // Verificar validaciones
-      const nameControl = component.productForm.get('name')!;
-      const priceControl = component.productForm.get('price')!;
-      const stockControl = component.productForm.get('stock')!;
-
-      // Name required and minimum 2 characters
-      nameControl.setValue('');
-      expect(nameControl.invalid).toBeTruthy();
-      nameControl.setValue('a');
-      expect(nameControl.invalid).toBeTruthy();
-      nameControl.setValue('iPhone');
-      expect(nameControl.valid).toBeTruthy();
-
-      // Minimum price 100
-      priceControl.setValue(50);
-      expect(priceControl.invalid).toBeTruthy();
-      priceControl.setValue(100);
-      expect(priceControl.valid).toBeTruthy();
-
-      // Stock no negativo
-      stockControl.setValue(-1);
-      expect(stockControl.invalid).toBeTruthy();
-      stockControl.setValue(0);
-      expect(stockControl.valid).toBeTruthy();
-    });
-
     /**
      * Prueba que las propiedades iniciales tengan los valores correctos.
      */
     it('should initialize with correct default values', () => {
-      expect(component.products).toEqual([]);
-      expect(component.isLoading).toBeFalse();
-      expect(component.errorMessage).toBe('');
+      expect(store.products()).toEqual([]);
+      expect(store.loading()).toBeFalse();
+      expect(store.error()).toBeNull();
     });
 
     /**
@@ -153,12 +176,24 @@ describe('ProductDashboardComponent', () => {
 
       component.loadProducts();
 
-      expect(component.isLoading).toBeFalse();
-      expect(component.products).toEqual(mockProducts);
-      expect(component.errorMessage).toBe('');
+      expect(store.loading()).toBeFalse();
+      expect(store.products()).toEqual(mockProducts);
+      expect(store.error()).toBeNull();
       expect(productService.getProducts).toHaveBeenCalled();
     });
 
+    /**
+     * Prueba que no se vuelva a pedir un catálogo ya cargado por otra página.
+     */
+    it('should reuse the catalog already in the store', () => {
+      loadMockProducts();
+
+      component.ngOnInit();
+
+      expect(productService.getProducts).toHaveBeenCalledTimes(1);
+      expect(component.pagedProducts).toEqual(mockProducts);
+    });
+
     /**
      * Prueba que loadProducts maneje errores correctamente.
      */
@@ -168,117 +203,118 @@ describe('ProductDashboardComponent', () => {
 
       component.loadProducts();
 
-      expect(component.isLoading).toBeFalse();
-      expect(component.errorMessage).toBe('Error al cargar los productos. Asegúrate de que json-server esté ejecutándose.');
+      expect(store.loading()).toBeFalse();
+      expect(store.error()?.message).toBe('Ocurrió un error inesperado.');
     });
 
     /**
-     * Prueba que loadProducts establezca isLoading correctamente.
+     * Prueba que el botón Reintentar vuelva a cargar los productos.
      */
-    it('should set loading state correctly', () => {
+    it('should retry loading from the error state', () => {
+      productService.getProducts.and.returnValue(throwError(() => new Error('Network error')));
+      component.loadProducts();
+      fixture.detectChanges();
+
       productService.getProducts.and.returnValue(of(mockProducts));
+      fixture.nativeElement.querySelector('.retry-btn').click();
+      fixture.detectChanges();
 
-      expect(component.isLoading).toBeFalse();
-      component.loadProducts();
-      // After the synchronous call with of(), isLoading should be false
-      expect(component.isLoading).toBeFalse();
+      expect(store.error()).toBeNull();
+      expect(store.products()).toEqual(mockProducts);
+      expect(fixture.nativeElement.querySelector('.retry-btn')).toBeNull();
     });
-  });
 
-  /**
-   * Test group for modal management.
-   */
-  describe('Modal Management', () => {
     /**
-     * Test that openModal shows the modal and resets the form.
+     * Prueba que el resumen muestre los totales del catálogo.
      */
-    it('should open modal and reset form', () => {
-      // Set up form with data
-      component.productForm.patchValue({
-        name: 'Test Product',
-        price: 100000,
-        stock: 5
-      });
+    it('should render the catalog summary', () => {
+      productService.getProducts.and.returnValue(of(mockProducts));
 
-      component.openModal();
+      fixture.detectChanges();
 
-      expect(modalService.open).toHaveBeenCalled();
-      expect(component.productForm.get('name')?.value).toBeNull();
-      expect(component.productForm.get('price')?.value).toBeNull();
-      expect(component.productForm.get('stock')?.value).toBeNull();
+      expect(fixture.nativeElement.querySelector('.low-stock-count').textContent.trim()).toBe('2');
     });
 
     /**
-     * Test that closeModal hides the modal and resets the form.
+     * Prueba que el panel de stock bajo liste los productos por reponer.
      */
-    it('should close modal and reset form', () => {
-      // Set up a mock modal reference
-      const mockModalRef = jasmine.createSpyObj('NgbModalRef', ['close']);
-      (component as any).modalRef = mockModalRef;
-      
-      component.productForm.patchValue({
-        name: 'Test Product',
-        price: 100000,
-        stock: 5
-      });
+    it('should list the products to restock in the low stock panel', () => {
+      productService.getProducts.and.returnValue(of(mockProducts));
 
-      component.closeModal();
+      fixture.detectChanges();
 
-      expect(mockModalRef.close).toHaveBeenCalled();
-      expect(component.productForm.get('name')?.value).toBeNull();
+      const rows = Array.from(fixture.nativeElement.querySelectorAll('.low-stock-panel .reorder-row')) as HTMLElement[];
+      expect(rows.map(row => row.querySelector('a')?.textContent?.trim())).toEqual(['MacBook Pro', 'iPhone 15']);
+      expect(rows.map(row => row.querySelector('.reorder-quantity')?.textContent?.trim())).toEqual(['20', '20']);
     });
-  });
 
-  /**
-   * Test group for form submission.
-   */
-  describe('Form Submission', () => {
     /**
-     * Test that onSubmit adds a product when the form is valid.
+     * Prueba que un producto sin unidades se muestre agotado en la tabla.
      */
-    it('should add product when form is valid', () => {
-      productService.addProduct.and.returnValue(of(createdMockProduct));
-      component.products = [...mockProducts];
+    it('should show products without units as out of stock', () => {
+      productService.getProducts.and.returnValue(of([{ ...mockProducts[0], stock: 0 }]));
 
-      // Set up valid form
-      component.productForm.patchValue(newMockProduct);
+      fixture.detectChanges();
 
-      component.onSubmit();
+      const badge = fixture.nativeElement.querySelector('tbody .stock-badge');
+      expect(badge.textContent.trim()).toBe('Agotado');
+      expect(badge.classList).toContain('bg-danger');
+    });
+  });
 
-      expect(productService.addProduct).toHaveBeenCalledWith(newMockProduct);
-      expect(component.products.length).toBe(4);
-      expect(component.products[3]).toEqual(createdMockProduct);
-      // Modal should be closed after successful submission - verified by closeModal being called
+  /**
+   * Grupo de pruebas para los enlaces a las páginas de producto.
+   */
+  describe('Product Links', () => {
+    beforeEach(() => {
+      loadMockProducts();
+      fixture.detectChanges();
     });
 
     /**
-     * Test that onSubmit does nothing when the form is invalid.
+     * Prueba que cada fila enlace al detalle y a la edición del producto.
      */
-    it('should not add product when form is invalid', () => {
-      // Invalid form (empty name)
-      component.productForm.patchValue({
-        name: '',
-        price: 100000,
-        stock: 5
-      });
+    it('should link each row to the detail and edit pages', () => {
+      const row: HTMLElement = fixture.nativeElement.querySelector('tbody tr');
 
-      component.onSubmit();
+      expect(row.querySelector('.product-link')?.getAttribute('href')).toBe('/productos/1');
+      expect(row.querySelector('.edit-link')?.getAttribute('href')).toBe('/productos/1/editar');
+    });
 
-      expect(productService.addProduct).not.toHaveBeenCalled();
+    /**
+     * Prueba que cada fila muestre el SKU, la marca, la categoría y el estado.
+     */
+    it('should show the catalog data of each row', () => {
+      const rows: HTMLElement[] = Array.from(fixture.nativeElement.querySelectorAll('tbody tr'));
+
+      expect(rows[0].querySelector('.product-sku')?.textContent).toBe('APL-IPH15');
+      expect(rows[0].querySelector('.product-meta')?.textContent).toContain('Apple · Telefonía > Smartphones');
+      expect(rows[0].querySelector('.product-status')?.textContent).toContain('Activo');
+      expect(rows[1].querySelector('.product-meta')?.textContent?.trim()).toBe('Computadores > Notebooks');
+      expect(rows[2].querySelector('.product-meta')).toBeNull();
+      expect(rows[1].querySelector('.product-status')?.textContent).toContain('Borrador');
     });
 
     /**
-     * Prueba que onSubmit maneje errores al agregar producto.
+     * Prueba que un producto nuevo se muestre como pendiente y sin enlace hasta que se confirme.
      */
-    it('should handle error when adding product', () => {
-      const errorResponse = new Error('Server error');
-      productService.addProduct.and.returnValue(throwError(() => errorResponse));
+    it('should show a new product as pending before the server answers', () => {
+      const response = new Subject<Product>();
+      productService.addProduct.and.returnValue(response);
+
+      store.add(newMockProduct).subscribe();
+      fixture.detectChanges();
 
-      component.productForm.patchValue(newMockProduct);
+      const rows = fixture.nativeElement.querySelectorAll('tbody tr.row-pending');
+      expect(rows.length).toBe(1);
+      expect(rows[0].textContent).toContain('Apple Watch');
+      expect(rows[0].querySelector('.product-link')).toBeNull();
 
-      component.onSubmit();
+      response.next(createdMockProduct);
+      response.complete();
+      fixture.detectChanges();
 
-      expect(component.errorMessage).toBe('Error al agregar el producto');
+      expect(fixture.nativeElement.querySelectorAll('tbody tr.row-pending').length).toBe(0);
     });
   });
 
@@ -287,130 +323,681 @@ describe('ProductDashboardComponent', () => {
    */
   describe('Product Deletion', () => {
     beforeEach(() => {
-      component.products = [...mockProducts];
+      loadMockProducts();
+    });
+
+    /**
+     * Prueba que deleteProduct abra el modal de confirmación.
+     */
+    it('should open the confirmation modal', () => {
+      component.deleteProduct('1');
+
+      expect(modalService.open).toHaveBeenCalledWith(component.deleteConfirmModal, jasmine.any(Object));
+      expect(component.productToDelete).toBe('1');
+      expect(productService.deleteProduct).not.toHaveBeenCalled();
     });
 
     /**
-     * Prueba que deleteProduct elimine el producto cuando el usuario confirma.
+     * Prueba que confirmDelete elimine el producto y ofrezca deshacerlo.
      */
     it('should delete product when user confirms', () => {
-      spyOn(window, 'confirm').and.returnValue(true);
       productService.deleteProduct.and.returnValue(of(undefined));
 
-      component.deleteProduct(1);
+      component.deleteProduct('1');
+      component.confirmDelete();
+
+      expect(productService.deleteProduct).toHaveBeenCalledWith('1');
+      expect(store.products().length).toBe(2);
+      expect(store.products().find(p => p.id === '1')).toBeUndefined();
+      expect(notificationService.notifications()).toEqual([
+        jasmine.objectContaining({
+          type: 'success',
+          message: 'Producto movido a la papelera',
+          action: jasmine.objectContaining({ label: 'Deshacer' })
+        })
+      ]);
+    });
+
+    /**
+     * Prueba que Deshacer restaure el producto en su posición original.
+     */
+    it('should restore the product when the deletion is undone', () => {
+      productService.deleteProduct.and.returnValue(of(undefined));
+      productService.restoreProduct.and.returnValue(of({ ...mockProducts[0], version: 3 }));
+
+      component.deleteProduct('1');
+      component.confirmDelete();
+      notificationService.runAction(notificationService.notifications()[0].id);
 
-      expect(window.confirm).toHaveBeenCalledWith('Are you sure you want to delete this product?');
-      expect(productService.deleteProduct).toHaveBeenCalledWith(1);
-      expect(component.products.length).toBe(2);
-      expect(component.products.find(p => p.id === 1)).toBeUndefined();
+      expect(productService.restoreProduct).toHaveBeenCalledWith('1');
+      expect(store.products().map(p => p.id)).toEqual(['1', '2', '3']);
+      expect(notificationService.notifications()).toEqual([
+        jasmine.objectContaining({ type: 'success', message: 'Producto restaurado' })
+      ]);
+    });
+
+    /**
+     * Prueba que la fila desaparezca sin ocultar la tabla mientras se elimina.
+     */
+    it('should remove the row right away without hiding the table', () => {
+      productService.deleteProduct.and.returnValue(new Subject<void>());
+      fixture.detectChanges();
+
+      component.deleteProduct('1');
+      component.confirmDelete();
+      fixture.detectChanges();
+
+      expect(store.products().find(p => p.id === '1')).toBeUndefined();
+      expect(fixture.nativeElement.querySelector('table')).not.toBeNull();
+      expect(component.productToDelete).toBeNull();
     });
 
     /**
      * Test that deleteProduct doesn't delete when user cancels.
      */
     it('should not delete product when user cancels', () => {
-      spyOn(window, 'confirm').and.returnValue(false);
-
-      component.deleteProduct(1);
+      component.deleteProduct('1');
+      component.cancelDelete();
 
-      expect(window.confirm).toHaveBeenCalled();
       expect(productService.deleteProduct).not.toHaveBeenCalled();
-      expect(component.products.length).toBe(3);
+      expect(component.productToDelete).toBeNull();
+      expect(store.products().length).toBe(3);
     });
 
     /**
      * Prueba que deleteProduct maneje errores correctamente.
      */
     it('should handle error when deleting product', () => {
-      spyOn(window, 'confirm').and.returnValue(true);
       const errorResponse = new Error('Delete error');
       productService.deleteProduct.and.returnValue(throwError(() => errorResponse));
 
-      component.deleteProduct(1);
+      component.deleteProduct('1');
+      component.confirmDelete();
 
-      expect(component.errorMessage).toBe('Error deleting the product');
-      expect(component.products.length).toBe(3); // Not deleted
+      expect(notificationService.notifications()).toEqual([
+        jasmine.objectContaining({ type: 'error', title: 'No se pudo eliminar el producto' })
+      ]);
+      expect(store.products().length).toBe(3); // Not deleted
     });
   });
 
   /**
-   * Test group for helper functions.
+   * Grupo de pruebas para búsqueda, orden y paginación de la tabla.
    */
-  describe('Helper Functions', () => {
+  describe('Table Search, Sort and Pagination', () => {
+    let router: Router;
+
+    beforeEach(() => {
+      router = TestBed.inject(Router);
+      productService.getProducts.and.returnValue(of(mockProducts));
+    });
+
     /**
-     * Test that trackByProductId returns the product ID.
+     * Prueba que el estado de la tabla se lea desde la URL.
      */
-    it('should return product ID in trackByProductId', () => {
-      const product = mockProducts[0];
-      const result = component.trackByProductId(0, product);
-      expect(result).toBe(product.id!);
+    it('should restore table state from query params', fakeAsync(() => {
+      component.ngOnInit();
+      router.navigate([], { queryParams: { q: 'ip', sort: 'price', dir: 'desc', size: 25 } });
+      tick();
+
+      expect(component.searchControl.value).toBe('ip');
+      expect(component.pageSize).toBe(25);
+      expect(store.filteredProducts().map(p => p.name)).toEqual(['iPhone 15', 'iPad Air']);
+    }));
+
+    /**
+     * Prueba que la búsqueda se aplique con debounce y quede en la URL.
+     */
+    it('should debounce search and store it in the URL', fakeAsync(() => {
+      component.ngOnInit();
+      component.searchControl.setValue('mac');
+      tick(100);
+      expect(router.url).not.toContain('q=mac');
+
+      tick(300);
+      expect(router.url).toContain('q=mac');
+      expect(store.filteredProducts().map(p => p.name)).toEqual(['MacBook Pro']);
+    }));
+
+    /**
+     * Prueba que la búsqueda también encuentre productos por SKU.
+     */
+    it('should search by SKU', fakeAsync(() => {
+      component.ngOnInit();
+      router.navigate([], { queryParams: { q: 'mbp', sort: 'sku' } });
+      tick();
+
+      expect(store.filter().sortField).toBe('sku');
+      expect(store.filteredProducts().map(p => p.name)).toEqual(['MacBook Pro']);
+    }));
+
+    /**
+     * Prueba que sortBy alterne la dirección al repetir la columna.
+     */
+    it('should toggle sort direction on the same column', fakeAsync(() => {
+      component.ngOnInit();
+      component.sortBy('stock');
+      tick();
+      expect(store.filteredProducts().map(p => p.stock)).toEqual([5, 10, 15]);
+
+      component.sortBy('stock');
+      tick();
+      expect(store.filter().sortDirection).toBe('desc');
+      expect(store.filteredProducts().map(p => p.stock)).toEqual([15, 10, 5]);
+    }));
+
+    /**
+     * Prueba que la paginación entregue solo la página actual.
+     */
+    it('should paginate the filtered products', fakeAsync(() => {
+      productService.getProducts.and.returnValue(of(Array.from({ length: 12 }, (_, i) => ({
+        id: String(i + 1), name: `Producto ${i + 1}`, price: { amount: 1000, currency: 'CLP' }, stock: 1
+      }))));
+      component.ngOnInit();
+      component.changePage(2);
+      tick();
+
+      expect(component.currentPage).toBe(2);
+      expect(component.pagedProducts.length).toBe(2);
+      expect(component.pagedProducts[0].id).toBe('11');
+    }));
+  });
+
+  /**
+   * Grupo de pruebas para la barra lateral de categorías.
+   */
+  describe('Category Sidebar', () => {
+    let router: Router;
+
+    beforeEach(() => {
+      router = TestBed.inject(Router);
+      loadMockProducts();
     });
 
     /**
-     * Prueba que trackByProductId retorne el índice cuando no hay ID.
+     * Prueba que el árbol de categorías muestre la cantidad de productos de cada rama.
      */
-    it('should return index when product has no ID', () => {
-      const productWithoutId: Product = {
-        name: 'Test Product',
-        price: 100000,
-        stock: 5
-      };
-      const result = component.trackByProductId(5, productWithoutId);
-      expect(result).toBe(5);
+    it('should list the category tree with product counts', () => {
+      fixture.detectChanges();
+
+      const options: HTMLElement[] = Array.from(fixture.nativeElement.querySelectorAll('.category-option'));
+      expect(options.map(option => option.textContent!.replace(/\s+/g, ' ').trim())).toEqual([
+        'Todas 3',
+        'Computadores 1',
+        'Notebooks 1',
+        'Telefonía 1',
+        'Smartphones 1'
+      ]);
     });
+
+    /**
+     * Prueba que elegir una categoría filtre también sus subcategorías y quede en la URL.
+     */
+    it('should filter by a category and its subcategories', fakeAsync(() => {
+      component.ngOnInit();
+      component.selectCategory('t1');
+      tick();
+
+      expect(router.url).toContain('cat=t1');
+      expect(store.filteredProducts().map(p => p.name)).toEqual(['iPhone 15']);
+
+      component.selectCategory(null);
+      tick();
+
+      expect(router.url).not.toContain('cat=');
+      expect(store.filteredProducts().length).toBe(3);
+    }));
   });
 
   /**
-   * Grupo de pruebas para los getters del formulario.
+   * Grupo de pruebas para el stock por bodega y las transferencias.
    */
-  describe('Form Getters', () => {
+  describe('Warehouses', () => {
+    let router: Router;
+
+    beforeEach(() => {
+      router = TestBed.inject(Router);
+      productService.getProducts.and.returnValue(of<Product[]>([
+        { ...mockProducts[0], warehouseStock: { scl: 6, vap: 4 } },
+        { ...mockProducts[1], warehouseStock: { scl: 5 } },
+        { ...mockProducts[2], stock: 0 }
+      ]));
+      store.load();
+    });
+
+    /**
+     * Prueba que la barra lateral y cada fila muestren las unidades por bodega.
+     */
+    it('should show the units of each warehouse', () => {
+      fixture.detectChanges();
+
+      const options: HTMLElement[] = Array.from(fixture.nativeElement.querySelectorAll('.warehouse-option'));
+      expect(options.map(option => option.textContent!.replace(/\s+/g, ' ').trim())).toEqual([
+        'Todas 15',
+        'Santiago Santiago 11',
+        'Valparaíso Valparaíso 4'
+      ]);
+      const breakdown = fixture.nativeElement.querySelector('tbody .warehouse-breakdown');
+      expect(breakdown.textContent.replace(/\s+/g, ' ').trim()).toBe('Santiago: 6 · Valparaíso: 4');
+    });
+
+    /**
+     * Prueba que elegir una bodega liste solo los productos con unidades en ella y quede en la URL.
+     */
+    it('should filter by warehouse', fakeAsync(() => {
+      component.ngOnInit();
+      component.selectWarehouse('vap');
+      tick();
+
+      expect(router.url).toContain('bodega=vap');
+      expect(store.filteredProducts().map(p => p.name)).toEqual(['iPhone 15']);
+
+      component.selectWarehouse(null);
+      tick();
+
+      expect(router.url).not.toContain('bodega=');
+      expect(store.filteredProducts().length).toBe(3);
+    }));
+
     /**
-     * Prueba que los getters retornen los controles correctos.
+     * Prueba que Transferir abra el diálogo con el producto y se deshabilite sin stock.
      */
-    it('should return correct form controls', () => {
-      expect(component.name).toBe(component.productForm.get('name'));
-      expect(component.price).toBe(component.productForm.get('price'));
-      expect(component.stock).toBe(component.productForm.get('stock'));
+    it('should open the transfer dialog for a product with units', () => {
+      const modalRef = { componentInstance: {} as Record<string, unknown>, result: Promise.resolve() };
+      modalService.open.and.returnValue(modalRef as any);
+      fixture.detectChanges();
+
+      const buttons: HTMLButtonElement[] = Array.from(fixture.nativeElement.querySelectorAll('.transfer-btn'));
+      expect(buttons.map(button => button.disabled)).toEqual([false, false, true]);
+
+      buttons[0].click();
+
+      expect(modalService.open).toHaveBeenCalledWith(ProductTransferDialogComponent);
+      expect(modalRef.componentInstance['product']).toEqual(store.products()[0]);
     });
   });
 
   /**
-   * Grupo de pruebas de integración para el componente.
+   * Grupo de pruebas para el selector de moneda.
    */
-  describe('Integration Tests', () => {
+  describe('Currencies', () => {
+    beforeEach(() => {
+      productService.getProducts.and.returnValue(of<Product[]>([
+        mockProducts[0],
+        { ...mockProducts[1], price: { amount: 2499.99, currency: 'USD' } }
+      ]));
+    });
+
     /**
-     * Prueba el flujo completo de agregar un producto.
+     * Prueba que cada precio se muestre convertido a pesos, junto a su precio de lista si es otra moneda.
      */
-    it('should complete full add product flow', () => {
-      productService.getProducts.and.returnValue(of(mockProducts));
-      productService.addProduct.and.returnValue(of(createdMockProduct));
+    it('should show prices in the base currency by default', () => {
+      component.ngOnInit();
+      fixture.detectChanges();
 
-      // Inicializar componente
+      const prices: HTMLElement[] = Array.from(fixture.nativeElement.querySelectorAll('.product-price'));
+      expect(prices.map(price => price.textContent!.trim())).toEqual(['$849.990', '$2.499.990']);
+      const listPrices: HTMLElement[] = Array.from(fixture.nativeElement.querySelectorAll('.product-list-price'));
+      expect(listPrices.map(price => price.textContent!.trim())).toEqual(['US$2,499.99']);
+      expect(component.inventoryValue?.currency).toBe('CLP');
+      expect(component.inventoryValue?.amount).toBeCloseTo(849990 * 10 + 2499990 * 5);
+    });
+
+    /**
+     * Prueba que elegir otra moneda convierta los precios y quede en la URL.
+     */
+    it('should convert prices to the chosen currency', fakeAsync(() => {
+      const router = TestBed.inject(Router);
       component.ngOnInit();
+      component.selectCurrency('USD');
+      tick();
+      fixture.detectChanges();
+
+      expect(router.url).toContain('moneda=USD');
+      expect(component.displayPrice(store.products()[0])).toEqual({ amount: 849.99, currency: 'USD' });
+      const listPrices: HTMLElement[] = Array.from(fixture.nativeElement.querySelectorAll('.product-list-price'));
+      expect(listPrices.length).toBe(1);
+
+      component.selectCurrency('CLP');
+      tick();
+
+      expect(router.url).not.toContain('moneda=');
+      expect(component.currencyStore.currency()).toBe('CLP');
+    }));
+  });
+
+  /**
+   * Grupo de pruebas para el desglose del IVA.
+   */
+  describe('IVA Breakdown', () => {
+    beforeEach(() => {
+      productService.getProducts.and.returnValue(of<Product[]>([
+        mockProducts[0],
+        { ...mockProducts[2], taxCategory: 'exempt' }
+      ]));
+    });
+
+    /**
+     * Prueba que el desglose agregue las columnas de neto e IVA y quede en la URL.
+     */
+    it('should show net and IVA columns when the breakdown is on', fakeAsync(() => {
+      const router = TestBed.inject(Router);
+      component.ngOnInit();
+      fixture.detectChanges();
+      expect(fixture.nativeElement.querySelectorAll('th.tax-column').length).toBe(0);
+
+      component.toggleTax();
+      tick();
+      fixture.detectChanges();
+
+      expect(router.url).toContain('iva=desglose');
+      const headers: HTMLElement[] = Array.from(fixture.nativeElement.querySelectorAll('thead th'));
+      expect(headers.map(header => header.textContent!.trim())).toContain('Bruto');
+      const net: HTMLElement[] = Array.from(fixture.nativeElement.querySelectorAll('.product-net'));
+      const tax: HTMLElement[] = Array.from(fixture.nativeElement.querySelectorAll('.product-tax'));
+      expect(net.map(cell => cell.textContent!.trim())).toEqual(['$714.277', '$649.990']);
+      expect(tax.map(cell => cell.textContent!.trim())).toEqual(['$135.713', '$0']);
+
+      component.toggleTax();
+      tick();
+
+      expect(router.url).not.toContain('iva=');
+      expect(component.showTax).toBeFalse();
+    }));
+  });
+
+  /**
+   * Grupo de pruebas para la selección y las acciones masivas.
+   */
+  describe('Bulk Selection', () => {
+    beforeEach(() => {
+      loadMockProducts();
+    });
+
+    /**
+     * Prueba que se marquen y desmarquen filas individuales.
+     */
+    it('should toggle single rows', () => {
+      component.toggleSelection(mockProducts[0]);
+      component.toggleSelection(mockProducts[2]);
+      expect(component.selectedProducts.map(p => p.id)).toEqual(['1', '3']);
+      expect(component.pageSelection).toBe('some');
+
+      component.toggleSelection(mockProducts[0]);
+      expect(component.selectedProducts.map(p => p.id)).toEqual(['3']);
+    });
+
+    /**
+     * Prueba que se seleccione solo la página actual.
+     */
+    it('should select all rows of the current page', fakeAsync(() => {
+      productService.getProducts.and.returnValue(of(Array.from({ length: 12 }, (_, i) => ({
+        id: String(i + 1), name: `Producto ${i + 1}`, price: { amount: 1000, currency: 'CLP' }, stock: 1
+      }))));
+      store.load({ force: true });
+      component.ngOnInit();
+      tick();
+
+      component.togglePageSelection();
+      expect(component.selectedIds.size).toBe(10);
+      expect(component.pageSelection).toBe('all');
+
+      component.togglePageSelection();
+      expect(component.selectedIds.size).toBe(0);
+    }));
+
+    /**
+     * Prueba que los productos pendientes no se puedan seleccionar.
+     */
+    it('should not select rows that are being saved', () => {
+      productService.updateProduct.and.returnValue(new Subject<Product>());
+      store.update('1', { ...mockProducts[0], stock: 3 }).subscribe();
+
+      component.toggleSelection(store.products()[0]);
+
+      expect(component.selectedIds.size).toBe(0);
+    });
+
+    /**
+     * Prueba que al cerrar el diálogo queden seleccionados solo los fallidos.
+     */
+    it('should keep only the failed products selected after a bulk action', fakeAsync(() => {
+      const dialogRef = {
+        componentInstance: {} as Record<string, unknown>,
+        result: Promise.resolve([
+          { product: mockProducts[0], ok: true },
+          { product: mockProducts[1], ok: false, message: 'Error' }
+        ])
+      };
+      modalService.open.and.returnValue(dialogRef as any);
+      component.toggleSelection(mockProducts[0]);
+      component.toggleSelection(mockProducts[1]);
+
+      component.openBulkDialog('stock');
+
+      expect(modalService.open).toHaveBeenCalledWith(ProductBulkDialogComponent, jasmine.any(Object));
+      expect(dialogRef.componentInstance['action']).toBe('stock');
+      expect(dialogRef.componentInstance['products']).toEqual([mockProducts[0], mockProducts[1]]);
+
+      flushMicrotasks();
+
+      expect([...component.selectedIds]).toEqual(['2']);
+    }));
+  });
+
+  /**
+   * Grupo de pruebas para la importación del catálogo.
+   */
+  describe('Catalog Import', () => {
+    /**
+     * Prueba que se abra el diálogo y se informe cuántos productos se importaron.
+     */
+    it('should open the import dialog and report the imported products', fakeAsync(() => {
+      modalService.open.and.returnValue({
+        result: Promise.resolve([
+          { product: mockProducts[0], ok: true },
+          { product: newMockProduct, ok: true },
+          { product: mockProducts[1], ok: false, message: 'Error' }
+        ])
+      } as any);
+
+      component.openImportDialog();
+      flushMicrotasks();
+
+      expect(modalService.open).toHaveBeenCalledWith(ProductImportDialogComponent, jasmine.objectContaining({ size: 'xl' }));
+      expect(notificationService.notifications()).toEqual([
+        jasmine.objectContaining({ type: 'success', message: '2 productos importados' })
+      ]);
+    }));
+  });
+
+  /**
+   * Grupo de pruebas para la exportación del catálogo.
+   */
+  describe('Catalog Export', () => {
+    beforeEach(() => {
+      loadMockProducts();
+      store.setFilter({ search: 'ip' });
+    });
+
+    /**
+     * Prueba que el CSV contenga solo los productos filtrados.
+     */
+    it('should download the filtered products as CSV', () => {
+      const fileDownload = TestBed.inject(FileDownloadService);
+      spyOn(fileDownload, 'save');
+
+      component.exportProducts('csv');
+
+      const [content, fileName, type] = (fileDownload.save as jasmine.Spy).calls.mostRecent().args;
+      expect(content).toContain('iPhone 15');
+      expect(content).toContain('iPad Air');
+      expect(content).not.toContain('MacBook Pro');
+      expect(fileName).toMatch(/^productos-\d{4}-\d{2}-\d{2}\.csv$/);
+      expect(type).toContain('text/csv');
+    });
+
+    /**
+     * Prueba que el JSON contenga solo los productos filtrados.
+     */
+    it('should download the filtered products as JSON', () => {
+      const fileDownload = TestBed.inject(FileDownloadService);
+      spyOn(fileDownload, 'save');
+
+      component.exportProducts('json');
+
+      const [content, fileName] = (fileDownload.save as jasmine.Spy).calls.mostRecent().args;
+      expect(JSON.parse(content).map((product: Product) => product.id)).toEqual(['1', '3']);
+      expect(fileName).toMatch(/\.json$/);
+    });
+
+    /**
+     * Prueba que la lista de reposición incluya todo el catálogo, sin el filtro.
+     */
+    it('should download the reorder list of the whole catalog', () => {
+      const fileDownload = TestBed.inject(FileDownloadService);
+      spyOn(fileDownload, 'save');
+
+      component.exportReorderList();
+
+      const [content, fileName] = (fileDownload.save as jasmine.Spy).calls.mostRecent().args;
+      expect(content).toContain('MacBook Pro');
+      expect(content).toContain('iPhone 15');
+      expect(content).not.toContain('iPad Air');
+      expect(fileName).toMatch(/^reposicion-\d{4}-\d{2}-\d{2}\.csv$/);
+    });
+
+    /**
+     * Prueba que el reporte se abra con los productos filtrados y la búsqueda.
+     */
+    it('should open the printable report with the filtered products', () => {
+      const componentInstance: Record<string, unknown> = {};
+      modalService.open.and.returnValue({ componentInstance, result: Promise.resolve() } as any);
+
+      component.openReport();
+
+      expect(modalService.open).toHaveBeenCalledWith(ProductReportComponent, jasmine.objectContaining({ fullscreen: true }));
+      expect((componentInstance['products'] as Product[]).map(product => product.id)).toEqual(['1', '3']);
+      expect(componentInstance['filterLabel']).toBe('Búsqueda: "ip"');
+    });
+  });
+
+  /**
+   * Grupo de pruebas para la papelera.
+   */
+  describe('Trash', () => {
+    /**
+     * Prueba que el botón Papelera abra el diálogo de la papelera.
+     */
+    it('should open the trash dialog', () => {
+      modalService.open.and.returnValue({ result: Promise.resolve() } as any);
       fixture.detectChanges();
 
-      // Open modal
-      component.openModal();
-      expect(modalService.open).toHaveBeenCalled();
+      fixture.nativeElement.querySelector('.trash-btn').click();
 
-      // Fill form
-      component.productForm.patchValue(newMockProduct);
-      expect(component.productForm.valid).toBeTrue();
+      expect(modalService.open).toHaveBeenCalledWith(ProductTrashDialogComponent, jasmine.any(Object));
+    });
+  });
+
+  /**
+   * Grupo de pruebas para el reseteo de la base de datos.
+   */
+  describe('Database Reset', () => {
+    const fixture = { name: 'low-stock', label: 'Stock bajo', productCount: 3 };
+
+    /**
+     * Prueba que los conjuntos se carguen una sola vez al abrir el menú.
+     */
+    it('should load fixtures once when the menu opens', () => {
+      productService.getFixtures.and.returnValue(of([fixture]));
+
+      component.loadFixtures(false);
+      expect(productService.getFixtures).not.toHaveBeenCalled();
+
+      component.loadFixtures(true);
+      component.loadFixtures(true);
+      expect(productService.getFixtures).toHaveBeenCalledTimes(1);
+      expect(component.fixtures).toEqual([fixture]);
+    });
 
-      // Submit form
-      component.onSubmit();
+    /**
+     * Prueba que resetDatabase reemplace la lista con el conjunto elegido.
+     */
+    it('should reset to the chosen fixture when user confirms', () => {
+      spyOn(window, 'confirm').and.returnValue(true);
+      productService.resetDatabase.and.returnValue(of(mockProducts));
 
-      // Verify results
-      expect(productService.addProduct).toHaveBeenCalledWith(newMockProduct);
-      expect(component.products.length).toBe(4);
-      // Modal should be closed after successful submission
+      component.resetDatabase(fixture);
+
+      expect(productService.resetDatabase).toHaveBeenCalledWith('low-stock');
+      expect(store.products()).toEqual(mockProducts);
+      expect(store.loading()).toBeFalse();
     });
 
+    /**
+     * Prueba que tras el reseteo se vuelvan a cargar los tipos de cambio del conjunto.
+     */
+    it('should reload the exchange rates after a reset', () => {
+      const exchangeRateService = TestBed.inject(ExchangeRateService) as jasmine.SpyObj<ExchangeRateService>;
+      const currencyStore = TestBed.inject(CurrencyStore);
+      currencyStore.load();
+      spyOn(window, 'confirm').and.returnValue(true);
+      productService.resetDatabase.and.returnValue(of(mockProducts));
+      exchangeRateService.getExchangeRates.and.returnValue(of({ base: 'CLP', rates: { CLP: 1, PEN: 253 } }));
+
+      component.resetDatabase(fixture);
+
+      expect(exchangeRateService.getExchangeRates).toHaveBeenCalledTimes(2);
+      expect(currencyStore.currencies()).toEqual(['CLP', 'PEN']);
+    });
+
+    /**
+     * Prueba que no se resetee si el usuario cancela.
+     */
+    it('should not reset when user cancels', () => {
+      spyOn(window, 'confirm').and.returnValue(false);
+
+      component.resetDatabase(fixture);
+
+      expect(productService.resetDatabase).not.toHaveBeenCalled();
+    });
+  });
+
+  /**
+   * Test group for helper functions.
+   */
+  describe('Helper Functions', () => {
+    /**
+     * Test that trackByProductId returns the product ID.
+     */
+    it('should return product ID in trackByProductId', () => {
+      const product = mockProducts[0];
+      const result = component.trackByProductId(0, product);
+      expect(result).toBe(product.id!);
+    });
+
+    /**
+     * Prueba que trackByProductId retorne el índice cuando no hay ID.
+     */
+    it('should return index when product has no ID', () => {
+      const productWithoutId: Product = {
+        name: 'Test Product',
+        price: { amount: 100000, currency: 'CLP' },
+        stock: 5
+      };
+      const result = component.trackByProductId(5, productWithoutId);
+      expect(result).toBe(5);
+    });
+  });
+
+  /**
+   * Grupo de pruebas de integración para el componente.
+   */
+  describe('Integration Tests', () => {
     /**
      * Prueba el flujo completo de eliminar un producto.
      */
     it('should complete full delete product flow', () => {
-      spyOn(window, 'confirm').and.returnValue(true);
       productService.getProducts.and.returnValue(of(mockProducts));
       productService.deleteProduct.and.returnValue(of(undefined));
 
@@ -418,15 +1005,16 @@ describe('ProductDashboardComponent', () => {
       component.ngOnInit();
       fixture.detectChanges();
 
-      const initialCount = component.products.length;
+      const initialCount = store.products().length;
 
       // Eliminar producto
-      component.deleteProduct(1);
+      component.deleteProduct('1');
+      component.confirmDelete();
 
       // Verificar resultados
-      expect(productService.deleteProduct).toHaveBeenCalledWith(1);
-      expect(component.products.length).toBe(initialCount - 1);
-      expect(component.products.find(p => p.id === 1)).toBeUndefined();
+      expect(productService.deleteProduct).toHaveBeenCalledWith('1');
+      expect(store.products().length).toBe(initialCount - 1);
+      expect(store.products().find(p => p.id === '1')).toBeUndefined();
     });
   });
 });
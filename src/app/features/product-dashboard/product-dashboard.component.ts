@@ -1,144 +1,540 @@
-import { Component, OnInit, inject, TemplateRef, ViewChild, PLATFORM_ID } from '@angular/core';
+import { Component, OnInit, inject, TemplateRef, ViewChild, PLATFORM_ID, DestroyRef } from '@angular/core';
 import { CommonModule, isPlatformBrowser } from '@angular/common';
-import { ReactiveFormsModule, FormBuilder, FormGroup, Validators } from '@angular/forms';
-import { Observable } from 'rxjs';
-import { NgbModal, NgbModalRef, NgbModalModule } from '@ng-bootstrap/ng-bootstrap';
+import { FormsModule, ReactiveFormsModule, FormControl } from '@angular/forms';
+import { ActivatedRoute, ParamMap, Router, RouterLink } from '@angular/router';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { debounceTime, distinctUntilChanged } from 'rxjs/operators';
+import { NgbDropdownModule, NgbModal, NgbModalRef, NgbModalModule, NgbPaginationModule } from '@ng-bootstrap/ng-bootstrap';
+import { TAX_RATE } from '@core/config/app-config';
 import { ProductService } from '@core/services/product.service';
-import { Product } from '@core/models/product.interface';
-import { ClpCurrencyPipe } from '@shared/pipes';
+import { CategoryId } from '@core/models/category.interface';
+import { DatabaseFixture } from '@core/models/fixture.interface';
+import { CurrencyCode, Money } from '@core/models/money';
+import { Product, ProductId } from '@core/models/product.interface';
+import { TaxBreakdown, breakdownFromGross, taxRateOf } from '@core/models/tax';
+import { WarehouseId } from '@core/models/warehouse.interface';
+import { WarehouseUnits, stockByWarehouse } from '@core/models/warehouse-stock';
+import { NotificationService } from '@core/services/notification.service';
+import { FileDownloadService } from '@core/services/file-download.service';
+import { ProductSortField } from '@core/models/product-query.interface';
+import { ProductStore } from '@core/state/product.store';
+import { CategoryStore, categoryPath } from '@core/state/category.store';
+import { CurrencyStore } from '@core/state/currency.store';
+import { WarehouseStore } from '@core/state/warehouse.store';
+import { StockBadgeComponent } from '@shared/components';
+import { MoneyPipe, ProductStatusPipe } from '@shared/pipes';
+import { BulkAction, BulkItemResult, ProductBulkDialogComponent } from './product-bulk-dialog';
+import { ProductImportDialogComponent } from './product-import-dialog';
+import { LowStockPanelComponent } from './low-stock-panel';
+import { ProductReportComponent } from './product-report';
+import { ProductTransferDialogComponent } from './product-transfer-dialog';
+import { ProductTrashDialogComponent } from './product-trash-dialog';
+import { exportFileName, toCsv, toJson, toReorderCsv } from './catalog-export';
+
+/** Delay applied to the search box before filtering, in milliseconds */
+const SEARCH_DEBOUNCE_MS = 300;
+
+/** How long the "Deshacer" button stays available after a deletion, in milliseconds */
+const UNDO_DELAY_MS = 6000;
 
 @Component({
   selector: 'app-product-dashboard',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule, ClpCurrencyPipe, NgbModalModule],
+  imports: [CommonModule, FormsModule, ReactiveFormsModule, RouterLink, MoneyPipe, ProductStatusPipe, NgbModalModule, NgbPaginationModule, NgbDropdownModule, StockBadgeComponent, LowStockPanelComponent],
   templateUrl: './product-dashboard.component.html',
   styleUrl: './product-dashboard.component.scss'
 })
 export class ProductDashboardComponent implements OnInit {
-  @ViewChild('productModal') productModal!: TemplateRef<any>;
   @ViewChild('deleteConfirmModal') deleteConfirmModal!: TemplateRef<any>;
 
-  products$: Observable<Product[]> = new Observable();
-  products: Product[] = [];
-  
-  productToDelete: number | null = null;
-  productForm: FormGroup;
-  isLoading = false;
-  errorMessage = '';
+  /** Shared catalog state; the table reads the list and loading flags from it */
+  readonly store = inject(ProductStore);
+  /** Category tree shown in the sidebar */
+  readonly categoryStore = inject(CategoryStore);
+  /** Warehouses shown in the sidebar and in the stock breakdown */
+  readonly warehouseStore = inject(WarehouseStore);
+  /** Exchange rates and the currency prices are shown in */
+  readonly currencyStore = inject(CurrencyStore);
+  /** IVA rate included in the price of taxed products */
+  readonly taxRate = inject(TAX_RATE);
+
+  productToDelete: ProductId | null = null;
+
+  /** Fixture sets offered by the reset menu, loaded when it is first opened */
+  fixtures: DatabaseFixture[] = [];
+  isLoadingFixtures = false;
+
+  /**
+   * Table view state, kept in sync with the URL query string.
+   * Search, category, warehouse and sort live in the store filter, the
+   * currency in the currency store; paging and the IVA breakdown are
+   * local.
+   */
+  readonly searchControl = new FormControl('', { nonNullable: true });
+  readonly pageSizeOptions = [10, 25, 50, 100];
+  readonly sortColumns: { field: ProductSortField; label: string }[] = [
+    { field: 'sku', label: 'SKU' },
+    { field: 'name', label: 'Nombre' },
+    { field: 'price', label: 'Precio' },
+    { field: 'stock', label: 'Stock' }
+  ];
+  page = 1;
+  pageSize = this.pageSizeOptions[0];
+  /** Whether the table shows the net price and IVA next to the gross price */
+  showTax = false;
+
+  /** IDs of the rows checked for a bulk action */
+  selectedIds: ReadonlySet<ProductId> = new Set();
   
   private modalRef: NgbModalRef | null = null;
   private readonly platformId = inject(PLATFORM_ID);
 
   private readonly productService = inject(ProductService);
-  private readonly fb = inject(FormBuilder);
   private readonly modalService = inject(NgbModal);
-
-  constructor() {
-    this.productForm = this.fb.group({
-      name: ['', [Validators.required, Validators.minLength(2)]],
-      price: [0, [Validators.required, Validators.min(1)]],
-      stock: [0, [Validators.required, Validators.min(1)]]
-    });
-  }
+  private readonly notifications = inject(NotificationService);
+  private readonly fileDownload = inject(FileDownloadService);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly destroyRef = inject(DestroyRef);
 
   ngOnInit(): void {
+    this.route.queryParamMap
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(params => this.applyQueryParams(params));
+
+    this.searchControl.valueChanges
+      .pipe(
+        debounceTime(SEARCH_DEBOUNCE_MS),
+        distinctUntilChanged(),
+        takeUntilDestroyed(this.destroyRef)
+      )
+      .subscribe(term => this.updateQueryParams({ q: term.trim() || null, page: null }));
+
     this.loadProducts();
   }
 
   /**
-   * Loads the list of products from the service.
+   * Loads the catalog, the categories, the warehouses and the exchange
+   * rates into their stores.
    * 
-   * Executes a request to the service to get all available
-   * products and updates the component state. Handles loading
-   * states and errors.
+   * Reuses the cached data when another page already loaded it;
+   * after a failure the request is sent again.
    */
   loadProducts(): void {
-    this.isLoading = true;
-    this.errorMessage = '';
-    this.products$ = this.productService.getProducts();
-    this.products$.subscribe({
-      next: (products) => {
-        this.products = products;
-        this.isLoading = false;
-      },
-      error: (error) => {
-        this.errorMessage = 'Error loading products. Make sure json-server is running.';
-        this.isLoading = false;
-        console.error('Error loading products:', error);
+    this.store.load();
+    this.categoryStore.load();
+    this.warehouseStore.load();
+    this.currencyStore.load();
+  }
+
+  /**
+   * Full path of a product's category, e.g. "Computadores > Notebooks".
+   * 
+   * @param product - Product of the row
+   * @returns The path, or an empty string for uncategorized products
+   */
+  categoryOf(product: Product): string {
+    return categoryPath(this.categoryStore.categories(), product.categoryId);
+  }
+
+  /**
+   * Lists only the products of a category and its subcategories.
+   * 
+   * @param id - Category to show, or null for the whole catalog
+   */
+  selectCategory(id: CategoryId | null): void {
+    this.updateQueryParams({ cat: id, page: null });
+  }
+
+  /**
+   * Lists only the products with units at a warehouse.
+   * 
+   * @param id - Warehouse to show, or null for every warehouse
+   */
+  selectWarehouse(id: WarehouseId | null): void {
+    this.updateQueryParams({ bodega: id, page: null });
+  }
+
+  /**
+   * Shows prices in another currency.
+   * 
+   * @param currency - Currency to show
+   */
+  selectCurrency(currency: CurrencyCode): void {
+    this.updateQueryParams({ moneda: currency !== this.currencyStore.rates().base ? currency : null });
+  }
+
+  /**
+   * Price of a product in the currency chosen for display.
+   * 
+   * @param product - Product of the row
+   * @returns The converted price, or null if its currency has no rate
+   */
+  displayPrice(product: Product): Money | null {
+    return this.currencyStore.convert(product.price);
+  }
+
+  /**
+   * Price of a product in the display currency, split into its net
+   * amount and IVA for the breakdown columns.
+   * 
+   * @param product - Product of the row
+   * @returns The breakdown, or null if its currency has no rate
+   */
+  priceBreakdown(product: Product): TaxBreakdown | null {
+    const gross = this.displayPrice(product);
+    return gross && breakdownFromGross(gross, taxRateOf(product, this.taxRate));
+  }
+
+  /**
+   * Shows or hides the net price and IVA columns.
+   */
+  toggleTax(): void {
+    this.updateQueryParams({ iva: this.showTax ? null : 'desglose' });
+  }
+
+  /**
+   * Value of the whole stock in the currency chosen for display.
+   */
+  get inventoryValue(): Money | null {
+    return this.currencyStore.convert({ amount: this.store.totals().value, currency: this.currencyStore.rates().base });
+  }
+
+  /**
+   * Units of a product at each warehouse, for the stock column.
+   * 
+   * @param product - Product of the row
+   */
+  stockOf(product: Product): WarehouseUnits[] {
+    return stockByWarehouse(product, this.warehouseStore.warehouses());
+  }
+
+  /**
+   * Opens the dialog that moves units of a product between warehouses.
+   * 
+   * @param product - Product to transfer
+   */
+  openTransferDialog(product: Product): void {
+    if (!isPlatformBrowser(this.platformId)) {
+      return;
+    }
+
+    const modalRef = this.modalService.open(ProductTransferDialogComponent);
+    modalRef.componentInstance.product = product;
+    modalRef.result.catch(() => undefined);
+  }
+
+  /**
+   * Slice of the filtered products shown on the current page.
+   */
+  get pagedProducts(): Product[] {
+    const start = (this.currentPage - 1) * this.pageSize;
+    return this.store.filteredProducts().slice(start, start + this.pageSize);
+  }
+
+  /**
+   * Current page, clamped to the pages available after filtering.
+   */
+  get currentPage(): number {
+    const totalPages = Math.max(1, Math.ceil(this.store.filteredProducts().length / this.pageSize));
+    return Math.min(this.page, totalPages);
+  }
+
+  /**
+   * Selected products that are still in the catalog.
+   */
+  get selectedProducts(): Product[] {
+    return this.store.products().filter(product => this.selectedIds.has(product.id!));
+  }
+
+  /**
+   * Whether the rows of the current page are all, some or none selected.
+   */
+  get pageSelection(): 'all' | 'some' | 'none' {
+    const selectable = this.pagedProducts.filter(product => this.isSelectable(product));
+    const selected = selectable.filter(product => this.selectedIds.has(product.id!)).length;
+    if (selected === 0) {
+      return 'none';
+    }
+    return selected === selectable.length ? 'all' : 'some';
+  }
+
+  /**
+   * Whether a row can be checked; rows still being saved cannot.
+   * 
+   * @param product - Product of the row
+   */
+  isSelectable(product: Product): boolean {
+    return product.id !== undefined && !this.store.pendingIds().has(product.id);
+  }
+
+  /**
+   * Checks or unchecks a row.
+   * 
+   * @param product - Product of the row
+   */
+  toggleSelection(product: Product): void {
+    const ids = new Set(this.selectedIds);
+    if (ids.has(product.id!)) {
+      ids.delete(product.id!);
+    } else if (this.isSelectable(product)) {
+      ids.add(product.id!);
+    }
+    this.selectedIds = ids;
+  }
+
+  /**
+   * Checks every row of the current page, or unchecks them all
+   * if they were already checked.
+   */
+  togglePageSelection(): void {
+    const ids = new Set(this.selectedIds);
+    const rows = this.pagedProducts.filter(product => this.isSelectable(product));
+    const select = this.pageSelection !== 'all';
+    for (const product of rows) {
+      if (select) {
+        ids.add(product.id!);
+      } else {
+        ids.delete(product.id!);
       }
+    }
+    this.selectedIds = ids;
+  }
+
+  clearSelection(): void {
+    this.selectedIds = new Set();
+  }
+
+  /**
+   * Opens the dialog that applies an action to the selected products.
+   * 
+   * When it closes, the products that failed stay selected so the
+   * action can be retried on them.
+   * 
+   * @param action - Action to apply
+   */
+  openBulkDialog(action: BulkAction): void {
+    const products = this.selectedProducts;
+    if (products.length === 0 || !isPlatformBrowser(this.platformId)) {
+      return;
+    }
+
+    const modalRef = this.modalService.open(ProductBulkDialogComponent, {
+      backdrop: 'static',
+      keyboard: false
+    });
+    modalRef.componentInstance.action = action;
+    modalRef.componentInstance.products = products;
+
+    modalRef.result.then(
+      (results: BulkItemResult[]) => {
+        this.selectedIds = new Set(results.filter(result => !result.ok).map(result => result.product.id!));
+      },
+      () => undefined
+    );
+  }
+
+  /**
+   * Opens the dialog to import products from a CSV or JSON file.
+   */
+  openImportDialog(): void {
+    if (!isPlatformBrowser(this.platformId)) {
+      return;
+    }
+
+    const modalRef = this.modalService.open(ProductImportDialogComponent, {
+      size: 'xl',
+      backdrop: 'static',
+      keyboard: false
     });
+
+    modalRef.result.then(
+      (results: BulkItemResult[]) => {
+        const imported = results.filter(result => result.ok).length;
+        if (imported > 0) {
+          this.notifications.success(`${imported} ${imported === 1 ? 'producto importado' : 'productos importados'}`);
+        }
+      },
+      () => undefined
+    );
   }
 
   /**
-   * Opens the modal to create a new product.
+   * Downloads the products matching the current search.
    * 
-   * Shows the creation modal and resets the form to
-   * ensure it's clean for the new product.
+   * @param format - File format to export
+   */
+  exportProducts(format: 'csv' | 'json'): void {
+    const products = this.store.filteredProducts();
+    if (format === 'csv') {
+      const csv = toCsv(products, this.categoryStore.categories());
+      this.fileDownload.save(csv, exportFileName('csv'), 'text/csv;charset=utf-8');
+    } else {
+      this.fileDownload.save(toJson(products), exportFileName('json'), 'application/json');
+    }
+  }
+
+  /**
+   * Downloads the reorder suggestions of the whole catalog, for
+   * purchasing to place the orders.
    */
-  openModal(): void {
+  exportReorderList(): void {
+    const csv = toReorderCsv(this.store.reorderSuggestions(), this.categoryStore.categories());
+    this.fileDownload.save(csv, exportFileName('csv', new Date(), 'reposicion'), 'text/csv;charset=utf-8');
+  }
+
+  /**
+   * Opens the printable inventory report of the products matching
+   * the current search and category.
+   */
+  openReport(): void {
     if (!isPlatformBrowser(this.platformId)) {
       return;
     }
-    
-    this.productForm.reset();
-    this.modalRef = this.modalService.open(this.productModal, { 
-      size: 'lg',
-      backdrop: 'static'
+
+    const modalRef = this.modalService.open(ProductReportComponent, {
+      fullscreen: true,
+      windowClass: 'report-modal'
     });
+    const { search, categoryId, warehouseId } = this.store.filter();
+    const labels = [
+      categoryId ? `Categoría: ${categoryPath(this.categoryStore.categories(), categoryId)}` : '',
+      warehouseId ? `Bodega: ${this.warehouseStore.nameOf(warehouseId)}` : '',
+      search.trim() ? `Búsqueda: "${search.trim()}"` : ''
+    ];
+    modalRef.componentInstance.products = this.store.filteredProducts();
+    modalRef.componentInstance.filterLabel = labels.filter(Boolean).join(' · ');
+    modalRef.componentInstance.currency = this.currencyStore.currency();
+    modalRef.componentInstance.rates = this.currencyStore.rates();
+    modalRef.result.catch(() => undefined);
   }
 
   /**
-   * Closes the product creation modal.
+   * Moves a deleted product back to the catalog.
    * 
-   * Hides the modal and resets the form to clear
-   * any previously entered data.
+   * @param id - Unique ID of the deleted product
    */
-  closeModal(): void {
-    if (this.modalRef) {
-      this.modalRef.close();
-      this.modalRef = null;
+  restoreProduct(id: ProductId): void {
+    this.store.restore(id).subscribe({
+      next: () => {
+        this.notifications.success('Producto restaurado');
+      },
+      error: (error: unknown) => {
+        this.notifications.error(error, 'No se pudo restaurar el producto');
+      }
+    });
+  }
+
+  /**
+   * Opens the trash, where deleted products can be restored or
+   * deleted for good.
+   */
+  openTrash(): void {
+    if (!isPlatformBrowser(this.platformId)) {
+      return;
     }
-    this.productForm.reset();
+
+    const modalRef = this.modalService.open(ProductTrashDialogComponent, { size: 'lg' });
+    modalRef.result.catch(() => undefined);
   }
 
   /**
-   * Processes the form submission to create a new product.
+   * Toggles the sort order of a column.
+   * 
+   * Clicking a new column sorts it ascending; clicking the sorted
+   * column again flips the direction.
    * 
-   * Validates the form and if valid, sends the data to the service
-   * to create the product. Updates the local list and closes the modal
-   * on success.
+   * @param field - Column to sort by
    */
-  onSubmit(): void {
-    if (this.productForm.valid) {
-      const newProduct: Product = this.productForm.value;
-      this.productService.addProduct(newProduct).subscribe({
-        next: (product: Product) => {
-          this.products.push(product);
-          this.closeModal();
-        },
-        error: (error: any) => {
-          this.errorMessage = 'Error adding the product';
-          console.error('Error adding product:', error);
-        }
-      });
+  sortBy(field: ProductSortField): void {
+    const { sortField, sortDirection } = this.store.filter();
+    const direction = sortField === field && sortDirection === 'asc' ? 'desc' : 'asc';
+    this.updateQueryParams({ sort: field, dir: direction, page: null });
+  }
+
+  /**
+   * Navigates to another page of the table.
+   * 
+   * @param page - Page number, starting at 1
+   */
+  changePage(page: number): void {
+    this.updateQueryParams({ page: page > 1 ? page : null });
+  }
+
+  /**
+   * Changes how many products are shown per page.
+   * 
+   * @param size - Number of rows per page
+   */
+  changePageSize(size: number): void {
+    this.updateQueryParams({
+      size: size !== this.pageSizeOptions[0] ? size : null,
+      page: null
+    });
+  }
+
+  /**
+   * Reads the table state from the URL query string.
+   * 
+   * Unknown or malformed values fall back to the defaults, so a
+   * hand-edited or outdated bookmark never breaks the table.
+   * 
+   * @param params - Current query parameters
+   */
+  private applyQueryParams(params: ParamMap): void {
+    const sort = params.get('sort');
+    const size = Number(params.get('size'));
+    const page = Number(params.get('page'));
+
+    const search = params.get('q') ?? '';
+
+    this.store.setFilter({
+      search,
+      categoryId: params.get('cat') || null,
+      warehouseId: params.get('bodega') || null,
+      sortField: this.sortColumns.some(column => column.field === sort) ? sort as ProductSortField : null,
+      sortDirection: params.get('dir') === 'desc' ? 'desc' : 'asc'
+    });
+    this.currencyStore.setCurrency(params.get('moneda'));
+    this.pageSize = this.pageSizeOptions.includes(size) ? size : this.pageSizeOptions[0];
+    this.page = Number.isInteger(page) && page > 0 ? page : 1;
+    this.showTax = params.get('iva') === 'desglose';
+
+    if (this.searchControl.value !== search) {
+      this.searchControl.setValue(search, { emitEvent: false });
     }
   }
 
+  /**
+   * Merges the given values into the URL query string.
+   * 
+   * A null value removes the parameter, which keeps default
+   * values out of the URL. The navigation replaces the current
+   * history entry so typing a search does not flood the history.
+   * 
+   * @param params - Query parameters to set or remove
+   */
+  private updateQueryParams(params: Record<string, string | number | null>): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: params,
+      queryParamsHandling: 'merge',
+      replaceUrl: true
+    });
+  }
+
   /**
    * Deletes a product after user confirmation.
    * 
    * Shows a confirmation dialog and, if the user accepts,
-   * deletes the product from the server and updates the local list.
+   * deletes the product through the store.
    * 
    * @param id - Unique ID of the product to delete
    */
-  deleteProduct(id: number): void {
-    console.log('Deleting product with ID:', id);
-    
+  deleteProduct(id: ProductId): void {
     // Verify that the ID is valid
     if (!id) {
-      console.error('Product ID is invalid:', id);
-      this.errorMessage = 'Error: Invalid product ID';
+      this.notifications.error(new Error(`Invalid product ID: ${id}`), 'ID de producto inválido');
       return;
     }
 
@@ -155,26 +551,29 @@ export class ProductDashboardComponent implements OnInit {
   }
 
   /**
-   * Confirms the deletion of the product
+   * Confirms the deletion of the product.
+   * 
+   * The row is removed right away and put back by the store
+   * if the server rejects the deletion.
    */
   confirmDelete(): void {
     if (this.productToDelete && this.modalRef) {
-      this.isLoading = true;
-      this.errorMessage = '';
+      const id = this.productToDelete;
       this.modalRef.close();
-      
-      this.productService.deleteProduct(this.productToDelete).subscribe({
+      this.modalRef = null;
+      this.productToDelete = null;
+
+      this.store.remove(id).subscribe({
         next: () => {
-          console.log('Product deleted successfully');
-          this.products = this.products.filter(product => product.id !== this.productToDelete);
-          this.isLoading = false;
-          this.productToDelete = null;
+          this.notifications.withAction(
+            'Producto movido a la papelera',
+            { label: 'Deshacer', run: () => this.restoreProduct(id) },
+            'success',
+            UNDO_DELAY_MS
+          );
         },
-        error: (error: any) => {
-          this.errorMessage = 'Error deleting the product. Verify that json-server is running.';
-          this.isLoading = false;
-          console.error('Error deleting product:', error);
-          this.productToDelete = null;
+        error: (error: unknown) => {
+          this.notifications.error(error, 'No se pudo eliminar el producto');
         }
       });
     }
@@ -202,72 +601,56 @@ export class ProductDashboardComponent implements OnInit {
    * @param product - Current product object
    * @returns Unique ID of the product or the index as fallback
    */
-  trackByProductId(index: number, product: Product): number {
+  trackByProductId(index: number, product: Product): ProductId | number {
     return product.id || index;
   }
 
   /**
-   * Getter to access the 'name' form control.
+   * Loads the fixture sets for the reset menu.
    * 
-   * Provides direct access to the name FormControl for
-   * validations and showing errors in the template.
+   * Called when the menu opens; the list is only fetched once.
    * 
-   * @returns FormControl of the name field
+   * @param open - Whether the menu is being opened
    */
-  get name() { 
-    return this.productForm.get('name'); 
-  }
-  
-  /**
-   * Getter to access the 'price' form control.
-   * 
-   * Provides direct access to the price FormControl for
-   * validations and showing errors in the template.
-   * 
-   * @returns FormControl of the price field
-   */
-  get price() { 
-    return this.productForm.get('price'); 
-  }
-  
-  /**
-   * Getter to access the 'stock' form control.
-   * 
-   * Provides direct access to the stock FormControl for
-   * validations and showing errors in the template.
-   * 
-   * @returns FormControl of the stock field
-   */
-  get stock() { 
-    return this.productForm.get('stock'); 
+  loadFixtures(open = true): void {
+    if (!open || this.fixtures.length > 0 || this.isLoadingFixtures) {
+      return;
+    }
+
+    this.isLoadingFixtures = true;
+    this.productService.getFixtures().subscribe({
+      next: (fixtures: DatabaseFixture[]) => {
+        this.fixtures = fixtures;
+        this.isLoadingFixtures = false;
+      },
+      error: (error: unknown) => {
+        this.notifications.error(error, 'No se pudieron cargar los conjuntos de datos');
+        this.isLoadingFixtures = false;
+      }
+    });
   }
 
   /**
-   * Resets the database to initial data.
+   * Resets the database to a fixture set.
+   * 
+   * Shows a confirmation to the user and, if accepted, asks the
+   * server to replace the whole catalog with the chosen fixture.
+   * The category and warehouse filters are cleared, since the
+   * fixture brings its own categories and warehouses. Useful for testing and demos.
    * 
-   * Shows a confirmation to the user and, if accepted, deletes all
-   * current products and restores the original application data.
-   * Useful for testing and demos.
+   * @param fixture - Fixture set to load
    */
-  resetDatabase(): void {
-    const confirmMessage = 'Are you sure you want to reset the database? This will delete all changes and restore the original data.';
+  resetDatabase(fixture: DatabaseFixture): void {
+    const confirmMessage = `Are you sure you want to reset the database to "${fixture.label}"? This will delete all changes.`;
     
     if (confirm(confirmMessage)) {
-      this.isLoading = true;
-      this.errorMessage = '';
-      
-      this.productService.resetDatabase().subscribe({
-        next: (products: Product[]) => {
-          this.products = products;
-          this.isLoading = false;
-          // Show temporary success message
-          this.errorMessage = '';
-          console.log('Database reset successfully');
+      this.store.reset(fixture.name).subscribe({
+        next: () => {
+          this.updateQueryParams({ cat: null, bodega: null, page: null });
+          this.notifications.success(`Base de datos restablecida a "${fixture.label}"`);
         },
-        error: (error: any) => {
-          this.errorMessage = 'Error resetting the database. Verify that json-server is running.';
-          this.isLoading = false;
-          console.error('Error resetting database:', error);
+        error: (error: unknown) => {
+          this.notifications.error(error, 'No se pudo resetear la base de datos');
         }
       });
     }
@@ -0,0 +1,135 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { of } from 'rxjs';
+import { ProductDetailComponent } from './product-detail.component';
+import { REORDER_DEFAULTS } from '@core/config/app-config';
+import { Product } from '@core/models/product.interface';
+import { CategoryService } from '@core/services/category.service';
+import { StockMovementService } from '@core/services/stock-movement.service';
+import { WarehouseService } from '@core/services/warehouse.service';
+
+/**
+ * Pruebas unitarias para ProductDetailComponent.
+ * 
+ * Verifica que la página muestre los datos del producto
+ * resuelto por la ruta, enlace a su edición y muestre su
+ * historial de stock en otra pestaña.
+ */
+describe('ProductDetailComponent', () => {
+  let fixture: ComponentFixture<ProductDetailComponent>;
+  let movementService: jasmine.SpyObj<StockMovementService>;
+
+  const product: Product = {
+    id: '2',
+    sku: 'APL-MBP14',
+    name: 'MacBook Pro',
+    categoryId: 'c2',
+    brand: 'Apple',
+    description: 'Chip M3 y pantalla Liquid Retina XDR',
+    imageUrls: ['https://example.com/mbp-1.jpg', 'https://example.com/mbp-2.jpg'],
+    status: 'draft',
+    price: { amount: 2499990, currency: 'CLP' },
+    stock: 5,
+    warehouseStock: { scl: 5 },
+    version: 3,
+    createdAt: '2024-01-15T12:00:00.000Z',
+    updatedAt: '2024-05-01T12:00:00.000Z'
+  };
+
+  beforeEach(async () => {
+    const categoryService = jasmine.createSpyObj('CategoryService', ['getCategories']);
+    categoryService.getCategories.and.returnValue(of([
+      { id: 'c1', name: 'Computadores' },
+      { id: 'c2', name: 'Notebooks', parentId: 'c1' }
+    ]));
+
+    const warehouseService = jasmine.createSpyObj('WarehouseService', ['getWarehouses']);
+    warehouseService.getWarehouses.and.returnValue(of([
+      { id: 'scl', name: 'Santiago', city: 'Santiago' },
+      { id: 'vap', name: 'Valparaíso' }
+    ]));
+
+    movementService = jasmine.createSpyObj('StockMovementService', ['getMovements', 'recordMovement']);
+    movementService.getMovements.and.returnValue(of([
+      { id: 'm1', productId: '2', type: 'receipt', quantity: 5, user: 'sistema', createdAt: '2024-01-15T12:00:00.000Z' }
+    ]));
+
+    await TestBed.configureTestingModule({
+      imports: [ProductDetailComponent],
+      providers: [
+        provideRouter([]),
+        { provide: CategoryService, useValue: categoryService },
+        { provide: StockMovementService, useValue: movementService },
+        { provide: WarehouseService, useValue: warehouseService },
+        { provide: REORDER_DEFAULTS, useValue: { reorderPoint: 10, reorderQuantity: 20 } }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ProductDetailComponent);
+    fixture.componentRef.setInput('product', product);
+    fixture.detectChanges();
+  });
+
+  /**
+   * Prueba que se muestren el precio, el stock y el valor en inventario.
+   */
+  it('should show the product data', () => {
+    const element: HTMLElement = fixture.nativeElement;
+
+    expect(element.querySelector('h1')?.textContent).toContain('MacBook Pro');
+    expect(element.querySelector('.product-price')?.textContent).toContain('$2.499.990');
+    expect(element.querySelector('.product-stock .stock-badge')?.classList).toContain('bg-warning');
+    expect(element.querySelector('.product-reorder')?.textContent).toContain('Pedir 20 unidades al llegar a 10');
+    expect(element.querySelector('.product-value')?.textContent).toContain('$12.499.950');
+    expect(element.textContent).toContain('versión 3');
+  });
+
+  /**
+   * Prueba que se muestren los datos de catálogo y las imágenes.
+   */
+  it('should show the catalog data and pictures', () => {
+    const element: HTMLElement = fixture.nativeElement;
+
+    expect(element.querySelector('.product-sku')?.textContent).toBe('APL-MBP14');
+    expect(element.querySelector('.product-brand')?.textContent).toBe('Apple');
+    expect(element.querySelector('.product-category')?.textContent).toBe('Computadores > Notebooks');
+    expect(element.querySelector('.product-status')?.textContent).toContain('Borrador');
+    expect(element.querySelector('.product-description')?.textContent).toContain('Chip M3');
+    expect(Array.from(element.querySelectorAll('.product-images img')).map(img => img.getAttribute('src')))
+      .toEqual(product.imageUrls!);
+    expect(element.querySelector('.product-created')).not.toBeNull();
+  });
+
+  /**
+   * Prueba que se muestre el stock de cada bodega.
+   */
+  it('should show the stock of each warehouse', () => {
+    const rows = Array.from(fixture.nativeElement.querySelectorAll('.product-warehouse-stock li')) as HTMLElement[];
+
+    expect(rows.map(row => row.textContent!.replace(/\s+/g, ' ').trim())).toEqual([
+      'Santiago (Santiago): 5',
+      'Valparaíso: 0'
+    ]);
+  });
+
+  /**
+   * Prueba que el botón Editar enlace a la página de edición.
+   */
+  it('should link to the edit page', () => {
+    expect(fixture.nativeElement.querySelector('.edit-link').getAttribute('href')).toBe('/productos/2/editar');
+  });
+
+  /**
+   * Prueba que el historial de stock se cargue solo al abrir su pestaña.
+   */
+  it('should load the stock history when its tab is opened', () => {
+    const element: HTMLElement = fixture.nativeElement;
+    expect(movementService.getMovements).not.toHaveBeenCalled();
+
+    (element.querySelector('.history-tab') as HTMLButtonElement).click();
+    fixture.detectChanges();
+
+    expect(movementService.getMovements).toHaveBeenCalledWith('2');
+    expect(element.querySelectorAll('.movement-row').length).toBe(1);
+  });
+});
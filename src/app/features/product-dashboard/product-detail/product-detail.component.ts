@@ -0,0 +1,86 @@
+import { Component, Input, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { NgbNavModule } from '@ng-bootstrap/ng-bootstrap';
+import { REORDER_DEFAULTS } from '@core/config/app-config';
+import { Money } from '@core/models/money';
+import { Product } from '@core/models/product.interface';
+import { ReorderPolicy, StockLevel, reorderPolicyOf, stockLevelOf } from '@core/models/stock-level';
+import { WarehouseUnits, stockByWarehouse } from '@core/models/warehouse-stock';
+import { CategoryStore, categoryPath } from '@core/state/category.store';
+import { WarehouseStore } from '@core/state/warehouse.store';
+import { StockBadgeComponent } from '@shared/components';
+import { MoneyPipe, ProductStatusPipe } from '@shared/pipes';
+import { StockHistoryComponent } from './stock-history';
+
+/**
+ * Page with the details of a single product.
+ * 
+ * Served at `/productos/:id`, so a product can be shared or
+ * bookmarked. The route resolves the product from the server and
+ * binds it to the `product` input; unknown IDs show the 404 page.
+ * 
+ * A second tab shows the stock ledger of the product. It is only
+ * loaded when the tab is opened, and recording a movement there
+ * refreshes the stock shown on the page.
+ */
+@Component({
+  selector: 'app-product-detail',
+  standalone: true,
+  imports: [CommonModule, RouterLink, NgbNavModule, MoneyPipe, ProductStatusPipe, StockBadgeComponent, StockHistoryComponent],
+  templateUrl: './product-detail.component.html'
+})
+export class ProductDetailComponent implements OnInit {
+  /** Product resolved by the route */
+  @Input({ required: true }) product!: Product;
+
+  /** Tab on display */
+  activeTab: 'details' | 'history' = 'details';
+
+  private readonly categoryStore = inject(CategoryStore);
+  private readonly warehouseStore = inject(WarehouseStore);
+  private readonly reorderDefaults = inject(REORDER_DEFAULTS);
+
+  ngOnInit(): void {
+    this.categoryStore.load();
+    this.warehouseStore.load();
+  }
+
+  /**
+   * Full path of the product's category, e.g. "Computadores > Notebooks".
+   */
+  get categoryPath(): string {
+    return categoryPath(this.categoryStore.categories(), this.product.categoryId);
+  }
+
+  /**
+   * Reorder point and quantity of the product, or the defaults of the
+   * app configuration for the values it does not set.
+   */
+  get reorderPolicy(): ReorderPolicy {
+    return reorderPolicyOf(this.product, this.reorderDefaults);
+  }
+
+  /**
+   * Whether the product is out of stock, low on stock or well stocked.
+   */
+  get stockLevel(): StockLevel {
+    return stockLevelOf(this.product, this.reorderDefaults);
+  }
+
+  /**
+   * Units of the product at each warehouse, or an empty list while
+   * there is a single warehouse.
+   */
+  get warehouseStock(): WarehouseUnits[] {
+    const warehouses = this.warehouseStore.warehouses();
+    return warehouses.length > 1 ? stockByWarehouse(this.product, warehouses) : [];
+  }
+
+  /**
+   * Value of the units in stock at list price, in the currency of the price.
+   */
+  get stockValue(): Money {
+    return { ...this.product.price, amount: this.product.price.amount * this.product.stock };
+  }
+}
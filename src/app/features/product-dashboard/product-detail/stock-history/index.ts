@@ -0,0 +1,2 @@
+export * from './stock-chart';
+export * from './stock-history.component';
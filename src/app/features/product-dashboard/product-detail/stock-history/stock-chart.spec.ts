@@ -0,0 +1,53 @@
+import { StockMovement } from '@core/models/stock-movement.interface';
+import { stockBalances, stockChartPoints } from './stock-chart';
+
+/**
+ * Pruebas unitarias para el cálculo del historial de stock.
+ *
+ * Verifica el saldo después de cada movimiento y los puntos del
+ * gráfico escalonado del stock en el tiempo.
+ */
+describe('Stock chart', () => {
+  const movements: StockMovement[] = [
+    { productId: 'a01f', type: 'receipt', quantity: 5, user: 'sistema', createdAt: '2024-05-01T00:00:00.000Z' },
+    { productId: 'a01f', type: 'sale', quantity: -3, user: 'Ana', createdAt: '2024-05-03T00:00:00.000Z' },
+    { productId: 'a01f', type: 'return', quantity: 1, user: 'Ana', createdAt: '2024-05-05T00:00:00.000Z' }
+  ];
+
+  /**
+   * Prueba que se acumule el stock después de cada movimiento.
+   */
+  it('should compute the running stock', () => {
+    expect(stockBalances(movements).map(entry => entry.balance)).toEqual([5, 2, 3]);
+  });
+
+  /**
+   * Prueba que el gráfico sea escalonado y proporcional al tiempo.
+   */
+  it('should draw a step line proportional to time', () => {
+    expect(stockChartPoints(stockBalances(movements), 100, 50))
+      .toBe('0,0 50,0 50,30 100,30 100,20');
+  });
+
+  /**
+   * Prueba que los movimientos simultáneos se repartan a lo ancho.
+   */
+  it('should spread movements recorded at the same time', () => {
+    const sameTime = movements.map(movement => ({ ...movement, createdAt: '2024-05-01T00:00:00.000Z' }));
+    expect(stockChartPoints(stockBalances(sameTime).slice(0, 2), 100, 50)).toBe('0,0 100,0 100,30');
+  });
+
+  /**
+   * Prueba que un solo movimiento se dibuje como una línea horizontal.
+   */
+  it('should draw a flat line for a single movement', () => {
+    expect(stockChartPoints(stockBalances(movements.slice(0, 1)), 100, 50)).toBe('0,0 100,0');
+  });
+
+  /**
+   * Prueba que un historial vacío no dibuje nada.
+   */
+  it('should return no points without movements', () => {
+    expect(stockChartPoints([], 100, 50)).toBe('');
+  });
+});
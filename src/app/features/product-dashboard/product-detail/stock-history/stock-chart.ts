@@ -0,0 +1,74 @@
+import { StockMovement } from '@core/models/stock-movement.interface';
+
+/**
+ * A movement of the ledger with the stock it left.
+ */
+export interface StockBalance {
+  movement: StockMovement;
+  /** Units in stock right after the movement */
+  balance: number;
+}
+
+/**
+ * Computes the stock after each movement.
+ *
+ * @param movements - Ledger of a product, oldest first
+ * @returns One entry per movement, in the same order
+ */
+export function stockBalances(movements: readonly StockMovement[]): StockBalance[] {
+  let balance = 0;
+  return movements.map(movement => {
+    balance += movement.quantity;
+    return { movement, balance };
+  });
+}
+
+/**
+ * Computes the points of a step chart of the stock over time, for
+ * the `points` attribute of an SVG polyline.
+ *
+ * The horizontal axis is proportional to the time of each movement
+ * (or to its position, if they all happened at the same instant) and
+ * the vertical axis goes from zero at the bottom to the highest stock
+ * at the top. The stock stays flat until the next movement, so each
+ * change is drawn as a vertical step.
+ *
+ * @param balances - Stock after each movement, oldest first
+ * @param width - Width of the chart in SVG units
+ * @param height - Height of the chart in SVG units
+ * @returns The points as `"x,y x,y ..."`, or an empty string without movements
+ */
+export function stockChartPoints(balances: readonly StockBalance[], width: number, height: number): string {
+  if (balances.length === 0) {
+    return '';
+  }
+
+  const times = balances.map(({ movement }) => Date.parse(movement.createdAt ?? '') || 0);
+  const first = times[0];
+  const span = times[times.length - 1] - first;
+  const highest = Math.max(...balances.map(({ balance }) => balance), 1);
+
+  const x = (index: number) => {
+    if (balances.length === 1) {
+      return 0;
+    }
+    return span > 0 ? ((times[index] - first) / span) * width : (index / (balances.length - 1)) * width;
+  };
+  const y = (balance: number) => height - (balance / highest) * height;
+
+  const points: string[] = [];
+  balances.forEach(({ balance }, index) => {
+    if (index > 0) {
+      points.push(`${round(x(index))},${round(y(balances[index - 1].balance))}`);
+    }
+    points.push(`${round(x(index))},${round(y(balance))}`);
+  });
+  if (x(balances.length - 1) < width) {
+    points.push(`${width},${round(y(balances[balances.length - 1].balance))}`);
+  }
+  return points.join(' ');
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
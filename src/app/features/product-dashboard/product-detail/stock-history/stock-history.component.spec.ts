@@ -0,0 +1,138 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+import { StockHistoryComponent } from './stock-history.component';
+import { AppError } from '@core/models/app-error';
+import { Product } from '@core/models/product.interface';
+import { StockMovement } from '@core/models/stock-movement.interface';
+import { NotificationService } from '@core/services/notification.service';
+import { StockMovementService } from '@core/services/stock-movement.service';
+import { WarehouseService } from '@core/services/warehouse.service';
+import { WarehouseStore } from '@core/state/warehouse.store';
+
+/**
+ * Pruebas unitarias para StockHistoryComponent.
+ *
+ * Verifica el listado de movimientos con su saldo, el gráfico y
+ * que los movimientos se registren con el signo de su tipo.
+ */
+describe('StockHistoryComponent', () => {
+  let fixture: ComponentFixture<StockHistoryComponent>;
+  let component: StockHistoryComponent;
+  let movementService: jasmine.SpyObj<StockMovementService>;
+  let notifications: NotificationService;
+  let warehouseService: jasmine.SpyObj<WarehouseService>;
+
+  const product: Product = { id: '2', sku: 'APL-MBP14', name: 'MacBook Pro', price: { amount: 2499990, currency: 'CLP' }, stock: 2, version: 3 };
+  const movements: StockMovement[] = [
+    { id: 'm1', productId: '2', type: 'receipt', quantity: 5, reason: 'Stock inicial', user: 'sistema', createdAt: '2024-05-01T12:00:00.000Z' },
+    { id: 'm2', productId: '2', type: 'sale', quantity: -3, reason: 'Boleta 881', user: 'Ana', createdAt: '2024-05-02T12:00:00.000Z' }
+  ];
+
+  beforeEach(async () => {
+    movementService = jasmine.createSpyObj('StockMovementService', ['getMovements', 'recordMovement']);
+    movementService.getMovements.and.returnValue(of(movements));
+    warehouseService = jasmine.createSpyObj('WarehouseService', ['getWarehouses']);
+    warehouseService.getWarehouses.and.returnValue(of([{ id: 'principal', name: 'Bodega principal' }]));
+
+    await TestBed.configureTestingModule({
+      imports: [StockHistoryComponent],
+      providers: [
+        { provide: StockMovementService, useValue: movementService },
+        { provide: WarehouseService, useValue: warehouseService }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(StockHistoryComponent);
+    component = fixture.componentInstance;
+    notifications = TestBed.inject(NotificationService);
+    fixture.componentRef.setInput('product', product);
+    fixture.detectChanges();
+  });
+
+  /**
+   * Prueba que los movimientos se listen del más reciente al más antiguo, con su saldo.
+   */
+  it('should list the movements newest first with the resulting stock', () => {
+    const rows = Array.from(fixture.nativeElement.querySelectorAll('.movement-row')) as HTMLElement[];
+
+    expect(movementService.getMovements).toHaveBeenCalledWith('2');
+    expect(rows.map(row => row.querySelector('.movement-quantity')?.textContent?.trim())).toEqual(['-3', '+5']);
+    expect(rows.map(row => row.querySelector('.movement-balance')?.textContent?.trim())).toEqual(['2', '5']);
+    expect(rows[0].textContent).toContain('Venta');
+    expect(rows[0].textContent).toContain('Boleta 881');
+  });
+
+  /**
+   * Prueba que se dibuje el gráfico del stock en el tiempo.
+   */
+  it('should draw the stock chart', () => {
+    const polyline = fixture.nativeElement.querySelector('.stock-chart polyline');
+    expect(polyline.getAttribute('points')).toBe('0,0 600,0 600,72');
+  });
+
+  /**
+   * Prueba que una venta se registre con cantidad negativa y se emita el producto actualizado.
+   */
+  it('should record a sale as a negative quantity', () => {
+    const updated = { ...product, stock: 1, version: 4 };
+    const stored: StockMovement = { id: 'm3', productId: '2', type: 'sale', quantity: -1, user: 'Ana', createdAt: '2024-05-03T12:00:00.000Z' };
+    movementService.recordMovement.and.returnValue(of({ movement: stored, product: updated }));
+    const emitted = jasmine.createSpy('productChange');
+    component.productChange.subscribe(emitted);
+
+    component.form.setValue({ type: 'sale', direction: 'in', warehouseId: '', quantity: 1, reason: ' ', user: ' Ana ' });
+    component.onSubmit();
+
+    expect(movementService.recordMovement).toHaveBeenCalledWith({ productId: '2', type: 'sale', quantity: -1, user: 'Ana' });
+    expect(emitted).toHaveBeenCalledWith(updated);
+    expect(component.balances.map(entry => entry.balance)).toEqual([5, 2, 1]);
+    expect(component.form.controls.user.value).toBe(' Ana ');
+  });
+
+  /**
+   * Prueba que un ajuste use el sentido elegido.
+   */
+  it('should record an adjustment in the chosen direction', () => {
+    movementService.recordMovement.and.returnValue(throwError(() => new AppError('validation', 'Rechazado', 400)));
+    spyOn(notifications, 'error');
+
+    component.form.setValue({ type: 'adjustment', direction: 'out', warehouseId: '', quantity: 2, reason: 'Conteo', user: 'Ana' });
+    component.onSubmit();
+
+    expect(movementService.recordMovement).toHaveBeenCalledWith(
+      jasmine.objectContaining({ type: 'adjustment', quantity: -2, reason: 'Conteo' })
+    );
+    expect(notifications.error).toHaveBeenCalledWith(jasmine.any(AppError), 'No se pudo registrar el movimiento');
+  });
+
+  /**
+   * Prueba que no se envíe un movimiento que deja el stock negativo.
+   */
+  it('should not send a movement that takes more units than in stock', () => {
+    component.form.setValue({ type: 'damage', direction: 'in', warehouseId: '', quantity: 3, reason: '', user: 'Ana' });
+    component.onSubmit();
+
+    expect(movementService.recordMovement).not.toHaveBeenCalled();
+    expect(component.form.controls.quantity.hasError('exceedsStock')).toBeTrue();
+  });
+
+  /**
+   * Prueba que con varias bodegas el movimiento se registre en la elegida y se valide su stock.
+   */
+  it('should record the movement at the chosen warehouse', () => {
+    warehouseService.getWarehouses.and.returnValue(of([{ id: 'scl', name: 'Santiago' }, { id: 'vap', name: 'Valparaíso' }]));
+    TestBed.inject(WarehouseStore).load({ force: true });
+    fixture.componentRef.setInput('product', { ...product, warehouseStock: { scl: 2 } });
+    movementService.recordMovement.and.returnValue(throwError(() => new AppError('validation', 'Rechazado', 400)));
+
+    component.form.setValue({ type: 'sale', direction: 'in', warehouseId: 'vap', quantity: 1, reason: '', user: 'Ana' });
+    component.onSubmit();
+    expect(movementService.recordMovement).not.toHaveBeenCalled();
+
+    component.form.setValue({ type: 'receipt', direction: 'in', warehouseId: 'vap', quantity: 1, reason: '', user: 'Ana' });
+    component.onSubmit();
+    expect(movementService.recordMovement).toHaveBeenCalledWith(
+      jasmine.objectContaining({ type: 'receipt', warehouseId: 'vap', quantity: 1 })
+    );
+  });
+});
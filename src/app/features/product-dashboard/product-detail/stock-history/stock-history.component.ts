@@ -0,0 +1,176 @@
+import { Component, EventEmitter, Input, OnInit, Output, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { Product } from '@core/models/product.interface';
+import { RECORDABLE_MOVEMENT_TYPES, STOCK_MOVEMENT_SIGNS, StockMovement, StockMovementType } from '@core/models/stock-movement.interface';
+import { MAX_MOVEMENT_REASON_LENGTH } from '@core/models/stock-movement.schema';
+import { unitsAt } from '@core/models/warehouse-stock';
+import { NotificationService } from '@core/services/notification.service';
+import { StockMovementService } from '@core/services/stock-movement.service';
+import { WarehouseStore } from '@core/state/warehouse.store';
+import { StockMovementTypePipe } from '@shared/pipes';
+import { StockBalance, stockBalances, stockChartPoints } from './stock-chart';
+
+/** Size of the stock chart, in SVG units */
+export const CHART_WIDTH = 600;
+export const CHART_HEIGHT = 120;
+
+/**
+ * Stock ledger of a product: a chart of the stock over time, the
+ * list of movements with the stock each one left, and a form to
+ * record a new movement.
+ *
+ * The form asks for units without sign; receipts and returns add
+ * them, sales and damages remove them, and adjustments go in the
+ * direction the user picks. With several warehouses the user also
+ * picks where the units go in or out; otherwise they go to the main
+ * warehouse. Transfers are made from the dashboard, so they are only
+ * listed here. Once the server records the movement the
+ * updated product is emitted through `productChange`, so the page
+ * shows the new stock and version.
+ */
+@Component({
+  selector: 'app-stock-history',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, StockMovementTypePipe],
+  templateUrl: './stock-history.component.html',
+  styleUrl: './stock-history.component.scss'
+})
+export class StockHistoryComponent implements OnInit {
+  @Input({ required: true }) product!: Product;
+  @Output() productChange = new EventEmitter<Product>();
+
+  readonly types = RECORDABLE_MOVEMENT_TYPES;
+  readonly warehouseStore = inject(WarehouseStore);
+  readonly chartWidth = CHART_WIDTH;
+  readonly chartHeight = CHART_HEIGHT;
+  readonly maxReasonLength = MAX_MOVEMENT_REASON_LENGTH;
+
+  readonly form = inject(FormBuilder).nonNullable.group({
+    type: ['receipt' as StockMovementType],
+    direction: ['in' as 'in' | 'out'],
+    /** Warehouse of the movement; empty for the main warehouse */
+    warehouseId: [''],
+    quantity: [1, [Validators.required, Validators.min(1), Validators.pattern(/^\d+$/)]],
+    reason: ['', Validators.maxLength(MAX_MOVEMENT_REASON_LENGTH)],
+    user: ['', Validators.required]
+  });
+
+  /** Stock after each movement, oldest first */
+  balances: StockBalance[] = [];
+  isLoading = false;
+  loadError = false;
+  isSaving = false;
+
+  private readonly movementService = inject(StockMovementService);
+  private readonly notifications = inject(NotificationService);
+
+  ngOnInit(): void {
+    this.load();
+  }
+
+  /**
+   * Loads the ledger of the product.
+   */
+  load(): void {
+    this.isLoading = true;
+    this.loadError = false;
+    this.movementService.getMovements(this.product.id!).subscribe({
+      next: movements => {
+        this.balances = stockBalances(movements);
+        this.isLoading = false;
+      },
+      error: () => {
+        this.loadError = true;
+        this.isLoading = false;
+      }
+    });
+  }
+
+  /**
+   * Movements with their resulting stock, newest first.
+   */
+  get rows(): StockBalance[] {
+    return [...this.balances].reverse();
+  }
+
+  /**
+   * Points of the stock chart.
+   */
+  get chartPoints(): string {
+    return stockChartPoints(this.balances, CHART_WIDTH, CHART_HEIGHT);
+  }
+
+  /**
+   * Whether the selected type lets the user pick the direction.
+   */
+  get isAdjustment(): boolean {
+    return STOCK_MOVEMENT_SIGNS[this.form.controls.type.value] === null;
+  }
+
+  /**
+   * Signed quantity of the movement being entered.
+   */
+  get signedQuantity(): number {
+    const { type, direction, quantity } = this.form.getRawValue();
+    const sign = STOCK_MOVEMENT_SIGNS[type] ?? (direction === 'out' ? -1 : 1);
+    return sign * Number(quantity);
+  }
+
+  /**
+   * Units at the warehouse selected in the form.
+   *
+   * Products the server has not split by warehouse yet keep all
+   * their units in the main warehouse.
+   */
+  get available(): number {
+    if (!this.product.warehouseStock) {
+      return this.product.stock;
+    }
+    const warehouseId = this.form.controls.warehouseId.value || this.warehouseStore.warehouses()[0]?.id;
+    return warehouseId ? unitsAt(this.product, warehouseId) : this.product.stock;
+  }
+
+  /**
+   * Records the movement entered in the form.
+   *
+   * A movement that would take more units than the selected
+   * warehouse has is flagged on the quantity field without calling
+   * the server.
+   */
+  onSubmit(): void {
+    const quantity = this.form.controls.quantity;
+    if (this.form.valid && this.available + this.signedQuantity < 0) {
+      quantity.setErrors({ exceedsStock: true });
+    }
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    const { type, warehouseId, reason, user } = this.form.getRawValue();
+    const movement: StockMovement = {
+      productId: this.product.id!,
+      type,
+      quantity: this.signedQuantity,
+      ...(warehouseId && { warehouseId }),
+      ...(reason.trim() && { reason: reason.trim() }),
+      user: user.trim()
+    };
+
+    this.isSaving = true;
+    this.movementService.recordMovement(movement).subscribe({
+      next: ({ movement: stored, product }) => {
+        this.isSaving = false;
+        this.balances = stockBalances([...this.balances.map(entry => entry.movement), stored]);
+        this.form.reset({ type, direction: 'in', warehouseId, quantity: 1, reason: '', user });
+        this.productChange.emit(product);
+        this.notifications.success(`Movimiento registrado; stock actual: ${product.stock} unidades`);
+      },
+      error: (error: unknown) => {
+        this.isSaving = false;
+        this.notifications.error(error, 'No se pudo registrar el movimiento');
+      }
+    });
+  }
+}
@@ -0,0 +1,424 @@
+import { ComponentFixture, TestBed, fakeAsync, flushMicrotasks } from '@angular/core/testing';
+import { Router, provideRouter } from '@angular/router';
+import { Subject, of, throwError } from 'rxjs';
+import { NgbModal } from '@ng-bootstrap/ng-bootstrap';
+import { ProductEditorComponent } from './product-editor.component';
+import { ProductConflictDialogComponent } from '../product-conflict-dialog';
+import { ProductService } from '@core/services/product.service';
+import { CategoryService } from '@core/services/category.service';
+import { ExchangeRateService } from '@core/services/exchange-rate.service';
+import { WarehouseService } from '@core/services/warehouse.service';
+import { NotificationService } from '@core/services/notification.service';
+import { ProductStore } from '@core/state/product.store';
+import { REORDER_DEFAULTS, TAX_RATE } from '@core/config/app-config';
+import { AppError } from '@core/models/app-error';
+import { Product } from '@core/models/product.interface';
+import { productFormValue, readProductForm } from '../product-form';
+
+/**
+ * Pruebas unitarias para ProductEditorComponent.
+ * 
+ * Verifica el formulario de creación y edición, que los cambios
+ * se guarden mediante el store y que los conflictos de versión se
+ * resuelvan con el diálogo.
+ */
+describe('ProductEditorComponent', () => {
+  let fixture: ComponentFixture<ProductEditorComponent>;
+  let component: ProductEditorComponent;
+  let productService: jasmine.SpyObj<ProductService>;
+  let modalService: jasmine.SpyObj<NgbModal>;
+  let notificationService: NotificationService;
+  let store: ProductStore;
+  let router: Router;
+
+  const mockProducts: Product[] = [
+    { id: '1', sku: 'APL-IPH15', name: 'iPhone 15', status: 'active', price: { amount: 849990, currency: 'CLP' }, stock: 10, imageUrls: [], version: 1 },
+    {
+      id: '2', sku: 'APL-MBP14', name: 'MacBook Pro', categoryId: 'c2', brand: 'Apple', status: 'active',
+      price: { amount: 2499990, currency: 'CLP' }, stock: 5, imageUrls: ['https://example.com/mbp.jpg'], version: 1
+    }
+  ];
+
+  const newMockProduct: Product = { sku: 'APL-WATCH9', name: 'Apple Watch', status: 'active', price: { amount: 399990, currency: 'CLP' }, stock: 20, imageUrls: [] };
+  const createdMockProduct: Product = { id: '4', ...newMockProduct, version: 1 };
+
+  beforeEach(async () => {
+    productService = jasmine.createSpyObj('ProductService', ['getProducts', 'addProduct', 'updateProduct']);
+    productService.getProducts.and.returnValue(of(mockProducts));
+    modalService = jasmine.createSpyObj('NgbModal', ['open']);
+    const categoryService = jasmine.createSpyObj('CategoryService', ['getCategories']);
+    categoryService.getCategories.and.returnValue(of([
+      { id: 'c1', name: 'Computadores' },
+      { id: 'c2', name: 'Notebooks', parentId: 'c1' }
+    ]));
+    const exchangeRateService = jasmine.createSpyObj('ExchangeRateService', ['getExchangeRates']);
+    exchangeRateService.getExchangeRates.and.returnValue(of({ base: 'CLP', rates: { CLP: 1, USD: 950 } }));
+
+    await TestBed.configureTestingModule({
+      imports: [ProductEditorComponent],
+      providers: [
+        provideRouter([]),
+        { provide: ProductService, useValue: productService },
+        { provide: CategoryService, useValue: categoryService },
+        { provide: ExchangeRateService, useValue: exchangeRateService },
+        { provide: WarehouseService, useValue: jasmine.createSpyObj('WarehouseService', ['getWarehouses']) },
+        { provide: NgbModal, useValue: modalService },
+        { provide: REORDER_DEFAULTS, useValue: { reorderPoint: 10, reorderQuantity: 20 } },
+        { provide: TAX_RATE, useValue: 0.19 }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ProductEditorComponent);
+    component = fixture.componentInstance;
+    notificationService = TestBed.inject(NotificationService);
+    store = TestBed.inject(ProductStore);
+    router = TestBed.inject(Router);
+    spyOn(router, 'navigate').and.resolveTo(true);
+    store.load();
+  });
+
+  /**
+   * Carga un producto en el formulario, como lo haría la ruta de edición.
+   */
+  function editProduct(product: Product): void {
+    fixture.componentRef.setInput('product', product);
+    fixture.detectChanges();
+  }
+
+  /**
+   * Prueba que el formulario se inicialice con las validaciones correctas.
+   */
+  it('should initialize form with correct validators', () => {
+    const nameControl = component.productForm.get('name')!;
+    const priceControl = component.productForm.get('price')!;
+
+    nameControl.setValue('');
+    expect(nameControl.invalid).toBeTruthy();
+    nameControl.setValue('a');
+    expect(nameControl.invalid).toBeTruthy();
+    nameControl.setValue('iPhone');
+    expect(nameControl.valid).toBeTruthy();
+
+    priceControl.setValue(0);
+    expect(priceControl.invalid).toBeTruthy();
+    priceControl.setValue(100);
+    expect(priceControl.valid).toBeTruthy();
+  });
+
+  /**
+   * Prueba que los valores de reposición sean opcionales y se omitan si están vacíos.
+   */
+  it('should leave empty reorder values to the defaults', () => {
+    fixture.detectChanges();
+    const reorderPoint: HTMLInputElement = fixture.nativeElement.querySelector('#reorderPoint');
+    expect(reorderPoint.placeholder).toBe('Por defecto: 10');
+
+    component.productForm.patchValue({ ...productFormValue(newMockProduct), reorderQuantity: 0 });
+    expect(component.reorderQuantity?.invalid).toBeTrue();
+
+    component.productForm.patchValue({ reorderPoint: 3, reorderQuantity: null });
+    expect(readProductForm(component.productForm)).toEqual({ ...newMockProduct, reorderPoint: 3 });
+  });
+
+  /**
+   * Prueba que el nombre y el SKU se guarden sin espacios sobrantes.
+   */
+  it('should trim the name and the SKU', () => {
+    component.productForm.patchValue({ ...productFormValue(newMockProduct), sku: ' apl-watch9 ', name: '  Apple Watch ' });
+
+    expect(readProductForm(component.productForm)).toEqual(newMockProduct);
+  });
+
+  /**
+   * Prueba que la moneda del precio se elija entre las que tienen tasa de cambio.
+   */
+  it('should offer the currencies with an exchange rate for the price', () => {
+    fixture.detectChanges();
+    const options = Array.from(fixture.nativeElement.querySelectorAll('#currency option')) as HTMLOptionElement[];
+    expect(options.map(option => option.value)).toEqual(['CLP', 'USD']);
+    expect(component.priceStep).toBe(1);
+
+    component.productForm.patchValue({ ...productFormValue(newMockProduct), price: 429.99, currency: 'USD' });
+    expect(component.priceStep).toBe(0.01);
+    expect(readProductForm(component.productForm)).toEqual({ ...newMockProduct, price: { amount: 429.99, currency: 'USD' } });
+  });
+
+  /**
+   * Prueba que el precio neto y el precio con IVA se calculen uno a partir del otro.
+   */
+  it('should calculate the price with IVA from the net price and back', () => {
+    fixture.detectChanges();
+    component.productForm.patchValue(productFormValue(newMockProduct));
+    expect(component.netPrice.value).toBe(336126);
+
+    component.netPrice.setValue(100000);
+    expect(component.price?.value).toBe(119000);
+    expect(component.price?.dirty).toBeTrue();
+
+    component.productForm.patchValue({ taxCategory: 'exempt' });
+    expect(component.netPrice.value).toBe(119000);
+    expect(readProductForm(component.productForm)).toEqual({ ...newMockProduct, price: { amount: 119000, currency: 'CLP' }, taxCategory: 'exempt' });
+  });
+
+  /**
+   * Grupo de pruebas para la creación de productos.
+   */
+  describe('Create mode', () => {
+    beforeEach(() => {
+      fixture.detectChanges();
+    });
+
+    /**
+     * Prueba que se agregue el producto y se navegue a su detalle.
+     */
+    it('should add the product and open its detail page', () => {
+      productService.addProduct.and.returnValue(of(createdMockProduct));
+
+      component.productForm.patchValue(productFormValue(newMockProduct));
+      component.onSubmit();
+
+      expect(productService.addProduct).toHaveBeenCalledWith(newMockProduct);
+      expect(store.products()[2]).toEqual(createdMockProduct);
+      expect(router.navigate).toHaveBeenCalledWith(['/productos', '4']);
+      expect(notificationService.notifications()).toEqual([
+        jasmine.objectContaining({ type: 'success', message: 'Producto "Apple Watch" agregado' })
+      ]);
+    });
+
+    /**
+     * Prueba que la página espere la respuesta del servidor antes de salir.
+     */
+    it('should stay on the page while the product is being saved', () => {
+      const response = new Subject<Product>();
+      productService.addProduct.and.returnValue(response);
+
+      component.productForm.patchValue(productFormValue(newMockProduct));
+      component.onSubmit();
+      fixture.detectChanges();
+
+      expect(component.isSaving).toBeTrue();
+      expect(fixture.nativeElement.querySelector('.save-btn').disabled).toBeTrue();
+      expect(router.navigate).not.toHaveBeenCalled();
+    });
+
+    /**
+     * Prueba que un formulario inválido solo muestre sus errores.
+     */
+    it('should not add product when form is invalid', () => {
+      component.productForm.patchValue({ sku: 'APL-X1', name: '', price: 100000, stock: 5 });
+
+      component.onSubmit();
+      fixture.detectChanges();
+
+      expect(productService.addProduct).not.toHaveBeenCalled();
+      expect(fixture.nativeElement.querySelector('.invalid-feedback').textContent).toContain('El nombre es obligatorio');
+    });
+
+    /**
+     * Prueba que un error al agregar permita corregir y reintentar.
+     */
+    it('should handle error when adding product', () => {
+      productService.addProduct.and.returnValue(throwError(() => new Error('Server error')));
+
+      component.productForm.patchValue(productFormValue(newMockProduct));
+      component.onSubmit();
+
+      expect(component.isSaving).toBeFalse();
+      expect(component.productForm.value).toEqual(productFormValue(newMockProduct));
+      expect(router.navigate).not.toHaveBeenCalled();
+      expect(notificationService.notifications()).toEqual([
+        jasmine.objectContaining({ type: 'error', title: 'No se pudo agregar el producto' })
+      ]);
+    });
+
+    /**
+     * Prueba que se normalicen el SKU, los textos y la lista de imágenes.
+     */
+    it('should normalize the SKU, texts and image list', () => {
+      productService.addProduct.and.returnValue(of(createdMockProduct));
+
+      component.productForm.patchValue({
+        ...productFormValue(newMockProduct),
+        sku: ' apl-watch9 ',
+        brand: '  ',
+        categoryId: 'c2',
+        imageUrls: 'https://example.com/a.jpg\n\n  https://example.com/b.jpg '
+      });
+      component.onSubmit();
+
+      expect(productService.addProduct).toHaveBeenCalledWith({
+        ...newMockProduct,
+        categoryId: 'c2',
+        imageUrls: ['https://example.com/a.jpg', 'https://example.com/b.jpg']
+      });
+    });
+
+    /**
+     * Prueba que las categorías se ofrezcan con su ruta completa.
+     */
+    it('should offer the categories by their full path', () => {
+      fixture.detectChanges();
+
+      const options = Array.from<HTMLOptionElement>(fixture.nativeElement.querySelectorAll('#categoryId option'));
+      expect(options.map(option => option.textContent)).toEqual(['Sin categoría', 'Computadores', 'Computadores > Notebooks']);
+    });
+
+    /**
+     * Prueba que se rechacen SKU e imágenes con formato inválido.
+     */
+    it('should validate the SKU and image URLs', () => {
+      component.productForm.patchValue({ sku: 'A 1', imageUrls: 'ftp://example.com/a.jpg' });
+
+      expect(component.sku?.errors).toEqual({ pattern: jasmine.any(Object) });
+      expect(component.imageUrls?.errors).toEqual({ url: true });
+    });
+
+    /**
+     * Prueba que un SKU ya usado se marque en su campo.
+     */
+    it('should flag a SKU already used by another product', () => {
+      const taken = new AppError('conflict', 'Conflicto', 409, { error: 'SKU APL-WATCH9 is already used', field: 'sku' });
+      productService.addProduct.and.returnValue(throwError(() => taken));
+
+      component.productForm.patchValue(productFormValue(newMockProduct));
+      component.onSubmit();
+      fixture.detectChanges();
+
+      expect(component.sku?.hasError('duplicate')).toBeTrue();
+      expect(fixture.nativeElement.querySelector('.invalid-feedback').textContent)
+        .toContain('Ya existe otro producto con este SKU');
+      expect(notificationService.notifications()).toEqual([]);
+    });
+
+    /**
+     * Prueba que cancelar vuelva al listado.
+     */
+    it('should link back to the list', () => {
+      expect(fixture.nativeElement.querySelector('.card-footer a').getAttribute('href')).toBe('/productos');
+    });
+  });
+
+  /**
+   * Grupo de pruebas para la edición de productos.
+   */
+  describe('Edit mode', () => {
+    /**
+     * Prueba que el formulario se precargue con el producto de la ruta.
+     */
+    it('should prefill the form with the resolved product', () => {
+      editProduct(mockProducts[1]);
+
+      expect(component.isEditMode).toBeTrue();
+      expect(component.productForm.value).toEqual({
+        sku: 'APL-MBP14',
+        name: 'MacBook Pro',
+        categoryId: 'c2',
+        brand: 'Apple',
+        status: 'active',
+        price: { amount: 2499990, currency: 'CLP' },
+        stock: 5,
+        description: '',
+        imageUrls: 'https://example.com/mbp.jpg'
+      });
+      expect(component.productForm.pristine).toBeTrue();
+      expect(fixture.nativeElement.querySelector('.card-footer a').getAttribute('href')).toBe('/productos/2');
+    });
+
+    /**
+     * Prueba que se actualice el producto con la versión cargada.
+     */
+    it('should update the product with the version it was loaded with', () => {
+      const updated: Product = { ...mockProducts[1], name: 'MacBook Pro M3', price: { amount: 2299990, currency: 'CLP' }, stock: 4, version: 2 };
+      productService.updateProduct.and.returnValue(of(updated));
+      editProduct(mockProducts[1]);
+
+      component.productForm.patchValue({ name: 'MacBook Pro M3', price: 2299990, stock: 4 });
+      component.onSubmit();
+
+      expect(productService.updateProduct).toHaveBeenCalledWith('2', { ...updated, version: 1 });
+      expect(productService.addProduct).not.toHaveBeenCalled();
+      expect(store.products()[1]).toEqual(updated);
+      expect(router.navigate).toHaveBeenCalledWith(['/productos', '2']);
+    });
+
+    /**
+     * Prueba que un error al actualizar revierta el catálogo y se notifique.
+     */
+    it('should handle error when updating product', () => {
+      productService.updateProduct.and.returnValue(throwError(() => new Error('Server error')));
+      editProduct(mockProducts[0]);
+
+      component.productForm.patchValue({ stock: 12 });
+      component.onSubmit();
+
+      expect(notificationService.notifications()).toEqual([
+        jasmine.objectContaining({ type: 'error', title: 'No se pudo actualizar el producto' })
+      ]);
+      expect(store.products()[0]).toEqual(mockProducts[0]);
+      expect(component.isSaving).toBeFalse();
+    });
+
+    /**
+     * Prueba que un conflicto de versión abra el diálogo y guarde lo elegido.
+     */
+    it('should resolve a version conflict through the conflict dialog', fakeAsync(() => {
+      const current: Product = { id: '2', name: 'MacBook Pro', price: { amount: 2299990, currency: 'CLP' }, stock: 5, version: 2 };
+      const resolved: Product = { id: '2', name: 'MacBook Pro M3', price: { amount: 2299990, currency: 'CLP' }, stock: 5, version: 2 };
+      const conflict = new AppError('conflict', 'Conflicto', 409, { error: 'Stale version', current });
+      const dialogRef = { componentInstance: {} as Record<string, unknown>, result: Promise.resolve(resolved) };
+      productService.updateProduct.and.returnValues(throwError(() => conflict), of({ ...resolved, version: 3 }));
+      modalService.open.and.returnValue(dialogRef as any);
+      editProduct(mockProducts[1]);
+
+      component.productForm.patchValue({ name: 'MacBook Pro M3' });
+      component.onSubmit();
+
+      expect(modalService.open).toHaveBeenCalledWith(ProductConflictDialogComponent, jasmine.any(Object));
+      expect(dialogRef.componentInstance['current']).toEqual(current);
+      expect(store.products()[1]).toEqual(current);
+
+      flushMicrotasks();
+
+      expect(productService.updateProduct).toHaveBeenCalledWith('2', resolved);
+      expect(store.products()[1].version).toBe(3);
+      expect(notificationService.notifications()).toEqual([
+        jasmine.objectContaining({ type: 'success', message: 'Producto "MacBook Pro M3" actualizado' })
+      ]);
+    }));
+
+    /**
+     * Prueba que mantener la versión del servidor lleve al detalle del producto.
+     */
+    it('should open the detail page when the server copy is kept', fakeAsync(() => {
+      const current: Product = { id: '2', name: 'MacBook Pro', price: { amount: 2299990, currency: 'CLP' }, stock: 5, version: 2 };
+      const conflict = new AppError('conflict', 'Conflicto', 409, { error: 'Stale version', current });
+      productService.updateProduct.and.returnValue(throwError(() => conflict));
+      modalService.open.and.returnValue({ componentInstance: {}, result: Promise.reject('discard') } as any);
+      editProduct(mockProducts[1]);
+
+      component.productForm.patchValue({ stock: 1 });
+      component.onSubmit();
+      flushMicrotasks();
+
+      expect(router.navigate).toHaveBeenCalledWith(['/productos', '2']);
+      expect(notificationService.notifications()[0].type).toBe('info');
+    }));
+  });
+
+  /**
+   * Grupo de pruebas para los getters del formulario.
+   */
+  describe('Form Getters', () => {
+    /**
+     * Prueba que los getters retornen los controles correctos.
+     */
+    it('should return correct form controls', () => {
+      expect(component.name).toBe(component.productForm.get('name'));
+      expect(component.price).toBe(component.productForm.get('price'));
+      expect(component.stock).toBe(component.productForm.get('stock'));
+      expect(component.sku).toBe(component.productForm.get('sku'));
+      expect(component.description).toBe(component.productForm.get('description'));
+      expect(component.imageUrls).toBe(component.productForm.get('imageUrls'));
+    });
+  });
+});
@@ -0,0 +1,310 @@
+import { Component, DestroyRef, Input, OnChanges, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, FormControl, FormGroup, ReactiveFormsModule } from '@angular/forms';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { Router, RouterLink } from '@angular/router';
+import { NgbModal } from '@ng-bootstrap/ng-bootstrap';
+import { REORDER_DEFAULTS, TAX_RATE } from '@core/config/app-config';
+import { CurrencyCode, DEFAULT_CURRENCY } from '@core/models/money';
+import { PRODUCT_STATUSES, Product, ProductId, TAX_CATEGORIES } from '@core/models/product.interface';
+import { breakdownFromGross, grossFromNet, taxRateOf } from '@core/models/tax';
+import { readUniqueConflict, readVersionConflict } from '@core/models/product-conflict';
+import { NotificationService } from '@core/services/notification.service';
+import { ProductStore } from '@core/state/product.store';
+import { CategoryStore } from '@core/state/category.store';
+import { CurrencyStore } from '@core/state/currency.store';
+import { ProductStatusPipe, TaxCategoryPipe } from '@shared/pipes';
+import { createProductForm, productFormValue, readProductForm } from '../product-form';
+import { ProductConflictDialogComponent } from '../product-conflict-dialog';
+
+/**
+ * Page to create a product or edit an existing one.
+ * 
+ * Served at `/productos/nuevo` and `/productos/:id/editar`. In edit
+ * mode the route resolves the latest version of the product, which
+ * is bound to the `product` input and prefills the form.
+ * 
+ * Changes are saved through the store, so the catalog table shows
+ * them as soon as the user goes back to it. Once the server confirms,
+ * the page navigates to the product detail. A name or SKU that
+ * another product already uses is flagged on its field.
+ * 
+ * The price is stored with IVA included, but staff can type either
+ * that or the net price; the other is calculated with the IVA rate
+ * of the app configuration.
+ */
+@Component({
+  selector: 'app-product-editor',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule, RouterLink, ProductStatusPipe, TaxCategoryPipe],
+  templateUrl: './product-editor.component.html',
+  styleUrl: './product-editor.component.scss'
+})
+export class ProductEditorComponent implements OnInit, OnChanges {
+  /** Product being edited, resolved by the route; undefined when creating */
+  @Input() product?: Product;
+
+  readonly productForm: FormGroup = createProductForm(inject(FormBuilder));
+  readonly statuses = PRODUCT_STATUSES;
+  readonly taxCategories = TAX_CATEGORIES;
+  /**
+   * Price before IVA. Not part of the product: typing here fills in
+   * the price with IVA, and changes to the price, currency or tax
+   * category recalculate it.
+   */
+  readonly netPrice = new FormControl<number | null>(null);
+  /** Categories offered by the category select */
+  readonly categoryStore = inject(CategoryStore);
+  /** Reorder values used when the product leaves them empty */
+  readonly reorderDefaults = inject(REORDER_DEFAULTS);
+  /** IVA rate included in the price of taxed products */
+  readonly taxRate = inject(TAX_RATE);
+  isSaving = false;
+
+  private readonly store = inject(ProductStore);
+  private readonly currencyStore = inject(CurrencyStore);
+  private readonly modalService = inject(NgbModal);
+  private readonly notifications = inject(NotificationService);
+  private readonly router = inject(Router);
+  private readonly destroyRef = inject(DestroyRef);
+
+  ngOnInit(): void {
+    this.categoryStore.load();
+    this.currencyStore.load();
+
+    this.updateNetPrice();
+    this.productForm.valueChanges
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(() => this.updateNetPrice());
+    this.netPrice.valueChanges
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe(net => this.updateGrossPrice(net));
+  }
+
+  ngOnChanges(): void {
+    if (this.product) {
+      this.productForm.reset(productFormValue(this.product));
+    }
+  }
+
+  /**
+   * Whether the page is editing an existing product.
+   */
+  get isEditMode(): boolean {
+    return this.product !== undefined;
+  }
+
+  /**
+   * Route the cancel button goes back to.
+   */
+  get backLink(): string[] {
+    return this.product ? ['/productos', this.product.id!] : ['/productos'];
+  }
+
+  /**
+   * Processes the form submission to create or update a product.
+   * 
+   * Invalid forms only reveal their errors. Valid ones are sent to
+   * the store, and the page stays open until the server answers so a
+   * rejected change can be fixed without typing it again.
+   */
+  onSubmit(): void {
+    if (this.productForm.invalid) {
+      this.productForm.markAllAsTouched();
+      return;
+    }
+
+    this.isSaving = true;
+    const values = readProductForm(this.productForm);
+    if (this.product) {
+      this.saveChanges(this.product.id!, { ...values, id: this.product.id, version: this.product.version });
+      return;
+    }
+
+    this.store.add(values).subscribe({
+      next: (product: Product) => {
+        this.notifications.success(`Producto "${product.name}" agregado`);
+        this.router.navigate(['/productos', product.id]);
+      },
+      error: (error: unknown) => {
+        this.isSaving = false;
+        if (!this.flagTakenField(error)) {
+          this.notifications.error(error, 'No se pudo agregar el producto');
+        }
+      }
+    });
+  }
+
+  /**
+   * Saves a product, asking the user to resolve the conflict if
+   * someone else changed it since it was loaded.
+   * 
+   * @param id - Unique ID of the product
+   * @param changes - Values to save, with the version they are based on
+   */
+  private saveChanges(id: ProductId, changes: Product): void {
+    this.store.update(id, changes).subscribe({
+      next: (product: Product) => {
+        this.notifications.success(`Producto "${product.name}" actualizado`);
+        this.router.navigate(['/productos', id]);
+      },
+      error: (error: unknown) => {
+        const current = readVersionConflict(error);
+        if (current) {
+          this.resolveConflict(id, changes, current);
+        } else {
+          this.isSaving = false;
+          if (!this.flagTakenField(error)) {
+            this.notifications.error(error, 'No se pudo actualizar el producto');
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Opens the conflict dialog and saves the values the user picks.
+   * 
+   * Keeping the server's copy leaves the page for the product
+   * detail, which shows the current values.
+   * 
+   * @param id - Unique ID of the product
+   * @param mine - Values the user tried to save
+   * @param current - Product as currently stored on the server
+   */
+  private resolveConflict(id: ProductId, mine: Product, current: Product): void {
+    const modalRef = this.modalService.open(ProductConflictDialogComponent, {
+      size: 'lg',
+      backdrop: 'static'
+    });
+    modalRef.componentInstance.mine = mine;
+    modalRef.componentInstance.current = current;
+
+    modalRef.result.then(
+      (resolved: Product) => this.saveChanges(id, resolved),
+      () => {
+        this.notifications.info(`Se mantuvo la versión actual de "${current.name}"`);
+        this.router.navigate(['/productos', id]);
+      }
+    );
+  }
+
+  /**
+   * Marks the name or SKU field as taken if the server rejected the
+   * product because another one already uses that value.
+   * 
+   * @param error - Error of the save request
+   * @returns Whether the error was a uniqueness conflict
+   */
+  private flagTakenField(error: unknown): boolean {
+    const field = readUniqueConflict(error);
+    if (!field) {
+      return false;
+    }
+    const control = this.productForm.get(field)!;
+    control.setErrors({ ...control.errors, duplicate: true });
+    control.markAsTouched();
+    return true;
+  }
+
+  /**
+   * Getter to access the 'sku' form control.
+   */
+  get sku() {
+    return this.productForm.get('sku');
+  }
+
+  /**
+   * Getter to access the 'name' form control.
+   */
+  get name() {
+    return this.productForm.get('name');
+  }
+
+  /**
+   * Getter to access the 'price' form control.
+   */
+  get price() {
+    return this.productForm.get('price');
+  }
+
+  /**
+   * Currencies offered for the price, including the product's own
+   * while the exchange rates have not arrived.
+   */
+  get currencies(): CurrencyCode[] {
+    const current = this.productForm.get('currency')?.value;
+    const currencies = this.currencyStore.currencies();
+    return currencies.includes(current) ? currencies : [...currencies, current];
+  }
+
+  /**
+   * Step of the price inputs: whole pesos, or cents in other currencies.
+   */
+  get priceStep(): number {
+    return this.productForm.get('currency')?.value === DEFAULT_CURRENCY ? 1 : 0.01;
+  }
+
+  /**
+   * IVA rate of the product being edited; 0 when it is exempt.
+   */
+  get appliedTaxRate(): number {
+    return taxRateOf({ taxCategory: this.productForm.get('taxCategory')?.value }, this.taxRate);
+  }
+
+  /**
+   * Getter to access the 'stock' form control.
+   */
+  get stock() {
+    return this.productForm.get('stock');
+  }
+
+  /**
+   * Getter to access the 'reorderPoint' form control.
+   */
+  get reorderPoint() {
+    return this.productForm.get('reorderPoint');
+  }
+
+  /**
+   * Getter to access the 'reorderQuantity' form control.
+   */
+  get reorderQuantity() {
+    return this.productForm.get('reorderQuantity');
+  }
+
+  /**
+   * Getter to access the 'description' form control.
+   */
+  get description() {
+    return this.productForm.get('description');
+  }
+
+  /**
+   * Getter to access the 'imageUrls' form control.
+   */
+  get imageUrls() {
+    return this.productForm.get('imageUrls');
+  }
+
+  /**
+   * Shows the net amount of the price with IVA.
+   */
+  private updateNetPrice(): void {
+    const { price, currency } = this.productForm.getRawValue();
+    const net = typeof price === 'number' ? breakdownFromGross({ amount: price, currency }, this.appliedTaxRate).net.amount : null;
+    this.netPrice.setValue(net, { emitEvent: false });
+  }
+
+  /**
+   * Fills in the price with IVA from a net amount typed by the user.
+   */
+  private updateGrossPrice(net: number | null): void {
+    const currency = this.productForm.get('currency')!.value;
+    this.price!.setValue(typeof net === 'number' ? grossFromNet({ amount: net, currency }, this.appliedTaxRate).amount : null, {
+      emitEvent: false
+    });
+    this.price!.markAsDirty();
+    this.price!.markAsTouched();
+  }
+}
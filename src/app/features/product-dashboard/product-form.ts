@@ -0,0 +1,197 @@
+import { AbstractControl, FormBuilder, FormGroup, ValidationErrors, Validators } from '@angular/forms';
+import { CURRENCY_CODE_PATTERN, DEFAULT_CURRENCY } from '@core/models/money';
+import { Product } from '@core/models/product.interface';
+import { MAX_DESCRIPTION_LENGTH, SKU_PATTERN, isImageUrl } from '@core/models/product.schema';
+
+/** Fields edited through the product form */
+export type ProductFormField =
+  | 'sku'
+  | 'name'
+  | 'categoryId'
+  | 'brand'
+  | 'status'
+  | 'price'
+  | 'currency'
+  | 'taxCategory'
+  | 'stock'
+  | 'reorderPoint'
+  | 'reorderQuantity'
+  | 'description'
+  | 'imageUrls';
+
+/** Product values edited through the form */
+export type ProductFormValue = Omit<Product, 'id' | 'version' | 'createdAt' | 'updatedAt' | 'deletedAt'>;
+
+/**
+ * Messages shown for each validation error of the product form,
+ * keyed by field and validator name.
+ */
+const ERROR_MESSAGES: Record<ProductFormField, Record<string, string>> = {
+  sku: {
+    required: 'El SKU es obligatorio',
+    pattern: 'El SKU debe tener de 3 a 32 letras, números o guiones',
+    duplicate: 'Ya existe otro producto con este SKU'
+  },
+  name: {
+    required: 'El nombre es obligatorio',
+    minlength: 'El nombre debe tener al menos 2 caracteres',
+    duplicate: 'Ya existe otro producto con este nombre'
+  },
+  categoryId: {},
+  brand: {},
+  status: {
+    required: 'El estado es obligatorio'
+  },
+  price: {
+    required: 'El precio es obligatorio',
+    min: 'El precio debe ser al menos 1'
+  },
+  currency: {
+    required: 'La moneda es obligatoria',
+    pattern: 'La moneda debe ser un código de 3 letras, como CLP o USD'
+  },
+  taxCategory: {
+    required: 'Indica si el producto está afecto a IVA'
+  },
+  stock: {
+    required: 'El stock es obligatorio',
+    min: 'El stock no puede ser negativo'
+  },
+  reorderPoint: {
+    min: 'El punto de reorden no puede ser negativo'
+  },
+  reorderQuantity: {
+    min: 'La cantidad a reponer debe ser al menos 1'
+  },
+  description: {
+    maxlength: `La descripción no puede superar los ${MAX_DESCRIPTION_LENGTH} caracteres`
+  },
+  imageUrls: {
+    url: 'Cada imagen debe ser una dirección http:// o https://'
+  }
+};
+
+/**
+ * Creates the form used to add and edit products.
+ * 
+ * Shared by the product editor and the catalog import, so imported
+ * rows are checked with exactly the same rules as typed ones.
+ * 
+ * An empty category means an uncategorized product, and an empty
+ * reorder point or quantity means the default of the app
+ * configuration. Prices start in CLP, IVA included, and products
+ * start taxed. The image URLs
+ * are edited as text, one per line; use
+ * readProductForm() and productFormValue() to convert between the
+ * form and a product.
+ * 
+ * @param fb - Form builder; a new one is used when omitted
+ */
+export function createProductForm(fb: FormBuilder = new FormBuilder()): FormGroup {
+  return fb.group({
+    sku: ['', [Validators.required, Validators.pattern(SKU_PATTERN)]],
+    name: ['', [Validators.required, Validators.minLength(2)]],
+    categoryId: [''],
+    brand: [''],
+    status: ['active', Validators.required],
+    price: [0, [Validators.required, Validators.min(1)]],
+    currency: [DEFAULT_CURRENCY, [Validators.required, Validators.pattern(CURRENCY_CODE_PATTERN)]],
+    taxCategory: ['standard', Validators.required],
+    stock: [0, [Validators.required, Validators.min(0)]],
+    reorderPoint: [null as number | null, Validators.min(0)],
+    reorderQuantity: [null as number | null, Validators.min(1)],
+    description: ['', Validators.maxLength(MAX_DESCRIPTION_LENGTH)],
+    imageUrls: ['', imageUrlsValidator]
+  });
+}
+
+/**
+ * Turns a product into the values of the product form.
+ * 
+ * @param product - Product to edit
+ */
+export function productFormValue(product: Product): Record<ProductFormField, unknown> {
+  return {
+    sku: product.sku ?? '',
+    name: product.name,
+    categoryId: product.categoryId ?? '',
+    brand: product.brand ?? '',
+    status: product.status ?? 'active',
+    price: product.price.amount,
+    currency: product.price.currency,
+    taxCategory: product.taxCategory ?? 'standard',
+    stock: product.stock,
+    reorderPoint: product.reorderPoint ?? null,
+    reorderQuantity: product.reorderQuantity ?? null,
+    description: product.description ?? '',
+    imageUrls: (product.imageUrls ?? []).join('\n')
+  };
+}
+
+/**
+ * Reads the values of the product form, ready to be saved.
+ * 
+ * Texts are trimmed, the SKU is turned to uppercase and empty
+ * optional texts, an empty category and empty reorder values are
+ * left out. The tax category is only written for exempt products.
+ * 
+ * @param form - Form created by createProductForm()
+ */
+export function readProductForm(form: FormGroup): ProductFormValue {
+  const value = form.getRawValue();
+  const brand = value.brand.trim();
+  const description = value.description.trim();
+  return {
+    sku: value.sku.trim().toUpperCase(),
+    name: value.name.trim(),
+    ...(value.categoryId && { categoryId: value.categoryId }),
+    ...(brand && { brand }),
+    status: value.status,
+    price: { amount: value.price, currency: value.currency },
+    ...(value.taxCategory !== 'standard' && { taxCategory: value.taxCategory }),
+    stock: value.stock,
+    ...(isSet(value.reorderPoint) && { reorderPoint: value.reorderPoint }),
+    ...(isSet(value.reorderQuantity) && { reorderQuantity: value.reorderQuantity }),
+    ...(description && { description }),
+    imageUrls: imageUrlLines(value.imageUrls)
+  };
+}
+
+/**
+ * Lists the validation errors of a product form as messages.
+ * 
+ * @param form - Form created by createProductForm()
+ * @param fields - Fields to check; all of them by default
+ * @returns One message per failing rule, in field order
+ */
+export function productFormErrors(
+  form: FormGroup,
+  fields = Object.keys(ERROR_MESSAGES) as ProductFormField[]
+): string[] {
+  const messages: string[] = [];
+  for (const field of fields) {
+    const errors: ValidationErrors | null = form.get(field)?.errors ?? null;
+    for (const key of Object.keys(errors ?? {})) {
+      messages.push(ERROR_MESSAGES[field][key] ?? `${field} no es válido`);
+    }
+  }
+  return messages;
+}
+
+/**
+ * Checks that every line of the image URLs text is an http(s) URL.
+ */
+function imageUrlsValidator(control: AbstractControl<string>): ValidationErrors | null {
+  return imageUrlLines(control.value ?? '').every(isImageUrl) ? null : { url: true };
+}
+
+/**
+ * Whether an optional number input has a value.
+ */
+function isSet(value: number | null | ''): value is number {
+  return value !== null && value !== '';
+}
+
+function imageUrlLines(text: string): string[] {
+  return text.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '');
+}
@@ -0,0 +1,174 @@
+import { buildImportRows, missingFields } from './catalog-import';
+import { ImportTable } from './catalog-parser';
+import { Product } from '@core/models/product.interface';
+
+/**
+ * Pruebas unitarias para la preparación de filas importadas.
+ * 
+ * Verifica que cada fila se valide con las reglas del formulario
+ * de productos y que se asocie con el catálogo existente.
+ */
+describe('Catalog import', () => {
+  const mapping = { id: null, name: 0, price: 1, stock: 2, sku: 3, currency: null };
+  const catalog: Product[] = [
+    { id: 'a7c6', sku: 'APL-IPH15', name: 'iPhone 15', categoryId: 'c3', price: { amount: 849990, currency: 'CLP' }, stock: 10, version: 4 },
+    { id: 'b3f1', sku: 'APL-WATCH', name: 'Apple Watch', price: { amount: 399.99, currency: 'USD' }, stock: 4, version: 1 }
+  ];
+
+  /**
+   * Prueba que se informen los campos obligatorios sin columna.
+   */
+  it('should list the required fields without a column', () => {
+    expect(missingFields({ id: null, sku: null, name: 0, price: null, currency: null, stock: 2 })).toEqual(['price']);
+  });
+
+  /**
+   * Prueba que una fila válida genere un producto nuevo.
+   */
+  it('should build new products from valid rows', () => {
+    const table: ImportTable = {
+      headers: ['Nombre', 'Precio', 'Stock', 'SKU'],
+      rows: [['AirPods Pro', '249.990', '30', 'apl-airpods']]
+    };
+
+    expect(buildImportRows(table, mapping, catalog)).toEqual([{
+      line: 2,
+      product: { sku: 'APL-AIRPODS', name: 'AirPods Pro', price: { amount: 249990, currency: 'CLP' }, stock: 30 },
+      existing: undefined,
+      errors: []
+    }]);
+  });
+
+  /**
+   * Prueba que las filas se asocien por nombre con el producto existente.
+   */
+  it('should update the product with the same name', () => {
+    const table: ImportTable = { headers: [], rows: [['iphone 15 ', '799.990', '12']] };
+
+    const [row] = buildImportRows(table, mapping, catalog);
+
+    expect(row.existing).toBe(catalog[0]);
+    expect(row.product).toEqual({
+      id: 'a7c6', sku: 'APL-IPH15', name: 'iphone 15', categoryId: 'c3', price: { amount: 799990, currency: 'CLP' }, stock: 12, version: 4
+    });
+  });
+
+  /**
+   * Prueba que las filas se asocien por SKU aunque el nombre cambie.
+   */
+  it('should update the product with the same SKU', () => {
+    const table: ImportTable = { headers: [], rows: [['iPhone 15 128 GB', '799.990', '12', 'apl-iph15']] };
+
+    const [row] = buildImportRows(table, mapping, catalog);
+
+    expect(row.existing).toBe(catalog[0]);
+    expect(row.product.name).toBe('iPhone 15 128 GB');
+    expect(row.errors).toEqual([]);
+  });
+
+  /**
+   * Prueba que los productos nuevos exijan un SKU válido.
+   */
+  it('should require a valid SKU for new products', () => {
+    const table: ImportTable = { headers: [], rows: [['Mouse', '9.990', '3', ''], ['Teclado', '19.990', '2', 'T 1']] };
+
+    const rows = buildImportRows(table, mapping, catalog);
+
+    expect(rows[0].errors).toEqual(['El SKU es obligatorio']);
+    expect(rows[1].errors).toEqual(['El SKU debe tener de 3 a 32 letras, números o guiones']);
+  });
+
+  /**
+   * Prueba que se apliquen las mismas reglas que en el formulario.
+   */
+  it('should report the product form errors of each row', () => {
+    const table: ImportTable = {
+      headers: [],
+      rows: [
+        ['A', '0', '5', 'ACC-A'],
+        ['Cable', 'gratis', '2,5', 'ACC-CABLE'],
+        ['', '', '', 'ACC-VACIO']
+      ]
+    };
+
+    const rows = buildImportRows(table, mapping, catalog);
+
+    expect(rows[0].errors).toEqual([
+      'El nombre debe tener al menos 2 caracteres',
+      'El precio debe ser al menos 1'
+    ]);
+    expect(rows[1].errors).toEqual(['El precio no es un número', 'El stock debe ser un número entero']);
+    expect(rows[2].errors).toEqual([
+      'El nombre es obligatorio',
+      'El precio es obligatorio',
+      'El stock es obligatorio'
+    ]);
+  });
+
+  /**
+   * Prueba que se marquen los nombres repetidos dentro del archivo.
+   */
+  it('should flag names repeated in the file', () => {
+    const table: ImportTable = { headers: [], rows: [['Mouse', '9.990', '3', 'ACC-1'], ['MOUSE', '8.990', '4', 'ACC-2']] };
+
+    const rows = buildImportRows(table, mapping, []);
+
+    expect(rows[0].errors).toEqual([]);
+    expect(rows[1].errors).toEqual(['El nombre se repite en la línea 2']);
+  });
+
+  /**
+   * Prueba que se marquen los SKU repetidos dentro del archivo.
+   */
+  it('should flag SKUs repeated in the file', () => {
+    const table: ImportTable = { headers: [], rows: [['Mouse', '9.990', '3', 'ACC-1'], ['Teclado', '19.990', '4', 'acc-1']] };
+
+    const rows = buildImportRows(table, mapping, []);
+
+    expect(rows[1].errors).toEqual(['El SKU se repite en la línea 2']);
+  });
+
+  /**
+   * Prueba que el precio se lea en la moneda de la fila o del producto existente.
+   */
+  it('should read the price in the currency of the row or of the existing product', () => {
+    const withCurrency = { ...mapping, currency: 4 };
+    const table: ImportTable = {
+      headers: [],
+      rows: [
+        ['Apple Watch', '379.99', '4', '', ''],
+        ['AirTag', '29.99', '10', 'APL-AIRTAG', 'usd'],
+        ['iPhone 15', '849.990', '10', '', 'CLP']
+      ]
+    };
+
+    const rows = buildImportRows(table, withCurrency, catalog, ['CLP', 'USD']);
+
+    expect(rows[0].product).toEqual({ ...catalog[1], price: { amount: 379.99, currency: 'USD' } });
+    expect(rows[1].product).toEqual({ sku: 'APL-AIRTAG', name: 'AirTag', price: { amount: 29.99, currency: 'USD' }, stock: 10 });
+    expect(rows[2].product).toEqual(catalog[0]);
+    expect(rows.flatMap(row => row.errors)).toEqual([]);
+  });
+
+  /**
+   * Prueba que una fila en CLP devuelva a pesos un producto en otra moneda.
+   */
+  it('should move a product back to the default currency', () => {
+    const table: ImportTable = { headers: [], rows: [['Apple Watch', '379.990', '4', '', 'CLP']] };
+
+    const [row] = buildImportRows(table, { ...mapping, currency: 4 }, catalog, ['CLP', 'USD']);
+
+    expect(row.product).toEqual({ id: 'b3f1', sku: 'APL-WATCH', name: 'Apple Watch', price: { amount: 379990, currency: 'CLP' }, stock: 4, version: 1 });
+  });
+
+  /**
+   * Prueba que se rechacen las monedas sin tipo de cambio.
+   */
+  it('should reject currencies without an exchange rate', () => {
+    const table: ImportTable = { headers: [], rows: [['AirTag', '29,99', '10', 'APL-AIRTAG', 'EUR']] };
+
+    const [row] = buildImportRows(table, { ...mapping, currency: 4 }, catalog, ['CLP', 'USD']);
+
+    expect(row.errors).toEqual(['La moneda EUR no tiene tipo de cambio']);
+  });
+});
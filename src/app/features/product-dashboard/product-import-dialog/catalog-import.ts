@@ -0,0 +1,140 @@
+import { CurrencyCode, DEFAULT_CURRENCY } from '@core/models/money';
+import { Product } from '@core/models/product.interface';
+import { ProductFormField, createProductForm, productFormErrors } from '../product-form';
+import { ColumnMapping, ImportField, ImportTable, parseChileanNumber } from './catalog-parser';
+
+/** Fields that must be mapped to a column before importing */
+export const REQUIRED_FIELDS: ImportField[] = ['name', 'price', 'stock'];
+
+/**
+ * A row of the imported file, ready to preview and import.
+ */
+export interface ImportRow {
+  /** Line of the row in the file, counting the header as line 1 */
+  line: number;
+  /** Product to save, with the ID, version and other fields of `existing` if any */
+  product: Product;
+  /** Product of the catalog this row updates; undefined for a new one */
+  existing?: Product;
+  /** Problems that prevent importing the row */
+  errors: string[];
+}
+
+/**
+ * Lists the required fields that are not mapped to a column.
+ */
+export function missingFields(mapping: ColumnMapping): ImportField[] {
+  return REQUIRED_FIELDS.filter(field => mapping[field] === null);
+}
+
+/**
+ * Turns the rows of a file into products and validates them.
+ * 
+ * Each row is checked with the same rules as the product form.
+ * Rows are matched with the catalog by ID, then by SKU and, failing
+ * that, by name, so a supplier list without our IDs still updates
+ * the existing products instead of duplicating them. The SKU column
+ * is optional for rows that update a product that already has one;
+ * new products need it.
+ * 
+ * Prices are in the currency of the currency column. Rows without
+ * one keep the currency of the product they update, and new products
+ * are priced in CLP.
+ * 
+ * @param table - Rows read from the file
+ * @param mapping - Column that feeds each field
+ * @param catalog - Current products
+ * @param currencies - Currencies with an exchange rate
+ */
+export function buildImportRows(
+  table: ImportTable,
+  mapping: ColumnMapping,
+  catalog: Product[],
+  currencies: CurrencyCode[] = [DEFAULT_CURRENCY]
+): ImportRow[] {
+  const byId = new Map(catalog.map(product => [product.id, product]));
+  const bySku = new Map(catalog.filter(product => product.sku).map(product => [product.sku!.toUpperCase(), product]));
+  const byName = new Map(catalog.map(product => [nameKey(product.name), product]));
+  const seenNames = new Map<string, number>();
+  const seenSkus = new Map<string, number>();
+  const cell = (row: unknown[], field: ImportField) => (mapping[field] === null ? undefined : row[mapping[field]!]);
+
+  return table.rows.map((row, index) => {
+    const line = index + 2;
+    const errors: string[] = [];
+
+    const name = String(cell(row, 'name') ?? '').trim();
+    const rowSku = String(cell(row, 'sku') ?? '').trim().toUpperCase();
+    const price = readNumber(cell(row, 'price'));
+    const stock = readNumber(cell(row, 'stock'));
+    const id = String(cell(row, 'id') ?? '').trim();
+    const existing = (id && byId.get(id)) || (rowSku && bySku.get(rowSku)) || byName.get(nameKey(name));
+    const sku = rowSku || existing?.sku || '';
+    const currency = String(cell(row, 'currency') ?? '').trim().toUpperCase() || existing?.price.currency || DEFAULT_CURRENCY;
+
+    // Cells that are not numbers get their own message instead of the form's
+    const checked: ProductFormField[] = ['sku', 'name'];
+    if (price === undefined) {
+      errors.push('El precio no es un número');
+    } else {
+      checked.push('price');
+    }
+    if (stock === undefined) {
+      errors.push('El stock no es un número');
+    } else if (stock !== null && !Number.isInteger(stock)) {
+      errors.push('El stock debe ser un número entero');
+    } else {
+      checked.push('stock');
+    }
+
+    if (!currencies.includes(currency)) {
+      errors.push(`La moneda ${currency} no tiene tipo de cambio`);
+    }
+
+    const form = createProductForm();
+    form.patchValue({ sku, name, price: price ?? null, stock: stock ?? null });
+    errors.push(...productFormErrors(form, checked));
+
+    const duplicateOf = seenNames.get(nameKey(name));
+    if (name && duplicateOf !== undefined) {
+      errors.push(`El nombre se repite en la línea ${duplicateOf}`);
+    } else if (name) {
+      seenNames.set(nameKey(name), line);
+    }
+
+    const skuDuplicateOf = seenSkus.get(sku);
+    if (sku && skuDuplicateOf !== undefined) {
+      errors.push(`El SKU se repite en la línea ${skuDuplicateOf}`);
+    } else if (sku) {
+      seenSkus.set(sku, line);
+    }
+
+    const values: Product = {
+      sku,
+      name,
+      price: { amount: price ?? NaN, currency },
+      stock: stock ?? NaN
+    };
+    const product = existing ? { ...existing, ...values } : values;
+
+    return { line, product, existing, errors };
+  });
+}
+
+/**
+ * Reads a numeric cell.
+ * 
+ * @returns The number, null for an empty cell, or undefined if the
+ * cell has something that is not a number
+ */
+function readNumber(value: unknown): number | null | undefined {
+  if (value === undefined || value === null || (typeof value === 'string' && value.trim() === '')) {
+    return null;
+  }
+  const number = parseChileanNumber(value);
+  return isNaN(number) ? undefined : number;
+}
+
+function nameKey(name: string): string {
+  return name.trim().toLocaleLowerCase('es-CL');
+}
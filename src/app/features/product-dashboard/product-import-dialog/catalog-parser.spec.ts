@@ -0,0 +1,75 @@
+import { detectDelimiter, guessColumnMapping, parseChileanNumber, parseCsv, readCatalogFile } from './catalog-parser';
+
+/**
+ * Pruebas unitarias para la lectura de archivos de catálogo.
+ * 
+ * Verifica el parseo de CSV y JSON, los números en formato
+ * chileno y la asociación automática de columnas.
+ */
+describe('Catalog parser', () => {
+  /**
+   * Prueba los números con separador de miles y decimales chilenos.
+   */
+  it('should parse Chilean number formats', () => {
+    expect(parseChileanNumber('849.990')).toBe(849990);
+    expect(parseChileanNumber('$ 2.499.990')).toBe(2499990);
+    expect(parseChileanNumber('1.234,5')).toBe(1234.5);
+    expect(parseChileanNumber('12,5')).toBe(12.5);
+    expect(parseChileanNumber('12.5')).toBe(12.5);
+    expect(parseChileanNumber('15')).toBe(15);
+    expect(parseChileanNumber(649990)).toBe(649990);
+    expect(parseChileanNumber('')).toBeNaN();
+    expect(parseChileanNumber('diez')).toBeNaN();
+  });
+
+  /**
+   * Prueba las celdas entre comillas con separadores y comillas internas.
+   */
+  it('should parse quoted CSV cells', () => {
+    expect(parseCsv('nombre;precio\r\n"Cable ""USB-C""; 2m";"4.990"\n\n', ';')).toEqual([
+      ['nombre', 'precio'],
+      ['Cable "USB-C"; 2m', '4.990']
+    ]);
+  });
+
+  /**
+   * Prueba que se detecte el separador de la primera línea.
+   */
+  it('should detect the delimiter', () => {
+    expect(detectDelimiter('nombre;precio;stock\n"a,b";1;2')).toBe(';');
+    expect(detectDelimiter('name,price,stock')).toBe(',');
+    expect(detectDelimiter('name\tprice')).toBe('\t');
+  });
+
+  /**
+   * Prueba que las columnas se asocien por nombre, sin importar tildes ni mayúsculas.
+   */
+  it('should guess the column mapping from headers', () => {
+    expect(guessColumnMapping(['Código', 'Descripción', 'Precio', 'Cantidad', 'Referencia', 'Moneda'])).toEqual({
+      id: 0, sku: 4, name: 1, price: 2, currency: 5, stock: 3
+    });
+    expect(guessColumnMapping(['nombre', 'color']).price).toBeNull();
+  });
+
+  /**
+   * Prueba la lectura de un CSV exportado desde una planilla chilena.
+   */
+  it('should read a semicolon separated CSV file', () => {
+    const table = readCatalogFile('\uFEFFNombre;Precio;Stock\niPhone 15;849.990;10\n', 'proveedor.csv');
+    expect(table.headers).toEqual(['Nombre', 'Precio', 'Stock']);
+    expect(table.rows).toEqual([['iPhone 15', '849.990', '10']]);
+  });
+
+  /**
+   * Prueba la lectura de JSON como lista o con la propiedad products.
+   */
+  it('should read JSON files', () => {
+    const table = readCatalogFile('{"products":[{"name":"iPad Air","price":649990},{"name":"Mouse","stock":3}]}', 'data.json');
+    expect(table.headers).toEqual(['name', 'price', 'stock']);
+    expect(table.rows).toEqual([['iPad Air', 649990, undefined], ['Mouse', undefined, 3]]);
+
+    expect(readCatalogFile('[{"name":"a"}]').rows.length).toBe(1);
+    expect(() => readCatalogFile('{"items":1}', 'data.json')).toThrowError(/lista de productos/);
+    expect(() => readCatalogFile('{nope', 'data.json')).toThrowError(/JSON válido/);
+  });
+});
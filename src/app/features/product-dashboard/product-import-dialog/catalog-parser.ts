@@ -0,0 +1,197 @@
+/**
+ * Product fields that can be read from an imported file.
+ */
+export type ImportField = 'id' | 'sku' | 'name' | 'price' | 'currency' | 'stock';
+
+/**
+ * Column of the file that feeds each field, or null if none does.
+ */
+export type ColumnMapping = Record<ImportField, number | null>;
+
+/**
+ * Rows of an imported file, independent of its format.
+ */
+export interface ImportTable {
+  headers: string[];
+  /** Cell values: strings for CSV, any JSON value for JSON */
+  rows: unknown[][];
+}
+
+/** Header names recognized for each field, normalized */
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  id: ['id', 'codigo', 'code'],
+  sku: ['sku', 'referencia', 'ref', 'codigo sku'],
+  name: ['name', 'nombre', 'producto', 'product', 'descripcion', 'description'],
+  price: ['price', 'precio', 'valor', 'precio clp', 'precio unitario'],
+  currency: ['currency', 'moneda', 'divisa'],
+  stock: ['stock', 'cantidad', 'unidades', 'existencias', 'inventario', 'qty', 'quantity']
+};
+
+/**
+ * Reads a CSV or JSON file into a table.
+ * 
+ * The format is taken from the file extension, or guessed from
+ * the content when the extension is unknown.
+ * 
+ * @param text - Content of the file
+ * @param fileName - Name of the file, used to detect the format
+ * @throws Error with a user-facing message if the file cannot be read
+ */
+export function readCatalogFile(text: string, fileName = ''): ImportTable {
+  const content = text.replace(/^\uFEFF/, '');
+  const isJson = /\.json$/i.test(fileName) || (!/\.csv$/i.test(fileName) && /^\s*[[{]/.test(content));
+  return isJson ? readJson(content) : readCsv(content);
+}
+
+/**
+ * Parses CSV text into rows of cells.
+ * 
+ * Supports quoted cells with embedded delimiters, quotes (`""`)
+ * and line breaks. Blank lines are skipped.
+ * 
+ * @param text - CSV content
+ * @param delimiter - Cell separator
+ */
+export function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+/**
+ * Picks the delimiter of a CSV file from its first line.
+ * 
+ * Spreadsheets configured for Chile export with `;`, because the
+ * comma is the decimal separator.
+ */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const counts = [';', ',', '\t'].map(delimiter => ({
+    delimiter,
+    count: firstLine.split(delimiter).length - 1
+  }));
+  return counts.reduce((best, current) => (current.count > best.count ? current : best)).delimiter;
+}
+
+/**
+ * Parses a number written in Chilean format.
+ * 
+ * Dots separate thousands and the comma separates decimals, so
+ * `849.990` is 849990 and `1.234,5` is 1234.5. Currency symbols
+ * and spaces are ignored. A single dot not followed by groups of
+ * three digits is read as a decimal point (`12.5`).
+ * 
+ * @param value - Cell value
+ * @returns The number, or NaN if the value is not numeric
+ */
+export function parseChileanNumber(value: unknown): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value !== 'string') {
+    return NaN;
+  }
+
+  let text = value.replace(/\$|CLP|\s/gi, '');
+  if (text.includes(',')) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else if (/^-?\d{1,3}(\.\d{3})+$/.test(text)) {
+    text = text.replace(/\./g, '');
+  }
+  return text === '' ? NaN : Number(text);
+}
+
+/**
+ * Guesses which column feeds each field from the header names.
+ * 
+ * @param headers - Header row of the file
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+  for (const field of Object.keys(HEADER_ALIASES) as ImportField[]) {
+    const index = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+    mapping[field] = index === -1 ? null : index;
+  }
+  return mapping;
+}
+
+function readCsv(text: string): ImportTable {
+  const [headers = [], ...rows] = parseCsv(text, detectDelimiter(text));
+  if (headers.length === 0) {
+    throw new Error('El archivo está vacío');
+  }
+  return { headers: headers.map(header => header.trim()), rows: rows.map(row => row.map(unescapeFormula)) };
+}
+
+/**
+ * Removes the `'` the catalog export puts before cells that a
+ * spreadsheet would run as a formula, e.g. `'=SUM(A1)`.
+ */
+function unescapeFormula(cell: string): string {
+  return /^'[=+\-@\t\r]/.test(cell) ? cell.slice(1) : cell;
+}
+
+function readJson(text: string): ImportTable {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('El archivo no es un JSON válido');
+  }
+
+  const records = Array.isArray(data) ? data : (data as { products?: unknown } | null)?.products;
+  if (!Array.isArray(records) || records.some(record => typeof record !== 'object' || record === null)) {
+    throw new Error('El JSON debe ser una lista de productos o un objeto con la propiedad "products"');
+  }
+
+  const headers = [...new Set(records.flatMap(record => Object.keys(record)))];
+  const rows = records.map(record => headers.map(header => (record as Record<string, unknown>)[header]));
+  return { headers, rows };
+}
+
+/**
+ * Lowercases a header and strips accents and extra spaces.
+ */
+function normalizeHeader(header: string): string {
+  return header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ');
+}
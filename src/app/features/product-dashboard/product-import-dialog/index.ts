@@ -0,0 +1,3 @@
+export * from './catalog-import';
+export * from './catalog-parser';
+export * from './product-import-dialog.component';
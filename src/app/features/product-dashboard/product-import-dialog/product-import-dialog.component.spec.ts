@@ -0,0 +1,124 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { of, throwError } from 'rxjs';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { ProductImportDialogComponent } from './product-import-dialog.component';
+import { ProductStore } from '@core/state/product.store';
+import { Product } from '@core/models/product.interface';
+import { CurrencyStore } from '@core/state/currency.store';
+import { ExchangeRateService } from '@core/services/exchange-rate.service';
+
+/**
+ * Pruebas unitarias para ProductImportDialogComponent.
+ * 
+ * Verifica la vista previa de un archivo y que solo se importen
+ * las filas válidas, creando o actualizando según corresponda.
+ */
+describe('ProductImportDialogComponent', () => {
+  let fixture: ComponentFixture<ProductImportDialogComponent>;
+  let component: ProductImportDialogComponent;
+  let store: jasmine.SpyObj<ProductStore>;
+  let activeModal: jasmine.SpyObj<NgbActiveModal>;
+
+  const catalog: Product[] = [
+    { id: 'a7c6', sku: 'APL-IPH15', name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10, version: 2 }
+  ];
+
+  const csv = [
+    'SKU;Nombre;Precio;Cantidad',
+    'APL-IPH15;iPhone 15;799.990;12',
+    'APL-AIRPODS;AirPods Pro;249.990;30',
+    'X1;X;0;1'
+  ].join('\n');
+
+  beforeEach(async () => {
+    store = jasmine.createSpyObj('ProductStore', ['add', 'update'], { products: signal(catalog).asReadonly() });
+    activeModal = jasmine.createSpyObj('NgbActiveModal', ['close', 'dismiss']);
+    const exchangeRateService = jasmine.createSpyObj('ExchangeRateService', ['getExchangeRates']);
+    exchangeRateService.getExchangeRates.and.returnValue(of({ base: 'CLP', rates: { CLP: 1, USD: 950 } }));
+
+    await TestBed.configureTestingModule({
+      imports: [ProductImportDialogComponent],
+      providers: [
+        { provide: ProductStore, useValue: store },
+        { provide: NgbActiveModal, useValue: activeModal },
+        { provide: ExchangeRateService, useValue: exchangeRateService }
+      ]
+    }).compileComponents();
+    TestBed.inject(CurrencyStore).load();
+
+    fixture = TestBed.createComponent(ProductImportDialogComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  /**
+   * Prueba que la vista previa muestre cada fila con sus errores.
+   */
+  it('should preview the rows of a CSV file', () => {
+    component.loadFile('proveedor.csv', csv);
+    fixture.detectChanges();
+
+    const rows = fixture.nativeElement.querySelectorAll('.import-preview tbody tr');
+    expect(rows.length).toBe(3);
+    expect(rows[0].textContent).toContain('Actualiza');
+    expect(rows[1].textContent).toContain('Nuevo');
+    expect(rows[2].classList).toContain('table-danger');
+    expect(fixture.nativeElement.querySelector('.import-counts').textContent).toContain('2 de 3 filas');
+  });
+
+  /**
+   * Prueba que se pida elegir las columnas que no se reconocieron.
+   */
+  it('should ask for the columns it cannot guess', () => {
+    component.loadFile('proveedor.csv', 'Artículo;Precio;Stock;SKU\nMouse;9.990;3;ACC-MOUSE');
+    expect(component.missingLabels).toEqual(['Nombre']);
+    expect(component.rows).toEqual([]);
+
+    component.setColumn('name', 0);
+    expect(component.validRows.length).toBe(1);
+  });
+
+  /**
+   * Prueba que se lea la columna de moneda y se validen las monedas con los tipos de cambio.
+   */
+  it('should read the currency column', () => {
+    component.loadFile('proveedor.csv', 'SKU;Nombre;Precio;Cantidad;Moneda\nAPL-AIRTAG;AirTag;29.99;10;USD\nAPL-PENCIL;Pencil;99,99;5;EUR');
+
+    expect(component.mapping.currency).toBe(4);
+    expect(component.rows[0].product).toEqual({ sku: 'APL-AIRTAG', name: 'AirTag', price: { amount: 29.99, currency: 'USD' }, stock: 10 });
+    expect(component.rows[1].errors).toEqual(['La moneda EUR no tiene tipo de cambio']);
+  });
+
+  /**
+   * Prueba que se informen los archivos ilegibles.
+   */
+  it('should report files that cannot be read', () => {
+    component.loadFile('catalogo.json', '{"items": true}');
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.file-error').textContent).toContain('lista de productos');
+  });
+
+  /**
+   * Prueba que se importen solo las filas válidas, creando o actualizando.
+   */
+  it('should import the valid rows', () => {
+    store.update.and.callFake((id: string, product: Product) => of(product));
+    store.add.and.returnValue(throwError(() => new Error('Server error')));
+    component.loadFile('proveedor.csv', csv);
+
+    component.import();
+    fixture.detectChanges();
+
+    expect(store.update).toHaveBeenCalledWith('a7c6', {
+      id: 'a7c6', sku: 'APL-IPH15', name: 'iPhone 15', price: { amount: 799990, currency: 'CLP' }, stock: 12, version: 2
+    });
+    expect(store.add).toHaveBeenCalledOnceWith({ sku: 'APL-AIRPODS', name: 'AirPods Pro', price: { amount: 249990, currency: 'CLP' }, stock: 30 });
+    expect(component.isDone).toBeTrue();
+    expect(fixture.nativeElement.querySelector('.import-summary').textContent).toContain('1 de 2 importados, 1 con error');
+
+    component.close();
+    expect(activeModal.close).toHaveBeenCalledWith(component.results);
+  });
+});
@@ -0,0 +1,173 @@
+import { Component, DestroyRef, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { NgbActiveModal, NgbProgressbarModule } from '@ng-bootstrap/ng-bootstrap';
+import { CurrencyStore } from '@core/state/currency.store';
+import { ProductStore } from '@core/state/product.store';
+import { MoneyPipe } from '@shared/pipes';
+import { BulkItemResult, runInSequence } from '../product-bulk-dialog';
+import { ImportRow, buildImportRows, missingFields } from './catalog-import';
+import { ColumnMapping, ImportField, ImportTable, guessColumnMapping, readCatalogFile } from './catalog-parser';
+
+/** Fields offered in the column mapping, with their labels */
+const MAPPING_FIELDS: { field: ImportField; label: string }[] = [
+  { field: 'name', label: 'Nombre' },
+  { field: 'price', label: 'Precio' },
+  { field: 'currency', label: 'Moneda (opcional)' },
+  { field: 'stock', label: 'Stock' },
+  { field: 'sku', label: 'SKU' },
+  { field: 'id', label: 'ID (opcional)' }
+];
+
+/**
+ * Dialog that imports products from a CSV or JSON file.
+ * 
+ * The user picks a file, checks which column feeds each field and
+ * reviews a preview where every row is validated with the rules of
+ * the product form. Valid rows are then created, or update the
+ * matching product, one at a time through the ProductStore.
+ * 
+ * Closes with the results of the imported rows.
+ */
+@Component({
+  selector: 'app-product-import-dialog',
+  standalone: true,
+  imports: [CommonModule, FormsModule, NgbProgressbarModule, MoneyPipe],
+  templateUrl: './product-import-dialog.component.html',
+  styleUrl: './product-import-dialog.component.scss'
+})
+export class ProductImportDialogComponent {
+  readonly activeModal = inject(NgbActiveModal);
+  private readonly store = inject(ProductStore);
+  private readonly currencyStore = inject(CurrencyStore);
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly mappingFields = MAPPING_FIELDS;
+
+  fileName = '';
+  fileError = '';
+  table: ImportTable | null = null;
+  mapping: ColumnMapping = { id: null, sku: null, name: null, price: null, currency: null, stock: null };
+  rows: ImportRow[] = [];
+
+  isImporting = false;
+  results: BulkItemResult[] = [];
+
+  /** Rows that pass validation */
+  get validRows(): ImportRow[] {
+    return this.rows.filter(row => row.errors.length === 0);
+  }
+
+  get invalidCount(): number {
+    return this.rows.length - this.validRows.length;
+  }
+
+  /** Labels of required fields without a column */
+  get missingLabels(): string[] {
+    const missing = missingFields(this.mapping);
+    return MAPPING_FIELDS.filter(item => missing.includes(item.field)).map(item => item.label);
+  }
+
+  /** Whether every valid row has been processed */
+  get isDone(): boolean {
+    return this.results.length > 0 && this.results.length === this.validRows.length;
+  }
+
+  get failures(): BulkItemResult[] {
+    return this.results.filter(result => !result.ok);
+  }
+
+  /**
+   * Reads the file chosen in the file input.
+   * 
+   * @param event - Change event of the input
+   */
+  async onFileSelected(event: Event): Promise<void> {
+    const file = (event.target as HTMLInputElement).files?.[0];
+    if (file) {
+      this.loadFile(file.name, await file.text());
+    }
+  }
+
+  /**
+   * Parses the content of a file and guesses the column mapping.
+   * 
+   * @param fileName - Name of the file, used to detect the format
+   * @param text - Content of the file
+   */
+  loadFile(fileName: string, text: string): void {
+    this.fileName = fileName;
+    this.fileError = '';
+    this.results = [];
+
+    try {
+      this.table = readCatalogFile(text, fileName);
+    } catch (error) {
+      this.table = null;
+      this.rows = [];
+      this.fileError = error instanceof Error ? error.message : String(error);
+      return;
+    }
+
+    if (this.table.rows.length === 0) {
+      this.fileError = 'El archivo no tiene filas de productos';
+    }
+    this.mapping = guessColumnMapping(this.table.headers);
+    this.updateRows();
+  }
+
+  /**
+   * Changes the column that feeds a field and validates again.
+   * 
+   * @param field - Field to map
+   * @param column - Index of the column, or null for none
+   */
+  setColumn(field: ImportField, column: number | null): void {
+    this.mapping = { ...this.mapping, [field]: column };
+    this.updateRows();
+  }
+
+  /**
+   * Creates or updates the products of the valid rows.
+   */
+  import(): void {
+    const rows = this.validRows;
+    if (rows.length === 0 || this.isImporting || this.missingLabels.length > 0) {
+      return;
+    }
+
+    const existing = new Map(rows.map(row => [row.product, row.existing]));
+    this.isImporting = true;
+    this.results = [];
+    runInSequence(rows.map(row => row.product), product => {
+      const match = existing.get(product);
+      return match ? this.store.update(match.id!, product) : this.store.add(product);
+    })
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: result => this.results = [...this.results, result],
+        complete: () => this.isImporting = false
+      });
+  }
+
+  /**
+   * Closes the dialog with the results.
+   */
+  close(): void {
+    this.activeModal.close(this.results);
+  }
+
+  /**
+   * Tracking function for the preview rows.
+   */
+  trackByLine(index: number, row: ImportRow): number {
+    return row.line;
+  }
+
+  private updateRows(): void {
+    this.rows = this.table && this.missingLabels.length === 0
+      ? buildImportRows(this.table, this.mapping, this.store.products(), this.currencyStore.currencies())
+      : [];
+  }
+}
@@ -0,0 +1 @@
+export * from './product-report.component';
@@ -0,0 +1,85 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { DOCUMENT } from '@angular/common';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { ProductReportComponent } from './product-report.component';
+import { REORDER_DEFAULTS } from '@core/config/app-config';
+import { Product } from '@core/models/product.interface';
+
+/**
+ * Pruebas unitarias para ProductReportComponent.
+ * 
+ * Verifica que el reporte muestre los productos, los totales
+ * y la fecha de generación, y que permita imprimirlo.
+ */
+describe('ProductReportComponent', () => {
+  let fixture: ComponentFixture<ProductReportComponent>;
+  let component: ProductReportComponent;
+
+  const products: Product[] = [
+    { id: '1', name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10 },
+    { id: '2', name: 'Funda', price: { amount: 9990, currency: 'CLP' }, stock: 3 }
+  ];
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ProductReportComponent],
+      providers: [
+        { provide: NgbActiveModal, useValue: jasmine.createSpyObj('NgbActiveModal', ['dismiss']) },
+        { provide: REORDER_DEFAULTS, useValue: { reorderPoint: 5, reorderQuantity: 20 } }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ProductReportComponent);
+    component = fixture.componentInstance;
+    component.products = products;
+    component.filterLabel = 'Búsqueda: "i"';
+    fixture.detectChanges();
+  });
+
+  /**
+   * Prueba que se calculen los totales y el valor del inventario.
+   */
+  it('should compute the totals of the listed products', () => {
+    expect(component.totals).toEqual({ count: 2, units: 13, value: 8529870 });
+    expect(component.lowStockCount).toBe(1);
+
+    const element: HTMLElement = fixture.nativeElement;
+    expect(element.querySelectorAll('tbody tr').length).toBe(2);
+    expect(element.querySelector('.report-total-value')?.textContent).toContain('$8.529.870');
+  });
+
+  /**
+   * Prueba que los montos se conviertan a la moneda del reporte.
+   */
+  it('should show the amounts in the report currency', () => {
+    component.currency = 'USD';
+    component.rates = { base: 'CLP', rates: { CLP: 1, USD: 1000 } };
+    component.ngOnInit();
+    fixture.detectChanges();
+
+    const cells = Array.from(fixture.nativeElement.querySelectorAll('tbody tr:first-child td')) as HTMLElement[];
+    expect(cells[1].textContent).toContain('US$849.99');
+    expect(fixture.nativeElement.querySelector('.report-total-value')?.textContent).toContain('US$8,529.87');
+  });
+
+  /**
+   * Prueba que se muestren la fecha de generación y el filtro aplicado.
+   */
+  it('should show the generation time and the filter', () => {
+    const meta = fixture.nativeElement.querySelector('.report-meta').textContent;
+    expect(meta).toMatch(/Generado el \d{2}\/\d{2}\/\d{4} \d{2}:\d{2}/);
+    expect(meta).toContain('Búsqueda: "i"');
+  });
+
+  /**
+   * Prueba que el botón abra el diálogo de impresión.
+   */
+  it('should open the print dialog', () => {
+    const window = TestBed.inject(DOCUMENT).defaultView!;
+    spyOn(window, 'print');
+
+    fixture.nativeElement.querySelector('.print-btn').click();
+
+    expect(window.print).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import { Component, Input, OnInit, inject } from '@angular/core';
+import { CommonModule, DOCUMENT } from '@angular/common';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { REORDER_DEFAULTS } from '@core/config/app-config';
+import { CurrencyCode, DEFAULT_EXCHANGE_RATES, ExchangeRates, Money, convertMoney } from '@core/models/money';
+import { Product } from '@core/models/product.interface';
+import { stockLevelOf } from '@core/models/stock-level';
+import { ProductTotals, computeTotals } from '@core/state/product.store';
+import { MoneyPipe } from '@shared/pipes';
+
+/**
+ * Inventory report laid out for printing.
+ * 
+ * Lists the given products with their stock value, followed by
+ * the totals and the time the report was generated. Amounts are
+ * converted to the given currency with the given rates. Opened as a
+ * fullscreen modal; the global print styles hide everything else
+ * on the page, so printing it yields only the report.
+ * 
+ * @example
+ * ```typescript
+ * const modalRef = this.modalService.open(ProductReportComponent, { fullscreen: true });
+ * modalRef.componentInstance.products = this.store.filteredProducts();
+ * modalRef.componentInstance.filterLabel = 'Búsqueda: "notebook"';
+ * modalRef.componentInstance.currency = 'USD';
+ * modalRef.componentInstance.rates = this.currencyStore.rates();
+ * ```
+ */
+@Component({
+  selector: 'app-product-report',
+  standalone: true,
+  imports: [CommonModule, MoneyPipe],
+  templateUrl: './product-report.component.html',
+  styleUrl: './product-report.component.scss'
+})
+export class ProductReportComponent implements OnInit {
+  /** Products included in the report, in display order */
+  @Input() products: Product[] = [];
+  /** Description of the filter applied to the list, if any */
+  @Input() filterLabel = '';
+  /** Currency the amounts are shown in */
+  @Input() currency: CurrencyCode = DEFAULT_EXCHANGE_RATES.base;
+  /** Exchange rates used to convert the prices */
+  @Input() rates: ExchangeRates = DEFAULT_EXCHANGE_RATES;
+
+  readonly activeModal = inject(NgbActiveModal);
+  private readonly document = inject(DOCUMENT);
+  private readonly reorderDefaults = inject(REORDER_DEFAULTS);
+
+  readonly generatedAt = new Date();
+
+  totals: ProductTotals = { count: 0, units: 0, value: 0 };
+  lowStockCount = 0;
+
+  ngOnInit(): void {
+    this.totals = computeTotals(this.products, this.rates);
+    this.lowStockCount = this.products.filter(product => this.isLowOnStock(product)).length;
+  }
+
+  /**
+   * Value of the stock of every listed product, in the report currency.
+   */
+  get totalValue(): Money | null {
+    return convertMoney({ amount: this.totals.value, currency: this.rates.base }, this.currency, this.rates);
+  }
+
+  /**
+   * Unit price of a product, or the value of all its units, in the
+   * report currency.
+   * 
+   * @param product - Product of the row
+   * @param units - Units to price
+   */
+  amountOf(product: Product, units = 1): Money | null {
+    return convertMoney({ ...product.price, amount: product.price.amount * units }, this.currency, this.rates);
+  }
+
+  /**
+   * Whether a product is at or below its reorder point.
+   */
+  isLowOnStock(product: Product): boolean {
+    return stockLevelOf(product, this.reorderDefaults) !== 'ok';
+  }
+
+  /**
+   * Opens the browser's print dialog.
+   */
+  print(): void {
+    this.document.defaultView?.print();
+  }
+}
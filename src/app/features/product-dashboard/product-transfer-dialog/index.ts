@@ -0,0 +1 @@
+export * from './product-transfer-dialog.component';
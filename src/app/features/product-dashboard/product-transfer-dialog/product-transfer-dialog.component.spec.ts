@@ -0,0 +1,126 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { ProductTransferDialogComponent } from './product-transfer-dialog.component';
+import { StockMovementService } from '@core/services/stock-movement.service';
+import { WarehouseService } from '@core/services/warehouse.service';
+import { NotificationService } from '@core/services/notification.service';
+import { ProductStore } from '@core/state/product.store';
+import { WarehouseStore } from '@core/state/warehouse.store';
+import { AppError } from '@core/models/app-error';
+import { Product } from '@core/models/product.interface';
+
+/**
+ * Pruebas unitarias para ProductTransferDialogComponent.
+ * 
+ * Verifica las bodegas propuestas, que no se transfieran más
+ * unidades de las disponibles y que el resultado llegue al store.
+ */
+describe('ProductTransferDialogComponent', () => {
+  let fixture: ComponentFixture<ProductTransferDialogComponent>;
+  let component: ProductTransferDialogComponent;
+  let movementService: jasmine.SpyObj<StockMovementService>;
+  let store: jasmine.SpyObj<ProductStore>;
+  let activeModal: jasmine.SpyObj<NgbActiveModal>;
+  let notificationService: NotificationService;
+
+  const product: Product = {
+    id: '1', name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, stock: 10, version: 1, warehouseStock: { scl: 3, vap: 7 }
+  };
+
+  beforeEach(async () => {
+    movementService = jasmine.createSpyObj('StockMovementService', ['transferStock']);
+    store = jasmine.createSpyObj('ProductStore', ['sync']);
+    activeModal = jasmine.createSpyObj('NgbActiveModal', ['close', 'dismiss']);
+    const warehouseService = jasmine.createSpyObj('WarehouseService', ['getWarehouses']);
+    warehouseService.getWarehouses.and.returnValue(of([
+      { id: 'scl', name: 'Santiago' },
+      { id: 'vap', name: 'Valparaíso' }
+    ]));
+
+    await TestBed.configureTestingModule({
+      imports: [ProductTransferDialogComponent],
+      providers: [
+        { provide: StockMovementService, useValue: movementService },
+        { provide: WarehouseService, useValue: warehouseService },
+        { provide: ProductStore, useValue: store },
+        { provide: NgbActiveModal, useValue: activeModal }
+      ]
+    }).compileComponents();
+
+    TestBed.inject(WarehouseStore).load();
+    fixture = TestBed.createComponent(ProductTransferDialogComponent);
+    component = fixture.componentInstance;
+    component.product = product;
+    notificationService = TestBed.inject(NotificationService);
+    fixture.detectChanges();
+  });
+
+  /**
+   * Prueba que se proponga mover desde la bodega con más unidades.
+   */
+  it('should start from the warehouse with the most units', () => {
+    expect(component.form.controls.fromWarehouseId.value).toBe('vap');
+    expect(component.form.controls.toWarehouseId.value).toBe('scl');
+    expect(component.available).toBe(7);
+  });
+
+  /**
+   * Prueba que no se envíe una transferencia mayor al stock de origen.
+   */
+  it('should not transfer more units than the source holds', () => {
+    component.form.patchValue({ quantity: 8, user: 'Ana' });
+
+    component.onSubmit();
+
+    expect(movementService.transferStock).not.toHaveBeenCalled();
+    expect(component.form.controls.quantity.hasError('exceedsStock')).toBeTrue();
+  });
+
+  /**
+   * Prueba que no se transfiera a la misma bodega.
+   */
+  it('should not transfer to the source warehouse', () => {
+    component.form.patchValue({ toWarehouseId: 'vap', quantity: 2, user: 'Ana' });
+
+    component.onSubmit();
+
+    expect(movementService.transferStock).not.toHaveBeenCalled();
+    expect(component.form.controls.toWarehouseId.hasError('sameWarehouse')).toBeTrue();
+  });
+
+  /**
+   * Prueba que la transferencia actualice el producto y cierre el diálogo.
+   */
+  it('should sync the product and close after a transfer', () => {
+    const moved: Product = { ...product, version: 2, warehouseStock: { scl: 5, vap: 5 } };
+    const result = { movements: [], product: moved };
+    movementService.transferStock.and.returnValue(of(result));
+    component.form.patchValue({ quantity: 2, reason: ' Reposición ', user: 'Ana' });
+
+    component.onSubmit();
+
+    expect(movementService.transferStock).toHaveBeenCalledWith({
+      productId: '1', fromWarehouseId: 'vap', toWarehouseId: 'scl', quantity: 2, reason: 'Reposición', user: 'Ana'
+    });
+    expect(store.sync).toHaveBeenCalledWith(moved);
+    expect(activeModal.close).toHaveBeenCalledWith(result);
+    expect(notificationService.notifications()[0].message).toBe('2 unidades transferidas a Santiago');
+  });
+
+  /**
+   * Prueba que un error deje el diálogo abierto.
+   */
+  it('should stay open when the transfer fails', () => {
+    movementService.transferStock.and.returnValue(
+      throwError(() => new AppError('invalid-data', 'Datos inválidos', 400))
+    );
+    component.form.patchValue({ quantity: 2, user: 'Ana' });
+
+    component.onSubmit();
+
+    expect(activeModal.close).not.toHaveBeenCalled();
+    expect(component.isSaving).toBeFalse();
+    expect(notificationService.notifications()[0].type).toBe('error');
+  });
+});
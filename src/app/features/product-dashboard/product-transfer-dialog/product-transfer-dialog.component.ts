@@ -0,0 +1,118 @@
+import { Component, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { Product } from '@core/models/product.interface';
+import { MAX_MOVEMENT_REASON_LENGTH } from '@core/models/stock-movement.schema';
+import { WarehouseUnits, stockByWarehouse, unitsAt } from '@core/models/warehouse-stock';
+import { NotificationService } from '@core/services/notification.service';
+import { StockMovementService } from '@core/services/stock-movement.service';
+import { ProductStore } from '@core/state/product.store';
+import { WarehouseStore } from '@core/state/warehouse.store';
+
+/**
+ * Dialog that moves units of a product from one warehouse to another.
+ * 
+ * The source starts at the warehouse with the most units and the
+ * destination at the first other one. The server records both sides
+ * of the transfer in a single write; once it does, the product is
+ * updated in the store and the dialog closes with the result.
+ * 
+ * @example
+ * ```typescript
+ * const modalRef = this.modalService.open(ProductTransferDialogComponent);
+ * modalRef.componentInstance.product = product;
+ * ```
+ */
+@Component({
+  selector: 'app-product-transfer-dialog',
+  standalone: true,
+  imports: [CommonModule, ReactiveFormsModule],
+  templateUrl: './product-transfer-dialog.component.html'
+})
+export class ProductTransferDialogComponent implements OnInit {
+  /** Product whose units are moved */
+  product!: Product;
+
+  readonly activeModal = inject(NgbActiveModal);
+  readonly warehouseStore = inject(WarehouseStore);
+  readonly maxReasonLength = MAX_MOVEMENT_REASON_LENGTH;
+
+  readonly form = inject(FormBuilder).nonNullable.group({
+    fromWarehouseId: ['', Validators.required],
+    toWarehouseId: ['', Validators.required],
+    quantity: [1, [Validators.required, Validators.min(1), Validators.pattern(/^\d+$/)]],
+    reason: ['', Validators.maxLength(MAX_MOVEMENT_REASON_LENGTH)],
+    user: ['', Validators.required]
+  });
+
+  isSaving = false;
+
+  private readonly movementService = inject(StockMovementService);
+  private readonly store = inject(ProductStore);
+  private readonly notifications = inject(NotificationService);
+
+  ngOnInit(): void {
+    const [source] = [...this.stock].sort((a, b) => b.units - a.units);
+    const from = source?.warehouse.id ?? '';
+    const to = this.stock.find(({ warehouse }) => warehouse.id !== from)?.warehouse.id ?? '';
+    this.form.patchValue({ fromWarehouseId: from, toWarehouseId: to });
+  }
+
+  /**
+   * Units of the product at every warehouse.
+   */
+  get stock(): WarehouseUnits[] {
+    return stockByWarehouse(this.product, this.warehouseStore.warehouses());
+  }
+
+  /**
+   * Units available at the selected source warehouse.
+   */
+  get available(): number {
+    return unitsAt(this.product, this.form.controls.fromWarehouseId.value);
+  }
+
+  /**
+   * Sends the transfer entered in the form.
+   * 
+   * Moving a warehouse onto itself, or more units than the source
+   * holds, is flagged on the form without calling the server.
+   */
+  onSubmit(): void {
+    const { fromWarehouseId, toWarehouseId, quantity, reason, user } = this.form.getRawValue();
+    if (this.form.valid && fromWarehouseId === toWarehouseId) {
+      this.form.controls.toWarehouseId.setErrors({ sameWarehouse: true });
+    }
+    if (this.form.valid && Number(quantity) > this.available) {
+      this.form.controls.quantity.setErrors({ exceedsStock: true });
+    }
+    if (this.form.invalid) {
+      this.form.markAllAsTouched();
+      return;
+    }
+
+    this.isSaving = true;
+    this.movementService.transferStock({
+      productId: this.product.id!,
+      fromWarehouseId,
+      toWarehouseId,
+      quantity: Number(quantity),
+      ...(reason.trim() && { reason: reason.trim() }),
+      user: user.trim()
+    }).subscribe({
+      next: result => {
+        this.isSaving = false;
+        this.store.sync(result.product);
+        this.notifications.success(
+          `${quantity} ${Number(quantity) === 1 ? 'unidad transferida' : 'unidades transferidas'} a ${this.warehouseStore.nameOf(toWarehouseId)}`
+        );
+        this.activeModal.close(result);
+      },
+      error: (error: unknown) => {
+        this.isSaving = false;
+        this.notifications.error(error, 'No se pudo transferir el stock');
+      }
+    });
+  }
+}
@@ -0,0 +1 @@
+export * from './product-trash-dialog.component';
@@ -0,0 +1,113 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { ProductTrashDialogComponent } from './product-trash-dialog.component';
+import { ProductService } from '@core/services/product.service';
+import { ProductStore } from '@core/state/product.store';
+import { NotificationService } from '@core/services/notification.service';
+import { AppError } from '@core/models/app-error';
+import { Product } from '@core/models/product.interface';
+
+/**
+ * Pruebas unitarias para ProductTrashDialogComponent.
+ * 
+ * Verifica que se listen los productos eliminados y que se
+ * puedan restaurar o eliminar definitivamente.
+ */
+describe('ProductTrashDialogComponent', () => {
+  let fixture: ComponentFixture<ProductTrashDialogComponent>;
+  let component: ProductTrashDialogComponent;
+  let productService: jasmine.SpyObj<ProductService>;
+  let store: jasmine.SpyObj<ProductStore>;
+  let notificationService: NotificationService;
+
+  const deleted: Product[] = [
+    { id: '2', name: 'MacBook Pro', price: { amount: 2499990, currency: 'CLP' }, stock: 5, version: 2, deletedAt: '2024-05-02T09:30:00.000Z' },
+    { id: '3', name: 'iPad Air', price: { amount: 649990, currency: 'CLP' }, stock: 15, version: 2, deletedAt: '2024-05-01T18:00:00.000Z' }
+  ];
+
+  beforeEach(async () => {
+    productService = jasmine.createSpyObj('ProductService', ['getDeletedProducts', 'purgeProduct']);
+    productService.getDeletedProducts.and.returnValue(of(deleted));
+    store = jasmine.createSpyObj('ProductStore', ['restore']);
+
+    await TestBed.configureTestingModule({
+      imports: [ProductTrashDialogComponent],
+      providers: [
+        { provide: ProductService, useValue: productService },
+        { provide: ProductStore, useValue: store },
+        { provide: NgbActiveModal, useValue: jasmine.createSpyObj('NgbActiveModal', ['close', 'dismiss']) }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ProductTrashDialogComponent);
+    component = fixture.componentInstance;
+    notificationService = TestBed.inject(NotificationService);
+    fixture.detectChanges();
+  });
+
+  /**
+   * Prueba que se listen los productos de la papelera.
+   */
+  it('should list the deleted products', () => {
+    const rows = fixture.nativeElement.querySelectorAll('tbody tr');
+    expect(rows.length).toBe(2);
+    expect(rows[0].textContent).toContain('MacBook Pro');
+  });
+
+  /**
+   * Prueba que restaurar use el store y quite el producto de la lista.
+   */
+  it('should restore a product through the store', () => {
+    store.restore.and.returnValue(of({ ...deleted[0], deletedAt: undefined }));
+
+    fixture.nativeElement.querySelector('.restore-btn').click();
+    fixture.detectChanges();
+
+    expect(store.restore).toHaveBeenCalledWith('2');
+    expect(component.products.map(product => product.id)).toEqual(['3']);
+    expect(notificationService.notifications()[0].message).toBe('"MacBook Pro" restaurado');
+  });
+
+  /**
+   * Prueba que un error al restaurar deje el producto en la papelera.
+   */
+  it('should keep the product when the restore fails', () => {
+    store.restore.and.returnValue(throwError(() => new AppError('conflict', 'Ya existe un producto con ese nombre', 409)));
+
+    component.restore(deleted[0]);
+
+    expect(component.products.length).toBe(2);
+    expect(component.busyIds.size).toBe(0);
+    expect(notificationService.notifications()[0].type).toBe('error');
+  });
+
+  /**
+   * Prueba que la eliminación definitiva pida confirmación.
+   */
+  it('should purge a product after confirming', () => {
+    productService.purgeProduct.and.returnValue(of(undefined));
+
+    fixture.nativeElement.querySelector('.purge-btn').click();
+    fixture.detectChanges();
+    expect(productService.purgeProduct).not.toHaveBeenCalled();
+
+    fixture.nativeElement.querySelector('.confirm-purge-btn').click();
+    fixture.detectChanges();
+
+    expect(productService.purgeProduct).toHaveBeenCalledWith('2');
+    expect(component.products.map(product => product.id)).toEqual(['3']);
+  });
+
+  /**
+   * Prueba que se muestre un mensaje cuando la papelera está vacía.
+   */
+  it('should show a message when the trash is empty', () => {
+    productService.getDeletedProducts.and.returnValue(of([]));
+
+    component.loadTrash();
+    fixture.detectChanges();
+
+    expect(fixture.nativeElement.querySelector('.trash-empty')).not.toBeNull();
+  });
+});
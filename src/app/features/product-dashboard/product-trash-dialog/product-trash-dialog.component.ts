@@ -0,0 +1,129 @@
+import { Component, OnInit, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { NgbActiveModal } from '@ng-bootstrap/ng-bootstrap';
+import { Product, ProductId } from '@core/models/product.interface';
+import { AppError, toAppError } from '@core/models/app-error';
+import { NotificationService } from '@core/services/notification.service';
+import { ProductService } from '@core/services/product.service';
+import { ProductStore } from '@core/state/product.store';
+import { MoneyPipe } from '@shared/pipes';
+
+/**
+ * Dialog that lists the deleted products.
+ * 
+ * Each product can be restored to the catalog, through the store so
+ * the dashboard shows it again, or deleted for good after a second
+ * confirmation.
+ * 
+ * @example
+ * ```typescript
+ * this.modalService.open(ProductTrashDialogComponent, { size: 'lg' });
+ * ```
+ */
+@Component({
+  selector: 'app-product-trash-dialog',
+  standalone: true,
+  imports: [CommonModule, MoneyPipe],
+  templateUrl: './product-trash-dialog.component.html'
+})
+export class ProductTrashDialogComponent implements OnInit {
+  readonly activeModal = inject(NgbActiveModal);
+  private readonly productService = inject(ProductService);
+  private readonly store = inject(ProductStore);
+  private readonly notifications = inject(NotificationService);
+
+  products: Product[] = [];
+  isLoading = false;
+  loadError: AppError | null = null;
+  /** IDs of products with a restore or purge in progress */
+  busyIds: ReadonlySet<ProductId> = new Set();
+  /** ID of the product waiting for the purge to be confirmed */
+  purgeCandidate: ProductId | null = null;
+
+  ngOnInit(): void {
+    this.loadTrash();
+  }
+
+  /**
+   * Fetches the deleted products.
+   */
+  loadTrash(): void {
+    this.isLoading = true;
+    this.loadError = null;
+    this.productService.getDeletedProducts().subscribe({
+      next: products => {
+        this.products = products;
+        this.isLoading = false;
+      },
+      error: (error: unknown) => {
+        this.loadError = toAppError(error);
+        this.isLoading = false;
+      }
+    });
+  }
+
+  /**
+   * Moves a product back to the catalog.
+   * 
+   * @param product - Deleted product to restore
+   */
+  restore(product: Product): void {
+    const id = product.id!;
+    this.setBusy(id, true);
+    this.store.restore(id).subscribe({
+      next: () => {
+        this.removeFromList(id);
+        this.notifications.success(`"${product.name}" restaurado`);
+      },
+      error: (error: unknown) => {
+        this.setBusy(id, false);
+        this.notifications.error(error, 'No se pudo restaurar el producto');
+      }
+    });
+  }
+
+  /**
+   * Asks to confirm the permanent deletion of a product.
+   * 
+   * @param id - ID of the product, or null to cancel
+   */
+  askPurge(id: ProductId | null): void {
+    this.purgeCandidate = id;
+  }
+
+  /**
+   * Deletes a product for good.
+   * 
+   * @param product - Deleted product to purge
+   */
+  purge(product: Product): void {
+    const id = product.id!;
+    this.purgeCandidate = null;
+    this.setBusy(id, true);
+    this.productService.purgeProduct(id).subscribe({
+      next: () => {
+        this.removeFromList(id);
+        this.notifications.success(`"${product.name}" eliminado definitivamente`);
+      },
+      error: (error: unknown) => {
+        this.setBusy(id, false);
+        this.notifications.error(error, 'No se pudo eliminar el producto');
+      }
+    });
+  }
+
+  private removeFromList(id: ProductId): void {
+    this.products = this.products.filter(product => product.id !== id);
+    this.setBusy(id, false);
+  }
+
+  private setBusy(id: ProductId, busy: boolean): void {
+    const ids = new Set(this.busyIds);
+    if (busy) {
+      ids.add(id);
+    } else {
+      ids.delete(id);
+    }
+    this.busyIds = ids;
+  }
+}
@@ -0,0 +1,27 @@
+import { Routes } from '@angular/router';
+import { productResolver } from '@core/resolvers/product.resolver';
+import { ProductDashboardComponent } from './product-dashboard.component';
+import { ProductDetailComponent } from './product-detail';
+import { ProductEditorComponent } from './product-editor';
+
+/**
+ * Routes of the product feature, lazy-loaded under `/productos`.
+ * 
+ * `nuevo` is declared before `:id` so it is not read as a product ID.
+ */
+export const PRODUCT_ROUTES: Routes = [
+  { path: '', component: ProductDashboardComponent, title: 'Productos' },
+  { path: 'nuevo', component: ProductEditorComponent, title: 'Nuevo producto' },
+  {
+    path: ':id',
+    component: ProductDetailComponent,
+    resolve: { product: productResolver },
+    title: 'Detalle del producto'
+  },
+  {
+    path: ':id/editar',
+    component: ProductEditorComponent,
+    resolve: { product: productResolver },
+    title: 'Editar producto'
+  }
+];
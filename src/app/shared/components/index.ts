@@ -0,0 +1,10 @@
+/**
+ * Exportaciones del módulo Shared - Components
+ * 
+ * Este archivo centraliza todas las exportaciones de componentes
+ * reutilizables que pueden ser utilizados en múltiples features.
+ */
+
+export * from './toast-container';
+export * from './offline-banner';
+export * from './stock-badge';
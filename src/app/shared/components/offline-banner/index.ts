@@ -0,0 +1 @@
+export * from './offline-banner.component';
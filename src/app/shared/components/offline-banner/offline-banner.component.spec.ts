@@ -0,0 +1,48 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { signal } from '@angular/core';
+import { OfflineBannerComponent } from './offline-banner.component';
+import { ConnectivityService } from '@core/services/connectivity.service';
+
+/**
+ * Pruebas unitarias para OfflineBannerComponent.
+ * 
+ * Verifica que el aviso solo se muestre mientras no hay conexión.
+ */
+describe('OfflineBannerComponent', () => {
+  let fixture: ComponentFixture<OfflineBannerComponent>;
+  const online = signal(true);
+
+  beforeEach(async () => {
+    online.set(true);
+
+    await TestBed.configureTestingModule({
+      imports: [OfflineBannerComponent],
+      providers: [
+        { provide: ConnectivityService, useValue: { online: online.asReadonly() } }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(OfflineBannerComponent);
+    fixture.detectChanges();
+  });
+
+  /**
+   * Prueba que el aviso esté oculto con conexión.
+   */
+  it('should be hidden while online', () => {
+    expect(fixture.nativeElement.querySelector('.offline-banner')).toBeNull();
+  });
+
+  /**
+   * Prueba que el aviso aparezca y desaparezca con la conexión.
+   */
+  it('should show while offline', () => {
+    online.set(false);
+    fixture.detectChanges();
+    expect(fixture.nativeElement.querySelector('.offline-banner').textContent).toContain('Sin conexión');
+
+    online.set(true);
+    fixture.detectChanges();
+    expect(fixture.nativeElement.querySelector('.offline-banner')).toBeNull();
+  });
+});
@@ -0,0 +1,20 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ConnectivityService } from '@core/services/connectivity.service';
+
+/**
+ * Banner shown at the top of the page while the browser is offline.
+ * 
+ * Placed once in the root component; it hides itself as soon as
+ * the connection comes back.
+ */
+@Component({
+  selector: 'app-offline-banner',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './offline-banner.component.html',
+  styleUrl: './offline-banner.component.scss'
+})
+export class OfflineBannerComponent {
+  readonly connectivity = inject(ConnectivityService);
+}
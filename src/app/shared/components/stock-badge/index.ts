@@ -0,0 +1 @@
+export * from './stock-badge.component';
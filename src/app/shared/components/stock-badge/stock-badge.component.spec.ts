@@ -0,0 +1,56 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { StockBadgeComponent } from './stock-badge.component';
+import { REORDER_DEFAULTS } from '@core/config/app-config';
+import { Product } from '@core/models/product.interface';
+
+/**
+ * Pruebas unitarias para StockBadgeComponent.
+ *
+ * Verifica el color y el texto del indicador según el punto de
+ * reorden del producto o el valor por defecto.
+ */
+describe('StockBadgeComponent', () => {
+  let fixture: ComponentFixture<StockBadgeComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [StockBadgeComponent],
+      providers: [{ provide: REORDER_DEFAULTS, useValue: { reorderPoint: 10, reorderQuantity: 20 } }]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(StockBadgeComponent);
+  });
+
+  function render(product: Partial<Product>): HTMLElement {
+    fixture.componentRef.setInput('product', { id: '1', name: 'iPhone 15', price: { amount: 849990, currency: 'CLP' }, ...product });
+    fixture.detectChanges();
+    return fixture.nativeElement.querySelector('.stock-badge');
+  }
+
+  /**
+   * Prueba que un producto sin unidades se muestre agotado.
+   */
+  it('should show out of stock products in red', () => {
+    const badge = render({ stock: 0 });
+    expect(badge.classList).toContain('bg-danger');
+    expect(badge.textContent?.trim()).toBe('Agotado');
+  });
+
+  /**
+   * Prueba que el stock en el punto de reorden por defecto se destaque.
+   */
+  it('should warn at the default reorder point', () => {
+    const badge = render({ stock: 10 });
+    expect(badge.classList).toContain('bg-warning');
+    expect(badge.getAttribute('title')).toBe('Punto de reorden: 10 unidades');
+  });
+
+  /**
+   * Prueba que se use el punto de reorden del producto.
+   */
+  it('should use the reorder point of the product', () => {
+    const badge = render({ stock: 10, reorderPoint: 4 });
+    expect(badge.classList).toContain('bg-success');
+    expect(badge.textContent).toContain('10');
+  });
+});
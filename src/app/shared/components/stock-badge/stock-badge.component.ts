@@ -0,0 +1,33 @@
+import { Component, Input, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { REORDER_DEFAULTS } from '@core/config/app-config';
+import { Product } from '@core/models/product.interface';
+import { StockLevel, reorderPolicyOf, stockLevelOf } from '@core/models/stock-level';
+
+/**
+ * Badge with the units in stock of a product, colored by its stock
+ * level: green above the reorder point, yellow at or below it and
+ * red with "Agotado" when no units are left.
+ * 
+ * Products without their own reorder point use the default of the
+ * app configuration.
+ */
+@Component({
+  selector: 'app-stock-badge',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './stock-badge.component.html'
+})
+export class StockBadgeComponent {
+  @Input({ required: true }) product!: Product;
+
+  private readonly defaults = inject(REORDER_DEFAULTS);
+
+  get level(): StockLevel {
+    return stockLevelOf(this.product, this.defaults);
+  }
+
+  get reorderPoint(): number {
+    return reorderPolicyOf(this.product, this.defaults).reorderPoint;
+  }
+}
@@ -0,0 +1,68 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ToastContainerComponent } from './toast-container.component';
+import { NotificationService } from '@core/services/notification.service';
+
+/**
+ * Pruebas unitarias para ToastContainerComponent.
+ * 
+ * Verifica que las notificaciones del servicio se muestren
+ * como toasts y que se puedan cerrar.
+ */
+describe('ToastContainerComponent', () => {
+  let fixture: ComponentFixture<ToastContainerComponent>;
+  let notificationService: NotificationService;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ToastContainerComponent]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ToastContainerComponent);
+    notificationService = TestBed.inject(NotificationService);
+  });
+
+  /**
+   * Prueba que se renderice un toast por notificación.
+   */
+  it('should render one toast per notification', () => {
+    notificationService.success('Producto eliminado');
+    notificationService.error(new Error('boom'), 'No se pudo guardar');
+    fixture.detectChanges();
+
+    const toasts = fixture.nativeElement.querySelectorAll('ngb-toast');
+    expect(toasts.length).toBe(2);
+    expect(toasts[0].classList).toContain('text-bg-success');
+    expect(toasts[1].textContent).toContain('No se pudo guardar');
+  });
+
+  /**
+   * Prueba que el botón de cerrar elimine la notificación.
+   */
+  it('should dismiss a notification when closed', () => {
+    notificationService.info('Hola');
+    fixture.detectChanges();
+
+    fixture.nativeElement.querySelector('.btn-close').click();
+    fixture.detectChanges();
+
+    expect(notificationService.notifications()).toEqual([]);
+    expect(fixture.nativeElement.querySelectorAll('ngb-toast').length).toBe(0);
+  });
+
+  /**
+   * Prueba que el botón de acción ejecute la acción de la notificación.
+   */
+  it('should run the action of a notification', () => {
+    const run = jasmine.createSpy('run');
+    notificationService.withAction('Producto eliminado', { label: 'Deshacer', run });
+    fixture.detectChanges();
+
+    const button: HTMLButtonElement = fixture.nativeElement.querySelector('.toast-action');
+    expect(button.textContent).toContain('Deshacer');
+    button.click();
+    fixture.detectChanges();
+
+    expect(run).toHaveBeenCalled();
+    expect(notificationService.notifications()).toEqual([]);
+  });
+});
@@ -0,0 +1,48 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { NgbToastModule } from '@ng-bootstrap/ng-bootstrap';
+import { AppNotification, NotificationService, NotificationType } from '@core/services/notification.service';
+
+/** Bootstrap classes and icon for each type of notification */
+const TOAST_STYLES: Record<NotificationType, { classes: string; icon: string }> = {
+  success: { classes: 'text-bg-success', icon: 'bi-check-circle' },
+  error: { classes: 'text-bg-danger', icon: 'bi-exclamation-octagon' },
+  warning: { classes: 'text-bg-warning', icon: 'bi-exclamation-triangle' },
+  info: { classes: 'text-bg-info', icon: 'bi-info-circle' }
+};
+
+/**
+ * Renders the notifications of NotificationService as toasts.
+ * 
+ * Placed once in the root component; features never use it directly.
+ */
+@Component({
+  selector: 'app-toast-container',
+  standalone: true,
+  imports: [CommonModule, NgbToastModule],
+  templateUrl: './toast-container.component.html',
+  styleUrl: './toast-container.component.scss'
+})
+export class ToastContainerComponent {
+  readonly notificationService = inject(NotificationService);
+
+  /**
+   * Bootstrap classes and icon for a notification.
+   * 
+   * @param notification - Notification to style
+   */
+  styleOf(notification: AppNotification): { classes: string; icon: string } {
+    return TOAST_STYLES[notification.type];
+  }
+
+  /**
+   * Tracking function to optimize *ngFor performance.
+   * 
+   * @param index - Index of the element in the array
+   * @param notification - Current notification
+   * @returns Unique ID of the notification
+   */
+  trackByNotificationId(index: number, notification: AppNotification): number {
+    return notification.id;
+  }
+}
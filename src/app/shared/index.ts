@@ -5,7 +5,7 @@
  * incluyendo componentes, pipes, directivas y otros elementos reutilizables.
  */
 
-// export * from './components';
+export * from './components';
 export * from './pipes';
 // export * from './directives';
 
@@ -5,7 +5,10 @@
  * personalizados que pueden ser utilizados en múltiples features.
  */
 
-export * from './clp-currency.pipe';
+export * from './money.pipe';
+export * from './product-status.pipe';
+export * from './stock-movement-type.pipe';
+export * from './tax-category.pipe';
 
 // Placeholder para futuros pipes compartidos
 // export * from './safe-html.pipe';
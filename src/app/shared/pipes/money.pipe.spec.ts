@@ -0,0 +1,55 @@
+import { MoneyPipe } from './money.pipe';
+
+/**
+ * Pruebas unitarias para MoneyPipe.
+ * 
+ * Verifica que los pesos chilenos se formateen como lo hacía el
+ * pipe clpCurrency y que cada moneda use sus decimales, su idioma
+ * y un símbolo que no se confunda con el peso.
+ */
+describe('MoneyPipe', () => {
+  let pipe: MoneyPipe;
+
+  beforeEach(() => {
+    pipe = new MoneyPipe();
+  });
+
+  /**
+   * Prueba que los números sin moneda se formateen como pesos chilenos.
+   */
+  it('should format plain numbers as Chilean pesos', () => {
+    expect(pipe.transform(0)).toBe('$0');
+    expect(pipe.transform(100)).toBe('$100');
+    expect(pipe.transform(849990)).toBe('$849.990');
+    expect(pipe.transform(1234567.8)).toBe('$1.234.568');
+    expect(pipe.transform(-12)).toBe('$-12');
+    expect(pipe.transform({ amount: 849990, currency: 'CLP' })).toBe('$849.990');
+  });
+
+  /**
+   * Prueba que cada moneda use sus decimales y el idioma de su país.
+   */
+  it('should format each currency in its own locale', () => {
+    expect(pipe.transform(3499.5, 'PEN')).toBe('S/\u00A03,499.50');
+    expect(pipe.transform({ amount: 1299, currency: 'USD' }, undefined, 'es-CL')).toBe('US$1.299,00');
+  });
+
+  /**
+   * Prueba que solo el peso chileno se muestre con un "$" solo.
+   */
+  it('should not show other currencies with a bare dollar sign', () => {
+    expect(pipe.transform({ amount: 1299, currency: 'USD' })).toBe('US$1,299.00');
+    expect(pipe.transform({ amount: 1299, currency: 'USD' }, undefined, 'en-US')).toBe('US$1,299.00');
+    expect(pipe.transform({ amount: 1299.5, currency: 'ARS' })).toBe('ARS\u00A01.299,50');
+  });
+
+  /**
+   * Prueba que un monto ausente se muestre como cero, igual que clpCurrency.
+   */
+  it('should show a missing amount as zero', () => {
+    expect(pipe.transform(null)).toBe('$0');
+    expect(pipe.transform(undefined)).toBe('$0');
+    expect(pipe.transform(NaN)).toBe('$0');
+    expect(pipe.transform(null, 'USD')).toBe('US$0.00');
+  });
+});
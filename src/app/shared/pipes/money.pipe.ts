@@ -0,0 +1,62 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { CurrencyCode, DEFAULT_CURRENCY, Money, localeOf } from '@core/models/money';
+
+/** Formatters already built, by locale and currency */
+const formatters = new Map<string, Intl.NumberFormat>();
+
+@Pipe({
+  name: 'money',
+  standalone: true
+})
+export class MoneyPipe implements PipeTransform {
+
+  /**
+   * Formats an amount in any currency, e.g. `$849.990` for CLP,
+   * `US$1,299.00` for USD or `S/ 3,499.00` for PEN.
+   * 
+   * Each currency uses the number of decimals it is quoted with and,
+   * by default, the locale of the country that issues it. Only CLP is
+   * shown with a bare `$`: other currencies that use it in their own
+   * locale, like USD, get their Chilean symbol instead (`US$`), so
+   * amounts cannot be mistaken for pesos.
+   * 
+   * Plain numbers are taken as CLP unless a currency is given. A
+   * missing amount is shown as zero, e.g. `$0`, like the former
+   * `clpCurrency` pipe.
+   * 
+   * @param value - Amount with its currency, or a plain number
+   * @param currency - Currency of a plain number; a Money value carries its own
+   * @param locale - Locale to format in, e.g. `es-CL`
+   * @returns The formatted amount
+   */
+  transform(value: Money | number | null | undefined, currency: CurrencyCode = DEFAULT_CURRENCY, locale?: string): string {
+    const money = typeof value === 'number' || value === null || value === undefined
+      ? { amount: value ?? 0, currency }
+      : value;
+    const amount = isNaN(money.amount) ? 0 : money.amount;
+    return formatterFor(locale ?? localeOf(money.currency), money.currency)
+      .formatToParts(amount)
+      .map(part => (part.type === 'currency' ? symbolOf(money.currency, part.value) : part.value))
+      .join('');
+  }
+}
+
+/**
+ * Symbol to show for a currency, given the one of the locale.
+ */
+function symbolOf(currency: CurrencyCode, symbol: string): string {
+  if (symbol !== '$' || currency === DEFAULT_CURRENCY) {
+    return symbol;
+  }
+  return formatterFor(localeOf(DEFAULT_CURRENCY), currency).formatToParts(0).find(part => part.type === 'currency')!.value;
+}
+
+function formatterFor(locale: string, currency: CurrencyCode): Intl.NumberFormat {
+  const key = `${locale}|${currency}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, { style: 'currency', currency });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
@@ -0,0 +1,32 @@
+import { ProductStatusPipe } from './product-status.pipe';
+
+/**
+ * Pruebas unitarias para ProductStatusPipe.
+ * 
+ * Verifica que cada estado de publicación se muestre con su
+ * nombre en español.
+ */
+describe('ProductStatusPipe', () => {
+  let pipe: ProductStatusPipe;
+
+  beforeEach(() => {
+    pipe = new ProductStatusPipe();
+  });
+
+  /**
+   * Prueba que cada estado tenga su etiqueta.
+   */
+  it('should translate every status', () => {
+    expect(pipe.transform('active')).toBe('Activo');
+    expect(pipe.transform('draft')).toBe('Borrador');
+    expect(pipe.transform('archived')).toBe('Archivado');
+  });
+
+  /**
+   * Prueba que un producto sin estado se muestre como activo.
+   */
+  it('should treat a missing status as active', () => {
+    expect(pipe.transform(undefined)).toBe('Activo');
+    expect(pipe.transform(null)).toBe('Activo');
+  });
+});
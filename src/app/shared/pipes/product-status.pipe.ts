@@ -0,0 +1,26 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { ProductStatus } from '@core/models/product.interface';
+
+/** Name shown to the user for each product status */
+const STATUS_LABELS: Record<ProductStatus, string> = {
+  active: 'Activo',
+  draft: 'Borrador',
+  archived: 'Archivado'
+};
+
+@Pipe({
+  name: 'productStatus',
+  standalone: true
+})
+export class ProductStatusPipe implements PipeTransform {
+
+  /**
+   * Transforms a product status into its Spanish label.
+   * 
+   * @param value - Status of the product; a missing one means active
+   * @returns Label of the status
+   */
+  transform(value: ProductStatus | null | undefined): string {
+    return STATUS_LABELS[value ?? 'active'];
+  }
+}
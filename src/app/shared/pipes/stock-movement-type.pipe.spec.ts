@@ -0,0 +1,22 @@
+import { StockMovementTypePipe } from './stock-movement-type.pipe';
+
+/**
+ * Pruebas unitarias para StockMovementTypePipe.
+ * 
+ * Verifica que cada tipo de movimiento de stock se muestre con su
+ * nombre en español.
+ */
+describe('StockMovementTypePipe', () => {
+  /**
+   * Prueba que cada tipo tenga su etiqueta.
+   */
+  it('should translate every type', () => {
+    const pipe = new StockMovementTypePipe();
+    expect(pipe.transform('receipt')).toBe('Recepción');
+    expect(pipe.transform('sale')).toBe('Venta');
+    expect(pipe.transform('adjustment')).toBe('Ajuste');
+    expect(pipe.transform('return')).toBe('Devolución');
+    expect(pipe.transform('damage')).toBe('Merma');
+    expect(pipe.transform('transfer')).toBe('Transferencia');
+  });
+});
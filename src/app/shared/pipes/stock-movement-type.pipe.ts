@@ -0,0 +1,29 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { StockMovementType } from '@core/models/stock-movement.interface';
+
+/** Name shown to the user for each type of stock movement */
+const TYPE_LABELS: Record<StockMovementType, string> = {
+  receipt: 'Recepción',
+  sale: 'Venta',
+  adjustment: 'Ajuste',
+  return: 'Devolución',
+  damage: 'Merma',
+  transfer: 'Transferencia'
+};
+
+@Pipe({
+  name: 'stockMovementType',
+  standalone: true
+})
+export class StockMovementTypePipe implements PipeTransform {
+
+  /**
+   * Transforms a type of stock movement into its Spanish label.
+   * 
+   * @param value - Type of the movement
+   * @returns Label of the type
+   */
+  transform(value: StockMovementType): string {
+    return TYPE_LABELS[value];
+  }
+}
@@ -0,0 +1,24 @@
+import { TaxCategoryPipe } from './tax-category.pipe';
+
+/**
+ * Pruebas unitarias para TaxCategoryPipe.
+ * 
+ * Verifica que cada categoría tributaria se muestre con su
+ * nombre en español.
+ */
+describe('TaxCategoryPipe', () => {
+  let pipe: TaxCategoryPipe;
+
+  beforeEach(() => {
+    pipe = new TaxCategoryPipe();
+  });
+
+  /**
+   * Prueba que cada categoría tenga su etiqueta y que sin categoría el producto esté afecto.
+   */
+  it('should translate every tax category', () => {
+    expect(pipe.transform('standard')).toBe('Afecto a IVA');
+    expect(pipe.transform('exempt')).toBe('Exento de IVA');
+    expect(pipe.transform(undefined)).toBe('Afecto a IVA');
+  });
+});
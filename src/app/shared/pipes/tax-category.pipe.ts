@@ -0,0 +1,25 @@
+import { Pipe, PipeTransform } from '@angular/core';
+import { TaxCategory } from '@core/models/product.interface';
+
+/** Name shown to the user for each tax category */
+const TAX_CATEGORY_LABELS: Record<TaxCategory, string> = {
+  standard: 'Afecto a IVA',
+  exempt: 'Exento de IVA'
+};
+
+@Pipe({
+  name: 'taxCategory',
+  standalone: true
+})
+export class TaxCategoryPipe implements PipeTransform {
+
+  /**
+   * Transforms a tax category into its Spanish label.
+   * 
+   * @param value - Tax category of the product; a missing one means standard
+   * @returns Label of the tax category
+   */
+  transform(value: TaxCategory | null | undefined): string {
+    return TAX_CATEGORY_LABELS[value ?? 'standard'];
+  }
+}
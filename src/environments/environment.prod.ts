@@ -0,0 +1,15 @@
+/**
+ * Build-time settings for production.
+ *
+ * See environment.ts for the meaning of each value.
+ */
+export const environment = {
+  production: true,
+  apiBaseUrl: '/api',
+  requestTimeoutMs: 10000,
+  retryAttempts: 3,
+  retryDelayMs: 1000,
+  defaultReorderPoint: 10,
+  defaultReorderQuantity: 20,
+  taxRate: 0.19
+};
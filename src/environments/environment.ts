@@ -0,0 +1,24 @@
+/**
+ * Build-time settings for development.
+ *
+ * Replaced by environment.prod.ts in production builds. Values that
+ * change between deployments belong in public/config.json instead,
+ * which is read at startup and overrides these defaults.
+ */
+export const environment = {
+  production: false,
+  /** Base URL of the REST API, relative to the app origin or absolute */
+  apiBaseUrl: '/api',
+  /** Milliseconds before an API request is aborted */
+  requestTimeoutMs: 10000,
+  /** Times a failed GET is retried before giving up */
+  retryAttempts: 2,
+  /** Delay before the first retry; it doubles on each further attempt */
+  retryDelayMs: 500,
+  /** Units at or below which a product without its own reorder point is low on stock */
+  defaultReorderPoint: 10,
+  /** Units to order for a product without its own reorder quantity */
+  defaultReorderQuantity: 20,
+  /** IVA rate included in the price of taxed products, as a fraction */
+  taxRate: 0.19
+};
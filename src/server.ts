@@ -7,6 +7,7 @@ import {
 import express from 'express';
 import { dirname, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import { createApiRouter } from './api';
 
 const serverDistFolder = dirname(fileURLToPath(import.meta.url));
 const browserDistFolder = resolve(serverDistFolder, '../browser');
@@ -15,16 +16,18 @@ const app = express();
 const angularApp = new AngularNodeAppEngine();
 
 /**
- * Example Express Rest API endpoints can be defined here.
- * Uncomment and define endpoints as necessary.
- *
- * Example:
- * ```ts
- * app.get('/api/**', (req, res) => {
- *   // Handle API request
- * });
- * ```
+ * REST API for the product catalog.
+ * Data is stored in the JSON file set by the `DB_FILE` environment variable,
+ * or `db.json` in the working directory. Fixture sets for the reset endpoint
+ * are read from `FIXTURES_DIR`, or `fixtures/` in the working directory.
  */
+app.use(
+  '/api',
+  createApiRouter({
+    dataFile: process.env['DB_FILE'] || resolve(process.cwd(), 'db.json'),
+    fixturesDir: process.env['FIXTURES_DIR'] || resolve(process.cwd(), 'fixtures'),
+  }),
+);
 
 /**
  * Serve static files from /browser